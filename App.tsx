@@ -1,11 +1,44 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import Peer, { DataConnection } from 'peerjs';
-import { AppState } from './types.ts';
+import React, { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import Peer from 'peerjs';
+import { AppState, Contact, FileTransfer, MessageStatus } from './types.ts';
+import { ProtocolIssue } from './services/protocol.ts';
+import { CallSession } from './services/callSession.ts';
+import { CallSounds } from './services/callSounds.ts';
+import { followCallNotifications } from './services/callNotifications.ts';
+import { keepScreenOn } from './services/wakeLock.ts';
+import { MatchmakingClient } from './services/matchmaking.ts';
+import { MAX_INTERESTS, normalizeInterests } from './services/matchmakingProtocol.ts';
+import { RoomClient } from './services/rooms.ts';
+import { AppShell } from './services/appShell.ts';
+import { PushAlerts } from './services/pushAlerts.ts';
+import { AudioLevelMonitor } from './services/audioLevels.ts';
+import { MockVoiceAgentProvider } from './services/mockVoiceAgent.ts';
+import { StubCaptionProvider } from './services/stubCaptions.ts';
+import { HistoryStore } from './services/historyStore.ts';
+import { BlockList } from './services/blockList.ts';
+import { DeviceIdentity } from './services/identity.ts';
+import { loadNetworkSettings, peerOptions } from './services/networkSettings.ts';
+import { parseInvite } from './services/invites.ts';
+import { VerificationStatus } from './services/peerVerification.ts';
+import { i18n, Message, msg } from './services/i18n.ts';
+import { LOCALES, Locale, MessageKey } from './locales/index.ts';
+import { useHistory } from './hooks/useHistory.ts';
+import { useMediaDevices } from './hooks/useMediaDevices.ts';
+import { useI18n } from './hooks/useI18n.ts';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import SaveContactForm from './components/SaveContactForm.tsx';
+import CallStatsOverlay, { SignalBars } from './components/CallStatsOverlay.tsx';
+import DevicePicker, { canSelectOutput, DeviceKind } from './components/DevicePicker.tsx';
+import FileTransferCard from './components/FileTransferCard.tsx';
+import NetworkSettingsPanel from './components/NetworkSettingsPanel.tsx';
+import ParticipantTile from './components/ParticipantTile.tsx';
+import SafetyNumberPanel from './components/SafetyNumberPanel.tsx';
+import SharePanel from './components/SharePanel.tsx';
+import QrScanner from './components/QrScanner.tsx';
 
-const APP_PREFIX = 'anyone-v28-'; // نسخة جديدة لتجنب تداخل البيانات القديمة
-const MAX_SLOTS = 8; 
-const MATCH_TIMEOUT = 30;
+const MATCHMAKER_URL = process.env.MATCHMAKER_URL || `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:9001`;
+const PUSH_RELAY_URL = process.env.PUSH_RELAY_URL || `${location.protocol}//${location.hostname}:9002`;
 
 const LANGUAGES = [
   { code: 'ar', name: 'العربية', flag: '🇸🇦' },
@@ -15,68 +48,264 @@ const LANGUAGES = [
   { code: 'pt', name: 'Português', flag: '🇧🇷' },
 ];
 
-const getPersistentNumericId = () => {
-  const storageKey = 'anyone_device_id';
-  let savedId = localStorage.getItem(storageKey);
-  if (!savedId) {
-    savedId = Math.floor(10000000 + Math.random() * 90000000).toString();
-    localStorage.setItem(storageKey, savedId);
+// المعرف العشوائي القديم يبقى لمن لديه واحد حتى تصله جهات اتصاله، والأجهزة الجديدة تشتق معرفها من مفتاحها
+const deviceIdentity = DeviceIdentity.load(localStorage.getItem('anyone_device_id'));
+const blockList = new BlockList();
+const pushAlerts = new PushAlerts(PUSH_RELAY_URL, deviceIdentity, blockList, () => i18n.getSnapshot().locale);
+
+const createSession = () => new CallSession({
+  identity: deviceIdentity,
+  createPeer: (id) => new Peer(id, peerOptions(loadNetworkSettings())),
+  getUserMedia: (constraints) => navigator.mediaDevices.getUserMedia(constraints),
+  getDisplayMedia: navigator.mediaDevices?.getDisplayMedia ? (options) => navigator.mediaDevices.getDisplayMedia(options) : undefined,
+  matchmaker: new MatchmakingClient(MATCHMAKER_URL),
+  rooms: new RoomClient(MATCHMAKER_URL),
+  // مزوّد محلي تجريبي إلى أن يُربط نموذج صوتي حقيقي بنفس الواجهة
+  voiceAgent: new MockVoiceAgentProvider(),
+  captions: new StubCaptionProvider(),
+  blockList,
+  callAlerts: pushAlerts,
+});
+
+const historyStore = new HistoryStore();
+const appShell = new AppShell();
+const callSounds = new CallSounds();
+
+const KEEP_TRANSCRIPT_KEY = 'anyone_keep_transcript';
+const CROSS_LANGUAGE_KEY = 'anyone_cross_language';
+const INTERESTS_KEY = 'anyone_interests';
+const DEVICES_KEY = 'anyone_devices';
+
+const loadInterests = () => {
+  try {
+    return normalizeInterests(JSON.parse(localStorage.getItem(INTERESTS_KEY) || '[]'));
+  } catch {
+    return [];
+  }
+};
+
+const loadDevices = (): Record<DeviceKind, string | null> => {
+  try {
+    return { audioinput: null, videoinput: null, audiooutput: null, ...JSON.parse(localStorage.getItem(DEVICES_KEY) || '{}') };
+  } catch {
+    return { audioinput: null, videoinput: null, audiooutput: null };
   }
-  return savedId;
 };
 
+const STATUS_TICKS: Record<MessageStatus, string> = { sent: '✓', delivered: '✓✓', read: '✓✓' };
+
+const VERIFICATION_LABELS: Record<VerificationStatus, MessageKey> = {
+  pending: 'verification.pending',
+  verified: 'verification.verified',
+  unpinned: 'verification.unpinned',
+  'key-changed': 'verification.keyChanged',
+  failed: 'verification.failed',
+};
+
+// شكل ثابت لأعمدة المؤشر، يضربه مستوى الصوت الحقيقي
+const BAR_SHAPE = [0.45, 0.7, 0.9, 1, 0.9, 0.7, 0.45];
+
+const languageOf = (code: string | null) => LANGUAGES.find(l => l.code === code);
+
+const CLOCK_FORMAT: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [selectedLang, setSelectedLang] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [statusMsg, setStatusMsg] = useState<string>('');
-  const [matchTimer, setMatchTimer] = useState(MATCH_TIMEOUT);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [isVideoActive, setIsVideoActive] = useState(false);
+  const [session] = useState(createSession);
+  const { t, locale, formatNumber, formatDuration, formatDate } = useI18n();
+  const snap = useSyncExternalStore(session.subscribe, session.getSnapshot);
+  const { state: appState, myPeerId, incomingCallerId: callerId, isVideoActive, remoteVideoActive, isSharingScreen, remoteSharingScreen, isMuted, isOnHold, remoteMuted, remoteHeld, facingMode, inputDevices, persona, personaOffer, groupId, roomCode, callKind, remotePeerId, sharedInterests, partnerLang, selectedLang, matchTimer, statusMsg, elapsedTime, error, waitingCallerId, heldPeerId, inviteId } = snap;
+
+  // الاتصال المنقطع مؤقتاً يبقى في واجهة المكالمة نفسها
+  const inCall = appState === AppState.CONNECTED || appState === AppState.RECONNECTING;
+  const chat = useSyncExternalStore(session.chat.subscribe, session.chat.getSnapshot);
+  const { messages, remoteTyping, unread, keepTranscript } = chat;
+
+  const participants = useSyncExternalStore(session.group.subscribe, session.group.getSnapshot);
+  const verification = useSyncExternalStore(session.verification.subscribe, session.verification.getSnapshot);
+  const [isSafetyOpen, setIsSafetyOpen] = useState(false);
+  const captions = useSyncExternalStore(session.captions.subscribe, session.captions.getSnapshot);
+  const recording = useSyncExternalStore(session.recorder.subscribe, session.recorder.getSnapshot);
+  const [crossLanguage, setCrossLanguage] = useState(() => localStorage.getItem(CROSS_LANGUAGE_KEY) === '1');
+  const [interests, setInterests] = useState(loadInterests);
+  const [interestInput, setInterestInput] = useState('');
+
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [messages, setMessages] = useState<{sender: 'me' | 'them', text: string}[]>([]);
   const [inputText, setInputText] = useState('');
-  const [toast, setToast] = useState<string | null>(null);
-  const [myPeerId, setMyPeerId] = useState<string>('...');
+  const [toast, setToast] = useState<Message | null>(null);
   const [dialerValue, setDialerValue] = useState<string>('');
+  const [roomInput, setRoomInput] = useState('');
   const [isDialerOpen, setIsDialerOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isNetworkOpen, setIsNetworkOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  // الرقم الذي جاء من رابط دعوة، ولا نتصل به قبل أن يؤكد المستخدم
+  const [linkedPeerId, setLinkedPeerId] = useState<string | null>(null);
+  const [isSavingCaller, setIsSavingCaller] = useState(false);
+  const { calls, contacts } = useHistory(historyStore);
+  const contactsById = new Map<string, Contact>(contacts.map(c => [c.peerId, c]));
+  const nameOf = (peerId: string) => contactsById.get(peerId)?.nickname ?? peerId;
+  const transfers = useSyncExternalStore(session.files.subscribe, session.files.getSnapshot);
+  const transfersById = new Map<string, FileTransfer>(transfers.map(t => [t.id, t]));
+  const [audioOutput, setAudioOutput] = useState<string | null>(null);
+  const [isDevicePickerOpen, setIsDevicePickerOpen] = useState(false);
+  const devices = useMediaDevices(inCall);
+  const [isCallInfoOpen, setIsCallInfoOpen] = useState(false);
+  const [levelMonitor] = useState(() => new AudioLevelMonitor());
+  const levels = useSyncExternalStore(levelMonitor.subscribe, levelMonitor.getSnapshot);
+  const talkingWhileMuted = isMuted && levels.local.speaking;
+  const callStats = useSyncExternalStore(session.stats.subscribe, session.stats.getSnapshot);
+  const { online, updateReady } = useSyncExternalStore(appShell.subscribe, appShell.getSnapshot);
+  const callAlerts = useSyncExternalStore(pushAlerts.subscribe, pushAlerts.getSnapshot);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [poorDismissed, setPoorDismissed] = useState(false);
+  const isRecordingNote = useSyncExternalStore(session.voiceNotes.subscribe, session.voiceNotes.getSnapshot);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  const [incomingCall, setIncomingCall] = useState<any>(null);
-  const [callerId, setCallerId] = useState<string | null>(null);
-
-  const peerRef = useRef<Peer | null>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
-  const callRef = useRef<any>(null);
-  const dataConnRef = useRef<DataConnection | null>(null);
-  const isBusy = useRef<boolean>(false);
-  
   const remoteVideoRef = useRef<HTMLVideoElement | null>(null);
   const localVideoRef = useRef<HTMLVideoElement | null>(null);
   const remoteAudioRef = useRef<HTMLAudioElement | null>(null);
 
-  const timersRef = useRef<{ match?: number, session?: number, ring?: any }>({});
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const wakeLockRef = useRef<any>(null);
-
   // تهيئة الصوت لضمان العمل فور الرد
   const initAudio = useCallback(() => {
-    if (!audioCtxRef.current) {
-      audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 44100 });
-    }
-    if (audioCtxRef.current.state === 'suspended') {
-      audioCtxRef.current.resume();
-    }
+    callSounds.context();
     // تشغيل عنصر الصوت الفارغ لفك حظر المتصفح
     if (remoteAudioRef.current) {
       remoteAudioRef.current.play().catch(() => {});
     }
   }, []);
 
+  useEffect(() => {
+    session.start();
+    const offNotice = session.on('notice', setToast);
+    const offRecorderNotice = session.recorder.on('notice', setToast);
+    const offRecord = session.on('record', (record) => {
+      historyStore.addCall(record).catch(err => console.warn('[history] could not save call', err));
+    });
+    const offIssue = session.on('issue', (issue: ProtocolIssue) => {
+      console.warn(`[protocol] ${issue.kind}: ${issue.detail}`);
+      if (issue.kind === 'version-mismatch') {
+        setToast(msg('notice.versionMismatch'));
+      } else if (issue.kind === 'ack-timeout') {
+        setToast(msg('notice.ackTimeout'));
+      }
+    });
+    return () => { offNotice(); offRecorderNotice(); offIssue(); offRecord(); session.destroy(); };
+  }, [session]);
+
+  // الرنين ونغمات الانتظار والإشعارات تتبع حالة الجلسة فقط
+  useEffect(() => {
+    const offSounds = callSounds.follow(session);
+    const offNotifications = followCallNotifications(session);
+    return () => { offSounds(); offNotifications(); };
+  }, [session]);
+
+  useEffect(() => keepScreenOn(), []);
+
+  // تفضيل حفظ نص المحادثة مع السجل يُحفظ على الجهاز
+  useEffect(() => {
+    session.chat.setKeepTranscript(localStorage.getItem(KEEP_TRANSCRIPT_KEY) === '1');
+  }, [session]);
+
+  // لغة الترجمة في المكالمات المباشرة هي لغة الواجهة، قبل أن يختار المستخدم لغة للمطابقة
+  useEffect(() => {
+    session.captions.setLanguage(locale);
+  }, [session, locale]);
+
+  useEffect(() => {
+    pushAlerts.start();
+  }, []);
+
+  // إشعارات المكالمات تصل بلغة الواجهة، فنجدد الاشتراك عند تغييرها
+  useEffect(() => {
+    pushAlerts.refresh();
+  }, [locale]);
+
+  const toggleCallAlerts = () => {
+    if (callAlerts.enabled) {
+      pushAlerts.disable().catch(err => console.warn('[push] could not unsubscribe', err));
+      return;
+    }
+    pushAlerts.enable().catch((e: Error) => setToast(msg(e.message === 'DENIED' ? 'notice.alertsDenied' : 'notice.alertsUnavailable')));
+  };
+
+  const toggleCrossLanguage = () => {
+    localStorage.setItem(CROSS_LANGUAGE_KEY, crossLanguage ? '0' : '1');
+    setCrossLanguage(!crossLanguage);
+  };
+
+  const saveInterests = (next: string[]) => {
+    localStorage.setItem(INTERESTS_KEY, JSON.stringify(next));
+    setInterests(next);
+  };
+
+  const addInterest = () => {
+    if (!interestInput.trim()) return;
+    saveInterests(normalizeInterests([...interests, interestInput]));
+    setInterestInput('');
+  };
+
+  const download = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const stamp = () => new Date().toISOString().slice(0, 16).replace(/:/g, '');
+
+  const saveCaptions = () => download(new Blob([session.captions.transcript()], { type: 'text/plain' }), `anyone-captions-${stamp()}.txt`);
+
+  const saveRecording = (format: 'webm' | 'wav') => {
+    const result = recording.result;
+    const blob = format === 'wav' ? result?.wav : result?.webm;
+    if (blob) download(blob, `anyone-recording-${stamp()}.${format}`);
+  };
+
+  // الأجهزة المختارة سابقاً على هذا الجهاز
+  useEffect(() => {
+    const saved = loadDevices();
+    session.selectDevice('audioinput', saved.audioinput);
+    session.selectDevice('videoinput', saved.videoinput);
+    setAudioOutput(saved.audiooutput);
+  }, [session]);
+
+  const selectDevice = (kind: DeviceKind, deviceId: string | null) => {
+    const next = { ...inputDevices, audiooutput: audioOutput, [kind]: deviceId };
+    localStorage.setItem(DEVICES_KEY, JSON.stringify(next));
+    if (kind === 'audiooutput') setAudioOutput(deviceId);
+    else session.selectDevice(kind, deviceId);
+  };
+
+  useEffect(() => {
+    session.chat.setVisible(isChatOpen);
+  }, [session, isChatOpen]);
+
+  const toggleKeepTranscript = () => {
+    localStorage.setItem(KEEP_TRANSCRIPT_KEY, keepTranscript ? '0' : '1');
+    session.chat.setKeepTranscript(!keepTranscript);
+  };
+
+  const handleAccept = () => { initAudio(); session.accept(); };
+  const handleReject = () => session.reject();
+
+  const handleBlock = () => {
+    if (remotePeerId && confirm(t('call.confirmBlock', { name: nameOf(remotePeerId) }))) session.blockAndHangUp();
+  };
+
   // التعامل مع الرسائل من الـ Service Worker (عند الضغط على "رد" في الإشعار)
   useEffect(() => {
+    // إشعار الخادم قد يسبق وصول المكالمة نفسها، فنرد عليها حين ترن
+    const answer = (from?: string) => {
+      if (!from) return handleAccept();
+      initAudio();
+      session.expectCall(from);
+    };
     const handleMessage = (event: MessageEvent) => {
       if (event.data.type === 'ACTION_ANSWER') {
-        handleAccept();
+        answer(event.data.from);
       } else if (event.data.type === 'ACTION_REJECT') {
         handleReject();
       }
@@ -86,316 +315,199 @@ const App: React.FC = () => {
     // التحقق من وجود بارامتر رد في الرابط عند الفتح
     const params = new URLSearchParams(window.location.search);
     if (params.get('action') === 'answer') {
-      setTimeout(handleAccept, 1000);
+      const from = params.get('from');
+      history.replaceState(null, '', '/');
+      if (from) answer(from);
+      else setTimeout(handleAccept, 1000);
     }
 
     return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
-  }, [incomingCall]);
+  }, [session]);
 
-  // طلب الصلاحيات
   useEffect(() => {
-    if ('Notification' in window && Notification.permission === 'default') {
-      Notification.requestPermission();
-    }
-    const requestWakeLock = async () => {
-      try {
-        if ('wakeLock' in navigator) wakeLockRef.current = await (navigator as any).wakeLock.request('screen');
-      } catch (err) {}
-    };
-    requestWakeLock();
-    return () => { if (wakeLockRef.current) wakeLockRef.current.release(); };
+    appShell.start();
   }, []);
 
-  const startRinging = (from: string) => {
-    initAudio();
-    if ('Notification' in window && Notification.permission === 'granted') {
-      const n = new Notification('مكالمة واردة - AnyOne', {
-        body: `يرن الآن من: ${from}`,
-        icon: 'https://cdn-icons-png.flaticon.com/512/3616/3616215.png',
-        tag: 'call-' + from,
-        renotify: true,
-        requireInteraction: true,
-        actions: [
-          { action: 'answer', title: 'رد ✅' },
-          { action: 'reject', title: 'رفض ❌' }
-        ]
-      } as any);
-    }
+  // عند عودة الشبكة لا ننتظر بقية مهلة إعادة المحاولة
+  useEffect(() => {
+    if (online) session.resumeSignalling();
+  }, [session, online]);
 
-    const ctx = audioCtxRef.current!;
-    const playTone = () => {
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-      osc.frequency.setValueAtTime(440, ctx.currentTime);
-      gain.gain.setValueAtTime(0.1, ctx.currentTime);
-      gain.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + 1.5);
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start();
-      osc.stop(ctx.currentTime + 1.5);
-    };
-    playTone();
-    timersRef.current.ring = setInterval(playTone, 2000);
-  };
+  // مؤشرات مستوى الصوت؛ المسار المحلي يُقاس من نسخة حتى يعمل أثناء الكتم
+  const localAudioId = snap.localStream?.getAudioTracks()[0]?.id;
+  useEffect(() => {
+    const stream = snap.localStream;
+    if (!inCall || !stream) return;
+    levelMonitor.attach('local', callSounds.context(), stream, true);
+    return () => levelMonitor.detach('local');
+  }, [inCall, snap.localStream, localAudioId]);
 
-  const stopRinging = () => {
-    if (timersRef.current.ring) {
-      clearInterval(timersRef.current.ring);
-      timersRef.current.ring = null;
-    }
-  };
+  useEffect(() => {
+    const stream = snap.remoteStream;
+    if (!inCall || !stream) return;
+    levelMonitor.attach('remote', callSounds.context(), stream);
+    return () => levelMonitor.detach('remote');
+  }, [inCall, snap.remoteStream]);
 
+  // كل مشارك في المكالمة الجماعية يُقاس باسم معرفه
+  const participantStreams = participants.map(p => `${p.peerId}:${p.stream?.id ?? ''}`).join(',');
   useEffect(() => {
-    const peer = new Peer(getPersistentNumericId(), {
-      config: { iceServers: [{ urls: 'stun:stun.l.google.com:19302' }] },
-      debug: 1
-    });
-    
-    peer.on('open', (id) => {
-      setMyPeerId(id);
-      peerRef.current = peer;
-    });
+    const metered = participants.filter(p => p.stream);
+    if (!inCall || !metered.length) return;
+    metered.forEach(p => levelMonitor.attach(p.peerId, callSounds.context(), p.stream!));
+    return () => metered.forEach(p => levelMonitor.detach(p.peerId));
+  }, [inCall, participantStreams]);
 
-    peer.on('connection', (conn) => setupDataConnection(conn));
+  useEffect(() => {
+    if (!callStats.poor) setPoorDismissed(false);
+  }, [callStats.poor]);
 
-    peer.on('call', (call) => {
-      if (isBusy.current) {
-        call.answer(); 
-        setTimeout(() => call.close(), 500);
-        return;
-      }
-      setCallerId(call.peer);
-      setIncomingCall(call);
-      startRinging(call.peer);
+  const copyDiagnostics = () => {
+    const report = session.stats.report({
+      'Peer': snap.remotePeerId ?? 'n/a',
+      'Call type': snap.callKind ?? 'n/a',
+      'Duration': `${elapsedTime}s`,
     });
+    navigator.clipboard.writeText(report)
+      .then(() => setToast(msg('notice.diagnosticsCopied')))
+      .catch(() => setToast(msg('notice.copyFailed')));
+  };
 
-    peer.on('error', (err) => {
-      if (err.type === 'peer-unavailable') {
-        cleanup();
-        setError("هذا المعرف غير متصل حالياً.");
-        setAppState(AppState.ERROR);
-      }
+  // التبديل السريع بين السماعات المتاحة
+  const cycleSpeaker = () => {
+    const outputs = devices.audiooutput;
+    if (!outputs.length) return;
+    const index = outputs.findIndex(d => d.deviceId === audioOutput);
+    const next = outputs[(index + 1) % outputs.length];
+    selectDevice('audiooutput', next.deviceId);
+    setToast(msg('notice.speaker', { label: next.label || t('devices.speaker') }));
+  };
+
+  // ربط الوسائط البعيدة بعناصر الصوت والفيديو
+  useEffect(() => {
+    const remoteStream = snap.remoteStream;
+    // في المكالمة الجماعية يُشغَّل كل مشارك من بطاقته
+    if (!remoteStream) {
+      if (remoteAudioRef.current) remoteAudioRef.current.srcObject = null;
+      return;
+    }
+    if (!remoteAudioRef.current) remoteAudioRef.current = new Audio();
+    remoteAudioRef.current.srcObject = remoteStream;
+    remoteAudioRef.current.play().catch(() => {
+      setToast(msg('notice.tapForSound'));
     });
+  }, [snap.remoteStream]);
 
-    return () => { peer.destroy(); stopRinging(); };
-  }, []);
+  useEffect(() => {
+    const audio = remoteAudioRef.current as (HTMLAudioElement & { setSinkId?: (id: string) => Promise<void> }) | null;
+    audio?.setSinkId?.(audioOutput ?? '').catch(() => setToast(msg('notice.speakerFailed')));
+  }, [audioOutput, snap.remoteStream]);
 
-  const cleanup = useCallback(() => {
-    isBusy.current = false;
-    stopRinging();
-    Object.values(timersRef.current).forEach(t => { if (typeof t === 'number') window.clearInterval(t); });
-    if (callRef.current) callRef.current.close();
-    if (dataConnRef.current) {
-      dataConnRef.current.send({ type: 'DISCONNECT' });
-      dataConnRef.current.close();
-    }
-    if (localStreamRef.current) localStreamRef.current.getTracks().forEach(t => t.stop());
-    
-    callRef.current = null;
-    dataConnRef.current = null;
-    localStreamRef.current = null;
-    setIncomingCall(null);
-    setCallerId(null);
-    setAppState(AppState.IDLE);
-    setElapsedTime(0);
-    setMatchTimer(MATCH_TIMEOUT);
-    setIsVideoActive(false);
+  useEffect(() => {
+    if (remoteVideoRef.current) remoteVideoRef.current.srcObject = snap.remoteStream;
+    if (localVideoRef.current) localVideoRef.current.srcObject = snap.localStream;
+  }, [isVideoActive, remoteVideoActive, remoteSharingScreen, snap.remoteStream, snap.localStream]);
+
+  useEffect(() => {
+    if (!callerId) setIsSavingCaller(false);
+  }, [callerId]);
+
+  // إعادة ضبط واجهة المكالمة عند انتهائها
+  useEffect(() => {
+    if (appState !== AppState.IDLE) return;
     setIsChatOpen(false);
-    setMessages([]);
+    setIsDevicePickerOpen(false);
+    setIsCallInfoOpen(false);
+    setIsStatsOpen(false);
+    setIsSafetyOpen(false);
     setInputText('');
     setDialerValue('');
-    setIsDialerOpen(false);
-  }, []);
+    setLinkedPeerId(null);
+  }, [appState]);
 
-  const setupDataConnection = (conn: DataConnection) => {
-    dataConnRef.current = conn;
-    conn.on('data', (data: any) => {
-      if (data?.type === 'REJECTED') {
-        cleanup();
-        setError("تم رفض المكالمة من الطرف الآخر.");
-        setAppState(AppState.ERROR);
-      } else if (data?.type === 'DISCONNECT') {
-        cleanup();
-      } else if (data?.type === 'VIDEO_SIGNAL') {
-        setIsVideoActive(true);
-      } else if (typeof data === 'string') {
-        setMessages(prev => [...prev, { sender: 'them', text: data }]);
-      }
-    });
-    conn.on('close', cleanup);
-  };
-
-  const setupCall = (call: any) => {
-    callRef.current = call;
-    call.on('stream', (remoteStream: MediaStream) => {
-      if (!remoteAudioRef.current) remoteAudioRef.current = new Audio();
-      remoteAudioRef.current.srcObject = remoteStream;
-      remoteAudioRef.current.play().catch(() => {
-        setToast("اضغط في أي مكان لتفعيل الصوت");
-      });
-
-      if (remoteStream.getVideoTracks().length > 0) {
-        setIsVideoActive(true);
-        if (remoteVideoRef.current) remoteVideoRef.current.srcObject = remoteStream;
-      }
-      isBusy.current = true;
-      setAppState(AppState.CONNECTED);
-      if (!timersRef.current.session) {
-        timersRef.current.session = window.setInterval(() => setElapsedTime(prev => prev + 1), 1000);
-      }
-    });
-    call.on('close', cleanup);
-    call.on('error', cleanup);
-  };
+  // رابط الدعوة يفتح لوحة الاتصال بالرقم جاهزاً، بعد إعادة الضبط أعلاه
+  useEffect(() => {
+    const target = parseInvite(new URLSearchParams(window.location.search).get('call') ?? '');
+    if (!target) return;
+    history.replaceState(null, '', '/');
+    setDialerValue(target);
+    setLinkedPeerId(target);
+    setIsDialerOpen(true);
+  }, []);
 
-  const handleAccept = async (callInstance?: any) => {
-    const activeCall = callInstance || incomingCall;
-    if (!activeCall) return;
-    initAudio();
-    stopRinging();
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: isVideoActive });
-      localStreamRef.current = stream;
-      activeCall.answer(stream);
-      setupCall(activeCall);
-      setIncomingCall(null);
-      setCallerId(null);
-    } catch (e) {
-      setToast("يرجى تفعيل الميكروفون");
+  const handleDialerCall = () => {
+    if (!dialerValue.trim()) return;
+    // أثناء المكالمة يضيف الرقم إليها بدل الاتصال به
+    if (inCall) {
+      session.addParticipant(dialerValue);
+      setIsDialerOpen(false);
+      setDialerValue('');
+      return;
     }
+    callPeer(dialerValue);
   };
 
-  const handleReject = () => {
-    stopRinging();
-    if (dataConnRef.current) dataConnRef.current.send({ type: 'REJECTED' });
-    if (incomingCall) incomingCall.close();
-    setIncomingCall(null);
-    setCallerId(null);
-  };
-
-  const handleDialerCall = async () => {
-    if (!dialerValue.trim()) return;
+  const callPeer = (peerId: string) => {
     initAudio();
-    setAppState(AppState.MATCHING);
-    setStatusMsg(`جاري الاتصال بـ ${dialerValue}...`);
     setIsDialerOpen(false);
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      localStreamRef.current = stream;
-      const conn = peerRef.current!.connect(dialerValue, { reliable: true });
-      setupDataConnection(conn);
-      const call = peerRef.current!.call(dialerValue, stream);
-      setupCall(call);
-    } catch (e) {
-      cleanup();
-      setError("صلاحيات الميكروفون مطلوبة");
-    }
+    setIsHistoryOpen(false);
+    session.dial(peerId);
   };
 
-  const toggleVideo = async () => {
-    initAudio();
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: !isVideoActive });
-      localStreamRef.current = stream;
-      if (!isVideoActive) {
-        if (localVideoRef.current) localVideoRef.current.srcObject = stream;
-        if (dataConnRef.current) dataConnRef.current.send({ type: 'VIDEO_SIGNAL' });
-        if (callRef.current && peerRef.current) {
-          setupCall(peerRef.current.call(callRef.current.peer, stream));
-        }
-        setIsVideoActive(true);
-      } else {
-        stream.getVideoTracks().forEach(t => t.stop());
-        setIsVideoActive(false);
-      }
-    } catch (e) { setToast("فشل تفعيل الكاميرا"); }
-  };
+  // اقتراحات من جهات الاتصال والسجل أثناء الكتابة في لوحة الاتصال
+  const dialerSuggestions = dialerValue
+    ? [...new Set([...contacts.map(c => c.peerId), ...calls.map(c => c.peerId)])].filter(id => id.startsWith(dialerValue) && id !== dialerValue).slice(0, 3)
+    : [];
 
-  // تحسين سرعة البحث
-  const startMatching = async (slot: number) => {
-    if (slot > MAX_SLOTS) {
-      setStatusMsg("جاري المحاولة مجدداً...");
-      setTimeout(() => startMatching(1), 500);
-      return;
-    }
-    const roomId = `${APP_PREFIX}${selectedLang}-${slot}`;
-    setStatusMsg(`فحص القناة ${slot}...`);
-    
-    const conn = peerRef.current!.connect(roomId, { reliable: true, connectionTimeout: 1000 });
-    
-    const timeout = setTimeout(() => {
-      conn.close();
-      becomeHost(slot);
-    }, 1200);
-
-    conn.on('open', async () => {
-      clearTimeout(timeout);
-      setStatusMsg(`تم الربط!`);
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        localStreamRef.current = stream;
-        setupDataConnection(conn);
-        setupCall(peerRef.current!.call(roomId, stream));
-      } catch (e) { cleanup(); }
-    });
+  const toggleVideo = () => {
+    initAudio();
+    session.toggleVideo();
   };
 
-  const becomeHost = (slot: number) => {
-    if (isBusy.current) return;
-    const roomId = `${APP_PREFIX}${selectedLang}-${slot}`;
-    const roomPeer = new Peer(roomId);
-    roomPeer.on('open', () => {
-      setStatusMsg(`في انتظار شريك...`);
-      roomPeer.on('connection', (conn) => setupDataConnection(conn));
-      roomPeer.on('call', async (call) => {
-        try {
-          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-          localStreamRef.current = stream;
-          call.answer(stream);
-          setupCall(call);
-        } catch (e) {}
-      });
-      setTimeout(() => {
-        if (!isBusy.current && appState === AppState.MATCHING) {
-          roomPeer.destroy();
-          startMatching(slot + 1);
-        }
-      }, 4000); // تقليل وقت الانتظار لزيادة السرعة
-    });
-    roomPeer.on('error', () => {
-      roomPeer.destroy();
-      startMatching(slot + 1);
-    });
+  const joinRoom = () => {
+    if (!roomInput.trim()) return;
+    initAudio();
+    session.joinRoom(roomInput);
   };
 
   const handleStart = (langCode: string) => {
     initAudio();
-    setSelectedLang(langCode);
-    setAppState(AppState.MATCHING);
-    setMatchTimer(MATCH_TIMEOUT);
-    timersRef.current.match = window.setInterval(() => {
-      setMatchTimer(prev => {
-        if (prev <= 1) { cleanup(); setError("لم يتم العثور على أحد متاح."); return 0; }
-        return prev - 1;
-      });
-    }, 1000);
-    startMatching(1);
+    session.startRandom(langCode, crossLanguage, interests);
   };
 
   const sendMessage = () => {
-    if (!inputText.trim() || !dataConnRef.current) return;
-    dataConnRef.current.send(inputText);
-    setMessages(prev => [...prev, { sender: 'me', text: inputText }]);
+    if (!inputText.trim()) return;
+    session.chat.send(inputText);
     setInputText('');
   };
 
-  const copyId = () => {
-    navigator.clipboard.writeText(myPeerId);
-    setToast("تم النسخ ✅");
+  const sendFile = (file: Blob, name: string) => {
+    session.files.send(file, name).catch((e: Error) => setToast(msg('notice.fileFailed', { reason: e.message })));
+  };
+
+  const handleFilePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    files.forEach(file => sendFile(file, file.name));
+    e.target.value = '';
+  };
+
+  const copyLink = (link: string) => {
+    navigator.clipboard.writeText(link);
+    setToast(msg('notice.copied'));
     setTimeout(() => setToast(null), 2000);
   };
 
+  const handleScan = (text: string) => {
+    setIsScannerOpen(false);
+    const target = parseInvite(text);
+    if (!target) {
+      setToast(msg('notice.qrInvalid'));
+      return;
+    }
+    setDialerValue(target);
+    setLinkedPeerId(target);
+  };
+
   const dial = (num: string) => { initAudio(); if (dialerValue.length < 12) setDialerValue(prev => prev + num); };
 
   return (
@@ -409,18 +521,69 @@ const App: React.FC = () => {
         <div className="flex items-center gap-2">
           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
           <span className="text-xs font-black uppercase tracking-widest text-slate-400">AnyOne</span>
+          {appState === AppState.IDLE && (
+            <button onClick={() => setIsNetworkOpen(true)} className="ms-2 w-8 h-8 bg-white/5 rounded-full flex items-center justify-center text-slate-400 active:scale-90">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z M15 12a3 3 0 11-6 0 3 3 0 016 0z" strokeWidth={2}/></svg>
+            </button>
+          )}
+          {/* لغة الواجهة مستقلة عن لغة المطابقة */}
+          {appState === AppState.IDLE && (
+            <select value={locale} onChange={e => i18n.setLocale(e.target.value as Locale)} aria-label={t('nav.uiLanguage')} className="h-8 bg-white/5 rounded-full px-3 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:outline-none">
+              {LOCALES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+            </select>
+          )}
         </div>
-        <button onClick={copyId} className="flex flex-col items-end active:scale-95">
-          <span className="text-[10px] font-bold text-slate-500 uppercase">My ID</span>
-          <span className="text-lg font-mono font-black text-indigo-400">{myPeerId}</span>
+        <button onClick={() => setIsShareOpen(true)} className="flex flex-col items-end active:scale-95">
+          <span className="text-[10px] font-bold text-slate-500 uppercase">{t('nav.myId')}</span>
+          <span dir="ltr" className="text-lg font-mono font-black text-indigo-400">{myPeerId}</span>
         </button>
       </div>
 
+      {/* Update Prompt */}
+      {updateReady && !inCall && !callerId && (
+        <div className="fixed top-20 inset-x-6 z-[60] flex items-center justify-between gap-3 bg-indigo-600 ps-6 pe-2 py-2 rounded-full shadow-2xl text-xs font-black animate-in slide-in-from-top duration-300">
+          <span>{t('update.available')}</span>
+          <button onClick={() => appShell.applyUpdate()} className="bg-white text-black px-4 py-2 rounded-full uppercase tracking-widest">{t('update.reload')}</button>
+        </div>
+      )}
+
+      {/* Offline Screen */}
+      {!online && appState === AppState.IDLE && (
+        <div className="fixed inset-0 z-[45] bg-[#020617] flex flex-col items-center justify-center gap-6 px-10 text-center">
+          <div className="w-24 h-24 bg-white/5 rounded-full flex items-center justify-center border-2 border-white/10">
+            <svg className="w-12 h-12 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M3 3l18 18M8.53 16.11a5 5 0 016.95 0M5.1 12.69a10 10 0 014.2-2.4m5.44.12a10 10 0 014.16 2.28M1.7 9.27a15 15 0 014.64-2.9m4.5-.86A15 15 0 0122.3 9.27M12 20h.01" strokeWidth={2} strokeLinecap="round"/></svg>
+          </div>
+          <h2 className="text-4xl font-black italic">{t('offline.title')}</h2>
+          <p className="text-slate-400 font-bold max-w-xs">{t('offline.body')}</p>
+        </div>
+      )}
+
       {/* Video Background */}
-      {isVideoActive && (
+      {!groupId && (isVideoActive || remoteVideoActive || remoteSharingScreen) && (
         <div className="absolute inset-0 z-0 flex flex-col bg-black">
-          <video ref={remoteVideoRef} autoPlay playsInline className="flex-1 object-cover" />
-          <video ref={localVideoRef} autoPlay playsInline muted className="flex-1 object-cover border-t border-white/10" />
+          {/* الصوت البعيد يُشغَّل من عنصر الصوت وحده */}
+          {remoteSharingScreen ? (
+            <>
+              {/* الشاشة المشتركة تأخذ المساحة كلها دون قص */}
+              <video ref={remoteVideoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+              {isVideoActive && (
+                <video ref={localVideoRef} autoPlay playsInline muted className={`absolute top-20 end-4 w-28 h-40 object-cover rounded-2xl border border-white/20 shadow-2xl ${facingMode === 'user' ? '-scale-x-100' : ''}`} />
+              )}
+            </>
+          ) : (
+            <>
+              {remoteVideoActive ? (
+                <video ref={remoteVideoRef} autoPlay playsInline muted className="flex-1 object-cover" />
+              ) : (
+                <div className="flex-1 flex items-center justify-center text-slate-500 text-xs font-black uppercase tracking-widest">{t('call.cameraOff')}</div>
+              )}
+              {isVideoActive ? (
+                <video ref={localVideoRef} autoPlay playsInline muted className={`flex-1 object-cover border-t border-white/10 ${facingMode === 'user' ? '-scale-x-100' : ''}`} />
+              ) : (
+                <div className="flex-1 flex items-center justify-center border-t border-white/10 text-slate-500 text-xs font-black uppercase tracking-widest">{t('call.yourCameraOff')}</div>
+              )}
+            </>
+          )}
         </div>
       )}
 
@@ -430,12 +593,20 @@ const App: React.FC = () => {
            <div className="w-32 h-32 bg-indigo-600 rounded-full mb-8 flex items-center justify-center shadow-[0_0_60px_rgba(79,70,229,0.5)] animate-pulse">
              <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M6.62 10.79a15.053 15.053 0 006.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z"/></svg>
            </div>
-           <h2 className="text-xl font-black text-indigo-400 uppercase tracking-widest mb-2">Incoming Call</h2>
-           <p className="text-5xl font-mono font-black mb-20 text-white tracking-widest">{callerId}</p>
+           <h2 className="text-xl font-black text-indigo-400 uppercase tracking-widest mb-2">{t('incoming.title')}</h2>
+           {contactsById.has(callerId) && <p className="text-3xl font-black text-white mb-1">{contactsById.get(callerId)!.nickname}</p>}
+           <p dir="ltr" className="text-5xl font-mono font-black text-white tracking-widest">{callerId}</p>
+           <div className="h-20 flex items-start justify-center w-full">
+             {!contactsById.has(callerId) && (isSavingCaller
+               ? <SaveContactForm store={historyStore} peerId={callerId} onDone={() => setIsSavingCaller(false)} />
+               : <button onClick={() => setIsSavingCaller(true)} className="mt-4 text-xs font-black uppercase tracking-widest text-slate-400 bg-white/5 px-6 py-3 rounded-full">{t('incoming.saveContact')}</button>
+             )}
+           </div>
            <div className="flex gap-12">
              <button onClick={handleReject} className="w-24 h-24 bg-red-600 rounded-full flex items-center justify-center shadow-2xl border-4 border-white/10"><svg className="w-12 h-12" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={5}/></svg></button>
              <button onClick={() => handleAccept()} className="w-24 h-24 bg-green-600 rounded-full flex items-center justify-center shadow-2xl border-4 border-white/10 animate-bounce"><svg className="w-12 h-12" fill="currentColor" viewBox="0 0 24 24"><path d="M6.62 10.79a15.053 15.053 0 006.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z"/></svg></button>
            </div>
+           <button onClick={handleBlock} className="mt-10 text-xs font-black uppercase tracking-widest text-red-400">{t('incoming.block')}</button>
         </div>
       )}
 
@@ -444,8 +615,18 @@ const App: React.FC = () => {
         <div className="z-10 w-full max-w-md px-10 text-center animate-in slide-in-from-bottom-10 duration-700 overflow-y-auto pb-24 no-scrollbar">
           <div className="mb-10 pt-12">
             <h1 className="text-7xl font-black italic tracking-tighter text-white mb-2">AnyOne</h1>
-            <p className="text-slate-500 font-bold uppercase tracking-widest">Connect Instantly</p>
+            <p className="text-slate-500 font-bold uppercase tracking-widest">{t('home.tagline')}</p>
           </div>
+          {contacts.some(c => c.favourite) && (
+            <div className="flex gap-3 overflow-x-auto no-scrollbar mb-6">
+              {contacts.filter(c => c.favourite).map(c => (
+                <button key={c.peerId} onClick={() => callPeer(c.peerId)} className="shrink-0 flex flex-col items-center gap-2 active:scale-95">
+                  <span className="w-14 h-14 rounded-full bg-indigo-600 flex items-center justify-center text-xl font-black">{c.nickname.charAt(0).toUpperCase()}</span>
+                  <span className="text-xs font-bold text-slate-400 max-w-[4rem] truncate">{c.nickname}</span>
+                </button>
+              ))}
+            </div>
+          )}
           <div className="grid gap-3">
             {LANGUAGES.map(lang => (
               <button key={lang.code} onClick={() => handleStart(lang.code)} className="flex items-center justify-between bg-white/5 border border-white/10 p-5 rounded-[2rem] active:scale-95 transition-all">
@@ -454,17 +635,72 @@ const App: React.FC = () => {
                   <span className="text-xl font-bold">{lang.name}</span>
                 </div>
                 <div className="w-10 h-10 rounded-full bg-indigo-600 flex items-center justify-center">
-                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M14 5l7 7-7 7" strokeWidth={4} /></svg>
+                  <svg className="w-5 h-5 rtl:-scale-x-100" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M14 5l7 7-7 7" strokeWidth={4} /></svg>
                 </div>
               </button>
             ))}
           </div>
+          {session.captions.available && (
+            <button onClick={toggleCrossLanguage} className="w-full mt-4 flex items-center justify-between bg-white/5 border border-white/10 px-6 py-4 rounded-[2rem] text-start active:scale-95 transition-all">
+              <span>
+                <span className="block font-bold">{t('home.crossLanguage')}</span>
+                <span className="block text-xs text-slate-500 font-bold">{t('home.crossLanguageHint')}</span>
+              </span>
+              <span className={`w-12 h-7 rounded-full p-1 transition-all ${crossLanguage ? 'bg-indigo-600' : 'bg-white/10'}`}>
+                <span className={`block w-5 h-5 rounded-full bg-white transition-all ${crossLanguage ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+              </span>
+            </button>
+          )}
+          {/* Interests */}
+          <div className="mt-4 bg-white/5 border border-white/10 p-2 rounded-[2rem] text-start">
+            <div className="flex flex-wrap gap-2 empty:hidden px-2 pt-2">
+              {interests.map(tag => (
+                <button key={tag} onClick={() => saveInterests(interests.filter(t => t !== tag))} className="bg-indigo-600/80 px-4 py-1 rounded-full text-xs font-bold">#{tag} ✕</button>
+              ))}
+            </div>
+            {interests.length < MAX_INTERESTS && (
+              <div className="flex gap-2">
+                <input value={interestInput} onChange={e => setInterestInput(e.target.value)} onKeyPress={e => e.key === 'Enter' && addInterest()} placeholder={t('home.interests')} className="flex-1 min-w-0 bg-transparent px-4 py-3 font-bold focus:outline-none" />
+                <button onClick={addInterest} className="bg-white/10 px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest active:scale-95">{t('home.addInterest')}</button>
+              </div>
+            )}
+          </div>
+          {/* Rooms */}
+          <div className="mt-4 flex gap-2 bg-white/5 border border-white/10 p-2 rounded-[2rem]">
+            <input value={roomInput} onChange={e => setRoomInput(e.target.value)} onKeyPress={e => e.key === 'Enter' && joinRoom()} placeholder={t('home.roomCode')} className="flex-1 min-w-0 bg-transparent px-4 font-bold focus:outline-none" />
+            <button onClick={joinRoom} className="bg-indigo-600 px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest active:scale-95">{t('home.joinRoom')}</button>
+          </div>
+          {/* Call Alerts */}
+          {callAlerts.supported && (
+            <button onClick={toggleCallAlerts} className="w-full mt-4 flex items-center justify-between bg-white/5 border border-white/10 px-6 py-4 rounded-[2rem] text-start active:scale-95 transition-all">
+              <span className="font-bold">{t('home.callAlerts')}</span>
+              <span className={`w-12 h-7 rounded-full p-1 transition-all ${callAlerts.enabled ? 'bg-indigo-600' : 'bg-white/10'}`}>
+                <span className={`block w-5 h-5 rounded-full bg-white transition-all ${callAlerts.enabled ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+              </span>
+            </button>
+          )}
         </div>
       )}
 
+      {/* History Button */}
+      {appState === AppState.IDLE && !isDialerOpen && (
+        <button onClick={() => setIsHistoryOpen(true)} className="fixed bottom-10 start-10 w-16 h-16 bg-white/5 rounded-full flex items-center justify-center shadow-2xl z-40 border-2 border-white/10 active:scale-90 transition-all">
+          <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" strokeWidth={2}/></svg>
+        </button>
+      )}
+
+      {isHistoryOpen && (
+        <HistoryPanel store={historyStore} blockList={blockList} onCall={callPeer} onClose={() => setIsHistoryOpen(false)} />
+      )}
+
+      {/* الـ Peer يُنشأ مرة واحدة، لذا تُطبَّق إعدادات الشبكة بإعادة التحميل */}
+      {isNetworkOpen && (
+        <NetworkSettingsPanel onApply={() => location.reload()} onClose={() => setIsNetworkOpen(false)} />
+      )}
+
       {/* Dialer Button */}
       {appState === AppState.IDLE && !isDialerOpen && (
-        <button onClick={() => setIsDialerOpen(true)} className="fixed bottom-10 right-10 w-20 h-20 bg-green-600 rounded-full flex items-center justify-center shadow-2xl z-40 border-4 border-white/20 active:scale-90 transition-all">
+        <button onClick={() => setIsDialerOpen(true)} className="fixed bottom-10 end-10 w-20 h-20 bg-green-600 rounded-full flex items-center justify-center shadow-2xl z-40 border-4 border-white/20 active:scale-90 transition-all">
           <svg className="w-10 h-10" fill="currentColor" viewBox="0 0 24 24"><path d="M6.62 10.79a15.053 15.053 0 006.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z"/></svg>
         </button>
       )}
@@ -472,9 +708,21 @@ const App: React.FC = () => {
       {/* Dialer View */}
       {isDialerOpen && (
         <div className="fixed inset-0 z-[100] bg-black/98 backdrop-blur-3xl flex flex-col animate-in slide-in-from-bottom duration-400 p-8">
-           <button onClick={() => setIsDialerOpen(false)} className="self-end p-4 text-slate-500"><svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
+           <button onClick={() => { setIsDialerOpen(false); setLinkedPeerId(null); }} className="self-end p-4 text-slate-500"><svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
            <div className="flex-1 flex flex-col items-center justify-center">
-              <span className="text-7xl font-mono font-black mb-12 tracking-tighter">{dialerValue || '--------'}</span>
+              <span dir="ltr" className={`${dialerValue.length > 12 ? 'text-3xl' : 'text-7xl'} font-mono font-black mb-4 tracking-tighter`}>{dialerValue || '--------'}</span>
+              {linkedPeerId && linkedPeerId === dialerValue ? (
+                <p className="mb-4 text-sm font-bold text-indigo-400">{t('dialer.confirmLink', { peerId: nameOf(linkedPeerId) })}</p>
+              ) : (
+                <button onClick={() => setIsScannerOpen(true)} className="mb-4 px-5 py-2 rounded-full bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest">{t('dialer.scan')}</button>
+              )}
+              <div className="h-8 mb-4 flex gap-2">
+                {dialerSuggestions.map(id => (
+                  <button key={id} onClick={() => setDialerValue(id)} className="px-4 py-1 rounded-full bg-white/5 border border-white/10 text-sm font-bold">
+                    {contactsById.get(id)?.nickname ?? id}
+                  </button>
+                ))}
+              </div>
               <div className="grid grid-cols-3 gap-5 mb-12">
                 {[1,2,3,4,5,6,7,8,9,'*',0,'#'].map(n => (
                   <button key={n} onClick={() => dial(n.toString())} className="w-20 h-20 rounded-full bg-white/5 border border-white/10 flex items-center justify-center font-black text-2xl active:bg-white/20">{n}</button>
@@ -485,52 +733,330 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {isScannerOpen && (
+        <QrScanner onScan={handleScan} onClose={() => setIsScannerOpen(false)} />
+      )}
+
       {/* Outgoing Call Screen */}
-      {appState === AppState.MATCHING && (
+      {(appState === AppState.MATCHING || (appState === AppState.RINGING && !callerId)) && (
         <div className="fixed inset-0 z-[150] bg-[#020617] flex flex-col items-center justify-center">
           <div className="relative w-72 h-72 flex items-center justify-center mb-10">
             <div className="absolute inset-0 border-4 border-indigo-500/20 rounded-full radar-wave" />
-            <span className="text-8xl font-black italic text-indigo-500">{matchTimer}</span>
+            <span className="text-8xl font-black italic text-indigo-500">{formatNumber(matchTimer)}</span>
           </div>
-          <h2 className="text-3xl font-black italic mb-4">جاري الاتصال...</h2>
-          <p className="bg-white/5 px-8 py-3 rounded-full text-indigo-400 text-xs font-black tracking-widest uppercase">{statusMsg}</p>
-          <button onClick={cleanup} className="mt-20 bg-red-600/20 text-red-500 px-10 py-4 rounded-full font-bold">إلغاء</button>
+          <h2 className="text-3xl font-black italic mb-4">{t('outgoing.title')}</h2>
+          <p className="bg-white/5 px-8 py-3 rounded-full text-indigo-400 text-xs font-black tracking-widest uppercase">{statusMsg && t(statusMsg)}</p>
+          <button onClick={() => session.hangup()} className="mt-20 bg-red-600/20 text-red-500 px-10 py-4 rounded-full font-bold">{t('common.cancel')}</button>
         </div>
       )}
 
       {/* Connected Call UI */}
-      {appState === AppState.CONNECTED && (
+      {inCall && (
         <div className="z-10 flex flex-col items-center justify-between w-full h-full py-24 px-8">
-          <div className="bg-black/60 backdrop-blur-2xl px-12 py-4 rounded-full text-5xl font-mono font-black text-indigo-400 shadow-2xl">
-            {Math.floor(elapsedTime/60)}:{(elapsedTime%60).toString().padStart(2, '0')}
+          <div className="flex flex-col items-center gap-3">
+            <div className="flex items-center gap-3">
+              <button onClick={() => setIsCallInfoOpen(open => !open)} className="bg-black/60 backdrop-blur-2xl px-12 py-4 rounded-full text-5xl font-mono font-black text-indigo-400 shadow-2xl">
+                {formatDuration(elapsedTime)}
+              </button>
+              {!persona && !groupId && (
+                <button onClick={() => setIsStatsOpen(true)} className="bg-black/60 backdrop-blur-2xl w-14 h-14 rounded-full flex items-center justify-center shadow-2xl">
+                  <SignalBars quality={callStats.current?.quality ?? null} />
+                </button>
+              )}
+            </div>
+            {appState === AppState.RECONNECTING && (
+              <div className="bg-amber-500 text-black px-6 py-3 rounded-full text-xs font-black shadow-2xl animate-pulse">{statusMsg && t(statusMsg)}</div>
+            )}
+            <div className="flex gap-2 empty:hidden">
+              {roomCode && (
+                <span className="bg-indigo-600/80 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.room', { code: roomCode })}</span>
+              )}
+              {groupId && (
+                <span className="bg-white/10 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.participants', { count: formatNumber(participants.length + 1) })}</span>
+              )}
+              {!groupId && !persona && verification.status && (
+                <button onClick={() => setIsSafetyOpen(true)} className={`px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${verification.status === 'key-changed' || verification.status === 'failed' ? 'bg-red-600 animate-pulse' : verification.confirmed ? 'bg-green-600/80' : 'bg-white/10'}`}>
+                  {t(VERIFICATION_LABELS[verification.status])}{verification.confirmed ? '' : ` · ${t('call.compare')}`}
+                </button>
+              )}
+              {recording.state === 'recording' && (
+                <button onClick={() => session.recorder.stop()} className="bg-red-600 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest animate-pulse">
+                  {t(recording.recordedBy === 'me' ? 'call.recording' : 'call.theyRecording')}
+                </button>
+              )}
+              {recording.state === 'requesting' && (
+                <span className="bg-white/10 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.waitingConsent')}</span>
+              )}
+              {sharedInterests.length > 0 && (
+                <span className="bg-indigo-600/80 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{sharedInterests.map(tag => `#${tag}`).join(' ')}</span>
+              )}
+              {partnerLang && partnerLang !== selectedLang && (
+                <span className="bg-indigo-600/80 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{languageOf(partnerLang)?.flag} {languageOf(partnerLang)?.name ?? partnerLang}</span>
+              )}
+              {remoteMuted && <span className="bg-red-600/80 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.muted')}</span>}
+              {remoteHeld && <span className="bg-amber-500/80 text-black px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.onHold')}</span>}
+            </div>
+            {isCallInfoOpen && !groupId && (
+              <div className="bg-black/70 backdrop-blur-2xl border border-white/10 rounded-[1.5rem] px-6 py-4 text-xs font-bold space-y-1 min-w-56">
+                {([
+                  ['common.you', isMuted ? 'call.muted' : 'call.micOn', isOnHold ? 'call.holding' : null, isVideoActive ? 'call.cameraOn' : 'call.cameraOff', isSharingScreen ? 'call.sharingScreen' : null],
+                  ['common.them', remoteMuted ? 'call.muted' : 'call.micOn', remoteHeld ? 'call.holding' : null, remoteVideoActive ? 'call.cameraOn' : 'call.cameraOff', remoteSharingScreen ? 'call.sharingScreen' : null],
+                ] as (MessageKey | null)[][]).map(([who, ...states]) => (
+                  <p key={who}><span className="text-indigo-400 uppercase tracking-widest me-2">{t(who!)}</span>{states.filter(Boolean).map(key => t(key!)).join(' · ')}</p>
+                ))}
+              </div>
+            )}
+            {callStats.poor && !poorDismissed && !groupId && (
+              <div className="flex items-center gap-2 bg-yellow-400 text-black ps-6 pe-2 py-2 rounded-full text-xs font-black shadow-2xl">
+                <span>{t(isVideoActive ? 'call.poorVideo' : 'call.poor')}</span>
+                {isVideoActive && (
+                  <button onClick={() => { setPoorDismissed(true); toggleVideo(); }} className="bg-black text-white px-4 py-2 rounded-full">{t('call.audioOnly')}</button>
+                )}
+                <button onClick={() => setPoorDismissed(true)} className="w-8 h-8 rounded-full bg-black/10">✕</button>
+              </div>
+            )}
+            {talkingWhileMuted && (
+              <button onClick={() => session.toggleMute()} className="bg-red-600 px-6 py-3 rounded-full text-xs font-black shadow-2xl animate-pulse">
+                {t('call.talkingMuted')}
+              </button>
+            )}
+            {isOnHold && (
+              <button onClick={() => session.toggleHold()} className="bg-amber-500 text-black px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest shadow-2xl">
+                {t('call.resume')}
+              </button>
+            )}
+            {waitingCallerId && (
+              <div className="flex flex-col items-center gap-3 bg-black/70 backdrop-blur-2xl border border-white/10 rounded-[1.5rem] px-6 py-4 shadow-2xl">
+                <p className="text-xs font-black">{t('call.waiting', { peerId: nameOf(waitingCallerId) })}</p>
+                <div className="flex flex-wrap justify-center gap-2">
+                  <button onClick={() => session.rejectWaiting()} className="bg-red-600 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('common.decline')}</button>
+                  <button onClick={() => session.holdAndAnswer()} className="bg-amber-500 text-black px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.holdAnswer')}</button>
+                  <button onClick={() => session.endAndAnswer()} className="bg-green-600 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.endAnswer')}</button>
+                </div>
+              </div>
+            )}
+            {heldPeerId && (
+              <button onClick={() => session.swap()} className="bg-white/10 px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest shadow-2xl">
+                {t('call.held', { peerId: nameOf(heldPeerId) })} · {t('call.swap')}
+              </button>
+            )}
+            {recording.result && recording.state === 'idle' && (
+              <div className="flex gap-2">
+                <button onClick={() => saveRecording('webm')} className="bg-white/10 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.saveWebm')}</button>
+                {recording.result.wav && <button onClick={() => saveRecording('wav')} className="bg-white/10 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.saveWav')}</button>}
+              </div>
+            )}
+            {isSharingScreen && (
+              <button onClick={() => session.toggleScreenShare()} className="bg-indigo-600 px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest shadow-2xl">
+                {t('call.stopSharing')}
+              </button>
+            )}
           </div>
-          {!isVideoActive && (
+          {/* Participants */}
+          {groupId && (
+            <div className={`grid gap-4 w-full max-w-md ${participants.length > 1 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              <ParticipantTile label={t('common.you')} stream={snap.localStream} videoActive={isVideoActive} muted={isMuted} speaking={levels.local.speaking} isLocal />
+              {participants.map(p => (
+                <ParticipantTile key={p.peerId} label={nameOf(p.peerId)} stream={p.stream} videoActive={p.videoActive} muted={p.muted} speaking={!!levels[p.peerId]?.speaking} audioOutput={audioOutput} unverified={p.verification === 'key-changed' || p.verification === 'failed'} />
+              ))}
+              {!participants.length && (
+                <p className="col-span-2 self-center text-center text-xs font-bold text-slate-500">{t('call.waitingForRoom')}</p>
+              )}
+            </div>
+          )}
+          {!groupId && !isVideoActive && !remoteVideoActive && !remoteSharingScreen && (
             <div className="flex flex-col items-center gap-10">
-               <div className="w-64 h-64 rounded-[4rem] bg-indigo-500/5 border-2 border-indigo-500/20 flex items-center justify-center">
+               <div className={`w-64 h-64 rounded-[4rem] bg-indigo-500/5 border-2 flex items-center justify-center transition-all ${levels.remote.speaking ? 'border-indigo-400 shadow-[0_0_60px_rgba(99,102,241,0.4)]' : 'border-indigo-500/20'}`}>
                   <div className="flex gap-3 items-center h-32">
-                    {[...Array(7)].map((_, i) => (
-                      <div key={i} className="w-3 bg-indigo-500 rounded-full animate-pulse" style={{ height: `${30 + Math.random()*70}%`, animationDelay: `${i*0.1}s` }} />
+                    {BAR_SHAPE.map((weight, i) => (
+                      <div key={i} className="w-3 bg-indigo-500 rounded-full transition-all duration-100" style={{ height: `${8 + weight * levels.remote.level * 92}%` }} />
                     ))}
                   </div>
                </div>
-               <p className="text-white text-2xl font-black italic uppercase tracking-tighter">Live Conversation</p>
+               {persona ? (
+                 <div className="flex flex-col items-center gap-2">
+                   <p className="text-white text-2xl font-black italic tracking-tighter">{persona.name}</p>
+                   <span className="bg-indigo-600/30 text-indigo-300 px-4 py-1 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.aiPersona')}</span>
+                 </div>
+               ) : (
+                 <p className="text-white text-2xl font-black italic uppercase tracking-tighter">{t('call.live')}</p>
+               )}
+               {/* Local mic meter */}
+               <div className="flex items-center gap-3 w-48">
+                 <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${levels.local.speaking ? (isMuted ? 'bg-red-500' : 'bg-green-500') : 'bg-slate-700'}`} />
+                 <div className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                   <div className={`h-full transition-all duration-100 ${isMuted ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${levels.local.level * 100}%` }} />
+                 </div>
+                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('common.you')}</span>
+               </div>
             </div>
           )}
-          <div className="flex items-center gap-8">
-             <button onClick={() => setIsChatOpen(true)} className="w-16 h-16 rounded-full bg-white/5 border border-white/10 flex items-center justify-center"><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" strokeWidth={2}/></svg></button>
-             <button onClick={cleanup} className="w-24 h-24 bg-red-600 rounded-full flex items-center justify-center shadow-2xl border-4 border-white/10 active:scale-90 transition-all"><svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={5}/></svg></button>
-             <button onClick={toggleVideo} className={`w-16 h-16 rounded-full border flex items-center justify-center ${isVideoActive ? 'bg-green-600 border-green-400' : 'bg-white/5 border-white/10'}`}><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" strokeWidth={2}/></svg></button>
+          <div className="flex flex-col items-center gap-6">
+            {/* Subtitles */}
+            {captions.enabled && (
+              <div className="w-full max-w-md bg-black/70 backdrop-blur-2xl rounded-[1.5rem] px-6 py-4 text-center space-y-1">
+                {captions.lines.filter(l => l.speaker === 'them').slice(-2).map(line => (
+                  <p key={line.id} className="text-lg font-bold leading-snug">
+                    {line.text}
+                    {line.text !== line.original && <span className="block text-xs text-slate-500 font-bold">{line.original}</span>}
+                  </p>
+                ))}
+                {captions.interim && <p className="text-lg font-bold text-slate-400 italic">{captions.interim}…</p>}
+                {!captions.interim && !captions.lines.some(l => l.speaker === 'them') && (
+                  <p className="text-xs text-slate-500 font-bold">{t('captions.waiting')}</p>
+                )}
+                {captions.lines.length > 0 && (
+                  <button onClick={saveCaptions} className="text-[10px] font-black uppercase tracking-widest text-indigo-400 pt-1">{t('captions.save')}</button>
+                )}
+              </div>
+            )}
+            {captions.sharing && (
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('captions.sharing')}</span>
+            )}
+            <div className="flex items-center gap-4">
+               <button onClick={() => session.toggleMute()} className={`w-12 h-12 rounded-full border flex items-center justify-center ${isMuted ? 'bg-red-600 border-red-400' : 'bg-white/5 border-white/10'}`}><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 11a7 7 0 01-14 0m7 7v4m0-4a3 3 0 01-3-3V5a3 3 0 116 0v10a3 3 0 01-3 3z" strokeWidth={2}/>{isMuted && <path d="M3 3l18 18" strokeWidth={2}/>}</svg></button>
+               {!persona && !groupId && (
+                 <button onClick={() => session.toggleHold()} className={`w-12 h-12 rounded-full border flex items-center justify-center ${isOnHold ? 'bg-amber-500 border-amber-300 text-black' : 'bg-white/5 border-white/10'}`}><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" strokeWidth={2}/></svg></button>
+               )}
+               {canSelectOutput && devices.audiooutput.length > 1 && (
+                 <button onClick={cycleSpeaker} className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" strokeWidth={2}/></svg></button>
+               )}
+               <button onClick={() => setIsDevicePickerOpen(true)} className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z" strokeWidth={2}/></svg></button>
+               {session.recorder.supported && !persona && !groupId && (
+                 <button onClick={() => (recording.state === 'idle' ? session.recorder.request() : session.recorder.stop())} className={`w-12 h-12 rounded-full border flex items-center justify-center ${recording.state === 'recording' ? 'bg-red-600 border-red-400' : 'bg-white/5 border-white/10'}`}>
+                   <span className={`w-4 h-4 ${recording.state === 'recording' ? 'rounded-sm bg-white' : 'rounded-full bg-red-500'}`} />
+                 </button>
+               )}
+               {session.captions.available && !persona && !groupId && (
+                 <button onClick={() => session.captions.setEnabled(!captions.enabled)} className={`w-12 h-12 rounded-full border flex items-center justify-center text-xs font-black ${captions.enabled ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10'}`}>CC</button>
+               )}
+               {session.canShareScreen && !persona && !groupId && (
+                 <button onClick={() => session.toggleScreenShare()} className={`w-12 h-12 rounded-full border flex items-center justify-center ${isSharingScreen ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10'}`}><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" strokeWidth={2}/></svg></button>
+               )}
+               {!persona && !roomCode && appState === AppState.CONNECTED && (
+                 <button onClick={() => setIsDialerOpen(true)} className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" strokeWidth={2}/></svg></button>
+               )}
+               {isVideoActive && (
+                 <button onClick={() => session.flipCamera()} className="w-12 h-12 rounded-full bg-white/5 border border-white/10 flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" strokeWidth={2}/></svg></button>
+               )}
+            </div>
+            {!persona && !groupId && (
+              <div className="flex items-center gap-3">
+                <button onClick={handleBlock} className="bg-white/5 border border-white/10 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest text-red-400">{t('call.block')}</button>
+                {callKind === 'random' && (
+                  <>
+                    <button onClick={() => session.reportAndSkip()} className="bg-white/5 border border-white/10 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.reportSkip')}</button>
+                    <button onClick={() => session.next()} className="bg-indigo-600 px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest">{t('call.next')}</button>
+                  </>
+                )}
+              </div>
+            )}
+            <div className="flex items-center gap-8">
+               {/* الشخصية الافتراضية صوت فقط، بلا دردشة ولا كاميرا */}
+               <button onClick={() => setIsChatOpen(true)} className={`relative w-16 h-16 ${persona ? 'invisible' : ''} rounded-full bg-white/5 border border-white/10 flex items-center justify-center`}>
+                 <svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" strokeWidth={2}/></svg>
+                 {unread > 0 && (
+                   <span className="absolute -top-1 -end-1 min-w-6 h-6 px-1.5 bg-red-600 rounded-full text-xs font-black flex items-center justify-center border-2 border-[#020617]">{unread > 9 ? `${formatNumber(9)}+` : formatNumber(unread)}</span>
+                 )}
+               </button>
+               <button onClick={() => session.hangup()} className="w-24 h-24 bg-red-600 rounded-full flex items-center justify-center shadow-2xl border-4 border-white/10 active:scale-90 transition-all"><svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={5}/></svg></button>
+               <button onClick={toggleVideo} className={`w-16 h-16 ${persona ? 'invisible' : ''} rounded-full border flex items-center justify-center ${isVideoActive ? 'bg-green-600 border-green-400' : 'bg-white/5 border-white/10'}`}><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" strokeWidth={2}/></svg></button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Share */}
+      {/* قبل تسجيل الـ Peer لا يوجد معرف صالح للمشاركة */}
+      {isShareOpen && parseInvite(myPeerId) && (
+        <SharePanel
+          myPeerId={myPeerId}
+          inviteId={inviteId}
+          onCreateInvite={() => session.createInvite()}
+          onRevokeInvite={() => session.revokeInvite()}
+          onCopy={copyLink}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
+
+      {/* Safety Number */}
+      {isSafetyOpen && inCall && (
+        <SafetyNumberPanel verification={verification} onConfirm={() => session.verification.confirm()} onClose={() => setIsSafetyOpen(false)} />
+      )}
+
+      {/* Recording Consent */}
+      {recording.state === 'asked' && inCall && (
+        <div className="fixed inset-0 z-[260] bg-black/70 backdrop-blur-xl flex items-center justify-center px-6 animate-in fade-in duration-300">
+          <div className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[2rem] p-8 space-y-6 text-center">
+            <div className="w-16 h-16 mx-auto rounded-full bg-red-600/20 flex items-center justify-center"><span className="w-6 h-6 rounded-full bg-red-500 animate-pulse" /></div>
+            <h3 className="text-2xl font-black italic">{t('consent.title')}</h3>
+            <p className="text-slate-400 font-bold text-sm">{t('consent.body')}</p>
+            <div className="flex gap-3">
+              <button onClick={() => session.recorder.respond(false)} className="flex-1 bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('common.decline')}</button>
+              <button onClick={() => session.recorder.respond(true)} className="flex-1 bg-red-600 py-4 rounded-full font-black">{t('common.accept')}</button>
+            </div>
           </div>
         </div>
       )}
 
+      {isStatsOpen && inCall && (
+        <CallStatsOverlay stats={callStats.current} onCopy={copyDiagnostics} onClose={() => setIsStatsOpen(false)} />
+      )}
+
+      {isDevicePickerOpen && inCall && (
+        <DevicePicker
+          devices={devices}
+          selected={{ ...inputDevices, audiooutput: audioOutput }}
+          onSelect={selectDevice}
+          onClose={() => setIsDevicePickerOpen(false)}
+        />
+      )}
+
+      {/* Call Ended UI */}
+      {appState === AppState.ENDED && (
+        <div onClick={() => session.dismiss()} className="z-10 flex flex-col items-center gap-6 text-center px-10">
+          <h2 className="text-4xl font-black italic">{t('ended.title')}</h2>
+          <p className="text-5xl font-mono font-black text-indigo-400">
+            {formatDuration(elapsedTime)}
+          </p>
+          {recording.result && (
+            <div className="flex gap-2">
+              <button onClick={(e) => { e.stopPropagation(); session.pinEnded(); saveRecording('webm'); }} className="bg-white/5 border border-white/10 px-6 py-3 rounded-full text-sm font-bold">{t('ended.downloadWebm')}</button>
+              {recording.result.wav && (
+                <button onClick={(e) => { e.stopPropagation(); session.pinEnded(); saveRecording('wav'); }} className="bg-white/5 border border-white/10 px-6 py-3 rounded-full text-sm font-bold">WAV</button>
+              )}
+            </div>
+          )}
+          {captions.lines.length > 0 && (
+            <button onClick={(e) => { e.stopPropagation(); session.pinEnded(); saveCaptions(); }} className="bg-white/5 border border-white/10 px-8 py-3 rounded-full text-sm font-bold">
+              {t('ended.saveCaptions')}
+            </button>
+          )}
+          {callKind === 'random' && !persona && !groupId && (
+            <button onClick={(e) => { e.stopPropagation(); session.next(); }} className="bg-indigo-600 px-10 py-4 rounded-full font-black">
+              {t('ended.next')}
+            </button>
+          )}
+          {callStats.samples.length > 0 && (
+            <button onClick={(e) => { e.stopPropagation(); session.pinEnded(); copyDiagnostics(); }} className="bg-white/5 border border-white/10 px-8 py-3 rounded-full text-sm font-bold">
+              {t('diagnostics.copy')}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Error UI */}
       {appState === AppState.ERROR && (
         <div className="z-10 flex flex-col items-center gap-8 text-center px-10">
           <div className="w-24 h-24 bg-red-500/10 rounded-full flex items-center justify-center border-2 border-red-500/20"><svg className="w-12 h-12 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" strokeWidth={2.5}/></svg></div>
-          <h2 className="text-4xl font-black italic">فشل الاتصال</h2>
-          <p className="text-slate-400">{error}</p>
-          <button onClick={cleanup} className="bg-indigo-600 px-12 py-5 rounded-full font-black text-xl shadow-2xl active:scale-95 transition-all">العودة للرئيسية</button>
+          <h2 className="text-4xl font-black italic">{t('error.title')}</h2>
+          <p className="text-slate-400">{error && t(error)}</p>
+          {personaOffer && (
+            <button onClick={() => session.talkToPersona()} className="bg-white/5 border border-indigo-500/40 px-10 py-4 rounded-full font-bold active:scale-95 transition-all">
+              {t('error.talkTo')} <span className="text-indigo-400">{personaOffer.name}</span> <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">AI</span>
+            </button>
+          )}
+          <button onClick={() => session.dismiss()} className="bg-indigo-600 px-12 py-5 rounded-full font-black text-xl shadow-2xl active:scale-95 transition-all">{t('error.home')}</button>
         </div>
       )}
 
@@ -538,18 +1064,44 @@ const App: React.FC = () => {
       {isChatOpen && (
         <div className="fixed inset-0 z-[200] bg-[#020617] flex flex-col animate-in slide-in-from-bottom duration-400">
            <div className="p-8 border-b border-white/5 flex justify-between items-center bg-slate-900/40 backdrop-blur-3xl">
-             <h3 className="text-3xl font-black italic text-indigo-400">Secure Chat</h3>
+             <div>
+               <h3 className="text-3xl font-black italic text-indigo-400">{t('chat.title')}{!groupId && verification.confirmed && <span className="ms-3 align-middle text-[10px] not-italic font-black uppercase tracking-widest text-green-400">{t('chat.verified')}</span>}</h3>
+               <p className="h-5 text-xs font-bold text-slate-500">{remoteTyping ? t('chat.typing') : ''}</p>
+             </div>
+             <button onClick={toggleKeepTranscript} className={`ms-auto me-3 px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border ${keepTranscript ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-slate-500'}`}>{t('chat.keepTranscript')}</button>
              <button onClick={() => setIsChatOpen(false)} className="w-12 h-12 bg-white/5 rounded-full flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
            </div>
            <div className="flex-1 overflow-y-auto p-8 space-y-4 no-scrollbar">
-             {messages.map((m, i) => (
-               <div key={i} className={`flex ${m.sender === 'me' ? 'justify-end' : 'justify-start'}`}>
-                 <div className={`px-6 py-4 rounded-[1.5rem] max-w-[85%] text-lg font-bold shadow-xl border ${m.sender === 'me' ? 'bg-white text-black rounded-tr-none' : 'bg-indigo-600 text-white rounded-tl-none border-indigo-500'}`}>{m.text}</div>
+             {messages.map(m => (
+               <div key={m.id} className={`flex ${m.sender === 'me' ? 'justify-end' : 'justify-start'}`}>
+                 {m.transferId && transfersById.has(m.transferId) ? (
+                   <FileTransferCard
+                     transfer={transfersById.get(m.transferId)!}
+                     onAccept={() => session.files.accept(m.transferId!)}
+                     onDecline={() => session.files.decline(m.transferId!)}
+                     onCancel={() => session.files.cancel(m.transferId!)}
+                   />
+                 ) : (
+                   <div className={`px-6 py-4 rounded-[1.5rem] max-w-[85%] text-lg font-bold shadow-xl border ${m.sender === 'me' ? 'bg-white text-black rounded-se-none' : 'bg-indigo-600 text-white rounded-ss-none border-indigo-500'}`}>
+                     {groupId && m.sender !== 'me' && m.from && <span className="block text-[10px] font-black uppercase tracking-widest opacity-70 mb-1">{nameOf(m.from)}</span>}
+                     {m.text}
+                     <span className="block text-[10px] font-bold opacity-50 text-end mt-1">
+                       {formatDate(m.sentAt, CLOCK_FORMAT)}
+                       {m.sender === 'me' && m.status && (
+                         <span className={`ms-1 ${m.status === 'read' ? 'text-sky-500 opacity-100' : ''}`}>{STATUS_TICKS[m.status]}</span>
+                       )}
+                     </span>
+                   </div>
+                 )}
                </div>
              ))}
            </div>
            <div className="p-8 pb-14 flex gap-3 bg-slate-900/50 backdrop-blur-3xl">
-             <input value={inputText} onChange={e => setInputText(e.target.value)} onKeyPress={e => e.key === 'Enter' && sendMessage()} placeholder="Message..." className="flex-1 bg-white/5 border border-white/10 rounded-full px-8 py-5 focus:outline-none focus:border-indigo-500 transition-all font-bold text-lg" />
+             <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFilePicked} />
+             {/* الملفات تُرسل في المكالمات الثنائية فقط */}
+             <button onClick={() => fileInputRef.current?.click()} className={`${groupId ? 'hidden' : ''} w-16 h-16 shrink-0 bg-white/5 border border-white/10 rounded-full flex items-center justify-center active:scale-90`}><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" strokeWidth={2}/></svg></button>
+             <button onClick={() => session.voiceNotes.toggle()} className={`${groupId ? 'hidden' : ''} w-16 h-16 shrink-0 rounded-full flex items-center justify-center active:scale-90 border ${isRecordingNote ? 'bg-red-600 border-red-400 animate-pulse' : 'bg-white/5 border-white/10'}`}><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 11a7 7 0 01-14 0m7 7v4m0-4a3 3 0 01-3-3V5a3 3 0 116 0v10a3 3 0 01-3 3z" strokeWidth={2}/></svg></button>
+             <input value={inputText} onChange={e => { setInputText(e.target.value); session.chat.notifyTyping(); }} onKeyPress={e => e.key === 'Enter' && sendMessage()} placeholder={t('chat.placeholder')} className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-full px-8 py-5 focus:outline-none focus:border-indigo-500 transition-all font-bold text-lg" />
              <button onClick={sendMessage} className="w-16 h-16 bg-indigo-600 rounded-full flex items-center justify-center active:scale-90"><svg className="w-7 h-7" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M5 13l4 4L19 7" strokeWidth={4}/></svg></button>
            </div>
         </div>
@@ -557,7 +1109,7 @@ const App: React.FC = () => {
 
       {toast && (
         <div className="fixed bottom-32 left-1/2 -translate-x-1/2 bg-white text-black px-8 py-3 rounded-full text-xs font-black uppercase animate-bounce shadow-2xl z-[300] border-2 border-indigo-500">
-          {toast}
+          {t(toast)}
         </div>
       )}
 
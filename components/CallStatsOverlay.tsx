@@ -0,0 +1,74 @@
+import React from 'react';
+import { CallStats } from '../services/callStats.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import { MessageKey } from '../locales/index.ts';
+
+interface SignalBarsProps {
+  quality: number | null;
+}
+
+/** Four bars next to the call timer; grey until the first sample arrives. */
+export const SignalBars: React.FC<SignalBarsProps> = ({ quality }) => {
+  const color = quality === null ? 'bg-slate-600' : quality >= 3 ? 'bg-green-500' : quality === 2 ? 'bg-yellow-400' : 'bg-red-500';
+  return (
+    <div className="flex items-end gap-1 h-6">
+      {[1, 2, 3, 4].map(bar => (
+        <div key={bar} className={`w-1.5 rounded-sm ${quality !== null && bar <= quality ? color : 'bg-white/15'}`} style={{ height: `${bar * 25}%` }} />
+      ))}
+    </div>
+  );
+};
+
+interface CallStatsOverlayProps {
+  stats: CallStats | null;
+  onCopy: () => void;
+  onClose: () => void;
+}
+
+const ROUTE_LABELS: Record<CallStats['route'], MessageKey> = {
+  direct: 'stats.route.direct',
+  relay: 'stats.route.relay',
+  unknown: 'stats.route.unknown',
+};
+
+const CallStatsOverlay: React.FC<CallStatsOverlayProps> = ({ stats, onCopy, onClose }) => {
+  const { t, formatNumber } = useI18n();
+  const ms = (value: number | null) => (value === null ? '—' : `${formatNumber(Math.round(value))} ms`);
+  const rows: [MessageKey, string][] = stats ? [
+    ['stats.rtt', ms(stats.rtt)],
+    ['stats.jitter', ms(stats.jitter)],
+    ['stats.packetLoss', formatNumber(stats.packetLoss, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 })],
+    ['stats.bitrateIn', `${formatNumber(Math.round(stats.bitrateIn))} kbps`],
+    ['stats.bitrateOut', `${formatNumber(Math.round(stats.bitrateOut))} kbps`],
+    ['stats.audioCodec', stats.audioCodec ?? '—'],
+    ['stats.videoCodec', stats.videoCodec ?? '—'],
+    ['stats.route', t(ROUTE_LABELS[stats.route])],
+    ['stats.candidates', `${stats.localCandidate ?? '?'} → ${stats.remoteCandidate ?? '?'}`],
+  ] : [];
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 z-[250] bg-black/70 backdrop-blur-xl flex items-center justify-center px-6 animate-in fade-in duration-300">
+      <div onClick={e => e.stopPropagation()} className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[2rem] p-8 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-2xl font-black italic text-indigo-400">{t('stats.title')}</h3>
+          <SignalBars quality={stats?.quality ?? null} />
+        </div>
+        {stats ? (
+          <div className="space-y-2">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4 text-sm font-bold">
+                <span className="text-slate-500">{t(label)}</span>
+                <span dir="ltr" className="font-mono text-end">{value}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-500 font-bold text-center py-6">{t('stats.collecting')}</p>
+        )}
+        <button onClick={onCopy} className="w-full bg-white/5 border border-white/10 py-3 rounded-full font-bold">{t('diagnostics.copy')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default CallStatsOverlay;
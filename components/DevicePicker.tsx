@@ -0,0 +1,54 @@
+import React from 'react';
+import { MediaDeviceLists } from '../hooks/useMediaDevices.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import { MessageKey } from '../locales/index.ts';
+
+export type DeviceKind = keyof MediaDeviceLists;
+
+interface DevicePickerProps {
+  devices: MediaDeviceLists;
+  selected: Record<DeviceKind, string | null>;
+  onSelect: (kind: DeviceKind, deviceId: string | null) => void;
+  onClose: () => void;
+}
+
+const SECTIONS: { kind: DeviceKind; label: MessageKey }[] = [
+  { kind: 'audioinput', label: 'devices.microphone' },
+  { kind: 'videoinput', label: 'devices.camera' },
+  { kind: 'audiooutput', label: 'devices.speaker' },
+];
+
+// اختيار السماعة يتطلب setSinkId، وهو غير مدعوم في كل المتصفحات
+export const canSelectOutput = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+const DevicePicker: React.FC<DevicePickerProps> = ({ devices, selected, onSelect, onClose }) => {
+  const { t } = useI18n();
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 z-[250] bg-black/70 backdrop-blur-xl flex items-end justify-center animate-in fade-in duration-300">
+      <div onClick={e => e.stopPropagation()} className="w-full max-w-md bg-slate-900 border-t border-white/10 rounded-t-[2.5rem] p-8 pb-14 space-y-5">
+        <div className="flex justify-between items-center">
+          <h3 className="text-2xl font-black italic text-indigo-400">{t('devices.title')}</h3>
+          <button onClick={onClose} className="w-10 h-10 bg-white/5 rounded-full flex items-center justify-center"><svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
+        </div>
+        {SECTIONS.filter(({ kind }) => kind !== 'audiooutput' || canSelectOutput).map(({ kind, label }) => (
+          <label key={kind} className="block">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t(label)}</span>
+            <select
+              value={selected[kind] ?? ''}
+              onChange={e => onSelect(kind, e.target.value || null)}
+              className="w-full mt-2 bg-white/5 border border-white/10 rounded-full px-5 py-3 font-bold focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">{t('devices.default')}</option>
+              {devices[kind].map((d, i) => (
+                <option key={d.deviceId} value={d.deviceId}>{d.label || `${t(label)} ${i + 1}`}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DevicePicker;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { FileTransfer } from '../types.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import { MessageKey } from '../locales/index.ts';
+import { Translator } from '../services/i18n.ts';
+
+interface FileTransferCardProps {
+  transfer: FileTransfer;
+  onAccept: () => void;
+  onDecline: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<FileTransfer['status'], MessageKey> = {
+  offered: 'file.offered',
+  transferring: 'file.transferring',
+  verifying: 'file.verifying',
+  done: 'file.done',
+  declined: 'file.declined',
+  cancelled: 'file.cancelled',
+  failed: 'file.failed',
+};
+
+export const formatBytes = (bytes: number, formatNumber: Translator['formatNumber']) =>
+  bytes < 1024
+    ? `${formatNumber(bytes)} B`
+    : bytes < 1024 * 1024
+      ? `${formatNumber(Math.round(bytes / 1024))} KB`
+      : `${formatNumber(bytes / 1024 / 1024, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} MB`;
+
+const FileTransferCard: React.FC<FileTransferCardProps> = ({ transfer, onAccept, onDecline, onCancel }) => {
+  const { t, formatNumber } = useI18n();
+  const mine = transfer.direction === 'send';
+  const progress = transfer.size ? Math.round((transfer.transferred / transfer.size) * 100) : 0;
+  const running = transfer.status === 'transferring' || transfer.status === 'verifying';
+  // المعاينة للمرسل فوراً، وللمستقبل بعد التحقق من الملف
+  const preview = transfer.url && (mine || transfer.status === 'done');
+
+  return (
+    <div className={`px-5 py-4 rounded-[1.5rem] max-w-[85%] w-72 shadow-xl border ${mine ? 'bg-white text-black rounded-se-none' : 'bg-indigo-600 text-white rounded-ss-none border-indigo-500'}`}>
+      {preview && transfer.mime.startsWith('image/') && (
+        <img src={transfer.url} alt={transfer.name} className="rounded-xl mb-3 max-h-60 w-full object-cover" />
+      )}
+      {preview && transfer.mime.startsWith('audio/') && (
+        <audio src={transfer.url} controls className="w-full mb-3" />
+      )}
+      <p className="font-bold truncate">📎 {transfer.name}</p>
+      <p className="text-xs font-bold opacity-60">{formatBytes(transfer.size, formatNumber)} · {t(STATUS_LABELS[transfer.status])}{running ? ` ${formatNumber(progress / 100, { style: 'percent' })}` : ''}</p>
+      {running && (
+        <div className="h-1.5 mt-2 rounded-full bg-black/20 overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+      <div className="flex gap-2 mt-3 empty:hidden">
+        {!mine && transfer.status === 'offered' && (
+          <>
+            <button onClick={onAccept} className="flex-1 bg-green-600 text-white py-2 rounded-full text-sm font-bold">{t('common.accept')}</button>
+            <button onClick={onDecline} className="flex-1 bg-black/20 py-2 rounded-full text-sm font-bold">{t('common.decline')}</button>
+          </>
+        )}
+        {(running || (mine && transfer.status === 'offered')) && (
+          <button onClick={onCancel} className="flex-1 bg-red-600/20 text-red-500 py-2 rounded-full text-sm font-bold">{t('common.cancel')}</button>
+        )}
+        {!mine && transfer.status === 'done' && !transfer.mime.startsWith('audio/') && (
+          <a href={transfer.url} download={transfer.name} className="flex-1 text-center bg-black/20 py-2 rounded-full text-sm font-bold">{t('common.download')}</a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FileTransferCard;
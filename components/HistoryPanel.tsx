@@ -0,0 +1,169 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { CallRecord, Contact } from '../types.ts';
+import { BlockedPeer, BlockList } from '../services/blockList.ts';
+import { HistoryStore } from '../services/historyStore.ts';
+import { useHistory } from '../hooks/useHistory.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import { MessageKey } from '../locales/index.ts';
+import SaveContactForm from './SaveContactForm.tsx';
+
+interface HistoryPanelProps {
+  store: HistoryStore;
+  blockList: BlockList;
+  onCall: (peerId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<CallRecord['kind'], string> = { incoming: '↙', outgoing: '↗', random: '🎲' };
+
+const OUTCOME_LABELS: Record<Exclude<CallRecord['outcome'], 'completed'>, MessageKey> = {
+  missed: 'history.outcome.missed',
+  rejected: 'history.outcome.rejected',
+  busy: 'history.outcome.busy',
+  cancelled: 'history.outcome.cancelled',
+  failed: 'history.outcome.failed',
+};
+
+const BLOCK_REASONS: Record<BlockedPeer['reason'], MessageKey> = { blocked: 'history.blocked', reported: 'history.reported' };
+
+const TABS = { recent: 'history.tab.recent', contacts: 'history.tab.contacts', blocked: 'history.tab.blocked' } as const;
+
+const WHEN_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' };
+const TIME_FORMAT: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+const downloadText = (text: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ store, blockList, onCall, onClose }) => {
+  const { t, formatDate, formatDuration } = useI18n();
+  const [tab, setTab] = useState<keyof typeof TABS>('recent');
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [openTranscript, setOpenTranscript] = useState<number | null>(null);
+  const { calls, contacts, allContacts } = useHistory(store, query);
+  const blocked = useSyncExternalStore(blockList.subscribe, blockList.getSnapshot);
+  // البحث يصفّي القوائم فقط؛ الأسماء المستعارة تُعرض للجميع
+  const byId = new Map<string, Contact>(allContacts.map(c => [c.peerId, c]));
+  const needle = query.trim().toLowerCase();
+  const shownBlocked = blocked.filter(b => !needle || b.peerId.includes(needle) || byId.get(b.peerId)?.nickname.toLowerCase().includes(needle));
+
+  const handleExport = async () => {
+    downloadText(await store.exportAll(), `anyone-history-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm(t('history.confirmClear'))) return;
+    await store.clearAll();
+  };
+
+  const toggleFavourite = (contact: Contact) => store.saveContact({ ...contact, favourite: !contact.favourite });
+
+  const handleBlock = (peerId: string) => {
+    if (confirm(t('call.confirmBlock', { name: byId.get(peerId)?.nickname ?? peerId }))) blockList.add(peerId);
+  };
+
+  const renderActions = (peerId: string) => blockList.has(peerId) ? (
+    <button onClick={() => blockList.remove(peerId)} className="text-xs text-red-400 font-bold px-2 shrink-0">{t('history.unblock')}</button>
+  ) : (
+    <div className="flex items-center gap-2 shrink-0">
+      <button onClick={() => handleBlock(peerId)} className="w-10 h-10 rounded-full bg-white/5 border border-white/10 text-lg">⊘</button>
+      {!byId.has(peerId) && (
+        <button onClick={() => setEditing(peerId)} className="w-10 h-10 rounded-full bg-white/5 border border-white/10 text-lg">＋</button>
+      )}
+      <button onClick={() => onCall(peerId)} className="w-10 h-10 rounded-full bg-green-600 flex items-center justify-center active:scale-90">
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6.62 10.79a15.053 15.053 0 006.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z"/></svg>
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/98 backdrop-blur-3xl flex flex-col animate-in slide-in-from-bottom duration-400 p-8 pt-20">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-3xl font-black italic text-indigo-400">{t('history.title')}</h3>
+        <button onClick={onClose} className="w-12 h-12 bg-white/5 rounded-full flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
+      </div>
+
+      <input value={query} onChange={e => setQuery(e.target.value)} placeholder={t('history.search')} className="bg-white/5 border border-white/10 rounded-full px-6 py-4 mb-4 focus:outline-none focus:border-indigo-500 font-bold" />
+
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(TABS) as (keyof typeof TABS)[]).map(name => (
+          <button key={name} onClick={() => setTab(name)} className={`flex-1 py-3 rounded-full text-xs font-black uppercase tracking-widest ${tab === name ? 'bg-indigo-600' : 'bg-white/5 text-slate-400'}`}>{t(TABS[name])}</button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+        {tab === 'recent' && calls.map(call => (
+          <div key={call.id} className="bg-white/5 border border-white/10 rounded-[1.5rem] px-5 py-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <p className={`font-bold truncate ${call.outcome === 'missed' ? 'text-red-400' : ''}`}>
+                  <span className="me-2">{KIND_ICONS[call.kind]}</span>{byId.get(call.peerId)?.nickname ?? call.peerId}
+                </p>
+                <p className="text-xs text-slate-500 font-bold">
+                  {formatDate(call.startedAt, WHEN_FORMAT)} · {call.outcome === 'completed' ? formatDuration(call.duration) : t(OUTCOME_LABELS[call.outcome])}
+                </p>
+              </div>
+              {call.transcript && (
+                <button onClick={() => setOpenTranscript(openTranscript === call.id ? null : call.id!)} className={`w-10 h-10 rounded-full border text-lg shrink-0 ${openTranscript === call.id ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10'}`}>💬</button>
+              )}
+              {renderActions(call.peerId)}
+            </div>
+            {openTranscript === call.id && call.transcript && (
+              <div className="mt-3 pt-3 border-t border-white/10 space-y-1 max-h-60 overflow-y-auto no-scrollbar">
+                {call.transcript.map(m => (
+                  <p key={m.id} className={`text-sm font-bold ${m.sender === 'me' ? 'text-slate-300' : 'text-indigo-300'}`}>
+                    <span className="text-[10px] text-slate-600 me-2">{formatDate(m.sentAt, TIME_FORMAT)}</span>
+                    {t(m.sender === 'me' ? 'history.me' : 'history.other')}: {m.text}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {tab === 'contacts' && contacts.map(contact => (
+          <div key={contact.peerId} className="flex items-center justify-between gap-3 bg-white/5 border border-white/10 rounded-[1.5rem] px-5 py-3">
+            <button onClick={() => toggleFavourite(contact)} className={`text-2xl ${contact.favourite ? 'text-yellow-400' : 'text-slate-600'}`}>★</button>
+            <div className="flex-1 min-w-0">
+              <p className="font-bold truncate">{contact.nickname}</p>
+              <p className="text-xs font-mono text-slate-500">{contact.peerId}</p>
+            </div>
+            <button onClick={() => store.removeContact(contact.peerId)} className="text-xs text-red-400 font-bold px-2">{t('common.delete')}</button>
+            {renderActions(contact.peerId)}
+          </div>
+        ))}
+
+        {tab === 'blocked' && shownBlocked.map(entry => (
+          <div key={entry.peerId} className="flex items-center justify-between gap-3 bg-white/5 border border-white/10 rounded-[1.5rem] px-5 py-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-bold truncate">{byId.get(entry.peerId)?.nickname ?? entry.peerId}</p>
+              <p className="text-xs text-slate-500 font-bold">{formatDate(entry.blockedAt, WHEN_FORMAT)} · {t(BLOCK_REASONS[entry.reason])}</p>
+            </div>
+            {renderActions(entry.peerId)}
+          </div>
+        ))}
+
+        {(tab === 'recent' ? calls : tab === 'contacts' ? contacts : shownBlocked).length === 0 && (
+          <p className="text-center text-slate-600 font-bold pt-10">{t('history.empty')}</p>
+        )}
+      </div>
+
+      {editing && (
+        <SaveContactForm store={store} peerId={editing} onDone={() => setEditing(null)} />
+      )}
+
+      <div className="flex gap-3 pt-6">
+        <button onClick={handleExport} className="flex-1 bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('history.export')}</button>
+        <button onClick={handleClearAll} className="flex-1 bg-red-600/20 text-red-500 py-4 rounded-full font-bold">{t('history.clearAll')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import {
+  CandidateType,
+  ConnectivityReport,
+  NetworkSettings,
+  buildDefaults,
+  loadNetworkSettings,
+  resetNetworkSettings,
+  saveNetworkSettings,
+  testConnectivity,
+  validateNetworkSettings,
+} from '../services/networkSettings.ts';
+import { MessageKey } from '../locales/index.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+interface NetworkSettingsPanelProps {
+  /** Called after saving; the Peer only picks up new settings when it is created again. */
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const CANDIDATE_LABELS: { type: CandidateType; label: MessageKey; hint: MessageKey }[] = [
+  { type: 'host', label: 'network.host.label', hint: 'network.host.hint' },
+  { type: 'srflx', label: 'network.srflx.label', hint: 'network.srflx.hint' },
+  { type: 'relay', label: 'network.relay.label', hint: 'network.relay.hint' },
+];
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-full px-5 py-3 font-bold focus:outline-none focus:border-indigo-500';
+const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-500';
+
+const NetworkSettingsPanel: React.FC<NetworkSettingsPanelProps> = ({ onApply, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<NetworkSettings>(loadNetworkSettings);
+  const [testing, setTesting] = useState(false);
+  const [report, setReport] = useState<ConnectivityReport | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const problems = validateNetworkSettings(draft);
+
+  const setPeerServer = (patch: Partial<NonNullable<NetworkSettings['peerServer']>>) =>
+    setDraft(d => ({ ...d, peerServer: { host: '', port: 9000, path: '/', secure: location.protocol === 'https:', ...d.peerServer, ...patch } }));
+
+  const setIceServer = (index: number, patch: Partial<RTCIceServer>) =>
+    setDraft(d => ({ ...d, iceServers: d.iceServers.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+
+  const handleSave = () => {
+    saveNetworkSettings(draft);
+    onApply();
+  };
+
+  const handleReset = () => {
+    resetNetworkSettings();
+    setDraft(buildDefaults());
+    setReport(null);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setReport(null);
+    setTestError(null);
+    try {
+      setReport(await testConnectivity(draft.iceServers));
+    } catch (e) {
+      setTestError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/98 backdrop-blur-3xl flex flex-col animate-in slide-in-from-bottom duration-400 p-8 pt-20 overflow-y-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-3xl font-black italic text-indigo-400">{t('network.title')}</h3>
+        <button onClick={onClose} className="w-12 h-12 bg-white/5 rounded-full flex items-center justify-center"><svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M6 18L18 6M6 6l12 12" strokeWidth={3}/></svg></button>
+      </div>
+
+      <div className="space-y-4 mb-8">
+        <span className={labelClass}>{t('network.signalling')}</span>
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(d => ({ ...d, peerServer: null }))} className={`flex-1 py-3 rounded-full font-bold ${draft.peerServer ? 'bg-white/5' : 'bg-indigo-600'}`}>{t('network.cloud')}</button>
+          <button onClick={() => setPeerServer({})} className={`flex-1 py-3 rounded-full font-bold ${draft.peerServer ? 'bg-indigo-600' : 'bg-white/5'}`}>{t('network.selfHosted')}</button>
+        </div>
+        {draft.peerServer && (
+          <div className="space-y-3">
+            <input value={draft.peerServer.host} onChange={e => setPeerServer({ host: e.target.value.trim() })} placeholder={t('network.host')} dir="ltr" className={inputClass} />
+            <div className="flex gap-2">
+              <input type="number" value={draft.peerServer.port} onChange={e => setPeerServer({ port: Number(e.target.value) })} placeholder={t('network.port')} dir="ltr" className={`${inputClass} w-28`} />
+              <input value={draft.peerServer.path} onChange={e => setPeerServer({ path: e.target.value.trim() })} placeholder={t('network.path')} dir="ltr" className={inputClass} />
+            </div>
+            <label className="flex items-center gap-3 font-bold text-sm">
+              <input type="checkbox" checked={draft.peerServer.secure} onChange={e => setPeerServer({ secure: e.target.checked })} />
+              {t('network.secure')}
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4 mb-8">
+        <span className={labelClass}>{t('network.iceServers')}</span>
+        {draft.iceServers.map((server, i) => (
+          <div key={i} className="bg-white/5 border border-white/10 rounded-[1.5rem] p-4 space-y-2">
+            <div className="flex gap-2">
+              <input value={([] as string[]).concat(server.urls).join(' ')} onChange={e => setIceServer(i, { urls: e.target.value.split(/\s+/).filter(Boolean) })} placeholder="turn:turn.example.com:3478" dir="ltr" className={inputClass} />
+              <button onClick={() => setDraft(d => ({ ...d, iceServers: d.iceServers.filter((_, j) => j !== i) }))} className="w-12 shrink-0 rounded-full bg-red-600/20 text-red-400 font-black">✕</button>
+            </div>
+            <div className="flex gap-2">
+              <input value={server.username ?? ''} onChange={e => setIceServer(i, { username: e.target.value || undefined })} placeholder={t('network.username')} className={inputClass} />
+              <input type="password" value={(server.credential as string | undefined) ?? ''} onChange={e => setIceServer(i, { credential: e.target.value || undefined })} placeholder={t('network.credential')} className={inputClass} />
+            </div>
+          </div>
+        ))}
+        <button onClick={() => setDraft(d => ({ ...d, iceServers: [...d.iceServers, { urls: '' }] }))} className="w-full bg-white/5 border border-dashed border-white/20 py-3 rounded-full font-bold">{t('network.addServer')}</button>
+      </div>
+
+      <div className="space-y-4 mb-8">
+        <span className={labelClass}>{t('network.connectivity')}</span>
+        <button onClick={handleTest} disabled={testing} className="w-full bg-white/5 border border-white/10 py-3 rounded-full font-bold disabled:opacity-50">
+          {testing ? t('network.testing') : t('network.test')}
+        </button>
+        {testError && <p className="text-red-400 text-sm font-bold">{testError}</p>}
+        {report && (
+          <div className="space-y-2">
+            {CANDIDATE_LABELS.map(({ type, label, hint }) => (
+              <div key={type} className="flex justify-between items-center text-sm font-bold">
+                <span>{t(label)} <span className="text-slate-500">· {t(hint)}</span></span>
+                <span className={report.found[type] ? 'text-green-400' : 'text-red-400'}>{report.found[type] ? '✓' : '✗'}</span>
+              </div>
+            ))}
+            {!report.found.relay && <p className="text-yellow-400 text-xs font-bold">{t('network.noTurn')}</p>}
+            {report.timedOut && <p className="text-slate-500 text-xs font-bold">{t('network.timedOut')}</p>}
+            <div dir="ltr" className="font-mono text-[11px] text-slate-500 space-y-1 pt-2">
+              {report.candidates.map((c, i) => <div key={i}>{c.type} {c.protocol} {c.address}</div>)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-red-400 text-xs font-bold space-y-1 mb-4">
+          {problems.map(p => t(p)).map(text => <li key={text}>{text}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button onClick={handleReset} className="flex-1 bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('network.defaults')}</button>
+        <button onClick={handleSave} disabled={problems.length > 0} className="flex-1 bg-indigo-600 py-4 rounded-full font-black disabled:opacity-40">{t('common.save')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkSettingsPanel;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { useI18n } from '../hooks/useI18n.ts';
+
+interface ParticipantTileProps {
+  label: string;
+  stream: MediaStream | null;
+  videoActive: boolean;
+  muted: boolean;
+  speaking: boolean;
+  /** Our own tile: never played back, and mirrored like a selfie camera. */
+  isLocal?: boolean;
+  audioOutput?: string | null;
+  /** Their identity check failed or their key changed. */
+  unverified?: boolean;
+}
+
+type SinkAudio = HTMLAudioElement & { setSinkId?: (id: string) => Promise<void> };
+
+/** One person in a group call, with their own audio element and a ring while they speak. */
+const ParticipantTile: React.FC<ParticipantTileProps> = ({ label, stream, videoActive, muted, speaking, isLocal = false, audioOutput = null, unverified = false }) => {
+  const { t } = useI18n();
+  const audioRef = useRef<SinkAudio | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (audioRef.current && !isLocal) {
+      audioRef.current.srcObject = stream;
+      audioRef.current.play().catch(() => {});
+    }
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream, videoActive, isLocal]);
+
+  useEffect(() => {
+    audioRef.current?.setSinkId?.(audioOutput ?? '').catch(() => {});
+  }, [audioOutput, stream]);
+
+  return (
+    <div className={`relative aspect-square rounded-[2rem] overflow-hidden bg-indigo-500/5 border-2 flex items-center justify-center transition-all ${speaking && !muted ? 'border-indigo-400 shadow-[0_0_40px_rgba(99,102,241,0.4)]' : 'border-indigo-500/20'}`}>
+      {!isLocal && <audio ref={audioRef} autoPlay playsInline className="hidden" />}
+      {videoActive && stream ? (
+        <video ref={videoRef} autoPlay playsInline muted className={`absolute inset-0 w-full h-full object-cover ${isLocal ? '-scale-x-100' : ''}`} />
+      ) : (
+        <span className="w-16 h-16 rounded-full bg-indigo-600 flex items-center justify-center text-2xl font-black">{label.charAt(0).toUpperCase()}</span>
+      )}
+      {!stream && !isLocal && (
+        <span className="absolute inset-0 bg-black/50 flex items-center justify-center text-[10px] font-black uppercase tracking-widest text-slate-300 animate-pulse">{t('call.connectingTile')}</span>
+      )}
+      <span className="absolute bottom-3 left-3 right-3 flex items-center gap-2 bg-black/60 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest truncate">
+        {muted && <span className="w-2 h-2 rounded-full bg-red-500 shrink-0" />}
+        {unverified && <span className="text-red-400 shrink-0">⚠</span>}
+        <span className="truncate">{label}</span>
+      </span>
+    </div>
+  );
+};
+
+export default ParticipantTile;
@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { create } from 'qrcode';
+
+interface QrCodeProps {
+  text: string;
+  label: string;
+}
+
+// الهامش الفاتح حول الرمز الذي تحتاجه الماسحات
+const QUIET_ZONE = 4;
+
+/** QR code for `text`, drawn as SVG on this device. */
+const QrCode: React.FC<QrCodeProps> = ({ text, label }) => {
+  const { size, path } = useMemo(() => {
+    const { modules } = create(text, { errorCorrectionLevel: 'M' });
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) path += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { size: modules.size + QUIET_ZONE * 2, path };
+  }, [text]);
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} shapeRendering="crispEdges" className="w-56 h-56 mx-auto bg-white rounded-2xl">
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
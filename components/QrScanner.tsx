@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { useI18n } from '../hooks/useI18n.ts';
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+}
+
+/** The part of the Barcode Detection API we use; TypeScript's DOM types do not have it yet. */
+interface BarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector;
+  }
+}
+
+const SCAN_INTERVAL = 250;
+// jsQR يفحص الصورة كلها، فنصغّرها أولاً
+const MAX_FRAME_WIDTH = 640;
+
+/** Reads a QR code with the back camera; the browser's BarcodeDetector is used where there is one. */
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, onClose }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    let busy = false;
+    const canvas = document.createElement('canvas');
+    const detector = window.BarcodeDetector ? new window.BarcodeDetector({ formats: ['qr_code'] }) : null;
+
+    const decode = async (video: HTMLVideoElement): Promise<string | null> => {
+      if (detector) {
+        const [code] = await detector.detect(video).catch(() => []);
+        return code?.rawValue ?? null;
+      }
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      return jsQR(data, width, height)?.data ?? null;
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || busy || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      busy = true;
+      const text = await decode(video);
+      busy = false;
+      if (!text || stopped) return;
+      stopped = true;
+      onScanRef.current(text);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } }).then(
+      captured => {
+        if (stopped || !videoRef.current) {
+          captured.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = captured;
+        videoRef.current.srcObject = captured;
+        timer = setInterval(scan, SCAN_INTERVAL);
+      },
+      () => setFailed(true),
+    );
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black flex flex-col items-center justify-center gap-8 p-8 animate-in fade-in duration-300">
+      <div className="relative w-full max-w-sm aspect-square rounded-[2rem] overflow-hidden bg-slate-900">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        <div className="absolute inset-10 border-4 border-white/70 rounded-3xl" />
+      </div>
+      <p className={`text-sm font-bold text-center ${failed ? 'text-red-400' : 'text-slate-400'}`}>{t(failed ? 'scanner.cameraFailed' : 'scanner.hint')}</p>
+      <button onClick={onClose} className="bg-white/5 border border-white/10 px-10 py-4 rounded-full font-bold">{t('common.close')}</button>
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { VerificationSnapshot, VerificationStatus } from '../services/peerVerification.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import { MessageKey } from '../locales/index.ts';
+
+interface SafetyNumberPanelProps {
+  verification: VerificationSnapshot;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const STATUS_TEXT: Record<VerificationStatus, MessageKey> = {
+  pending: 'safety.pending',
+  verified: 'safety.verified',
+  unpinned: 'safety.unpinned',
+  'key-changed': 'safety.keyChanged',
+  failed: 'safety.failed',
+};
+
+/** Safety number to read aloud, so both people know nobody sits in between. */
+const SafetyNumberPanel: React.FC<SafetyNumberPanelProps> = ({ verification, onConfirm, onClose }) => {
+  const { t } = useI18n();
+  const { status, safetyNumber, confirmed } = verification;
+  const alarming = status === 'key-changed' || status === 'failed';
+
+  return (
+    <div className="fixed inset-0 z-[260] bg-black/70 backdrop-blur-xl flex items-center justify-center px-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[2rem] p-8 space-y-6 text-center" onClick={e => e.stopPropagation()}>
+        <h3 className="text-2xl font-black italic">{t('safety.title')}</h3>
+        {status && <p className={`font-bold text-sm ${alarming ? 'text-red-400' : 'text-slate-400'}`}>{t(STATUS_TEXT[status])}</p>}
+        {safetyNumber && (
+          <>
+            <p className="text-4xl leading-relaxed">{safetyNumber.emoji}</p>
+            <p dir="ltr" className="font-mono font-black text-lg tracking-widest text-indigo-400">{safetyNumber.digits}</p>
+            <p className="text-xs text-slate-500 font-bold">{t('safety.instructions')}</p>
+          </>
+        )}
+        <div className="flex gap-3">
+          <button onClick={onClose} className="flex-1 bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('common.close')}</button>
+          {safetyNumber && !confirmed && (
+            <button onClick={onConfirm} className="flex-1 bg-green-600 py-4 rounded-full font-black">{t('safety.match')}</button>
+          )}
+        </div>
+        {confirmed && <p className="text-[10px] font-black uppercase tracking-widest text-green-400">{t('safety.confirmed')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SafetyNumberPanel;
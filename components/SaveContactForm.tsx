@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { HistoryStore } from '../services/historyStore.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+
+interface SaveContactFormProps {
+  store: HistoryStore;
+  peerId: string;
+  onDone: () => void;
+}
+
+/** Inline nickname form; used from the history list and the incoming-call screen. */
+const SaveContactForm: React.FC<SaveContactFormProps> = ({ store, peerId, onDone }) => {
+  const { t } = useI18n();
+  const [nickname, setNickname] = useState('');
+
+  const save = async () => {
+    if (!nickname.trim()) return;
+    await store.saveContact({ peerId, nickname: nickname.trim(), favourite: false });
+    onDone();
+  };
+
+  return (
+    <div onClick={e => e.stopPropagation()} className="flex gap-2 w-full max-w-sm mt-4">
+      <input
+        autoFocus
+        value={nickname}
+        onChange={e => setNickname(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && save()}
+        placeholder={t('contact.namePlaceholder', { peerId })}
+        className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-full px-5 py-3 focus:outline-none focus:border-indigo-500 font-bold text-white"
+      />
+      <button onClick={save} className="px-5 bg-indigo-600 rounded-full font-bold">{t('common.save')}</button>
+      <button onClick={onDone} className="px-4 bg-white/5 rounded-full text-slate-400">✕</button>
+    </div>
+  );
+};
+
+export default SaveContactForm;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { inviteLink } from '../services/invites.ts';
+import { useI18n } from '../hooks/useI18n.ts';
+import QrCode from './QrCode.tsx';
+
+interface SharePanelProps {
+  myPeerId: string;
+  /** The open one-time invite, if any. */
+  inviteId: string | null;
+  onCreateInvite: () => void;
+  onRevokeInvite: () => void;
+  onCopy: (link: string) => void;
+  onClose: () => void;
+}
+
+/** Invite link and QR code for this device, or for a one-time ID that keeps the permanent one private. */
+const SharePanel: React.FC<SharePanelProps> = ({ myPeerId, inviteId, onCreateInvite, onRevokeInvite, onCopy, onClose }) => {
+  const { t } = useI18n();
+  const [oneTime, setOneTime] = useState(!!inviteId);
+  const id = oneTime ? inviteId : myPeerId;
+  const link = id ? inviteLink(id) : null;
+  const canShare = typeof navigator.share === 'function';
+
+  return (
+    <div className="fixed inset-0 z-[260] bg-black/70 backdrop-blur-xl flex items-center justify-center px-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[2rem] p-8 space-y-6 text-center" onClick={e => e.stopPropagation()}>
+        <h3 className="text-2xl font-black italic">{t('share.title')}</h3>
+        <div className="flex bg-white/5 rounded-full p-1 text-[10px] font-black uppercase tracking-widest">
+          <button onClick={() => setOneTime(false)} className={`flex-1 py-3 rounded-full ${oneTime ? 'text-slate-500' : 'bg-indigo-600'}`}>{t('share.permanent')}</button>
+          <button onClick={() => setOneTime(true)} className={`flex-1 py-3 rounded-full ${oneTime ? 'bg-indigo-600' : 'text-slate-500'}`}>{t('share.oneTime')}</button>
+        </div>
+        <p className="text-xs text-slate-500 font-bold">{t(oneTime ? 'share.oneTimeHint' : 'share.permanentHint')}</p>
+        {link ? (
+          <>
+            <QrCode text={link} label={t('share.qrLabel', { peerId: id! })} />
+            <p dir="ltr" className="font-mono text-xs text-indigo-400 break-all">{link}</p>
+            <div className="flex gap-3">
+              <button onClick={() => onCopy(link)} className="flex-1 bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('share.copy')}</button>
+              {canShare && (
+                <button onClick={() => navigator.share({ url: link }).catch(() => {})} className="flex-1 bg-green-600 py-4 rounded-full font-black">{t('share.share')}</button>
+              )}
+            </div>
+            {oneTime && <button onClick={() => { onRevokeInvite(); setOneTime(false); }} className="text-xs font-bold text-red-400">{t('share.revoke')}</button>}
+          </>
+        ) : (
+          <button onClick={onCreateInvite} className="w-full bg-indigo-600 py-4 rounded-full font-black">{t('share.create')}</button>
+        )}
+        <button onClick={onClose} className="w-full bg-white/5 border border-white/10 py-4 rounded-full font-bold">{t('common.close')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { CallRecord, Contact } from '../types.ts';
+import { HistoryStore } from '../services/historyStore.ts';
+
+/**
+ * Live view of the call log and contacts, reloaded whenever the store changes.
+ * `calls` and `contacts` match `query`; `allContacts` ignores it, for looking
+ * up nicknames of whatever is shown.
+ */
+export const useHistory = (store: HistoryStore, query = '') => {
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [allContacts, setAllContacts] = useState<Contact[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const load = () => {
+      // بلا بحث تكفي قائمة جهات الاتصال نفسها
+      Promise.all([store.listCalls(query), store.listContacts(query), query.trim() ? store.listContacts() : null])
+        .then(([nextCalls, nextContacts, everyContact]) => {
+          if (!active) return;
+          setCalls(nextCalls);
+          setContacts(nextContacts);
+          setAllContacts(everyContact ?? nextContacts);
+        })
+        .catch(err => console.warn('[history] load failed', err));
+    };
+    load();
+    const off = store.on('change', load);
+    return () => { active = false; off(); };
+  }, [store, query]);
+
+  return { calls, contacts, allContacts };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { i18n } from '../services/i18n.ts';
+
+/** Translator for the current interface language; re-renders when the picker changes it. */
+export const useI18n = () => useSyncExternalStore(i18n.subscribe, i18n.getSnapshot);
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+
+export interface MediaDeviceLists {
+  audioinput: MediaDeviceInfo[];
+  videoinput: MediaDeviceInfo[];
+  audiooutput: MediaDeviceInfo[];
+}
+
+const EMPTY: MediaDeviceLists = { audioinput: [], videoinput: [], audiooutput: [] };
+
+/**
+ * Microphones, cameras and speakers known to the browser, refreshed when a
+ * device is plugged in or removed. Labels stay empty until a media permission
+ * has been granted, so the lists are only loaded while `enabled` is true.
+ */
+export const useMediaDevices = (enabled: boolean) => {
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices?.enumerateDevices) return;
+    let active = true;
+    const load = () => {
+      navigator.mediaDevices.enumerateDevices()
+        .then(all => {
+          if (!active) return;
+          const byKind = (kind: MediaDeviceKind) => all.filter(d => d.kind === kind && d.deviceId);
+          setDevices({ audioinput: byKind('audioinput'), videoinput: byKind('videoinput'), audiooutput: byKind('audiooutput') });
+        })
+        .catch(err => console.warn('[media] could not list devices', err));
+    };
+    load();
+    navigator.mediaDevices.addEventListener('devicechange', load);
+    return () => { active = false; navigator.mediaDevices.removeEventListener('devicechange', load); };
+  }, [enabled]);
+
+  return devices;
+};
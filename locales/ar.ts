@@ -0,0 +1,272 @@
+import type { Catalog } from './index.ts';
+
+const ar: Catalog = {
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.accept': 'موافق',
+  'common.decline': 'رفض',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.download': 'تنزيل',
+  'common.you': 'أنت',
+  'common.them': 'الطرف الآخر',
+
+  'nav.myId': 'معرفي',
+  'nav.uiLanguage': 'لغة التطبيق',
+
+  'update.available': 'إصدار جديد جاهز',
+  'update.reload': 'إعادة التحميل',
+  'offline.title': 'أنت غير متصل بالإنترنت',
+  'offline.body': 'المكالمات تحتاج اتصالاً بالإنترنت. سيعيد AnyOne الاتصال فور عودتك.',
+
+  'home.tagline': 'تواصل فوراً',
+  'home.crossLanguage': 'المطابقة بين اللغات',
+  'home.crossLanguageHint': 'ترجمة فورية لكلام الطرف الآخر',
+  'home.interests': 'اهتمامات (اختياري)',
+  'home.addInterest': 'إضافة',
+  'home.roomCode': 'رمز الغرفة',
+  'home.joinRoom': 'دخول الغرفة',
+  'home.callAlerts': 'الرنين والتطبيق مغلق',
+
+  'status.joiningQueue': 'جاري الانضمام للقائمة...',
+  'status.queued': 'في قائمة الانتظار ({position})',
+  'status.matched': 'تم الربط!',
+  'status.searchingAgain': 'جاري البحث عن شريك آخر...',
+  'status.preparingPersona': 'جاري التحضير للحديث مع {name}...',
+  'status.calling': 'جاري الاتصال بـ {peerId}...',
+  'status.alerting': 'جارٍ تنبيه جهاز {peerId}...',
+  'status.joiningRoom': 'جاري الانضمام إلى الغرفة {room}...',
+  'status.connecting': 'جاري الاتصال...',
+  'status.reconnecting': 'جاري إعادة الاتصال...',
+
+  'error.title': 'فشل الاتصال',
+  'error.home': 'العودة للرئيسية',
+  'error.talkTo': 'تحدث مع',
+  'error.matchmakerUnavailable': 'خادم المطابقة غير متاح حالياً.',
+  'error.cryptoUnsupported': 'هذا المتصفح لا يدعم التشفير المطلوب لتأمين هويتك.',
+  'error.peerOffline': 'هذا المعرف غير متصل حالياً.',
+  'error.noAnswer': 'لا يوجد رد.',
+  'error.personaFailed': 'تعذر بدء المحادثة.',
+  'error.micRequired': 'صلاحيات الميكروفون مطلوبة',
+  'error.callFailed': 'تعذّر بدء المكالمة.',
+  'error.roomFull': 'الغرفة ممتلئة.',
+  'error.roomUnavailable': 'تعذر الانضمام إلى الغرفة.',
+  'error.rejected': 'تم رفض المكالمة من الطرف الآخر.',
+  'error.busy': 'الطرف الآخر في مكالمة أخرى.',
+  'error.nobodyFound': 'لم يتم العثور على أحد متاح.',
+
+  'notice.enableMic': 'يرجى تفعيل الميكروفون',
+  'notice.cameraFailed': 'فشل تفعيل الكاميرا',
+  'notice.screenShareFailed': 'تعذرت مشاركة الشاشة',
+  'notice.flipFailed': 'تعذر تبديل الكاميرا',
+  'notice.deviceFailed': 'تعذر تبديل الجهاز',
+  'notice.repeatedCalls': 'تم تجاهل مكالمات متكررة من {peerId}',
+  'notice.groupFull': 'المكالمة الجماعية ممتلئة',
+  'notice.participantLeft': 'غادر {peerId} المكالمة',
+  'notice.noAnswer': 'لم يرد {peerId}',
+  'notice.participantUnverified': 'تعذر التحقق من هوية {peerId}',
+  'notice.participantDeclined': 'رفض {peerId} الانضمام',
+  'notice.participantBusy': '{peerId} في مكالمة أخرى',
+  'notice.keyChanged': 'تغيّر مفتاح هذا الشخص! قارن رقم الأمان قبل المتابعة',
+  'notice.verifyFailed': 'تعذر التحقق من هوية الطرف الآخر',
+  'notice.recordingDeclined': 'رفض الطرف الآخر التسجيل',
+  'notice.recordingUnanswered': 'لم يرد الطرف الآخر على طلب التسجيل',
+  'notice.recordingFailed': 'تعذر بدء التسجيل',
+  'notice.recordingStopped': 'توقف التسجيل',
+  'notice.versionMismatch': 'إصدار التطبيق لدى الطرف الآخر غير متوافق',
+  'notice.ackTimeout': 'لم يتم تأكيد الاستلام من الطرف الآخر',
+  'notice.copied': 'تم النسخ ✅',
+  'notice.copyFailed': 'تعذر النسخ',
+  'notice.diagnosticsCopied': 'تم نسخ تقرير التشخيص ✅',
+  'notice.speaker': '🔊 {label}',
+  'notice.tapForSound': 'اضغط في أي مكان لتفعيل الصوت',
+  'notice.speakerFailed': 'تعذر استخدام السماعة المختارة',
+  'notice.fileFailed': 'تعذر إرسال الملف: {reason}',
+  'notice.recordingUnavailable': 'التسجيل غير متاح',
+  'notice.alertsDenied': 'الإشعارات محظورة لهذا الموقع',
+  'notice.alertsUnavailable': 'تعذر الوصول إلى خادم الإشعارات',
+  'notice.heldEnded': 'أنهى {peerId} المكالمة وهي معلّقة',
+  'notice.qrInvalid': 'هذا الرمز ليس دعوة من AnyOne',
+  'notice.inviteFailed': 'تعذّر إنشاء رابط لمرة واحدة',
+
+  'notification.title': 'مكالمة واردة - AnyOne',
+  'notification.body': 'يرن الآن من: {peerId}',
+  'notification.answer': 'رد ✅',
+  'notification.reject': 'رفض ❌',
+  'notification.missedTitle': 'مكالمة فائتة - AnyOne',
+  'notification.missedBody': 'حاول {peerId} الاتصال بك',
+
+  'incoming.title': 'مكالمة واردة',
+  'incoming.saveContact': 'حفظ كجهة اتصال',
+  'incoming.block': 'حظر المتصل',
+  'outgoing.title': 'جاري الاتصال...',
+
+  'call.cameraOff': 'الكاميرا متوقفة',
+  'call.yourCameraOff': 'كاميرتك متوقفة',
+  'call.room': 'الغرفة · {code}',
+  'call.participants': 'في المكالمة: {count}',
+  'call.compare': 'قارن',
+  'call.recording': '● جاري التسجيل · إيقاف',
+  'call.theyRecording': '● الطرف الآخر يسجل · إيقاف',
+  'call.waitingConsent': 'بانتظار الموافقة…',
+  'call.muted': 'مكتوم',
+  'call.onHold': 'في الانتظار',
+  'call.micOn': 'الميكروفون يعمل',
+  'call.holding': 'في الانتظار',
+  'call.cameraOn': 'الكاميرا تعمل',
+  'call.sharingScreen': 'يشارك الشاشة',
+  'call.poor': 'الاتصال ضعيف',
+  'call.poorVideo': 'الاتصال ضعيف، خُفّضت جودة الفيديو',
+  'call.audioOnly': 'صوت فقط',
+  'call.talkingMuted': 'أنت تتحدث والميكروفون مكتوم · اضغط لإلغاء الكتم',
+  'call.resume': 'المكالمة في الانتظار · استئناف',
+  'call.waiting': '{peerId} يتصل بك',
+  'call.holdAnswer': 'تعليق والرد',
+  'call.endAnswer': 'إنهاء والرد',
+  'call.held': 'معلّقة: {peerId}',
+  'call.swap': 'تبديل',
+  'call.saveWebm': 'حفظ WebM',
+  'call.saveWav': 'حفظ WAV',
+  'call.stopSharing': 'أنت تشارك شاشتك · إيقاف',
+  'call.waitingForRoom': 'في انتظار انضمام الآخرين إلى الغرفة...',
+  'call.connectingTile': 'جاري الاتصال…',
+  'call.aiPersona': 'شخصية ذكاء اصطناعي',
+  'call.live': 'محادثة مباشرة',
+  'call.block': 'حظر',
+  'call.reportSkip': 'إبلاغ وتخطٍّ',
+  'call.next': 'التالي ←',
+  'call.confirmBlock': 'حظر {name}؟ لن تصلك مكالماته ولن تتم مطابقتكما.',
+
+  'verification.pending': 'جاري التحقق من الهوية…',
+  'verification.verified': '✓ الهوية',
+  'verification.unpinned': 'هوية جديدة',
+  'verification.keyChanged': '⚠ تغيّر المفتاح',
+  'verification.failed': '⚠ غير موثّق',
+
+  'captions.waiting': 'في انتظار كلام الطرف الآخر...',
+  'captions.save': 'حفظ الترجمة',
+  'captions.sharing': 'يتم تحويل كلامك إلى نص للطرف الآخر',
+
+  'consent.title': 'تسجيل هذه المكالمة؟',
+  'consent.body': 'الطرف الآخر يطلب تسجيل المكالمة. يمكنك إيقاف التسجيل في أي وقت.',
+
+  'ended.title': 'انتهت المكالمة',
+  'ended.downloadWebm': 'تنزيل التسجيل (WebM)',
+  'ended.saveCaptions': 'حفظ الترجمة النصية',
+  'ended.next': 'الشريك التالي',
+  'diagnostics.copy': 'نسخ تقرير التشخيص',
+
+  'chat.title': 'الدردشة',
+  'chat.verified': '✓ موثّق',
+  'chat.typing': 'يكتب الآن...',
+  'chat.keepTranscript': 'حفظ النص',
+  'chat.placeholder': 'رسالة...',
+
+  'history.title': 'السجل',
+  'history.search': 'ابحث بالمعرف أو الاسم...',
+  'history.tab.recent': 'الأخيرة',
+  'history.tab.contacts': 'جهات الاتصال',
+  'history.tab.blocked': 'المحظورون',
+  'history.outcome.missed': 'فائتة',
+  'history.outcome.rejected': 'مرفوضة',
+  'history.outcome.busy': 'مشغول',
+  'history.outcome.cancelled': 'ملغاة',
+  'history.outcome.failed': 'فشلت',
+  'history.blocked': 'محظور',
+  'history.reported': 'مُبلَّغ عنه',
+  'history.unblock': 'إلغاء الحظر',
+  'history.me': 'أنا',
+  'history.other': 'الطرف الآخر',
+  'history.empty': 'لا يوجد شيء بعد',
+  'history.export': 'تصدير',
+  'history.clearAll': 'مسح الكل',
+  'history.confirmClear': 'حذف كل السجل وجهات الاتصال من هذا الجهاز؟',
+  'contact.namePlaceholder': 'اسم لـ {peerId}',
+
+  'stats.title': 'الاتصال',
+  'stats.collecting': 'جاري جمع البيانات...',
+  'stats.rtt': 'زمن الذهاب والعودة',
+  'stats.jitter': 'التذبذب',
+  'stats.packetLoss': 'فقد الحزم',
+  'stats.bitrateIn': 'معدل الاستقبال',
+  'stats.bitrateOut': 'معدل الإرسال',
+  'stats.audioCodec': 'ترميز الصوت',
+  'stats.videoCodec': 'ترميز الفيديو',
+  'stats.route': 'المسار',
+  'stats.candidates': 'المرشحون',
+  'stats.route.direct': 'مباشر (من جهاز لجهاز)',
+  'stats.route.relay': 'عبر خادم TURN',
+  'stats.route.unknown': 'غير معروف',
+
+  'devices.title': 'الأجهزة',
+  'devices.microphone': 'الميكروفون',
+  'devices.camera': 'الكاميرا',
+  'devices.speaker': 'السماعة',
+  'devices.default': 'الافتراضي',
+
+  'file.offered': 'بانتظار الموافقة',
+  'file.transferring': 'جاري النقل',
+  'file.verifying': 'جاري التحقق',
+  'file.done': 'تم',
+  'file.declined': 'مرفوض',
+  'file.cancelled': 'أُلغي',
+  'file.failed': 'فشل التحقق',
+
+  'safety.title': 'رقم الأمان',
+  'safety.pending': 'جاري التحقق من هوية الطرف الآخر...',
+  'safety.verified': 'الطرف الآخر يملك المفتاح المرتبط بمعرفه.',
+  'safety.unpinned': 'أول مكالمة مع هذا المعرف، وقد حُفظ مفتاحه للمرات القادمة.',
+  'safety.keyChanged': 'مفتاح هذا المعرف يختلف عن المفتاح المحفوظ. قد يكون جهازاً جديداً، أو شخصاً آخر ينتحل المعرف.',
+  'safety.failed': 'لم يثبت الطرف الآخر امتلاكه لمفتاح هذا المعرف.',
+  'safety.instructions': 'اقرآ الرموز أو الأرقام لبعضكما. إن تطابقت فلا أحد بينكما.',
+  'safety.match': 'متطابقة',
+  'safety.confirmed': '✓ تم التحقق وجهاً لوجه',
+
+  'share.title': 'شارك رقمك',
+  'share.permanent': 'معرّفي',
+  'share.oneTime': 'لمرة واحدة',
+  'share.permanentHint': 'يستطيع كل من لديه هذا الرابط الاتصال بك متى كنت متصلاً.',
+  'share.oneTimeHint': 'يعمل لأول من يتصل ويخفي معرّفك، ويُغلق بعد تلك المكالمة أو عند إعادة التحميل.',
+  'share.create': 'إنشاء رابط لمرة واحدة',
+  'share.qrLabel': 'رمز QR للاتصال بـ {peerId}',
+  'share.copy': 'نسخ الرابط',
+  'share.share': 'مشاركة',
+  'share.revoke': 'إلغاء الرابط',
+
+  'dialer.scan': 'مسح رمز QR',
+  'dialer.confirmLink': 'فُتح من رابط · الاتصال بـ {peerId}؟',
+  'scanner.hint': 'وجّه الكاميرا نحو رمز QR من AnyOne',
+  'scanner.cameraFailed': 'تعذّر فتح الكاميرا',
+
+  'network.title': 'الشبكة',
+  'network.signalling': 'خادم الإشارات',
+  'network.cloud': 'سحابة PeerJS',
+  'network.selfHosted': 'خادم خاص',
+  'network.host': 'العنوان (peer.example.com)',
+  'network.port': 'المنفذ',
+  'network.path': 'المسار',
+  'network.secure': 'استخدام TLS (https / wss)',
+  'network.iceServers': 'خوادم STUN / TURN',
+  'network.username': 'اسم المستخدم',
+  'network.credential': 'كلمة المرور',
+  'network.addServer': '＋ إضافة خادم',
+  'network.connectivity': 'فحص الاتصال',
+  'network.test': 'افحص الاتصال',
+  'network.testing': 'جاري الفحص...',
+  'network.host.label': 'محلي',
+  'network.host.hint': 'الشبكة المحلية',
+  'network.srflx.label': 'عنوان عام',
+  'network.srflx.hint': 'خادم STUN متاح',
+  'network.relay.label': 'ترحيل',
+  'network.relay.hint': 'خادم TURN متاح',
+  'network.noTurn': 'بدون خادم TURN قد تفشل المكالمات خلف بعض الشبكات',
+  'network.timedOut': 'انتهت مهلة جمع المرشحين قبل اكتمالها',
+  'network.defaults': 'الافتراضي',
+  'network.problem.hostEmpty': 'عنوان خادم PeerServer فارغ',
+  'network.problem.port': 'منفذ PeerServer يجب أن يكون بين 1 و65535',
+  'network.problem.path': 'مسار PeerServer يجب أن يبدأ بـ /',
+  'network.problem.url': 'الخادم {index}: يجب أن يبدأ العنوان بـ stun: أو turn: أو turns:',
+  'network.problem.turnCredentials': 'الخادم {index}: خادم TURN يحتاج اسم مستخدم وكلمة مرور',
+};
+
+export default ar;
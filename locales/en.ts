@@ -0,0 +1,275 @@
+/**
+ * Source catalog: every other language must have exactly these keys
+ * (checked by the type-checker and by `npm run check:i18n`).
+ * Placeholders are written as {name}.
+ */
+const en = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.accept': 'Accept',
+  'common.decline': 'Decline',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.download': 'Download',
+  'common.you': 'You',
+  'common.them': 'Them',
+
+  'nav.myId': 'My ID',
+  'nav.uiLanguage': 'App language',
+
+  'update.available': 'A new version is ready',
+  'update.reload': 'Reload',
+  'offline.title': "You're offline",
+  'offline.body': 'Calls need an internet connection. AnyOne reconnects as soon as you are back online.',
+
+  'home.tagline': 'Connect Instantly',
+  'home.crossLanguage': 'Match across languages',
+  'home.crossLanguageHint': 'Live translation of what the other person says',
+  'home.interests': 'Interests (optional)',
+  'home.addInterest': 'Add',
+  'home.roomCode': 'Room code',
+  'home.joinRoom': 'Join room',
+  'home.callAlerts': 'Ring when the app is closed',
+
+  'status.joiningQueue': 'Joining the queue...',
+  'status.queued': 'In the queue ({position})',
+  'status.matched': 'Matched!',
+  'status.searchingAgain': 'Looking for another partner...',
+  'status.preparingPersona': 'Getting ready to talk with {name}...',
+  'status.calling': 'Calling {peerId}...',
+  'status.alerting': "Waking up {peerId}'s device...",
+  'status.joiningRoom': 'Joining room {room}...',
+  'status.connecting': 'Connecting...',
+  'status.reconnecting': 'Reconnecting...',
+
+  'error.title': 'Connection failed',
+  'error.home': 'Back to home',
+  'error.talkTo': 'Talk with',
+  'error.matchmakerUnavailable': 'The matchmaking server is unavailable right now.',
+  'error.cryptoUnsupported': 'This browser does not support the encryption needed to secure your identity.',
+  'error.peerOffline': 'This ID is not online right now.',
+  'error.noAnswer': 'No answer.',
+  'error.personaFailed': 'Could not start the conversation.',
+  'error.micRequired': 'Microphone permission is required',
+  'error.callFailed': 'Could not start the call.',
+  'error.roomFull': 'The room is full.',
+  'error.roomUnavailable': 'Could not join the room.',
+  'error.rejected': 'The other person declined the call.',
+  'error.busy': 'The other person is on another call.',
+  'error.nobodyFound': 'Nobody is available right now.',
+
+  'notice.enableMic': 'Please allow the microphone',
+  'notice.cameraFailed': 'Could not turn on the camera',
+  'notice.screenShareFailed': 'Could not share the screen',
+  'notice.flipFailed': 'Could not switch the camera',
+  'notice.deviceFailed': 'Could not switch the device',
+  'notice.repeatedCalls': 'Ignoring repeated calls from {peerId}',
+  'notice.groupFull': 'The group call is full',
+  'notice.participantLeft': '{peerId} left the call',
+  'notice.noAnswer': '{peerId} did not answer',
+  'notice.participantUnverified': 'Could not verify the identity of {peerId}',
+  'notice.participantDeclined': '{peerId} declined to join',
+  'notice.participantBusy': '{peerId} is on another call',
+  'notice.keyChanged': "This person's key changed! Compare the safety number before you go on",
+  'notice.verifyFailed': "Could not verify the other person's identity",
+  'notice.recordingDeclined': 'The other person declined the recording',
+  'notice.recordingUnanswered': "The other person didn't answer the recording request",
+  'notice.recordingFailed': 'Could not start recording',
+  'notice.recordingStopped': 'Recording stopped',
+  'notice.versionMismatch': "The other person's app version is not compatible",
+  'notice.ackTimeout': 'The other person did not confirm receipt',
+  'notice.copied': 'Copied ✅',
+  'notice.copyFailed': 'Could not copy',
+  'notice.diagnosticsCopied': 'Diagnostic report copied ✅',
+  'notice.speaker': '🔊 {label}',
+  'notice.tapForSound': 'Tap anywhere to turn on sound',
+  'notice.speakerFailed': 'Could not use the selected speaker',
+  'notice.fileFailed': 'Could not send the file: {reason}',
+  'notice.recordingUnavailable': 'Recording is not available',
+  'notice.alertsDenied': 'Notifications are blocked for this site',
+  'notice.alertsUnavailable': 'Could not reach the notification server',
+  'notice.heldEnded': '{peerId} hung up while on hold',
+  'notice.qrInvalid': 'That QR code is not an AnyOne invite',
+  'notice.inviteFailed': 'Could not open a one-time link',
+
+  'notification.title': 'Incoming call - AnyOne',
+  'notification.body': 'Ringing now from: {peerId}',
+  'notification.answer': 'Answer ✅',
+  'notification.reject': 'Decline ❌',
+  'notification.missedTitle': 'Missed call - AnyOne',
+  'notification.missedBody': '{peerId} tried to call you',
+
+  'incoming.title': 'Incoming Call',
+  'incoming.saveContact': 'Save as contact',
+  'incoming.block': 'Block caller',
+  'outgoing.title': 'Calling...',
+
+  'call.cameraOff': 'Camera off',
+  'call.yourCameraOff': 'Your camera is off',
+  'call.room': 'Room · {code}',
+  'call.participants': 'In call: {count}',
+  'call.compare': 'Compare',
+  'call.recording': '● Recording · Stop',
+  'call.theyRecording': '● They are recording · Stop',
+  'call.waitingConsent': 'Waiting for consent…',
+  'call.muted': 'Muted',
+  'call.onHold': 'On hold',
+  'call.micOn': 'Mic on',
+  'call.holding': 'Holding',
+  'call.cameraOn': 'Camera on',
+  'call.sharingScreen': 'Sharing screen',
+  'call.poor': 'Weak connection',
+  'call.poorVideo': 'Weak connection, video quality lowered',
+  'call.audioOnly': 'Audio only',
+  'call.talkingMuted': 'You are talking while muted · Tap to unmute',
+  'call.resume': 'Call on hold · Resume',
+  'call.waiting': '{peerId} is calling',
+  'call.holdAnswer': 'Hold & answer',
+  'call.endAnswer': 'End & answer',
+  'call.held': 'On hold: {peerId}',
+  'call.swap': 'Swap',
+  'call.saveWebm': 'Save WebM',
+  'call.saveWav': 'Save WAV',
+  'call.stopSharing': 'You are sharing your screen · Stop',
+  'call.waitingForRoom': 'Waiting for others to join the room...',
+  'call.connectingTile': 'Connecting…',
+  'call.aiPersona': 'AI persona',
+  'call.live': 'Live Conversation',
+  'call.block': 'Block',
+  'call.reportSkip': 'Report & skip',
+  'call.next': 'Next →',
+  'call.confirmBlock': 'Block {name}? Their calls will not reach you and you will not be matched again.',
+
+  'verification.pending': 'Checking identity…',
+  'verification.verified': '✓ Identity',
+  'verification.unpinned': 'New identity',
+  'verification.keyChanged': '⚠ Key changed',
+  'verification.failed': '⚠ Unverified',
+
+  'captions.waiting': 'Waiting for the other person to speak...',
+  'captions.save': 'Save captions',
+  'captions.sharing': 'Your speech is being turned into text for the other person',
+
+  'consent.title': 'Record this call?',
+  'consent.body': 'The other person wants to record this call. You can stop the recording at any time.',
+
+  'ended.title': 'Call ended',
+  'ended.downloadWebm': 'Download recording (WebM)',
+  'ended.saveCaptions': 'Save captions transcript',
+  'ended.next': 'Next partner',
+  'diagnostics.copy': 'Copy diagnostic report',
+
+  'chat.title': 'Chat',
+  'chat.verified': '✓ Verified',
+  'chat.typing': 'Typing...',
+  'chat.keepTranscript': 'Keep transcript',
+  'chat.placeholder': 'Message...',
+
+  'history.title': 'History',
+  'history.search': 'Search ID or name...',
+  'history.tab.recent': 'Recent',
+  'history.tab.contacts': 'Contacts',
+  'history.tab.blocked': 'Blocked',
+  'history.outcome.missed': 'Missed',
+  'history.outcome.rejected': 'Declined',
+  'history.outcome.busy': 'Busy',
+  'history.outcome.cancelled': 'Cancelled',
+  'history.outcome.failed': 'Failed',
+  'history.blocked': 'Blocked',
+  'history.reported': 'Reported',
+  'history.unblock': 'Unblock',
+  'history.me': 'Me',
+  'history.other': 'Other person',
+  'history.empty': 'Nothing here yet',
+  'history.export': 'Export',
+  'history.clearAll': 'Clear all',
+  'history.confirmClear': 'Delete all history and contacts from this device?',
+  'contact.namePlaceholder': 'Name for {peerId}',
+
+  'stats.title': 'Connection',
+  'stats.collecting': 'Collecting data...',
+  'stats.rtt': 'Round trip',
+  'stats.jitter': 'Jitter',
+  'stats.packetLoss': 'Packet loss',
+  'stats.bitrateIn': 'Bitrate in',
+  'stats.bitrateOut': 'Bitrate out',
+  'stats.audioCodec': 'Audio codec',
+  'stats.videoCodec': 'Video codec',
+  'stats.route': 'Route',
+  'stats.candidates': 'Candidates',
+  'stats.route.direct': 'Direct (peer to peer)',
+  'stats.route.relay': 'Relayed through TURN',
+  'stats.route.unknown': 'Unknown',
+
+  'devices.title': 'Devices',
+  'devices.microphone': 'Microphone',
+  'devices.camera': 'Camera',
+  'devices.speaker': 'Speaker',
+  'devices.default': 'Default',
+
+  'file.offered': 'Waiting for approval',
+  'file.transferring': 'Transferring',
+  'file.verifying': 'Verifying',
+  'file.done': 'Done',
+  'file.declined': 'Declined',
+  'file.cancelled': 'Cancelled',
+  'file.failed': 'Verification failed',
+
+  'safety.title': 'Safety number',
+  'safety.pending': "Checking the other person's identity...",
+  'safety.verified': 'The other person holds the key bound to their ID.',
+  'safety.unpinned': 'First call with this ID; its key has been saved for next time.',
+  'safety.keyChanged': "This ID's key differs from the saved one. It may be a new device, or someone else using the ID.",
+  'safety.failed': 'The other person did not prove they hold the key for this ID.',
+  'safety.instructions': 'Read the symbols or digits to each other. If they match, nobody is in between.',
+  'safety.match': 'They match',
+  'safety.confirmed': '✓ Verified in person',
+
+  'share.title': 'Share your number',
+  'share.permanent': 'My ID',
+  'share.oneTime': 'One-time',
+  'share.permanentHint': 'Anyone with this link can call you whenever you are online.',
+  'share.oneTimeHint': 'Works for the first person who calls and hides your ID. It closes after that call or when you reload.',
+  'share.create': 'Create one-time link',
+  'share.qrLabel': 'QR code to call {peerId}',
+  'share.copy': 'Copy link',
+  'share.share': 'Share',
+  'share.revoke': 'Revoke link',
+
+  'dialer.scan': 'Scan QR code',
+  'dialer.confirmLink': 'Opened from a link · Call {peerId}?',
+  'scanner.hint': 'Point the camera at an AnyOne QR code',
+  'scanner.cameraFailed': 'Could not open the camera',
+
+  'network.title': 'Network',
+  'network.signalling': 'Signalling server',
+  'network.cloud': 'PeerJS cloud',
+  'network.selfHosted': 'Self-hosted',
+  'network.host': 'Host (peer.example.com)',
+  'network.port': 'Port',
+  'network.path': 'Path',
+  'network.secure': 'Use TLS (https / wss)',
+  'network.iceServers': 'STUN / TURN servers',
+  'network.username': 'Username',
+  'network.credential': 'Credential',
+  'network.addServer': '＋ Add server',
+  'network.connectivity': 'Connectivity',
+  'network.test': 'Test connectivity',
+  'network.testing': 'Testing...',
+  'network.host.label': 'Host',
+  'network.host.hint': 'Local network',
+  'network.srflx.label': 'Server reflexive',
+  'network.srflx.hint': 'STUN reachable',
+  'network.relay.label': 'Relay',
+  'network.relay.hint': 'TURN reachable',
+  'network.noTurn': 'Without a TURN server, calls may fail behind some networks',
+  'network.timedOut': 'Candidate gathering timed out before it finished',
+  'network.defaults': 'Defaults',
+  'network.problem.hostEmpty': 'PeerServer host is empty',
+  'network.problem.port': 'PeerServer port must be 1-65535',
+  'network.problem.path': 'PeerServer path must start with /',
+  'network.problem.url': 'Server {index}: URL must start with stun:, turn: or turns:',
+  'network.problem.turnCredentials': 'Server {index}: TURN needs a username and credential',
+};
+
+export default en;
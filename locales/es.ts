@@ -0,0 +1,272 @@
+import type { Catalog } from './index.ts';
+
+const es: Catalog = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.accept': 'Aceptar',
+  'common.decline': 'Rechazar',
+  'common.close': 'Cerrar',
+  'common.delete': 'Eliminar',
+  'common.download': 'Descargar',
+  'common.you': 'Tú',
+  'common.them': 'La otra persona',
+
+  'nav.myId': 'Mi ID',
+  'nav.uiLanguage': 'Idioma de la aplicación',
+
+  'update.available': 'Hay una nueva versión lista',
+  'update.reload': 'Recargar',
+  'offline.title': 'Estás sin conexión',
+  'offline.body': 'Las llamadas necesitan conexión a internet. AnyOne se reconecta en cuanto vuelvas a estar en línea.',
+
+  'home.tagline': 'Conecta al instante',
+  'home.crossLanguage': 'Emparejar entre idiomas',
+  'home.crossLanguageHint': 'Traducción en directo de lo que dice la otra persona',
+  'home.interests': 'Intereses (opcional)',
+  'home.addInterest': 'Añadir',
+  'home.roomCode': 'Código de sala',
+  'home.joinRoom': 'Unirse a la sala',
+  'home.callAlerts': 'Sonar con la aplicación cerrada',
+
+  'status.joiningQueue': 'Entrando en la cola...',
+  'status.queued': 'En la cola ({position})',
+  'status.matched': '¡Emparejado!',
+  'status.searchingAgain': 'Buscando a otra persona...',
+  'status.preparingPersona': 'Preparando la conversación con {name}...',
+  'status.calling': 'Llamando a {peerId}...',
+  'status.alerting': 'Avisando al dispositivo de {peerId}...',
+  'status.joiningRoom': 'Entrando en la sala {room}...',
+  'status.connecting': 'Conectando...',
+  'status.reconnecting': 'Reconectando...',
+
+  'error.title': 'Error de conexión',
+  'error.home': 'Volver al inicio',
+  'error.talkTo': 'Hablar con',
+  'error.matchmakerUnavailable': 'El servidor de emparejamiento no está disponible ahora.',
+  'error.cryptoUnsupported': 'Este navegador no admite el cifrado necesario para proteger tu identidad.',
+  'error.peerOffline': 'Este ID no está conectado ahora.',
+  'error.noAnswer': 'No hay respuesta.',
+  'error.personaFailed': 'No se pudo iniciar la conversación.',
+  'error.micRequired': 'Se necesita permiso para el micrófono',
+  'error.callFailed': 'No se pudo iniciar la llamada.',
+  'error.roomFull': 'La sala está llena.',
+  'error.roomUnavailable': 'No se pudo entrar en la sala.',
+  'error.rejected': 'La otra persona rechazó la llamada.',
+  'error.busy': 'La otra persona está en otra llamada.',
+  'error.nobodyFound': 'No hay nadie disponible ahora.',
+
+  'notice.enableMic': 'Permite el acceso al micrófono',
+  'notice.cameraFailed': 'No se pudo activar la cámara',
+  'notice.screenShareFailed': 'No se pudo compartir la pantalla',
+  'notice.flipFailed': 'No se pudo cambiar de cámara',
+  'notice.deviceFailed': 'No se pudo cambiar de dispositivo',
+  'notice.repeatedCalls': 'Se ignoran las llamadas repetidas de {peerId}',
+  'notice.groupFull': 'La llamada de grupo está llena',
+  'notice.participantLeft': '{peerId} salió de la llamada',
+  'notice.noAnswer': '{peerId} no respondió',
+  'notice.participantUnverified': 'No se pudo verificar la identidad de {peerId}',
+  'notice.participantDeclined': '{peerId} rechazó unirse',
+  'notice.participantBusy': '{peerId} está en otra llamada',
+  'notice.keyChanged': '¡La clave de esta persona cambió! Compara el número de seguridad antes de continuar',
+  'notice.verifyFailed': 'No se pudo verificar la identidad de la otra persona',
+  'notice.recordingDeclined': 'La otra persona rechazó la grabación',
+  'notice.recordingUnanswered': 'La otra persona no respondió a la solicitud de grabación',
+  'notice.recordingFailed': 'No se pudo iniciar la grabación',
+  'notice.recordingStopped': 'Grabación detenida',
+  'notice.versionMismatch': 'La versión de la aplicación de la otra persona no es compatible',
+  'notice.ackTimeout': 'La otra persona no confirmó la recepción',
+  'notice.copied': 'Copiado ✅',
+  'notice.copyFailed': 'No se pudo copiar',
+  'notice.diagnosticsCopied': 'Informe de diagnóstico copiado ✅',
+  'notice.speaker': '🔊 {label}',
+  'notice.tapForSound': 'Toca en cualquier lugar para activar el sonido',
+  'notice.speakerFailed': 'No se pudo usar el altavoz elegido',
+  'notice.fileFailed': 'No se pudo enviar el archivo: {reason}',
+  'notice.recordingUnavailable': 'La grabación no está disponible',
+  'notice.alertsDenied': 'Las notificaciones están bloqueadas para este sitio',
+  'notice.alertsUnavailable': 'No se pudo contactar con el servidor de notificaciones',
+  'notice.heldEnded': '{peerId} colgó mientras estaba en espera',
+  'notice.qrInvalid': 'Ese código QR no es una invitación de AnyOne',
+  'notice.inviteFailed': 'No se pudo crear un enlace de un solo uso',
+
+  'notification.title': 'Llamada entrante - AnyOne',
+  'notification.body': 'Llamada en curso de: {peerId}',
+  'notification.answer': 'Responder ✅',
+  'notification.reject': 'Rechazar ❌',
+  'notification.missedTitle': 'Llamada perdida - AnyOne',
+  'notification.missedBody': '{peerId} intentó llamarte',
+
+  'incoming.title': 'Llamada entrante',
+  'incoming.saveContact': 'Guardar contacto',
+  'incoming.block': 'Bloquear a quien llama',
+  'outgoing.title': 'Llamando...',
+
+  'call.cameraOff': 'Cámara apagada',
+  'call.yourCameraOff': 'Tu cámara está apagada',
+  'call.room': 'Sala · {code}',
+  'call.participants': 'En la llamada: {count}',
+  'call.compare': 'Comparar',
+  'call.recording': '● Grabando · Detener',
+  'call.theyRecording': '● La otra persona está grabando · Detener',
+  'call.waitingConsent': 'Esperando consentimiento…',
+  'call.muted': 'Silenciado',
+  'call.onHold': 'En espera',
+  'call.micOn': 'Micrófono activado',
+  'call.holding': 'En espera',
+  'call.cameraOn': 'Cámara encendida',
+  'call.sharingScreen': 'Compartiendo pantalla',
+  'call.poor': 'Conexión débil',
+  'call.poorVideo': 'Conexión débil, calidad de vídeo reducida',
+  'call.audioOnly': 'Solo audio',
+  'call.talkingMuted': 'Estás hablando con el micrófono silenciado · Toca para activarlo',
+  'call.resume': 'Llamada en espera · Reanudar',
+  'call.waiting': '{peerId} te está llamando',
+  'call.holdAnswer': 'Retener y contestar',
+  'call.endAnswer': 'Colgar y contestar',
+  'call.held': 'En espera: {peerId}',
+  'call.swap': 'Alternar',
+  'call.saveWebm': 'Guardar WebM',
+  'call.saveWav': 'Guardar WAV',
+  'call.stopSharing': 'Estás compartiendo tu pantalla · Detener',
+  'call.waitingForRoom': 'Esperando a que otros entren en la sala...',
+  'call.connectingTile': 'Conectando…',
+  'call.aiPersona': 'Personaje de IA',
+  'call.live': 'Conversación en directo',
+  'call.block': 'Bloquear',
+  'call.reportSkip': 'Denunciar y saltar',
+  'call.next': 'Siguiente →',
+  'call.confirmBlock': '¿Bloquear a {name}? Sus llamadas no te llegarán y no volveréis a ser emparejados.',
+
+  'verification.pending': 'Comprobando identidad…',
+  'verification.verified': '✓ Identidad',
+  'verification.unpinned': 'Identidad nueva',
+  'verification.keyChanged': '⚠ Clave cambiada',
+  'verification.failed': '⚠ Sin verificar',
+
+  'captions.waiting': 'Esperando a que hable la otra persona...',
+  'captions.save': 'Guardar subtítulos',
+  'captions.sharing': 'Lo que dices se convierte en texto para la otra persona',
+
+  'consent.title': '¿Grabar esta llamada?',
+  'consent.body': 'La otra persona quiere grabar esta llamada. Puedes detener la grabación en cualquier momento.',
+
+  'ended.title': 'Llamada finalizada',
+  'ended.downloadWebm': 'Descargar grabación (WebM)',
+  'ended.saveCaptions': 'Guardar transcripción',
+  'ended.next': 'Siguiente persona',
+  'diagnostics.copy': 'Copiar informe de diagnóstico',
+
+  'chat.title': 'Chat',
+  'chat.verified': '✓ Verificado',
+  'chat.typing': 'Escribiendo...',
+  'chat.keepTranscript': 'Guardar transcripción',
+  'chat.placeholder': 'Mensaje...',
+
+  'history.title': 'Historial',
+  'history.search': 'Buscar ID o nombre...',
+  'history.tab.recent': 'Recientes',
+  'history.tab.contacts': 'Contactos',
+  'history.tab.blocked': 'Bloqueados',
+  'history.outcome.missed': 'Perdida',
+  'history.outcome.rejected': 'Rechazada',
+  'history.outcome.busy': 'Ocupado',
+  'history.outcome.cancelled': 'Cancelada',
+  'history.outcome.failed': 'Fallida',
+  'history.blocked': 'Bloqueado',
+  'history.reported': 'Denunciado',
+  'history.unblock': 'Desbloquear',
+  'history.me': 'Yo',
+  'history.other': 'La otra persona',
+  'history.empty': 'Aún no hay nada',
+  'history.export': 'Exportar',
+  'history.clearAll': 'Borrar todo',
+  'history.confirmClear': '¿Eliminar todo el historial y los contactos de este dispositivo?',
+  'contact.namePlaceholder': 'Nombre para {peerId}',
+
+  'stats.title': 'Conexión',
+  'stats.collecting': 'Recopilando datos...',
+  'stats.rtt': 'Ida y vuelta',
+  'stats.jitter': 'Fluctuación',
+  'stats.packetLoss': 'Pérdida de paquetes',
+  'stats.bitrateIn': 'Tasa de entrada',
+  'stats.bitrateOut': 'Tasa de salida',
+  'stats.audioCodec': 'Códec de audio',
+  'stats.videoCodec': 'Códec de vídeo',
+  'stats.route': 'Ruta',
+  'stats.candidates': 'Candidatos',
+  'stats.route.direct': 'Directa (punto a punto)',
+  'stats.route.relay': 'Retransmitida por TURN',
+  'stats.route.unknown': 'Desconocida',
+
+  'devices.title': 'Dispositivos',
+  'devices.microphone': 'Micrófono',
+  'devices.camera': 'Cámara',
+  'devices.speaker': 'Altavoz',
+  'devices.default': 'Predeterminado',
+
+  'file.offered': 'Esperando aprobación',
+  'file.transferring': 'Transfiriendo',
+  'file.verifying': 'Verificando',
+  'file.done': 'Completado',
+  'file.declined': 'Rechazado',
+  'file.cancelled': 'Cancelado',
+  'file.failed': 'Falló la verificación',
+
+  'safety.title': 'Número de seguridad',
+  'safety.pending': 'Comprobando la identidad de la otra persona...',
+  'safety.verified': 'La otra persona tiene la clave vinculada a su ID.',
+  'safety.unpinned': 'Primera llamada con este ID; su clave se ha guardado para la próxima vez.',
+  'safety.keyChanged': 'La clave de este ID no coincide con la guardada. Puede ser un dispositivo nuevo, o alguien que suplanta el ID.',
+  'safety.failed': 'La otra persona no demostró tener la clave de este ID.',
+  'safety.instructions': 'Leed los símbolos o los dígitos en voz alta. Si coinciden, no hay nadie en medio.',
+  'safety.match': 'Coinciden',
+  'safety.confirmed': '✓ Verificado en persona',
+
+  'share.title': 'Comparte tu número',
+  'share.permanent': 'Mi ID',
+  'share.oneTime': 'Un solo uso',
+  'share.permanentHint': 'Cualquiera con este enlace puede llamarte cuando estés conectado.',
+  'share.oneTimeHint': 'Sirve para la primera persona que llame y oculta tu ID. Se cierra tras esa llamada o al recargar.',
+  'share.create': 'Crear enlace de un solo uso',
+  'share.qrLabel': 'Código QR para llamar a {peerId}',
+  'share.copy': 'Copiar enlace',
+  'share.share': 'Compartir',
+  'share.revoke': 'Revocar enlace',
+
+  'dialer.scan': 'Escanear código QR',
+  'dialer.confirmLink': 'Abierto desde un enlace · ¿Llamar a {peerId}?',
+  'scanner.hint': 'Apunta la cámara a un código QR de AnyOne',
+  'scanner.cameraFailed': 'No se pudo abrir la cámara',
+
+  'network.title': 'Red',
+  'network.signalling': 'Servidor de señalización',
+  'network.cloud': 'Nube de PeerJS',
+  'network.selfHosted': 'Autoalojado',
+  'network.host': 'Host (peer.example.com)',
+  'network.port': 'Puerto',
+  'network.path': 'Ruta',
+  'network.secure': 'Usar TLS (https / wss)',
+  'network.iceServers': 'Servidores STUN / TURN',
+  'network.username': 'Usuario',
+  'network.credential': 'Contraseña',
+  'network.addServer': '＋ Añadir servidor',
+  'network.connectivity': 'Conectividad',
+  'network.test': 'Probar conectividad',
+  'network.testing': 'Probando...',
+  'network.host.label': 'Host',
+  'network.host.hint': 'Red local',
+  'network.srflx.label': 'Reflexivo de servidor',
+  'network.srflx.hint': 'STUN accesible',
+  'network.relay.label': 'Retransmisión',
+  'network.relay.hint': 'TURN accesible',
+  'network.noTurn': 'Sin un servidor TURN, las llamadas pueden fallar en algunas redes',
+  'network.timedOut': 'La recopilación de candidatos agotó el tiempo antes de terminar',
+  'network.defaults': 'Valores predeterminados',
+  'network.problem.hostEmpty': 'El host del PeerServer está vacío',
+  'network.problem.port': 'El puerto del PeerServer debe estar entre 1 y 65535',
+  'network.problem.path': 'La ruta del PeerServer debe empezar por /',
+  'network.problem.url': 'Servidor {index}: la URL debe empezar por stun:, turn: o turns:',
+  'network.problem.turnCredentials': 'Servidor {index}: TURN necesita usuario y contraseña',
+};
+
+export default es;
@@ -0,0 +1,272 @@
+import type { Catalog } from './index.ts';
+
+const fr: Catalog = {
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.accept': 'Accepter',
+  'common.decline': 'Refuser',
+  'common.close': 'Fermer',
+  'common.delete': 'Supprimer',
+  'common.download': 'Télécharger',
+  'common.you': 'Vous',
+  'common.them': 'Correspondant',
+
+  'nav.myId': 'Mon ID',
+  'nav.uiLanguage': "Langue de l'application",
+
+  'update.available': 'Une nouvelle version est prête',
+  'update.reload': 'Recharger',
+  'offline.title': 'Vous êtes hors ligne',
+  'offline.body': 'Les appels nécessitent une connexion internet. AnyOne se reconnecte dès votre retour en ligne.',
+
+  'home.tagline': 'Connectez-vous instantanément',
+  'home.crossLanguage': 'Correspondance entre langues',
+  'home.crossLanguageHint': 'Traduction en direct de ce que dit votre correspondant',
+  'home.interests': "Centres d'intérêt (facultatif)",
+  'home.addInterest': 'Ajouter',
+  'home.roomCode': 'Code du salon',
+  'home.joinRoom': 'Rejoindre le salon',
+  'home.callAlerts': 'Sonner quand l’app est fermée',
+
+  'status.joiningQueue': "Entrée dans la file d'attente...",
+  'status.queued': "Dans la file d'attente ({position})",
+  'status.matched': 'Correspondant trouvé !',
+  'status.searchingAgain': "Recherche d'un autre correspondant...",
+  'status.preparingPersona': 'Préparation de la conversation avec {name}...',
+  'status.calling': 'Appel de {peerId}...',
+  'status.alerting': 'Réveil de l’appareil de {peerId}...',
+  'status.joiningRoom': 'Connexion au salon {room}...',
+  'status.connecting': 'Connexion...',
+  'status.reconnecting': 'Reconnexion...',
+
+  'error.title': 'Échec de la connexion',
+  'error.home': "Retour à l'accueil",
+  'error.talkTo': 'Parler avec',
+  'error.matchmakerUnavailable': "Le serveur de mise en relation est indisponible pour l'instant.",
+  'error.cryptoUnsupported': 'Ce navigateur ne prend pas en charge le chiffrement nécessaire pour protéger votre identité.',
+  'error.peerOffline': "Cet ID n'est pas en ligne pour l'instant.",
+  'error.noAnswer': 'Pas de réponse.',
+  'error.personaFailed': 'Impossible de démarrer la conversation.',
+  'error.micRequired': "L'autorisation du microphone est nécessaire",
+  'error.callFailed': "Impossible de démarrer l'appel.",
+  'error.roomFull': 'Le salon est complet.',
+  'error.roomUnavailable': 'Impossible de rejoindre le salon.',
+  'error.rejected': 'Votre correspondant a refusé l’appel.',
+  'error.busy': 'Votre correspondant est déjà en ligne.',
+  'error.nobodyFound': "Personne n'est disponible pour l'instant.",
+
+  'notice.enableMic': 'Veuillez autoriser le microphone',
+  'notice.cameraFailed': "Impossible d'activer la caméra",
+  'notice.screenShareFailed': "Impossible de partager l'écran",
+  'notice.flipFailed': 'Impossible de changer de caméra',
+  'notice.deviceFailed': "Impossible de changer d'appareil",
+  'notice.repeatedCalls': 'Appels répétés de {peerId} ignorés',
+  'notice.groupFull': "L'appel de groupe est complet",
+  'notice.participantLeft': "{peerId} a quitté l'appel",
+  'notice.noAnswer': "{peerId} n'a pas répondu",
+  'notice.participantUnverified': "Impossible de vérifier l'identité de {peerId}",
+  'notice.participantDeclined': '{peerId} a refusé de rejoindre',
+  'notice.participantBusy': '{peerId} est déjà en ligne',
+  'notice.keyChanged': 'La clé de cette personne a changé ! Comparez le numéro de sécurité avant de continuer',
+  'notice.verifyFailed': "Impossible de vérifier l'identité de votre correspondant",
+  'notice.recordingDeclined': "Votre correspondant a refusé l'enregistrement",
+  'notice.recordingUnanswered': "Votre correspondant n'a pas répondu à la demande d'enregistrement",
+  'notice.recordingFailed': "Impossible de démarrer l'enregistrement",
+  'notice.recordingStopped': 'Enregistrement arrêté',
+  'notice.versionMismatch': "La version de l'application de votre correspondant n'est pas compatible",
+  'notice.ackTimeout': "Votre correspondant n'a pas confirmé la réception",
+  'notice.copied': 'Copié ✅',
+  'notice.copyFailed': 'Impossible de copier',
+  'notice.diagnosticsCopied': 'Rapport de diagnostic copié ✅',
+  'notice.speaker': '🔊 {label}',
+  'notice.tapForSound': "Touchez n'importe où pour activer le son",
+  'notice.speakerFailed': "Impossible d'utiliser le haut-parleur choisi",
+  'notice.fileFailed': "Impossible d'envoyer le fichier : {reason}",
+  'notice.recordingUnavailable': "L'enregistrement n'est pas disponible",
+  'notice.alertsDenied': 'Les notifications sont bloquées pour ce site',
+  'notice.alertsUnavailable': 'Impossible de joindre le serveur de notifications',
+  'notice.heldEnded': "{peerId} a raccroché pendant l'attente",
+  'notice.qrInvalid': "Ce QR code n'est pas une invitation AnyOne",
+  'notice.inviteFailed': 'Impossible de créer un lien à usage unique',
+
+  'notification.title': 'Appel entrant - AnyOne',
+  'notification.body': 'Appel en cours de : {peerId}',
+  'notification.answer': 'Répondre ✅',
+  'notification.reject': 'Refuser ❌',
+  'notification.missedTitle': 'Appel manqué - AnyOne',
+  'notification.missedBody': '{peerId} a essayé de vous appeler',
+
+  'incoming.title': 'Appel entrant',
+  'incoming.saveContact': 'Enregistrer le contact',
+  'incoming.block': "Bloquer l'appelant",
+  'outgoing.title': 'Appel en cours...',
+
+  'call.cameraOff': 'Caméra éteinte',
+  'call.yourCameraOff': 'Votre caméra est éteinte',
+  'call.room': 'Salon · {code}',
+  'call.participants': 'Dans l’appel : {count}',
+  'call.compare': 'Comparer',
+  'call.recording': '● Enregistrement · Arrêter',
+  'call.theyRecording': '● Votre correspondant enregistre · Arrêter',
+  'call.waitingConsent': 'En attente du consentement…',
+  'call.muted': 'Muet',
+  'call.onHold': 'En attente',
+  'call.micOn': 'Micro activé',
+  'call.holding': 'En attente',
+  'call.cameraOn': 'Caméra allumée',
+  'call.sharingScreen': "Partage d'écran",
+  'call.poor': 'Connexion faible',
+  'call.poorVideo': 'Connexion faible, qualité vidéo réduite',
+  'call.audioOnly': 'Audio seulement',
+  'call.talkingMuted': 'Vous parlez alors que le micro est coupé · Touchez pour le réactiver',
+  'call.resume': 'Appel en attente · Reprendre',
+  'call.waiting': '{peerId} vous appelle',
+  'call.holdAnswer': 'Mettre en attente et répondre',
+  'call.endAnswer': 'Raccrocher et répondre',
+  'call.held': 'En attente : {peerId}',
+  'call.swap': 'Basculer',
+  'call.saveWebm': 'Enregistrer WebM',
+  'call.saveWav': 'Enregistrer WAV',
+  'call.stopSharing': 'Vous partagez votre écran · Arrêter',
+  'call.waitingForRoom': "En attente d'autres participants dans le salon...",
+  'call.connectingTile': 'Connexion…',
+  'call.aiPersona': 'Personnage IA',
+  'call.live': 'Conversation en direct',
+  'call.block': 'Bloquer',
+  'call.reportSkip': 'Signaler et passer',
+  'call.next': 'Suivant →',
+  'call.confirmBlock': 'Bloquer {name} ? Ses appels ne vous parviendront plus et vous ne serez plus mis en relation.',
+
+  'verification.pending': "Vérification de l'identité…",
+  'verification.verified': '✓ Identité',
+  'verification.unpinned': 'Nouvelle identité',
+  'verification.keyChanged': '⚠ Clé modifiée',
+  'verification.failed': '⚠ Non vérifié',
+
+  'captions.waiting': 'En attente que votre correspondant parle...',
+  'captions.save': 'Enregistrer les sous-titres',
+  'captions.sharing': 'Vos paroles sont transcrites pour votre correspondant',
+
+  'consent.title': 'Enregistrer cet appel ?',
+  'consent.body': "Votre correspondant souhaite enregistrer l'appel. Vous pouvez arrêter l'enregistrement à tout moment.",
+
+  'ended.title': 'Appel terminé',
+  'ended.downloadWebm': "Télécharger l'enregistrement (WebM)",
+  'ended.saveCaptions': 'Enregistrer la transcription',
+  'ended.next': 'Correspondant suivant',
+  'diagnostics.copy': 'Copier le rapport de diagnostic',
+
+  'chat.title': 'Discussion',
+  'chat.verified': '✓ Vérifié',
+  'chat.typing': "En train d'écrire...",
+  'chat.keepTranscript': 'Garder la transcription',
+  'chat.placeholder': 'Message...',
+
+  'history.title': 'Historique',
+  'history.search': 'Rechercher un ID ou un nom...',
+  'history.tab.recent': 'Récents',
+  'history.tab.contacts': 'Contacts',
+  'history.tab.blocked': 'Bloqués',
+  'history.outcome.missed': 'Manqué',
+  'history.outcome.rejected': 'Refusé',
+  'history.outcome.busy': 'Occupé',
+  'history.outcome.cancelled': 'Annulé',
+  'history.outcome.failed': 'Échoué',
+  'history.blocked': 'Bloqué',
+  'history.reported': 'Signalé',
+  'history.unblock': 'Débloquer',
+  'history.me': 'Moi',
+  'history.other': 'Correspondant',
+  'history.empty': 'Rien pour le moment',
+  'history.export': 'Exporter',
+  'history.clearAll': 'Tout effacer',
+  'history.confirmClear': "Supprimer tout l'historique et les contacts de cet appareil ?",
+  'contact.namePlaceholder': 'Nom pour {peerId}',
+
+  'stats.title': 'Connexion',
+  'stats.collecting': 'Collecte des données...',
+  'stats.rtt': 'Aller-retour',
+  'stats.jitter': 'Gigue',
+  'stats.packetLoss': 'Perte de paquets',
+  'stats.bitrateIn': 'Débit entrant',
+  'stats.bitrateOut': 'Débit sortant',
+  'stats.audioCodec': 'Codec audio',
+  'stats.videoCodec': 'Codec vidéo',
+  'stats.route': 'Chemin',
+  'stats.candidates': 'Candidats',
+  'stats.route.direct': 'Direct (pair à pair)',
+  'stats.route.relay': 'Relayé par TURN',
+  'stats.route.unknown': 'Inconnu',
+
+  'devices.title': 'Appareils',
+  'devices.microphone': 'Microphone',
+  'devices.camera': 'Caméra',
+  'devices.speaker': 'Haut-parleur',
+  'devices.default': 'Par défaut',
+
+  'file.offered': "En attente d'acceptation",
+  'file.transferring': 'Transfert en cours',
+  'file.verifying': 'Vérification',
+  'file.done': 'Terminé',
+  'file.declined': 'Refusé',
+  'file.cancelled': 'Annulé',
+  'file.failed': 'Échec de la vérification',
+
+  'safety.title': 'Numéro de sécurité',
+  'safety.pending': "Vérification de l'identité de votre correspondant...",
+  'safety.verified': 'Votre correspondant détient la clé liée à son ID.',
+  'safety.unpinned': 'Premier appel avec cet ID ; sa clé a été enregistrée pour la prochaine fois.',
+  'safety.keyChanged': "La clé de cet ID diffère de celle enregistrée. Il peut s'agir d'un nouvel appareil, ou de quelqu'un qui usurpe l'ID.",
+  'safety.failed': "Votre correspondant n'a pas prouvé qu'il détient la clé de cet ID.",
+  'safety.instructions': "Lisez-vous les symboles ou les chiffres. S'ils correspondent, personne ne s'interpose.",
+  'safety.match': 'Ils correspondent',
+  'safety.confirmed': '✓ Vérifié en personne',
+
+  'share.title': 'Partager votre numéro',
+  'share.permanent': 'Mon ID',
+  'share.oneTime': 'Usage unique',
+  'share.permanentHint': 'Toute personne ayant ce lien peut vous appeler quand vous êtes en ligne.',
+  'share.oneTimeHint': 'Fonctionne pour la première personne qui appelle et masque votre ID. Il se ferme après cet appel ou au rechargement.',
+  'share.create': 'Créer un lien à usage unique',
+  'share.qrLabel': 'QR code pour appeler {peerId}',
+  'share.copy': 'Copier le lien',
+  'share.share': 'Partager',
+  'share.revoke': 'Révoquer le lien',
+
+  'dialer.scan': 'Scanner un QR code',
+  'dialer.confirmLink': 'Ouvert depuis un lien · Appeler {peerId} ?',
+  'scanner.hint': 'Pointez la caméra vers un QR code AnyOne',
+  'scanner.cameraFailed': "Impossible d'ouvrir la caméra",
+
+  'network.title': 'Réseau',
+  'network.signalling': 'Serveur de signalisation',
+  'network.cloud': 'Cloud PeerJS',
+  'network.selfHosted': 'Auto-hébergé',
+  'network.host': 'Hôte (peer.example.com)',
+  'network.port': 'Port',
+  'network.path': 'Chemin',
+  'network.secure': 'Utiliser TLS (https / wss)',
+  'network.iceServers': 'Serveurs STUN / TURN',
+  'network.username': "Nom d'utilisateur",
+  'network.credential': 'Mot de passe',
+  'network.addServer': '＋ Ajouter un serveur',
+  'network.connectivity': 'Connectivité',
+  'network.test': 'Tester la connectivité',
+  'network.testing': 'Test en cours...',
+  'network.host.label': 'Hôte',
+  'network.host.hint': 'Réseau local',
+  'network.srflx.label': 'Réflexif serveur',
+  'network.srflx.hint': 'STUN joignable',
+  'network.relay.label': 'Relais',
+  'network.relay.hint': 'TURN joignable',
+  'network.noTurn': 'Sans serveur TURN, les appels peuvent échouer derrière certains réseaux',
+  'network.timedOut': 'La collecte des candidats a expiré avant la fin',
+  'network.defaults': 'Par défaut',
+  'network.problem.hostEmpty': "L'hôte du PeerServer est vide",
+  'network.problem.port': 'Le port du PeerServer doit être compris entre 1 et 65535',
+  'network.problem.path': 'Le chemin du PeerServer doit commencer par /',
+  'network.problem.url': "Serveur {index} : l'URL doit commencer par stun:, turn: ou turns:",
+  'network.problem.turnCredentials': "Serveur {index} : TURN nécessite un nom d'utilisateur et un mot de passe",
+};
+
+export default fr;
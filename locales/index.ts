@@ -0,0 +1,62 @@
+import en from './en.ts';
+import ar from './ar.ts';
+import fr from './fr.ts';
+import es from './es.ts';
+import pt from './pt.ts';
+
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, string>;
+export type Locale = 'ar' | 'en' | 'fr' | 'es' | 'pt';
+
+export interface LocaleInfo {
+  code: Locale;
+  /** Shown in the picker in its own language. */
+  name: string;
+  dir: 'rtl' | 'ltr';
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'fr', name: 'Français', dir: 'ltr' },
+  { code: 'es', name: 'Español', dir: 'ltr' },
+  { code: 'pt', name: 'Português', dir: 'ltr' },
+];
+
+export const SOURCE_LOCALE: Locale = 'en';
+
+export const CATALOGS: Record<Locale, Catalog> = { ar, en, fr, es, pt };
+
+const interpolate = (text: string, params?: Record<string, string | number>) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : text;
+
+/** The text for `key` in `locale` with its placeholders filled in. */
+export const translate = (locale: Locale, key: MessageKey, params?: Record<string, string | number>) =>
+  // الترجمة الناقصة ترجع للإنجليزية ثم للمفتاح نفسه بدل نص فارغ
+  interpolate(CATALOGS[locale][key] ?? CATALOGS[SOURCE_LOCALE][key] ?? key, params);
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort().join(',');
+
+export interface CatalogProblem {
+  key: string;
+  problem: 'missing' | 'extra' | 'empty' | 'placeholders';
+}
+
+/**
+ * Compares a catalog against the English source. The type-checker already
+ * catches missing keys in the .ts catalogs; this also catches extra keys,
+ * empty strings and placeholders that were renamed or dropped in translation.
+ */
+export const checkCatalog = (catalog: Record<string, unknown>): CatalogProblem[] => {
+  const problems: CatalogProblem[] = [];
+  for (const key of Object.keys(en) as MessageKey[]) {
+    const text = catalog[key];
+    if (typeof text !== 'string') problems.push({ key, problem: 'missing' });
+    else if (!text.trim()) problems.push({ key, problem: 'empty' });
+    else if (placeholders(text) !== placeholders(en[key])) problems.push({ key, problem: 'placeholders' });
+  }
+  for (const key of Object.keys(catalog)) {
+    if (!(key in en)) problems.push({ key, problem: 'extra' });
+  }
+  return problems;
+};
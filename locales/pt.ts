@@ -0,0 +1,272 @@
+import type { Catalog } from './index.ts';
+
+const pt: Catalog = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Salvar',
+  'common.accept': 'Aceitar',
+  'common.decline': 'Recusar',
+  'common.close': 'Fechar',
+  'common.delete': 'Excluir',
+  'common.download': 'Baixar',
+  'common.you': 'Você',
+  'common.them': 'A outra pessoa',
+
+  'nav.myId': 'Meu ID',
+  'nav.uiLanguage': 'Idioma do app',
+
+  'update.available': 'Uma nova versão está pronta',
+  'update.reload': 'Recarregar',
+  'offline.title': 'Você está offline',
+  'offline.body': 'As chamadas precisam de conexão com a internet. O AnyOne reconecta assim que você voltar a ficar online.',
+
+  'home.tagline': 'Conecte-se na hora',
+  'home.crossLanguage': 'Combinar entre idiomas',
+  'home.crossLanguageHint': 'Tradução ao vivo do que a outra pessoa diz',
+  'home.interests': 'Interesses (opcional)',
+  'home.addInterest': 'Adicionar',
+  'home.roomCode': 'Código da sala',
+  'home.joinRoom': 'Entrar na sala',
+  'home.callAlerts': 'Tocar com o app fechado',
+
+  'status.joiningQueue': 'Entrando na fila...',
+  'status.queued': 'Na fila ({position})',
+  'status.matched': 'Combinado!',
+  'status.searchingAgain': 'Procurando outra pessoa...',
+  'status.preparingPersona': 'Preparando a conversa com {name}...',
+  'status.calling': 'Ligando para {peerId}...',
+  'status.alerting': 'Avisando o dispositivo de {peerId}...',
+  'status.joiningRoom': 'Entrando na sala {room}...',
+  'status.connecting': 'Conectando...',
+  'status.reconnecting': 'Reconectando...',
+
+  'error.title': 'Falha na conexão',
+  'error.home': 'Voltar ao início',
+  'error.talkTo': 'Conversar com',
+  'error.matchmakerUnavailable': 'O servidor de combinação está indisponível no momento.',
+  'error.cryptoUnsupported': 'Este navegador não oferece a criptografia necessária para proteger sua identidade.',
+  'error.peerOffline': 'Este ID não está online no momento.',
+  'error.noAnswer': 'Sem resposta.',
+  'error.personaFailed': 'Não foi possível iniciar a conversa.',
+  'error.micRequired': 'É necessária a permissão do microfone',
+  'error.callFailed': 'Não foi possível iniciar a chamada.',
+  'error.roomFull': 'A sala está cheia.',
+  'error.roomUnavailable': 'Não foi possível entrar na sala.',
+  'error.rejected': 'A outra pessoa recusou a chamada.',
+  'error.busy': 'A outra pessoa está em outra chamada.',
+  'error.nobodyFound': 'Ninguém está disponível no momento.',
+
+  'notice.enableMic': 'Permita o acesso ao microfone',
+  'notice.cameraFailed': 'Não foi possível ligar a câmera',
+  'notice.screenShareFailed': 'Não foi possível compartilhar a tela',
+  'notice.flipFailed': 'Não foi possível trocar de câmera',
+  'notice.deviceFailed': 'Não foi possível trocar de dispositivo',
+  'notice.repeatedCalls': 'Ignorando chamadas repetidas de {peerId}',
+  'notice.groupFull': 'A chamada em grupo está cheia',
+  'notice.participantLeft': '{peerId} saiu da chamada',
+  'notice.noAnswer': '{peerId} não atendeu',
+  'notice.participantUnverified': 'Não foi possível verificar a identidade de {peerId}',
+  'notice.participantDeclined': '{peerId} recusou participar',
+  'notice.participantBusy': '{peerId} está em outra chamada',
+  'notice.keyChanged': 'A chave desta pessoa mudou! Compare o número de segurança antes de continuar',
+  'notice.verifyFailed': 'Não foi possível verificar a identidade da outra pessoa',
+  'notice.recordingDeclined': 'A outra pessoa recusou a gravação',
+  'notice.recordingUnanswered': 'A outra pessoa não respondeu ao pedido de gravação',
+  'notice.recordingFailed': 'Não foi possível iniciar a gravação',
+  'notice.recordingStopped': 'Gravação interrompida',
+  'notice.versionMismatch': 'A versão do app da outra pessoa não é compatível',
+  'notice.ackTimeout': 'A outra pessoa não confirmou o recebimento',
+  'notice.copied': 'Copiado ✅',
+  'notice.copyFailed': 'Não foi possível copiar',
+  'notice.diagnosticsCopied': 'Relatório de diagnóstico copiado ✅',
+  'notice.speaker': '🔊 {label}',
+  'notice.tapForSound': 'Toque em qualquer lugar para ativar o som',
+  'notice.speakerFailed': 'Não foi possível usar o alto-falante escolhido',
+  'notice.fileFailed': 'Não foi possível enviar o arquivo: {reason}',
+  'notice.recordingUnavailable': 'A gravação não está disponível',
+  'notice.alertsDenied': 'As notificações estão bloqueadas para este site',
+  'notice.alertsUnavailable': 'Não foi possível acessar o servidor de notificações',
+  'notice.heldEnded': '{peerId} desligou enquanto estava em espera',
+  'notice.qrInvalid': 'Esse QR code não é um convite do AnyOne',
+  'notice.inviteFailed': 'Não foi possível criar um link de uso único',
+
+  'notification.title': 'Chamada recebida - AnyOne',
+  'notification.body': 'Chamando agora: {peerId}',
+  'notification.answer': 'Atender ✅',
+  'notification.reject': 'Recusar ❌',
+  'notification.missedTitle': 'Chamada perdida - AnyOne',
+  'notification.missedBody': '{peerId} tentou ligar para você',
+
+  'incoming.title': 'Chamada recebida',
+  'incoming.saveContact': 'Salvar contato',
+  'incoming.block': 'Bloquear quem liga',
+  'outgoing.title': 'Chamando...',
+
+  'call.cameraOff': 'Câmera desligada',
+  'call.yourCameraOff': 'Sua câmera está desligada',
+  'call.room': 'Sala · {code}',
+  'call.participants': 'Na chamada: {count}',
+  'call.compare': 'Comparar',
+  'call.recording': '● Gravando · Parar',
+  'call.theyRecording': '● A outra pessoa está gravando · Parar',
+  'call.waitingConsent': 'Aguardando consentimento…',
+  'call.muted': 'Mudo',
+  'call.onHold': 'Em espera',
+  'call.micOn': 'Microfone ligado',
+  'call.holding': 'Em espera',
+  'call.cameraOn': 'Câmera ligada',
+  'call.sharingScreen': 'Compartilhando a tela',
+  'call.poor': 'Conexão fraca',
+  'call.poorVideo': 'Conexão fraca, qualidade de vídeo reduzida',
+  'call.audioOnly': 'Só áudio',
+  'call.talkingMuted': 'Você está falando no mudo · Toque para ativar o microfone',
+  'call.resume': 'Chamada em espera · Retomar',
+  'call.waiting': '{peerId} está ligando',
+  'call.holdAnswer': 'Reter e atender',
+  'call.endAnswer': 'Desligar e atender',
+  'call.held': 'Em espera: {peerId}',
+  'call.swap': 'Alternar',
+  'call.saveWebm': 'Salvar WebM',
+  'call.saveWav': 'Salvar WAV',
+  'call.stopSharing': 'Você está compartilhando a tela · Parar',
+  'call.waitingForRoom': 'Aguardando outras pessoas entrarem na sala...',
+  'call.connectingTile': 'Conectando…',
+  'call.aiPersona': 'Persona de IA',
+  'call.live': 'Conversa ao vivo',
+  'call.block': 'Bloquear',
+  'call.reportSkip': 'Denunciar e pular',
+  'call.next': 'Próximo →',
+  'call.confirmBlock': 'Bloquear {name}? As chamadas dessa pessoa não chegarão a você e vocês não serão combinados de novo.',
+
+  'verification.pending': 'Verificando identidade…',
+  'verification.verified': '✓ Identidade',
+  'verification.unpinned': 'Nova identidade',
+  'verification.keyChanged': '⚠ Chave alterada',
+  'verification.failed': '⚠ Não verificado',
+
+  'captions.waiting': 'Aguardando a outra pessoa falar...',
+  'captions.save': 'Salvar legendas',
+  'captions.sharing': 'Sua fala está sendo transformada em texto para a outra pessoa',
+
+  'consent.title': 'Gravar esta chamada?',
+  'consent.body': 'A outra pessoa quer gravar esta chamada. Você pode parar a gravação a qualquer momento.',
+
+  'ended.title': 'Chamada encerrada',
+  'ended.downloadWebm': 'Baixar gravação (WebM)',
+  'ended.saveCaptions': 'Salvar transcrição',
+  'ended.next': 'Próxima pessoa',
+  'diagnostics.copy': 'Copiar relatório de diagnóstico',
+
+  'chat.title': 'Chat',
+  'chat.verified': '✓ Verificado',
+  'chat.typing': 'Digitando...',
+  'chat.keepTranscript': 'Manter transcrição',
+  'chat.placeholder': 'Mensagem...',
+
+  'history.title': 'Histórico',
+  'history.search': 'Buscar ID ou nome...',
+  'history.tab.recent': 'Recentes',
+  'history.tab.contacts': 'Contatos',
+  'history.tab.blocked': 'Bloqueados',
+  'history.outcome.missed': 'Perdida',
+  'history.outcome.rejected': 'Recusada',
+  'history.outcome.busy': 'Ocupado',
+  'history.outcome.cancelled': 'Cancelada',
+  'history.outcome.failed': 'Falhou',
+  'history.blocked': 'Bloqueado',
+  'history.reported': 'Denunciado',
+  'history.unblock': 'Desbloquear',
+  'history.me': 'Eu',
+  'history.other': 'A outra pessoa',
+  'history.empty': 'Nada por aqui ainda',
+  'history.export': 'Exportar',
+  'history.clearAll': 'Limpar tudo',
+  'history.confirmClear': 'Excluir todo o histórico e os contatos deste dispositivo?',
+  'contact.namePlaceholder': 'Nome para {peerId}',
+
+  'stats.title': 'Conexão',
+  'stats.collecting': 'Coletando dados...',
+  'stats.rtt': 'Ida e volta',
+  'stats.jitter': 'Jitter',
+  'stats.packetLoss': 'Perda de pacotes',
+  'stats.bitrateIn': 'Taxa de entrada',
+  'stats.bitrateOut': 'Taxa de saída',
+  'stats.audioCodec': 'Codec de áudio',
+  'stats.videoCodec': 'Codec de vídeo',
+  'stats.route': 'Rota',
+  'stats.candidates': 'Candidatos',
+  'stats.route.direct': 'Direta (ponto a ponto)',
+  'stats.route.relay': 'Retransmitida via TURN',
+  'stats.route.unknown': 'Desconhecida',
+
+  'devices.title': 'Dispositivos',
+  'devices.microphone': 'Microfone',
+  'devices.camera': 'Câmera',
+  'devices.speaker': 'Alto-falante',
+  'devices.default': 'Padrão',
+
+  'file.offered': 'Aguardando aprovação',
+  'file.transferring': 'Transferindo',
+  'file.verifying': 'Verificando',
+  'file.done': 'Concluído',
+  'file.declined': 'Recusado',
+  'file.cancelled': 'Cancelado',
+  'file.failed': 'Falha na verificação',
+
+  'safety.title': 'Número de segurança',
+  'safety.pending': 'Verificando a identidade da outra pessoa...',
+  'safety.verified': 'A outra pessoa tem a chave vinculada ao seu ID.',
+  'safety.unpinned': 'Primeira chamada com este ID; a chave foi salva para a próxima vez.',
+  'safety.keyChanged': 'A chave deste ID é diferente da salva. Pode ser um dispositivo novo, ou alguém se passando pelo ID.',
+  'safety.failed': 'A outra pessoa não provou ter a chave deste ID.',
+  'safety.instructions': 'Leiam os símbolos ou os dígitos um para o outro. Se coincidirem, ninguém está no meio.',
+  'safety.match': 'Coincidem',
+  'safety.confirmed': '✓ Verificado pessoalmente',
+
+  'share.title': 'Compartilhe seu número',
+  'share.permanent': 'Meu ID',
+  'share.oneTime': 'Uso único',
+  'share.permanentHint': 'Qualquer pessoa com este link pode ligar para você quando estiver online.',
+  'share.oneTimeHint': 'Funciona para a primeira pessoa que ligar e oculta seu ID. Fecha após essa chamada ou ao recarregar.',
+  'share.create': 'Criar link de uso único',
+  'share.qrLabel': 'QR code para ligar para {peerId}',
+  'share.copy': 'Copiar link',
+  'share.share': 'Compartilhar',
+  'share.revoke': 'Revogar link',
+
+  'dialer.scan': 'Ler QR code',
+  'dialer.confirmLink': 'Aberto por um link · Ligar para {peerId}?',
+  'scanner.hint': 'Aponte a câmera para um QR code do AnyOne',
+  'scanner.cameraFailed': 'Não foi possível abrir a câmera',
+
+  'network.title': 'Rede',
+  'network.signalling': 'Servidor de sinalização',
+  'network.cloud': 'Nuvem PeerJS',
+  'network.selfHosted': 'Auto-hospedado',
+  'network.host': 'Host (peer.example.com)',
+  'network.port': 'Porta',
+  'network.path': 'Caminho',
+  'network.secure': 'Usar TLS (https / wss)',
+  'network.iceServers': 'Servidores STUN / TURN',
+  'network.username': 'Usuário',
+  'network.credential': 'Senha',
+  'network.addServer': '＋ Adicionar servidor',
+  'network.connectivity': 'Conectividade',
+  'network.test': 'Testar conectividade',
+  'network.testing': 'Testando...',
+  'network.host.label': 'Host',
+  'network.host.hint': 'Rede local',
+  'network.srflx.label': 'Reflexivo do servidor',
+  'network.srflx.hint': 'STUN acessível',
+  'network.relay.label': 'Relay',
+  'network.relay.hint': 'TURN acessível',
+  'network.noTurn': 'Sem um servidor TURN, as chamadas podem falhar em algumas redes',
+  'network.timedOut': 'A coleta de candidatos expirou antes de terminar',
+  'network.defaults': 'Padrões',
+  'network.problem.hostEmpty': 'O host do PeerServer está vazio',
+  'network.problem.port': 'A porta do PeerServer deve estar entre 1 e 65535',
+  'network.problem.path': 'O caminho do PeerServer deve começar com /',
+  'network.problem.url': 'Servidor {index}: a URL deve começar com stun:, turn: ou turns:',
+  'network.problem.turnCredentials': 'Servidor {index}: TURN precisa de usuário e senha',
+};
+
+export default pt;
@@ -0,0 +1,20 @@
+import { CATALOGS, Locale, SOURCE_LOCALE, checkCatalog } from '../locales/index.ts';
+
+/**
+ * Fails when any catalog drifts from the English source:
+ *
+ *   npm run check:i18n
+ */
+let failed = false;
+
+for (const [locale, catalog] of Object.entries(CATALOGS) as [Locale, Record<string, unknown>][]) {
+  if (locale === SOURCE_LOCALE) continue;
+  const problems = checkCatalog(catalog);
+  if (!problems.length) continue;
+  failed = true;
+  console.error(`[i18n] ${locale}: ${problems.length} problem(s)`);
+  for (const { key, problem } of problems) console.error(`  ${problem.padEnd(12)} ${key}`);
+}
+
+if (failed) process.exit(1);
+console.log(`[i18n] ${Object.keys(CATALOGS).length} catalogs match the ${SOURCE_LOCALE} source`);
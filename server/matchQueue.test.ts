@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchServerMessage } from '../services/matchmakingProtocol.ts';
+import { MatchClient, MatchQueue } from './matchQueue.ts';
+
+const GRACE = 10000;
+const INTEREST_WAIT = 5000;
+
+/** Timers on a clock that only moves when told to. */
+const manualClock = () => {
+  let now = 0;
+  let timers: { at: number; fn: () => void }[] = [];
+  return {
+    schedule(fn: () => void, ms: number) {
+      const timer = { at: now + ms, fn };
+      timers.push(timer);
+      return () => { timers = timers.filter(t => t !== timer); };
+    },
+    advance(ms: number) {
+      const until = now + ms;
+      for (;;) {
+        const due = timers.filter(t => t.at <= until).sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+        timers = timers.filter(t => t !== due);
+        now = due.at;
+        due.fn();
+      }
+      now = until;
+    },
+  };
+};
+
+class TestClient implements MatchClient {
+  messages: MatchServerMessage[] = [];
+
+  send(message: MatchServerMessage) {
+    this.messages.push(message);
+  }
+
+  get last() {
+    return this.messages[this.messages.length - 1];
+  }
+
+  get match() {
+    return this.messages.find((m): m is Extract<MatchServerMessage, { type: 'matched' }> => m.type === 'matched');
+  }
+
+  get ticket() {
+    const queued = this.messages.find((m): m is Extract<MatchServerMessage, { type: 'queued' }> => m.type === 'queued');
+    return queued!.ticket;
+  }
+}
+
+const setup = () => {
+  const clock = manualClock();
+  let ids = 0;
+  const queue = new MatchQueue({ graceMs: GRACE, interestWaitMs: INTEREST_WAIT, schedule: clock.schedule, createId: () => `id-${++ids}` });
+  return { queue, clock };
+};
+
+describe('MatchQueue', () => {
+  describe('fairness', () => {
+    it('pairs clients in the order they joined, the longest-waiting one answering', () => {
+      const { queue } = setup();
+      const [a, b, c] = [new TestClient(), new TestClient(), new TestClient()];
+
+      queue.join(a, 'a', 'en');
+      expect(a.last).toMatchObject({ type: 'queued', position: 1 });
+      queue.join(b, 'b', 'en');
+      queue.join(c, 'c', 'en');
+
+      expect(a.match).toMatchObject({ partnerId: 'b', role: 'answerer' });
+      expect(b.match).toMatchObject({ partnerId: 'a', role: 'caller' });
+      expect(c.last).toMatchObject({ type: 'queued', position: 1 });
+      expect(queue.size('en')).toBe(1);
+    });
+
+    it('keeps languages apart unless both clients opted in to cross-language matches', () => {
+      const { queue } = setup();
+      const [en, fr, es] = [new TestClient(), new TestClient(), new TestClient()];
+
+      queue.join(en, 'en-peer', 'en', { crossLanguage: true });
+      queue.join(fr, 'fr-peer', 'fr');
+      expect(en.match).toBeUndefined();
+
+      queue.join(es, 'es-peer', 'es', { crossLanguage: true });
+      expect(en.match).toMatchObject({ partnerId: 'es-peer', partnerLang: 'es', role: 'answerer' });
+      expect(fr.match).toBeUndefined();
+    });
+
+    it('never pairs clients when either one blocked the other', () => {
+      const { queue } = setup();
+      const [a, b, c] = [new TestClient(), new TestClient(), new TestClient()];
+
+      queue.join(a, 'a', 'en', { avoid: ['b'] });
+      queue.join(b, 'b', 'en');
+      expect(a.match).toBeUndefined();
+
+      queue.join(c, 'c', 'en');
+      expect(a.match).toMatchObject({ partnerId: 'c' });
+      expect(b.match).toBeUndefined();
+    });
+
+    it('prefers a shared interest, then takes anyone once the wait is over', () => {
+      const { queue, clock } = setup();
+      const [a, b, c] = [new TestClient(), new TestClient(), new TestClient()];
+
+      queue.join(a, 'a', 'en', { interests: ['music'] });
+      queue.join(b, 'b', 'en', { interests: ['chess'] });
+      expect(a.match).toBeUndefined();
+
+      queue.join(c, 'c', 'en', { interests: ['music', 'films'] });
+      expect(a.match).toMatchObject({ partnerId: 'c', interests: ['music'] });
+
+      const d = new TestClient();
+      queue.join(d, 'd', 'en');
+      expect(b.match).toBeUndefined();
+      clock.advance(INTEREST_WAIT);
+      expect(b.match).toMatchObject({ partnerId: 'd', interests: [] });
+    });
+
+    it('does not let a second socket claiming the same peer ID push the first one out', () => {
+      const { queue } = setup();
+      const [victim, impostor, other] = [new TestClient(), new TestClient(), new TestClient()];
+
+      queue.join(victim, 'a', 'en');
+      queue.join(impostor, 'a', 'en');
+      expect(victim.match).toBeUndefined();
+      expect(impostor.match).toBeUndefined();
+      expect(queue.size('en')).toBe(2);
+
+      queue.join(other, 'b', 'en');
+      expect(victim.match).toMatchObject({ partnerId: 'b' });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('takes a cancelled client out of the queue', () => {
+      const { queue } = setup();
+      const [a, b] = [new TestClient(), new TestClient()];
+
+      queue.join(a, 'a', 'en');
+      queue.cancel(a);
+      expect(a.last).toEqual({ type: 'cancelled' });
+      expect(queue.size('en')).toBe(0);
+
+      queue.join(b, 'b', 'en');
+      expect(a.match).toBeUndefined();
+      expect(b.last).toMatchObject({ type: 'queued', position: 1 });
+    });
+
+    it('replaces the entry when the same socket joins again', () => {
+      const { queue } = setup();
+      const a = new TestClient();
+
+      queue.join(a, 'a', 'en');
+      queue.join(a, 'a', 'fr');
+      expect(queue.size('en')).toBe(0);
+      expect(queue.size('fr')).toBe(1);
+    });
+  });
+
+  describe('reconnect', () => {
+    it('keeps the place of a client that resumes within the grace period', () => {
+      const { queue, clock } = setup();
+      const a = new TestClient();
+      queue.join(a, 'a', 'en');
+      const ticket = a.ticket;
+
+      queue.disconnect(a);
+      clock.advance(GRACE - 1);
+      const resumed = new TestClient();
+      queue.resume(resumed, ticket);
+      expect(resumed.last).toMatchObject({ type: 'queued', ticket, position: 1 });
+
+      clock.advance(GRACE);
+      const b = new TestClient();
+      queue.join(b, 'b', 'en');
+      expect(resumed.match).toMatchObject({ partnerId: 'b' });
+    });
+
+    it('does not match a client while its socket is gone', () => {
+      const { queue } = setup();
+      const [a, b] = [new TestClient(), new TestClient()];
+      queue.join(a, 'a', 'en');
+
+      queue.disconnect(a);
+      queue.join(b, 'b', 'en');
+      expect(b.match).toBeUndefined();
+      expect(a.match).toBeUndefined();
+    });
+
+    it('forgets a client that does not come back in time', () => {
+      const { queue, clock } = setup();
+      const a = new TestClient();
+      queue.join(a, 'a', 'en');
+      const ticket = a.ticket;
+
+      queue.disconnect(a);
+      clock.advance(GRACE);
+      expect(queue.size('en')).toBe(0);
+      const resumed = new TestClient();
+      queue.resume(resumed, ticket);
+      expect(resumed.last).toMatchObject({ type: 'error', code: 'UNKNOWN_TICKET' });
+    });
+
+    it('replays a match that was made just before the socket dropped', () => {
+      const { queue, clock } = setup();
+      const [a, b] = [new TestClient(), new TestClient()];
+      queue.join(a, 'a', 'en');
+      const ticket = a.ticket;
+      queue.disconnect(a);
+      const resumed = new TestClient();
+      queue.resume(resumed, ticket);
+      queue.disconnect(resumed);
+
+      queue.join(b, 'b', 'en');
+      expect(b.match).toBeUndefined();
+
+      const again = new TestClient();
+      queue.resume(again, ticket);
+      expect(b.match).toMatchObject({ partnerId: 'a' });
+      const replayed = new TestClient();
+      queue.resume(replayed, ticket);
+      expect(replayed.last).toEqual(again.match);
+
+      clock.advance(GRACE);
+      const late = new TestClient();
+      queue.resume(late, ticket);
+      expect(late.last).toMatchObject({ type: 'error', code: 'UNKNOWN_TICKET' });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { randomUUID } from 'node:crypto';
+import type { MatchPreferences, MatchServerMessage } from '../services/matchmakingProtocol.ts';
+
+export interface MatchClient {
+  send(message: MatchServerMessage): void;
+}
+
+type Cancel = () => void;
+
+export interface MatchQueueOptions {
+  /** How long a disconnected client keeps its place (and its match) for a resume. */
+  graceMs?: number;
+  /** How long a client with interests waits for a partner who shares one before anyone will do. */
+  interestWaitMs?: number;
+  schedule?: (fn: () => void, ms: number) => Cancel;
+  createId?: () => string;
+}
+
+interface Entry {
+  ticket: string;
+  peerId: string;
+  lang: string;
+  crossLanguage: boolean;
+  // معرفات حظرها صاحب الطلب، فلا يُقرن بها في أي اتجاه
+  avoid: Set<string>;
+  interests: Set<string>;
+  // صار يقبل أي شريك: بلا اهتمامات، أو انتهت مهلة انتظار من يشاركه أحدها
+  relaxed: boolean;
+  relax: Cancel | null;
+  // ترتيب الانضمام، للمقارنة بين قوائم اللغات المختلفة
+  seq: number;
+  client: MatchClient | null;
+  expire: Cancel | null;
+}
+
+interface DeliveredMatch {
+  message: Extract<MatchServerMessage, { type: 'matched' }>;
+  expire: Cancel;
+}
+
+const defaultSchedule = (fn: () => void, ms: number): Cancel => {
+  const timer = setTimeout(fn, ms);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Per-language FIFO waiting queues. Pairing runs synchronously inside a single
+ * call, so two clients are always removed from the queue together and can
+ * never be handed to anybody else.
+ */
+export class MatchQueue {
+  private queues = new Map<string, Entry[]>();
+  private byTicket = new Map<string, Entry>();
+  private byClient = new Map<MatchClient, Entry>();
+  private delivered = new Map<string, DeliveredMatch>();
+  private joined = 0;
+  private readonly graceMs: number;
+  private readonly interestWaitMs: number;
+  private readonly schedule: NonNullable<MatchQueueOptions['schedule']>;
+  private readonly createId: () => string;
+
+  constructor(options: MatchQueueOptions = {}) {
+    this.graceMs = options.graceMs ?? 10000;
+    this.interestWaitMs = options.interestWaitMs ?? 10000;
+    this.schedule = options.schedule ?? defaultSchedule;
+    this.createId = options.createId ?? randomUUID;
+  }
+
+  join(client: MatchClient, peerId: string, lang: string, { crossLanguage = false, avoid = [], interests = [] }: MatchPreferences = {}) {
+    // المعرف يدّعيه العميل بلا إثبات، فلا يُزاح به طلب اتصال آخر؛ الاتصال القديم يخرج بمهلته
+    const previous = this.byClient.get(client);
+    if (previous) this.remove(previous);
+
+    const entry: Entry = {
+      ticket: this.createId(), peerId, lang, crossLanguage, avoid: new Set(avoid), interests: new Set(interests),
+      relaxed: interests.length === 0, relax: null, seq: this.joined++, client, expire: null,
+    };
+    if (!entry.relaxed) {
+      entry.relax = this.schedule(() => {
+        entry.relax = null;
+        entry.relaxed = true;
+        if (this.byTicket.get(entry.ticket) === entry) this.pair(entry.lang);
+      }, this.interestWaitMs);
+    }
+    const queue = this.queues.get(lang) ?? [];
+    queue.push(entry);
+    this.queues.set(lang, queue);
+    this.byTicket.set(entry.ticket, entry);
+    this.byClient.set(client, entry);
+    client.send({ type: 'queued', ticket: entry.ticket, position: this.positionOf(entry) });
+    this.pair(lang);
+  }
+
+  /** Re-attaches a client that lost its socket, replaying a match made just before. */
+  resume(client: MatchClient, ticket: string) {
+    const delivered = this.delivered.get(ticket);
+    if (delivered) {
+      client.send(delivered.message);
+      return;
+    }
+    const entry = this.byTicket.get(ticket);
+    if (!entry) {
+      client.send({ type: 'error', code: 'UNKNOWN_TICKET', message: 'ticket expired or never existed' });
+      return;
+    }
+    if (entry.client) this.byClient.delete(entry.client);
+    entry.expire?.();
+    entry.expire = null;
+    entry.client = client;
+    this.byClient.set(client, entry);
+    client.send({ type: 'queued', ticket: entry.ticket, position: this.positionOf(entry) });
+    this.pair(entry.lang);
+  }
+
+  cancel(client: MatchClient) {
+    const entry = this.byClient.get(client);
+    if (entry) this.remove(entry);
+    client.send({ type: 'cancelled' });
+  }
+
+  disconnect(client: MatchClient) {
+    const entry = this.byClient.get(client);
+    if (!entry) return;
+    this.byClient.delete(client);
+    entry.client = null;
+    entry.expire = this.schedule(() => this.remove(entry), this.graceMs);
+  }
+
+  size(lang: string) {
+    return this.queues.get(lang)?.length ?? 0;
+  }
+
+  private positionOf(entry: Entry) {
+    return (this.queues.get(entry.lang) ?? []).indexOf(entry) + 1;
+  }
+
+  // يُقرن أقدم عميلين متصلين لم يحظر أحدهما الآخر، مفضلاً من يشاركه اهتماماً؛ من ينتظر أطول يستقبل المكالمة
+  private pair(lang: string) {
+    const queue = this.queues.get(lang) ?? [];
+    const ready = queue.filter(entry => entry.client);
+    const unmatched: Entry[] = [];
+    while (ready.length) {
+      const entry = ready.shift()!;
+      const index = this.bestPartner(entry, ready);
+      if (index === -1) unmatched.push(entry);
+      else this.match(entry, ready.splice(index, 1)[0]);
+    }
+    unmatched.filter(entry => entry.crossLanguage && this.byTicket.has(entry.ticket)).forEach(entry => this.pairAcross(entry));
+  }
+
+  private bestPartner(entry: Entry, candidates: Entry[]) {
+    const sharing = candidates.findIndex(other => this.compatible(entry, other) && this.sharedInterests(entry, other).length > 0);
+    return sharing !== -1 ? sharing : candidates.findIndex(other => this.acceptable(entry, other));
+  }
+
+  /** Two different IDs, neither blocked the other, and they share an interest or have both stopped waiting for one. */
+  private acceptable(a: Entry, b: Entry) {
+    return this.compatible(a, b) && (this.sharedInterests(a, b).length > 0 || (a.relaxed && b.relaxed));
+  }
+
+  private compatible(a: Entry, b: Entry) {
+    return a.peerId !== b.peerId && !a.avoid.has(b.peerId) && !b.avoid.has(a.peerId);
+  }
+
+  private sharedInterests(a: Entry, b: Entry) {
+    return [...a.interests].filter(tag => b.interests.has(tag));
+  }
+
+  /** Pairs a cross-language entry left alone in its queue with the longest-waiting one of another language. */
+  private pairAcross(entry: Entry) {
+    let partner: Entry | null = null;
+    for (const [lang, queue] of this.queues) {
+      if (lang === entry.lang) continue;
+      const candidate = queue.find(e => e.client && e.crossLanguage && this.acceptable(entry, e));
+      if (candidate && (!partner || candidate.seq < partner.seq)) partner = candidate;
+    }
+    if (!partner) return;
+    if (partner.seq < entry.seq) this.match(partner, entry);
+    else this.match(entry, partner);
+  }
+
+  private match(answerer: Entry, caller: Entry) {
+    this.remove(answerer);
+    this.remove(caller);
+    const matchId = this.createId();
+    const interests = this.sharedInterests(answerer, caller);
+    this.deliver(answerer, { type: 'matched', matchId, partnerId: caller.peerId, partnerLang: caller.lang, role: 'answerer', interests });
+    this.deliver(caller, { type: 'matched', matchId, partnerId: answerer.peerId, partnerLang: answerer.lang, role: 'caller', interests });
+  }
+
+  private deliver(entry: Entry, message: DeliveredMatch['message']) {
+    entry.client?.send(message);
+    const expire = this.schedule(() => this.delivered.delete(entry.ticket), this.graceMs);
+    this.delivered.set(entry.ticket, { message, expire });
+  }
+
+  private remove(entry: Entry) {
+    entry.expire?.();
+    entry.expire = null;
+    entry.relax?.();
+    entry.relax = null;
+    const queue = this.queues.get(entry.lang);
+    if (queue) {
+      const index = queue.indexOf(entry);
+      if (index !== -1) queue.splice(index, 1);
+      if (queue.length === 0) this.queues.delete(entry.lang);
+    }
+    this.byTicket.delete(entry.ticket);
+    if (entry.client) this.byClient.delete(entry.client);
+  }
+}
@@ -0,0 +1,68 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { parseClientMessage } from '../services/matchmakingProtocol.ts';
+import { MatchClient, MatchQueue } from './matchQueue.ts';
+import { RoomRegistry } from './rooms.ts';
+
+/**
+ * Self-hostable matchmaking server. Run it next to a local PeerServer:
+ *
+ *   npm run peer-server
+ *   npm run matchmaker
+ */
+const port = Number(process.env.MATCHMAKER_PORT ?? 9001);
+const graceMs = Number(process.env.MATCHMAKER_GRACE_MS ?? 10000);
+const interestWaitMs = Number(process.env.MATCHMAKER_INTEREST_WAIT_MS ?? 10000);
+const HEARTBEAT_INTERVAL = 15000;
+
+const queue = new MatchQueue({ graceMs, interestWaitMs });
+const rooms = new RoomRegistry();
+const wss = new WebSocketServer({ port });
+const alive = new WeakMap<WebSocket, boolean>();
+
+wss.on('connection', (socket) => {
+  alive.set(socket, true);
+  const client: MatchClient = {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+  };
+
+  socket.on('pong', () => alive.set(socket, true));
+  socket.on('message', (data) => {
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(data.toString());
+    } catch (e) {}
+    const message = parseClientMessage(raw);
+    if (!message) {
+      client.send({ type: 'error', code: 'BAD_REQUEST', message: 'unrecognised message' });
+      return;
+    }
+    switch (message.type) {
+      case 'join': return queue.join(client, message.peerId, message.lang, message);
+      case 'resume': return queue.resume(client, message.ticket);
+      case 'cancel': return queue.cancel(client);
+      case 'room-join': return rooms.join(client, message.code, message.peerId);
+      case 'room-leave': return rooms.leave(client);
+    }
+  });
+  socket.on('close', () => {
+    queue.disconnect(client);
+    rooms.leave(client);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      continue;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+console.log(`Matchmaker listening on ws://localhost:${port}`);
@@ -0,0 +1,182 @@
+import { Locale, MessageKey, translate } from '../locales/index.ts';
+import { isDerivedId, peerIdFor, verifySignature } from '../services/identity.ts';
+import {
+  ALERT_TIMEOUT,
+  CallAlertStatus,
+  MAX_SIGNATURE_AGE,
+  PushPayload,
+  PushRelayRequest,
+  signingText,
+  SubscriptionKeys,
+} from '../services/pushProtocol.ts';
+import { RateLimiter } from '../services/rateLimit.ts';
+
+/** Subscriptions kept per peer ID; the oldest is dropped when another device subscribes. */
+export const MAX_DEVICES = 5;
+/** Alerts one signing key may send to the same person within RING_WINDOW. */
+export const RING_LIMIT = 3;
+/** Alerts one person may receive within RING_WINDOW, whoever sends them; new keys cost nothing. */
+export const TARGET_RING_LIMIT = 10;
+export const RING_WINDOW = 60000;
+// الإشعار الفائت ينتظر الجهاز المطفأ يوماً كاملاً
+const MISSED_TTL = 24 * 60 * 60;
+
+/** 'gone' means the push service forgot the subscription and it should be dropped. */
+export type PushSendResult = 'sent' | 'gone' | 'failed';
+
+export interface PushSender {
+  send(subscription: SubscriptionKeys, payload: PushPayload, ttlSeconds: number): Promise<PushSendResult>;
+}
+
+export interface PushRegistryOptions {
+  sender: PushSender;
+  /** Where the service worker posts "reject" for a call. */
+  declineUrl: (callId: string) => string;
+  now?: () => number;
+}
+
+/** An HTTP status and an optional JSON body. */
+export interface RelayResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface Device {
+  subscription: SubscriptionKeys;
+  locale: Locale;
+  blocked: Set<string>;
+}
+
+interface PendingCall {
+  from: string;
+  to: string;
+  status: 'ringing' | 'declined';
+  expiresAt: number;
+}
+
+/**
+ * Push subscriptions per peer ID and the calls that are waking a device. It
+ * never learns more than who is trying to call whom; the call itself still
+ * goes through PeerJS once the app has opened.
+ */
+export class PushRegistry {
+  private devices = new Map<string, Device[]>();
+  // المعرفات القديمة لا تُشتق من المفتاح، فتُربط بأول مفتاح يظهر معها
+  private pinnedKeys = new Map<string, string>();
+  private calls = new Map<string, PendingCall>();
+  private readonly rings: RateLimiter;
+  private readonly targetRings: RateLimiter;
+  private readonly now: () => number;
+
+  constructor(private readonly options: PushRegistryOptions) {
+    this.now = options.now ?? Date.now;
+    this.rings = new RateLimiter(RING_LIMIT, RING_WINDOW, this.now);
+    this.targetRings = new RateLimiter(TARGET_RING_LIMIT, RING_WINDOW, this.now);
+  }
+
+  async handle(request: PushRelayRequest): Promise<RelayResponse> {
+    if (!(await this.authenticate(request))) return { status: 401 };
+    this.prune();
+    switch (request.type) {
+      case 'subscribe': return this.subscribe(request);
+      case 'unsubscribe': return this.unsubscribe(request.peerId, request.endpoint);
+      case 'ring': return this.ring(request);
+      case 'missed': return this.missed(request);
+    }
+  }
+
+  /** The callee pressed "reject"; knowing the call ID is the proof, since only their device received it. */
+  decline(callId: string): RelayResponse {
+    const call = this.calls.get(callId);
+    if (!call) return { status: 404 };
+    call.status = 'declined';
+    return { status: 204 };
+  }
+
+  status(callId: string): CallAlertStatus {
+    this.prune();
+    return this.calls.get(callId)?.status ?? 'unknown';
+  }
+
+  private async authenticate(request: PushRelayRequest) {
+    if (Math.abs(this.now() - request.signedAt) > MAX_SIGNATURE_AGE) return false;
+    if (!(await verifySignature(request.publicKey, request.signature, signingText(request)))) return false;
+    // المعرف المشتق يمكن مطابقته بمفتاح آخر بالتجربة، فنثبّت المفتاح الأول له أيضاً
+    if (isDerivedId(request.peerId) && (await peerIdFor(request.publicKey)) !== request.peerId) return false;
+    const pinned = this.pinnedKeys.get(request.peerId);
+    if (pinned) return pinned === request.publicKey;
+    this.pinnedKeys.set(request.peerId, request.publicKey);
+    return true;
+  }
+
+  private subscribe({ peerId, subscription, locale, blocked }: Extract<PushRelayRequest, { type: 'subscribe' }>): RelayResponse {
+    const others = (this.devices.get(peerId) ?? []).filter(device => device.subscription.endpoint !== subscription.endpoint);
+    this.devices.set(peerId, [...others, { subscription, locale, blocked: new Set(blocked) }].slice(-MAX_DEVICES));
+    return { status: 204 };
+  }
+
+  private unsubscribe(peerId: string, endpoint: string): RelayResponse {
+    const remaining = (this.devices.get(peerId) ?? []).filter(device => device.subscription.endpoint !== endpoint);
+    if (remaining.length) this.devices.set(peerId, remaining);
+    else this.devices.delete(peerId);
+    return { status: 204 };
+  }
+
+  private async ring({ peerId: from, publicKey, to, callId }: Extract<PushRelayRequest, { type: 'ring' }>): Promise<RelayResponse> {
+    const devices = (this.devices.get(to) ?? []).filter(device => !device.blocked.has(from));
+    // المحظور يلقى ما يلقاه من لا يملك جهازاً مشتركاً، فلا يعرف أنه محظور
+    if (!devices.length) return { status: 404 };
+    if (this.calls.has(callId)) return { status: 409 };
+    // المعرف المدّعى يتغير بلا كلفة، أما المفتاح فموقَّع به، والمستقبِل يحدّ المجموع
+    if (this.rings.hit(`${publicKey}|${to}`) > RING_LIMIT || this.targetRings.hit(to) > TARGET_RING_LIMIT) return { status: 429 };
+    const expiresAt = this.now() + ALERT_TIMEOUT;
+    this.calls.set(callId, { from, to, status: 'ringing', expiresAt });
+    const delivered = await this.deliver(to, devices, ({ locale }) => ({
+      type: 'call', from, callId, expiresAt,
+      title: translate(locale, 'notification.title'),
+      body: translate(locale, 'notification.body', { peerId: from }),
+      answer: translate(locale, 'notification.answer'),
+      reject: translate(locale, 'notification.reject'),
+      ...this.missedText(locale, from),
+      declineUrl: this.options.declineUrl(callId),
+    }), Math.ceil(ALERT_TIMEOUT / 1000));
+    if (!delivered) this.calls.delete(callId);
+    return { status: delivered ? 202 : 404 };
+  }
+
+  private async missed({ peerId: from, to, callId }: Extract<PushRelayRequest, { type: 'missed' }>): Promise<RelayResponse> {
+    const call = this.calls.get(callId);
+    if (!call || call.from !== from || call.to !== to) return { status: 404 };
+    this.calls.delete(callId);
+    // من رفض المكالمة بنفسه لا يحتاج إشعاراً بأنها فاتته
+    if (call.status === 'declined') return { status: 204 };
+    const devices = (this.devices.get(to) ?? []).filter(device => !device.blocked.has(from));
+    await this.deliver(to, devices, ({ locale }) => {
+      const { missedTitle: title, missedBody: body } = this.missedText(locale, from);
+      return { type: 'missed', from, callId, title, body };
+    }, MISSED_TTL);
+    return { status: 204 };
+  }
+
+  private missedText(locale: Locale, from: string) {
+    const text = (key: MessageKey) => translate(locale, key, { peerId: from });
+    return { missedTitle: text('notification.missedTitle'), missedBody: text('notification.missedBody') };
+  }
+
+  /** Pushes to each device; returns whether any accepted it. Subscriptions the push service dropped are forgotten. */
+  private async deliver(peerId: string, devices: Device[], payloadFor: (device: Device) => PushPayload, ttlSeconds: number) {
+    const results = await Promise.all(devices.map(device => this.options.sender.send(device.subscription, payloadFor(device), ttlSeconds)));
+    results.forEach((result, i) => {
+      if (result === 'gone') this.unsubscribe(peerId, devices[i].subscription.endpoint);
+    });
+    return results.includes('sent');
+  }
+
+  // المكالمات المنتهية تبقى مهلة أخرى حتى يُرسل المتصل إشعار الفائتة
+  private prune() {
+    const now = this.now();
+    for (const [callId, call] of this.calls) {
+      if (call.expiresAt + ALERT_TIMEOUT < now) this.calls.delete(callId);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import webpush from 'web-push';
+import { parseRelayRequest } from '../services/pushProtocol.ts';
+import { PushRegistry, PushSender } from './pushRegistry.ts';
+
+/**
+ * Wakes a closed app with a Web Push when somebody calls it. Generate a VAPID
+ * key pair once and keep it; changing it invalidates every subscription:
+ *
+ *   npx web-push generate-vapid-keys
+ *   PUSH_VAPID_PUBLIC_KEY=... PUSH_VAPID_PRIVATE_KEY=... npm run push-relay
+ */
+const port = Number(process.env.PUSH_RELAY_PORT ?? 9002);
+const publicUrl = (process.env.PUSH_RELAY_PUBLIC_URL ?? `http://localhost:${port}`).replace(/\/$/, '');
+const publicKey = process.env.PUSH_VAPID_PUBLIC_KEY;
+const privateKey = process.env.PUSH_VAPID_PRIVATE_KEY;
+const subject = process.env.PUSH_VAPID_SUBJECT ?? 'mailto:admin@localhost';
+// طلبات الاشتراك صغيرة، وأي جسم أكبر من هذا ليس منا
+const MAX_BODY = 16 * 1024;
+
+if (!publicKey || !privateKey) {
+  console.error('Set PUSH_VAPID_PUBLIC_KEY and PUSH_VAPID_PRIVATE_KEY (npx web-push generate-vapid-keys).');
+  process.exit(1);
+}
+webpush.setVapidDetails(subject, publicKey, privateKey);
+
+const sender: PushSender = {
+  send: async (subscription, payload, ttlSeconds) => {
+    try {
+      await webpush.sendNotification(subscription, JSON.stringify(payload), { TTL: ttlSeconds, urgency: payload.type === 'call' ? 'high' : 'normal' });
+      return 'sent';
+    } catch (e) {
+      // 404 و410 تعني أن المتصفح ألغى الاشتراك، وما سواها عطل قد يزول
+      const status = e instanceof webpush.WebPushError ? e.statusCode : null;
+      if (status === 404 || status === 410) return 'gone';
+      console.warn('[push] delivery failed', status ?? e);
+      return 'failed';
+    }
+  },
+};
+
+const registry = new PushRegistry({ sender, declineUrl: callId => `${publicUrl}/calls/${encodeURIComponent(callId)}/decline` });
+
+const reply = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+      if (data.length > MAX_BODY) req.destroy();
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (e) {
+        resolve(null);
+      }
+    });
+    req.on('close', () => resolve(null));
+  });
+
+// المسار يأتي من الشبكة، وترميز خاطئ فيه لا يُسقط الخادم
+const decodeCallId = (raw: string) => {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+};
+
+const route = async (req: IncomingMessage, res: ServerResponse) => {
+  // التطبيق والخادم على منفذين مختلفين، والطلبات لا تحمل ملفات تعريف
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') return reply(res, 204);
+
+  const { pathname } = new URL(req.url ?? '/', publicUrl);
+  const callPath = pathname.match(/^\/calls\/([^/]+)(\/decline)?$/);
+  if (req.method === 'GET' && pathname === '/vapid-public-key') return reply(res, 200, { key: publicKey });
+  if (callPath && (req.method === 'GET' || req.method === 'POST')) {
+    const callId = decodeCallId(callPath[1]);
+    if (callId === null) return reply(res, 400);
+    if (req.method === 'GET' && !callPath[2]) return reply(res, 200, { status: registry.status(callId) });
+    if (req.method === 'POST' && callPath[2]) return reply(res, registry.decline(callId).status);
+  }
+  if (req.method === 'POST' && pathname === '/') {
+    const request = parseRelayRequest(await readJson(req));
+    if (!request) return reply(res, 400);
+    const { status, body } = await registry.handle(request);
+    return reply(res, status, body);
+  }
+  reply(res, 404);
+};
+
+const server = createServer((req, res) => {
+  route(req, res).catch((e) => {
+    console.error('[push] request failed', e);
+    if (!res.headersSent) reply(res, 500);
+    else res.end();
+  });
+});
+
+server.listen(port, () => console.log(`Push relay listening on http://localhost:${port}`));
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchServerMessage } from '../services/matchmakingProtocol.ts';
+import { MatchClient } from './matchQueue.ts';
+import { RoomRegistry } from './rooms.ts';
+
+class TestClient implements MatchClient {
+  messages: MatchServerMessage[] = [];
+
+  send(message: MatchServerMessage) {
+    this.messages.push(message);
+  }
+
+  get last() {
+    return this.messages[this.messages.length - 1];
+  }
+}
+
+describe('RoomRegistry', () => {
+  it('tells each newcomer who is already in the room', () => {
+    const rooms = new RoomRegistry();
+    const [a, b] = [new TestClient(), new TestClient()];
+
+    rooms.join(a, 'club', 'a');
+    rooms.join(b, 'club', 'b');
+    expect(a.last).toEqual({ type: 'room-joined', code: 'club', members: [] });
+    expect(b.last).toEqual({ type: 'room-joined', code: 'club', members: ['a'] });
+
+    rooms.leave(a);
+    expect(rooms.size('club')).toBe(1);
+  });
+
+  it('does not let a socket claiming a member\'s peer ID push that member out', () => {
+    const rooms = new RoomRegistry();
+    const [member, impostor, newcomer] = [new TestClient(), new TestClient(), new TestClient()];
+
+    rooms.join(member, 'club', 'a');
+    rooms.join(impostor, 'club', 'a');
+    expect(impostor.last).toEqual({ type: 'room-joined', code: 'club', members: [] });
+    expect(rooms.size('club')).toBe(2);
+
+    rooms.leave(impostor);
+    rooms.join(newcomer, 'club', 'b');
+    expect(newcomer.last).toEqual({ type: 'room-joined', code: 'club', members: ['a'] });
+  });
+});
@@ -0,0 +1,42 @@
+import { MAX_ROOM_SIZE } from '../services/matchmakingProtocol.ts';
+import type { MatchClient } from './matchQueue.ts';
+
+/**
+ * Who is in which named room. The server only keeps the member list so that a
+ * newcomer knows whom to dial; the call itself is a mesh between browsers. A
+ * client leaves when it says so or when its socket closes; peer IDs are only
+ * claimed, so a client never pushes out another one.
+ */
+export class RoomRegistry {
+  // الرمز ← (العميل ← معرف الطرف)
+  private rooms = new Map<string, Map<MatchClient, string>>();
+  private byClient = new Map<MatchClient, string>();
+
+  join(client: MatchClient, code: string, peerId: string) {
+    this.leave(client);
+    const room = this.rooms.get(code) ?? new Map<MatchClient, string>();
+    if (room.size >= MAX_ROOM_SIZE) {
+      client.send({ type: 'error', code: 'ROOM_FULL', message: `room ${code} is full` });
+      return;
+    }
+    // المعرف غير مُثبت فلا يُخرج به أحد؛ اتصال الطرف القديم يخرج حين يُغلق، ولا يتصل بنفسه
+    const members = [...room.values()].filter(id => id !== peerId);
+    room.set(client, peerId);
+    this.rooms.set(code, room);
+    this.byClient.set(client, code);
+    client.send({ type: 'room-joined', code, members });
+  }
+
+  leave(client: MatchClient) {
+    const code = this.byClient.get(client);
+    if (code === undefined) return;
+    this.byClient.delete(client);
+    const room = this.rooms.get(code);
+    room?.delete(client);
+    if (room && room.size === 0) this.rooms.delete(code);
+  }
+
+  size(code: string) {
+    return this.rooms.get(code)?.size ?? 0;
+  }
+}
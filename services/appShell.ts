@@ -0,0 +1,63 @@
+import { Emitter } from './emitter.ts';
+
+export interface AppShellSnapshot {
+  online: boolean;
+  /** A newer service worker is installed and waits for the user to reload. */
+  updateReady: boolean;
+}
+
+/**
+ * Registers the service worker and tracks connectivity. A new version is not
+ * activated on its own: it waits until the user accepts the prompt, so a
+ * reload never cuts a call short.
+ */
+export class AppShell extends Emitter<{ change: () => void }> {
+  private snapshot: AppShellSnapshot = { online: navigator.onLine, updateReady: false };
+  private waiting: ServiceWorker | null = null;
+  private applying = false;
+  private started = false;
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  start(scriptUrl = '/sw.js') {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', () => this.update({ online: true }));
+    window.addEventListener('offline', () => this.update({ online: false }));
+    if (!('serviceWorker' in navigator)) return;
+
+    // أول تثبيت يتولى الصفحة أيضاً، فلا نعيد التحميل إلا بعد موافقة المستخدم على التحديث
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (this.applying) location.reload();
+    });
+    navigator.serviceWorker.register(scriptUrl)
+      .then(registration => {
+        if (registration.waiting && navigator.serviceWorker.controller) this.setWaiting(registration.waiting);
+        registration.addEventListener('updatefound', () => {
+          const worker = registration.installing;
+          worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) this.setWaiting(worker);
+          });
+        });
+      })
+      .catch(err => console.warn('[sw] registration failed', err));
+  }
+
+  applyUpdate() {
+    if (!this.waiting) return;
+    this.applying = true;
+    this.waiting.postMessage({ type: 'SKIP_WAITING' });
+  }
+
+  private setWaiting(worker: ServiceWorker) {
+    this.waiting = worker;
+    this.update({ updateReady: true });
+  }
+
+  private update(patch: Partial<AppShellSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change');
+  }
+}
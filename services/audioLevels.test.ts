@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { levelOf, VoiceActivityDetector } from './audioLevels.ts';
+
+const SAMPLE_RATE = 48000;
+const BLOCK_MS = 10;
+const BLOCK = (SAMPLE_RATE * BLOCK_MS) / 1000;
+
+const silence = (length = BLOCK) => new Float32Array(length);
+
+const tone = (amplitude: number, frequency = 440, length = BLOCK) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+/** Uniform white noise from a fixed seed, so every run hears the same thing. */
+const noise = (amplitude: number, length = BLOCK, seed = 1) => {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return amplitude * (state / 2 ** 31 - 1);
+  });
+};
+
+/** Level in 0..1 of a signal with the given RMS, as levelOf maps it. */
+const levelAtRms = (rms: number) => (20 * Math.log10(rms) + 60) / 60;
+
+/** Feeds one block after another to the detector and returns what it said after each. */
+const run = (vad: VoiceActivityDetector, blocks: Float32Array[], start = 0) =>
+  blocks.map((block, i) => vad.update(levelOf(block), start + i * BLOCK_MS));
+
+const repeat = <T>(count: number, make: () => T) => Array.from({ length: count }, make);
+
+describe('levelOf', () => {
+  it('reads silence and an empty block as 0', () => {
+    expect(levelOf(silence())).toBe(0);
+    expect(levelOf(new Float32Array(0))).toBe(0);
+  });
+
+  it('reads a full-scale square wave as 1', () => {
+    const square = Float32Array.from({ length: BLOCK }, (_, i) => (i % 2 ? 1 : -1));
+    expect(levelOf(square)).toBe(1);
+  });
+
+  it('maps a tone onto the dB scale by its RMS', () => {
+    expect(levelOf(tone(0.1))).toBeCloseTo(levelAtRms(0.1 / Math.SQRT2), 2);
+    expect(levelOf(tone(0.5))).toBeCloseTo(levelAtRms(0.5 / Math.SQRT2), 2);
+  });
+
+  it('grows with loudness and does not depend on pitch', () => {
+    expect(levelOf(tone(0.01))).toBeLessThan(levelOf(tone(0.1)));
+    expect(levelOf(tone(0.1, 200))).toBeCloseTo(levelOf(tone(0.1, 2000)), 2);
+  });
+
+  it('reads noise by its RMS, like any other signal', () => {
+    expect(levelOf(noise(0.3, SAMPLE_RATE))).toBeCloseTo(levelAtRms(0.3 / Math.sqrt(3)), 1);
+  });
+
+  it('reads anything at or below -60 dBFS as 0', () => {
+    expect(levelOf(tone(0.0005))).toBe(0);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('stays quiet through silence and faint background noise', () => {
+    const vad = new VoiceActivityDetector();
+    const said = run(vad, [...repeat(20, silence), ...repeat(20, () => noise(0.005))]);
+    expect(said.every(speaking => !speaking)).toBe(true);
+  });
+
+  it('starts speaking on the first loud block', () => {
+    const vad = new VoiceActivityDetector();
+    expect(run(vad, [silence(), silence(), tone(0.3)])).toEqual([false, false, true]);
+  });
+
+  it('keeps speaking through pauses shorter than the hangover', () => {
+    const vad = new VoiceActivityDetector({ hangover: 400 });
+    const speech = [...repeat(10, () => tone(0.3)), ...repeat(30, silence), ...repeat(10, () => tone(0.3))];
+    expect(run(vad, speech).every(Boolean)).toBe(true);
+  });
+
+  it('stops once the level has stayed low for the hangover', () => {
+    const vad = new VoiceActivityDetector({ hangover: 400 });
+    run(vad, repeat(10, () => tone(0.3)));
+
+    const quiet = run(vad, repeat(50, silence), 100);
+    expect(quiet.slice(0, 40).every(Boolean)).toBe(true);
+    expect(quiet.slice(40).some(Boolean)).toBe(false);
+  });
+
+  it('does not flicker while the level hovers between the stop and start thresholds', () => {
+    const vad = new VoiceActivityDetector({ start: 0.5, stop: 0.38, hangover: 100 });
+    const between = tone(0.02);
+    expect(levelOf(between)).toBeGreaterThan(0.38);
+    expect(levelOf(between)).toBeLessThan(0.5);
+
+    expect(run(vad, repeat(5, () => between))).toEqual([false, false, false, false, false]);
+    run(vad, [tone(0.3)], 50);
+    expect(run(vad, repeat(50, () => between), 60).every(Boolean)).toBe(true);
+  });
+
+  it('ends a short burst of noise after the hangover', () => {
+    const vad = new VoiceActivityDetector({ hangover: 200 });
+    const said = run(vad, [noise(0.4), noise(0.4, BLOCK, 2), ...repeat(30, silence)]);
+    expect(said.slice(0, 2)).toEqual([true, true]);
+    expect(said[said.length - 1]).toBe(false);
+  });
+
+  it('forgets an ongoing utterance on reset', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, [tone(0.3)]);
+    vad.reset();
+    expect(vad.update(levelOf(silence()), 10)).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { Emitter } from './emitter.ts';
+
+/** Quietest level shown on a meter; anything below reads as silence. */
+const FLOOR_DB = -60;
+const SAMPLE_INTERVAL = 100;
+
+/**
+ * Loudness of a block of samples in [-1, 1], mapped from dBFS onto 0..1
+ * (FLOOR_DB and below is 0, full scale is 1).
+ */
+export const levelOf = (samples: Float32Array) => {
+  if (!samples.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+};
+
+export interface VadOptions {
+  /** Level at which speech starts. */
+  start?: number;
+  /** Level below which speech may stop; lower than `start` so it doesn't flicker. */
+  stop?: number;
+  /** How long the level must stay below `stop` before speech ends, in ms. */
+  hangover?: number;
+}
+
+/** Level-based voice-activity detection with hysteresis; feed it one level per sample. */
+export class VoiceActivityDetector {
+  private speaking = false;
+  private quietSince: number | null = null;
+  private readonly start: number;
+  private readonly stop: number;
+  private readonly hangover: number;
+
+  constructor({ start = 0.5, stop = 0.38, hangover = 400 }: VadOptions = {}) {
+    this.start = start;
+    this.stop = stop;
+    this.hangover = hangover;
+  }
+
+  update(level: number, now: number) {
+    if (level >= this.start) {
+      this.speaking = true;
+      this.quietSince = null;
+    } else if (this.speaking && level < this.stop) {
+      this.quietSince ??= now;
+      if (now - this.quietSince >= this.hangover) {
+        this.speaking = false;
+        this.quietSince = null;
+      }
+    } else {
+      this.quietSince = null;
+    }
+    return this.speaking;
+  }
+
+  reset() {
+    this.speaking = false;
+    this.quietSince = null;
+  }
+}
+
+/** 'local', 'remote', or the peer ID of a group call participant. */
+export type Party = string;
+
+export interface PartyLevel {
+  level: number;
+  speaking: boolean;
+}
+
+export type LevelSnapshot = Record<'local' | 'remote', PartyLevel> & Partial<Record<Party, PartyLevel>>;
+
+interface Meter {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  buffer: Float32Array;
+  vad: VoiceActivityDetector;
+  // نسخ مسارات الميكروفون تبقى مفعّلة حتى يُكتشف الكلام أثناء الكتم
+  clones: MediaStreamTrack[];
+}
+
+const SILENT: PartyLevel = { level: 0, speaking: false };
+
+/**
+ * Live levels and speaking state for the local and remote streams (and each
+ * participant of a group call), sampled
+ * from AnalyserNodes on the app's AudioContext. Nothing is connected to the
+ * destination, so metering never plays anything.
+ */
+export class AudioLevelMonitor extends Emitter<{ change: () => void }> {
+  private meters = new Map<Party, Meter>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private snapshot: LevelSnapshot = { local: SILENT, remote: SILENT };
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /**
+   * Starts metering a stream; `clone` meters copies of its audio tracks so
+   * that disabling the originals (mute) does not silence the meter.
+   */
+  attach(party: Party, ctx: AudioContext, stream: MediaStream, clone = false) {
+    this.detach(party);
+    const tracks = stream.getAudioTracks();
+    if (!tracks.length) return;
+    const clones = clone ? tracks.map(t => t.clone()) : [];
+    const source = ctx.createMediaStreamSource(clone ? new MediaStream(clones) : stream);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    this.meters.set(party, { source, analyser, buffer: new Float32Array(analyser.fftSize), vad: new VoiceActivityDetector(), clones });
+    this.timer ??= setInterval(() => this.sample(), SAMPLE_INTERVAL);
+  }
+
+  detach(party: Party) {
+    const meter = this.meters.get(party);
+    if (!meter) return;
+    this.meters.delete(party);
+    meter.source.disconnect();
+    meter.clones.forEach(t => t.stop());
+    if (!this.meters.size && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    const next = { ...this.snapshot };
+    if (party === 'local' || party === 'remote') next[party] = SILENT;
+    else delete next[party];
+    this.publish(next);
+  }
+
+  private sample() {
+    const now = Date.now();
+    const next = { ...this.snapshot };
+    this.meters.forEach((meter, party) => {
+      meter.analyser.getFloatTimeDomainData(meter.buffer);
+      const level = levelOf(meter.buffer);
+      next[party] = { level, speaking: meter.vad.update(level, now) };
+    });
+    this.publish(next);
+  }
+
+  private publish(snapshot: LevelSnapshot) {
+    this.snapshot = snapshot;
+    this.emit('change');
+  }
+}
@@ -42,14 +42,43 @@ export async function decodePcmData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string, mimeType: string } {
+/** Converts samples in [-1, 1] to 16-bit PCM, clamping anything louder. */
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    int16[i] = Math.max(-32768, Math.min(32767, data[i] * 32768));
   }
+  return int16;
+}
+
+export function createPcmBlob(data: Float32Array): { data: string, mimeType: string } {
+  const int16 = floatTo16BitPcm(data);
   return {
     data: encode(new Uint8Array(int16.buffer)),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
+
+/** Wraps chunks of 16-bit mono PCM in a WAV file. */
+export function createWavBlob(chunks: Int16Array[], sampleRate: number): Blob {
+  const dataSize = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const text = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  text(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  text(36, 'data');
+  header.setUint32(40, dataSize, true);
+  return new Blob([header.buffer, ...chunks], { type: 'audio/wav' });
+}
@@ -0,0 +1,55 @@
+import { Emitter } from './emitter.ts';
+
+const STORAGE_KEY = 'anyone_blocked';
+
+export interface BlockedPeer {
+  peerId: string;
+  blockedAt: number;
+  /** 'reported' came from "report and skip" in random matching. */
+  reason: 'blocked' | 'reported';
+}
+
+const load = (): BlockedPeer[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(entry => typeof entry?.peerId === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * IDs this device refuses: their calls are rejected without ringing and random
+ * matching never pairs us with them. Kept in localStorage because incoming
+ * calls are screened synchronously.
+ */
+export class BlockList extends Emitter<{ change: () => void }> {
+  private entries = load();
+
+  getSnapshot = () => this.entries;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  has(peerId: string) {
+    return this.entries.some(entry => entry.peerId === peerId);
+  }
+
+  ids() {
+    return this.entries.map(entry => entry.peerId);
+  }
+
+  add(peerId: string, reason: BlockedPeer['reason'] = 'blocked') {
+    if (!peerId || this.has(peerId)) return;
+    this.save([{ peerId, blockedAt: Date.now(), reason }, ...this.entries]);
+  }
+
+  remove(peerId: string) {
+    this.save(this.entries.filter(entry => entry.peerId !== peerId));
+  }
+
+  private save(entries: BlockedPeer[]) {
+    this.entries = entries;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    this.emit('change');
+  }
+}
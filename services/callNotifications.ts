@@ -0,0 +1,63 @@
+import type { CallSession } from './callSession.ts';
+import { i18n } from './i18n.ts';
+
+type NotificationAction = { action: string; title: string };
+
+// إشعار واحد لكل متصل: الفائتة تحل محل إشعار الرنين بالوسم نفسه
+const showCallNotification = (from: string, title: string, options: NotificationOptions & { actions?: NotificationAction[] }) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  navigator.serviceWorker?.getRegistration()
+    .then(registration => registration?.showNotification(title, { icon: '/icons/icon-192.png', tag: 'call-' + from, renotify: true, data: { from }, ...options } as NotificationOptions))
+    .catch(err => console.warn('[notify] could not show the notification', err));
+};
+
+const showRinging = (from: string) => {
+  const { t } = i18n.getSnapshot();
+  // أزرار الرد والرفض لا تعمل إلا في إشعارات الـ Service Worker
+  showCallNotification(from, t('notification.title'), {
+    body: t('notification.body', { peerId: from }),
+    requireInteraction: true,
+    data: { from, ringing: true },
+    actions: [
+      { action: 'answer', title: t('notification.answer') },
+      { action: 'reject', title: t('notification.reject') },
+    ],
+  });
+};
+
+const closeRinging = (from: string) => {
+  navigator.serviceWorker?.getRegistration()
+    .then(registration => registration?.getNotifications({ tag: 'call-' + from }))
+    .then(notifications => notifications?.forEach(n => { if (n.data?.ringing) n.close(); }))
+    .catch(() => {});
+};
+
+/**
+ * System notifications for the session: one with answer and reject buttons
+ * while a call rings, and one for a call missed while the app was out of
+ * sight. Asks for permission the first time. Returns a function that stops.
+ */
+export const followCallNotifications = (session: Pick<CallSession, 'getSnapshot' | 'subscribe' | 'on'>) => {
+  if ('Notification' in window && Notification.permission === 'default') Notification.requestPermission();
+  let ringing: string | null = null;
+  const sync = () => {
+    const { incomingCallerId } = session.getSnapshot();
+    if (incomingCallerId === ringing) return;
+    if (ringing) closeRinging(ringing);
+    ringing = incomingCallerId;
+    if (ringing) showRinging(ringing);
+  };
+  sync();
+  const offChange = session.subscribe(sync);
+  const offRecord = session.on('record', record => {
+    // من لم يكن ينظر إلى التطبيق يعرف بالمكالمة من الإشعار
+    if (record.outcome !== 'missed' || document.visibilityState !== 'hidden') return;
+    const { t } = i18n.getSnapshot();
+    showCallNotification(record.peerId, t('notification.missedTitle'), { body: t('notification.missedBody', { peerId: record.peerId }) });
+  });
+  return () => {
+    offChange();
+    offRecord();
+    if (ringing) closeRinging(ringing);
+  };
+};
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallRecovery, ICE_RESTART_GRACE, RECOVERY_WINDOW, REDIAL_INTERVAL } from './callRecovery.ts';
+
+/** Records what the recovery asked the session to do, in order. */
+const setup = () => {
+  const calls: string[] = [];
+  const recovery = new CallRecovery({
+    suspend: () => calls.push('suspend'),
+    expire: () => calls.push('expire'),
+    release: () => calls.push('release'),
+    redial: () => calls.push('redial'),
+  });
+  const count = (name: string) => calls.filter(c => c === name).length;
+  return { recovery, calls, count };
+};
+
+const fakePc = () => ({ restartIce: vi.fn() }) as unknown as RTCPeerConnection & { restartIce: ReturnType<typeof vi.fn> };
+
+describe('CallRecovery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('has the caller redial at once and every interval until the call is back', () => {
+    const { recovery, calls, count } = setup();
+
+    recovery.connectionLost(false);
+    expect(recovery.recovering).toBe(true);
+    expect(calls).toEqual(['suspend', 'release', 'redial']);
+
+    vi.advanceTimersByTime(REDIAL_INTERVAL * 2);
+    expect(count('redial')).toBe(3);
+
+    expect(recovery.recovered()).toBe(true);
+    vi.advanceTimersByTime(RECOVERY_WINDOW);
+    expect(count('redial')).toBe(3);
+    expect(count('expire')).toBe(0);
+    expect(recovery.recovering).toBe(false);
+  });
+
+  it('has the side that answered wait for the redial instead of dialling', () => {
+    const { recovery, calls } = setup();
+
+    recovery.connectionLost(true);
+    vi.advanceTimersByTime(REDIAL_INTERVAL * 3);
+    expect(calls).toEqual(['suspend', 'release']);
+  });
+
+  it('waits on the redial the other side placed before the drop was noticed', () => {
+    const { recovery, calls } = setup();
+
+    recovery.redialed();
+    recovery.redialed();
+    vi.advanceTimersByTime(REDIAL_INTERVAL * 3);
+    expect(calls).toEqual(['suspend', 'release']);
+    expect(recovery.recovered()).toBe(true);
+  });
+
+  it('enters recovery once per outage', () => {
+    const { recovery, count } = setup();
+
+    recovery.connectionLost(true);
+    recovery.connectionLost(true);
+    recovery.iceDisconnected(fakePc(), true, () => true);
+    expect(count('suspend')).toBe(1);
+  });
+
+  it('gives up once RECOVERY_WINDOW has passed', () => {
+    const { recovery, count } = setup();
+
+    recovery.connectionLost(false);
+    vi.advanceTimersByTime(RECOVERY_WINDOW - 1);
+    expect(count('expire')).toBe(0);
+
+    vi.advanceTimersByTime(1);
+    expect(count('expire')).toBe(1);
+    expect(recovery.recovering).toBe(false);
+    const redials = count('redial');
+    vi.advanceTimersByTime(REDIAL_INTERVAL * 2);
+    expect(count('redial')).toBe(redials);
+  });
+
+  it('tries an ICE restart before redialling', () => {
+    const { recovery, calls } = setup();
+    const pc = fakePc();
+
+    recovery.iceDisconnected(pc, false, () => true);
+    expect(pc.restartIce).toHaveBeenCalledOnce();
+    expect(calls).toEqual(['suspend']);
+
+    vi.advanceTimersByTime(ICE_RESTART_GRACE);
+    expect(calls).toEqual(['suspend', 'release', 'redial']);
+  });
+
+  it('does not redial when ICE came back, or the connection was replaced, during the grace', () => {
+    const restored = setup();
+    restored.recovery.iceDisconnected(fakePc(), false, () => true);
+    restored.recovery.recovered();
+    vi.advanceTimersByTime(ICE_RESTART_GRACE);
+    expect(restored.calls).toEqual(['suspend']);
+
+    const replaced = setup();
+    replaced.recovery.iceDisconnected(fakePc(), false, () => false);
+    vi.advanceTimersByTime(ICE_RESTART_GRACE);
+    expect(replaced.calls).toEqual(['suspend']);
+    expect(replaced.recovery.recovering).toBe(true);
+  });
+
+  it('does not let the timers of an earlier outage end a later one', () => {
+    const { recovery, count } = setup();
+
+    recovery.connectionLost(false);
+    vi.advanceTimersByTime(RECOVERY_WINDOW / 2);
+    recovery.recovered();
+    recovery.connectionLost(false);
+    vi.advanceTimersByTime(RECOVERY_WINDOW / 2);
+    expect(count('expire')).toBe(0);
+    expect(recovery.recovering).toBe(true);
+
+    vi.advanceTimersByTime(RECOVERY_WINDOW / 2);
+    expect(count('expire')).toBe(1);
+  });
+
+  it('reports no recovery when there was no outage', () => {
+    const { recovery, calls } = setup();
+
+    expect(recovery.recovered()).toBe(false);
+    recovery.stop();
+    expect(calls).toEqual([]);
+  });
+});
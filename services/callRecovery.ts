@@ -0,0 +1,108 @@
+/** How long a dropped call may take to recover before it ends. */
+export const RECOVERY_WINDOW = 20000;
+/** How long an ICE restart gets before the call is dialled again. */
+export const ICE_RESTART_GRACE = 5000;
+/** The pause between redials while the other side is unreachable. */
+export const REDIAL_INTERVAL = 4000;
+
+export interface CallRecoveryDeps {
+  /** Shows the call as reconnecting; called once per outage. */
+  suspend: () => void;
+  /** The call did not come back within RECOVERY_WINDOW. */
+  expire: () => void;
+  /** Closes the broken media and data connections. */
+  release: () => void;
+  /** Dials the partner again on fresh connections; skipped while signalling is down. */
+  redial: () => void;
+}
+
+/**
+ * Brings a dropped one-to-one call back. An ICE restart is tried first on the
+ * same connection; after that, or when a connection closed outright, the side
+ * that placed the call redials every REDIAL_INTERVAL and the other waits for
+ * it. The outage ends with `recovered`, `stop`, or `expire` once the window
+ * runs out.
+ */
+export class CallRecovery {
+  private outage = 0;
+  private active = false;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private readonly deps: CallRecoveryDeps) {}
+
+  /** True between a drop and its recovery or the end of the call. */
+  get recovering() {
+    return this.active;
+  }
+
+  /** The media or data connection closed under the call. */
+  connectionLost(polite: boolean) {
+    this.begin();
+    this.redialOrWait(polite);
+  }
+
+  /** The other side redialled before we noticed the drop: its connections replace ours, and we dial nobody. */
+  redialed() {
+    if (this.active) return;
+    this.begin();
+    this.deps.release();
+  }
+
+  /** ICE lost the path; `current` tells whether `pc` still carries the call when the restart grace is over. */
+  iceDisconnected(pc: RTCPeerConnection, polite: boolean, current: () => boolean) {
+    const outage = this.begin();
+    // نجرب إعادة تشغيل ICE على الاتصال نفسه أولاً
+    pc.restartIce();
+    this.later(() => {
+      if (outage === this.outage && this.active && current()) this.redialOrWait(polite);
+    }, ICE_RESTART_GRACE);
+  }
+
+  /** Media flows again; returns true when that ended an outage. */
+  recovered() {
+    if (!this.active) return false;
+    this.stop();
+    return true;
+  }
+
+  /** Forgets the outage in progress, if any, and its timers. */
+  stop() {
+    this.active = false;
+    this.outage++;
+    this.timers.forEach(t => clearTimeout(t));
+    this.timers.clear();
+  }
+
+  private begin() {
+    if (this.active) return this.outage;
+    const outage = ++this.outage;
+    this.active = true;
+    this.deps.suspend();
+    this.later(() => {
+      if (outage !== this.outage || !this.active) return;
+      this.stop();
+      this.deps.expire();
+    }, RECOVERY_WINDOW);
+    return outage;
+  }
+
+  // نتخلى عن الاتصال المعطوب؛ من بدأ المكالمة يعيد الاتصال والآخر ينتظره
+  private redialOrWait(polite: boolean) {
+    this.deps.release();
+    if (!polite) this.redial(this.outage);
+  }
+
+  private redial(outage: number) {
+    if (outage !== this.outage || !this.active) return;
+    this.deps.redial();
+    this.later(() => this.redial(outage), REDIAL_INTERVAL);
+  }
+
+  private later(fn: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+}
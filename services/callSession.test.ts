@@ -0,0 +1,445 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppState, CallRecord } from '../types.ts';
+import { BlockList } from './blockList.ts';
+import { RECOVERY_WINDOW } from './callRecovery.ts';
+import { CallSession, ENDED_LINGER, MATCH_TIMEOUT, PARTNER_TIMEOUT } from './callSession.ts';
+import { Emitter } from './emitter.ts';
+import { msg } from './i18n.ts';
+import { DeviceIdentity } from './identity.ts';
+import { MatchFound, MatchmakerLike } from './matchmaking.ts';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from './protocol.ts';
+import { DataConnectionLike, MediaConnectionLike, PeerLike } from './transport.ts';
+
+type AnyEvents = Record<string, (...args: any[]) => void>;
+
+class FakeDataConnection extends Emitter<AnyEvents> implements DataConnectionLike {
+  open = false;
+  closed = false;
+  sent: any[] = [];
+
+  constructor(readonly peer: string, readonly metadata?: any) {
+    super();
+  }
+
+  send(data: any) {
+    this.sent.push(data);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.open = false;
+    this.emit('close');
+  }
+
+  /** Opens the connection and completes the protocol handshake from the other side. */
+  connect() {
+    this.open = true;
+    this.emit('open');
+    this.receive('HELLO', { version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION });
+  }
+
+  receive(type: string, payload: object = {}) {
+    const id = `${this.peer}-${type}-${this.sent.length}-${Math.random()}`;
+    this.emit('data', { ...payload, type, v: PROTOCOL_VERSION, id });
+    return id;
+  }
+
+  sentOfType(type: string) {
+    return this.sent.filter(m => m.type === type);
+  }
+}
+
+class FakeMediaConnection extends Emitter<AnyEvents> implements MediaConnectionLike {
+  open = true;
+  closed = false;
+  answered: MediaStream | null = null;
+
+  constructor(readonly peer: string, readonly metadata?: any) {
+    super();
+  }
+
+  answer(stream?: MediaStream) {
+    this.answered = stream ?? null;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+}
+
+class FakePeer extends Emitter<AnyEvents> {
+  disconnected = false;
+  destroyed = false;
+  connections: FakeDataConnection[] = [];
+  calls: FakeMediaConnection[] = [];
+
+  constructor(readonly id: string) {
+    super();
+  }
+
+  reconnect() {
+    this.disconnected = false;
+  }
+
+  connect(peer: string, options?: { metadata?: any }) {
+    const conn = new FakeDataConnection(peer, options?.metadata);
+    this.connections.push(conn);
+    return conn;
+  }
+
+  call(peer: string, _stream: MediaStream, options?: { metadata?: any }) {
+    const call = new FakeMediaConnection(peer, options?.metadata);
+    this.calls.push(call);
+    return call;
+  }
+
+  destroy() {
+    this.destroyed = true;
+  }
+}
+
+class FakeMatchmaker extends Emitter<AnyEvents> implements MatchmakerLike {
+  joined: { peerId: string; lang: string }[] = [];
+  cancelled = 0;
+
+  join(peerId: string, lang: string) {
+    this.joined.push({ peerId, lang });
+  }
+
+  cancel() {
+    this.cancelled++;
+  }
+
+  match(partnerId: string, role: MatchFound['role']) {
+    const match: MatchFound = { matchId: `match-${partnerId}`, partnerId, partnerLang: 'en', role, interests: [] };
+    this.emit('matched', match);
+  }
+}
+
+const fakeStream = () => {
+  const tracks = [{ kind: 'audio', enabled: true, stop: vi.fn() }];
+  return {
+    getTracks: () => tracks,
+    getAudioTracks: () => tracks,
+    getVideoTracks: () => [],
+  } as unknown as MediaStream;
+};
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+};
+
+const MY_ID = '100000000001';
+const PARTNER_ID = '200000000002';
+
+const setup = (options: { getUserMedia?: () => Promise<MediaStream>; blockList?: BlockList } = {}) => {
+  const peers: FakePeer[] = [];
+  const matchmaker = new FakeMatchmaker();
+  const identity = { peerId: MY_ID, publicKey: 'my-key', sign: async () => 'signature' } as unknown as DeviceIdentity;
+  const session = new CallSession({
+    identity: Promise.resolve(identity),
+    createPeer: id => {
+      const peer = new FakePeer(id);
+      peers.push(peer);
+      return peer as unknown as PeerLike;
+    },
+    getUserMedia: options.getUserMedia ?? (async () => fakeStream()),
+    matchmaker,
+    blockList: options.blockList,
+  });
+  const records: CallRecord[] = [];
+  session.on('record', record => records.push(record));
+  return { session, matchmaker, records, peer: () => peers[0] };
+};
+
+/** Starts the session and registers with the fake broker. */
+const started = async (options?: Parameters<typeof setup>[0]) => {
+  const env = setup(options);
+  env.session.start();
+  await vi.advanceTimersByTimeAsync(0);
+  env.peer().emit('open', MY_ID);
+  return env;
+};
+
+/** Lets pending promises (media, identity) settle without moving the clock. */
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+/** Dials the partner and answers on their side, leaving the session CONNECTED. */
+const connectedCall = async (options?: Parameters<typeof setup>[0]) => {
+  const env = await started(options);
+  await env.session.dial(PARTNER_ID);
+  const conn = env.peer().connections[0];
+  const call = env.peer().calls[0];
+  conn.connect();
+  call.emit('stream', fakeStream());
+  return { ...env, conn, call };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('CallSession', () => {
+  it('registers with the broker under the device ID', async () => {
+    const { session, peer } = await started();
+
+    expect(peer().id).toBe(MY_ID);
+    expect(session.getSnapshot()).toMatchObject({ state: AppState.IDLE, myPeerId: MY_ID });
+  });
+
+  describe('random matching', () => {
+    it('goes from MATCHING to CONNECTED when the matched partner answers', async () => {
+      const { session, matchmaker, peer } = await started();
+
+      session.startRandom('en');
+      expect(session.state).toBe(AppState.MATCHING);
+      expect(matchmaker.joined).toEqual([{ peerId: MY_ID, lang: 'en' }]);
+
+      matchmaker.match(PARTNER_ID, 'caller');
+      await flush();
+      expect(peer().calls.map(c => c.peer)).toEqual([PARTNER_ID]);
+
+      peer().connections[0].connect();
+      peer().calls[0].emit('stream', fakeStream());
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.CONNECTED, callKind: 'random', remotePeerId: PARTNER_ID });
+    });
+
+    it('answers the partner when matched as the answerer', async () => {
+      const { session, matchmaker, peer } = await started();
+      session.startRandom('en');
+      matchmaker.match(PARTNER_ID, 'answerer');
+
+      const call = new FakeMediaConnection(PARTNER_ID);
+      peer().emit('call', call);
+      await flush();
+      expect(call.answered).not.toBeNull();
+
+      call.emit('stream', fakeStream());
+      expect(session.state).toBe(AppState.CONNECTED);
+    });
+
+    it('goes back to the queue when the partner never shows up', async () => {
+      const { session, matchmaker } = await started();
+      session.startRandom('en');
+      matchmaker.match(PARTNER_ID, 'answerer');
+
+      await vi.advanceTimersByTimeAsync(PARTNER_TIMEOUT);
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.MATCHING, remotePeerId: null, statusMsg: msg('status.searchingAgain') });
+    });
+
+    it('ends in ERROR when nobody is found in time', async () => {
+      const { session, matchmaker } = await started();
+      session.startRandom('en');
+
+      await vi.advanceTimersByTimeAsync(MATCH_TIMEOUT * 1000);
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.ERROR, error: msg('error.nobodyFound') });
+      expect(matchmaker.cancelled).toBe(1);
+    });
+
+    it('fails when the matchmaker cannot be reached', async () => {
+      const { session, matchmaker } = await started();
+      session.startRandom('en');
+
+      matchmaker.emit('unavailable');
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.ERROR, error: msg('error.matchmakerUnavailable') });
+    });
+  });
+
+  describe('incoming calls', () => {
+    const ring = async (options?: Parameters<typeof setup>[0]) => {
+      const env = await started(options);
+      const conn = new FakeDataConnection(PARTNER_ID);
+      const call = new FakeMediaConnection(PARTNER_ID);
+      env.peer().emit('connection', conn);
+      conn.connect();
+      env.peer().emit('call', call);
+      return { ...env, conn, call };
+    };
+
+    it('rings, then connects once answered', async () => {
+      const { session, call } = await ring();
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.RINGING, incomingCallerId: PARTNER_ID });
+
+      await session.accept();
+      expect(call.answered).not.toBeNull();
+      call.emit('stream', fakeStream());
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.CONNECTED, callKind: 'incoming', incomingCallerId: null });
+    });
+
+    it('keeps the channel open until the caller acknowledges the rejection', async () => {
+      const { session, conn, records } = await ring();
+
+      session.reject();
+      expect(session.state).toBe(AppState.IDLE);
+      expect(records.map(r => r.outcome)).toEqual(['rejected']);
+      const [rejected] = conn.sentOfType('REJECTED');
+      expect(rejected).toBeDefined();
+      expect(conn.closed).toBe(false);
+
+      conn.receive('ACK', { ref: rejected.id });
+      expect(conn.closed).toBe(true);
+    });
+
+    it('takes a redial from the caller that arrives before the drop is noticed', async () => {
+      const { session, conn, call, peer } = await ring();
+      await session.accept();
+      call.emit('stream', fakeStream());
+
+      const redialConn = new FakeDataConnection(PARTNER_ID, { resume: true });
+      peer().emit('connection', redialConn);
+      expect(session.state).toBe(AppState.RECONNECTING);
+      expect(conn.closed && call.closed).toBe(true);
+
+      const redial = new FakeMediaConnection(PARTNER_ID, { resume: true });
+      peer().emit('call', redial);
+      expect(redial.answered).not.toBeNull();
+      redialConn.connect();
+      redial.emit('stream', fakeStream());
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.CONNECTED, remotePeerId: PARTNER_ID });
+      expect(redialConn.sentOfType('DISCONNECT')).toEqual([]);
+      expect(peer().calls).toEqual([]);
+    });
+
+    it('refuses blocked callers even when they claim to be in our group', async () => {
+      const blockList = new BlockList();
+      blockList.add(PARTNER_ID);
+      const { session, peer } = await started({ blockList });
+      const call = new FakeMediaConnection(PARTNER_ID, { group: 'some-group' });
+
+      peer().emit('call', call);
+      expect(call.closed).toBe(true);
+      expect(session.state).toBe(AppState.IDLE);
+    });
+
+    it('goes back to IDLE when the caller gives up', async () => {
+      const { session, conn, records } = await ring();
+
+      conn.receive('DISCONNECT');
+      expect(session.state).toBe(AppState.IDLE);
+      expect(records.map(r => r.outcome)).toEqual(['missed']);
+    });
+  });
+
+  describe('an established call', () => {
+    it('ends with DISCONNECT on hang-up and returns to IDLE after a moment', async () => {
+      const { session, conn, records } = await connectedCall();
+
+      session.hangup();
+      expect(session.state).toBe(AppState.ENDED);
+      expect(conn.sentOfType('DISCONNECT')).toHaveLength(1);
+      expect(records.map(r => r.outcome)).toEqual(['completed']);
+
+      await vi.advanceTimersByTimeAsync(ENDED_LINGER);
+      expect(session.state).toBe(AppState.IDLE);
+    });
+
+    it('keeps the connections open on hang-up until the DISCONNECT is acknowledged', async () => {
+      const { session, conn, call } = await connectedCall();
+
+      session.hangup();
+      const [disconnect] = conn.sentOfType('DISCONNECT');
+      expect(conn.closed || call.closed).toBe(false);
+
+      conn.receive('ACK', { ref: disconnect.id });
+      await flush();
+      expect(conn.closed && call.closed).toBe(true);
+    });
+
+    it('ends when the other side hangs up', async () => {
+      const { session, conn } = await connectedCall();
+
+      conn.receive('DISCONNECT');
+      expect(session.state).toBe(AppState.ENDED);
+    });
+
+    it('reconnects after the media connection drops, dialling again as the caller', async () => {
+      const { session, call, peer } = await connectedCall();
+
+      call.close();
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.RECONNECTING, statusMsg: msg('status.reconnecting') });
+      expect(peer().calls).toHaveLength(2);
+      const redial = peer().calls[1];
+      expect(redial.metadata).toEqual({ resume: true });
+
+      peer().connections[1].connect();
+      redial.emit('stream', fakeStream());
+      expect(session.getSnapshot()).toMatchObject({ state: AppState.CONNECTED, remotePeerId: PARTNER_ID });
+    });
+
+    it('ends when the call has not recovered within the recovery window', async () => {
+      const { session, call, records } = await connectedCall();
+
+      call.close();
+      await vi.advanceTimersByTimeAsync(RECOVERY_WINDOW);
+      expect(session.state).toBe(AppState.ENDED);
+      expect(records).toHaveLength(1);
+    });
+  });
+
+  describe('outgoing calls', () => {
+    it('fails with ERROR when the callee rejects', async () => {
+      const env = await started();
+      await env.session.dial(PARTNER_ID);
+      expect(env.session.getSnapshot()).toMatchObject({ state: AppState.MATCHING, callKind: 'outgoing' });
+
+      const conn = env.peer().connections[0];
+      conn.connect();
+      conn.receive('REJECTED');
+      expect(env.session.getSnapshot()).toMatchObject({ state: AppState.ERROR, error: msg('error.rejected') });
+      expect(env.records.map(r => r.outcome)).toEqual(['rejected']);
+    });
+
+    it('fails with ERROR when the microphone is refused', async () => {
+      const env = await started({ getUserMedia: () => Promise.reject(new DOMException('denied', 'NotAllowedError')) });
+
+      await env.session.dial(PARTNER_ID);
+      expect(env.session.getSnapshot()).toMatchObject({ state: AppState.ERROR, error: msg('error.micRequired') });
+    });
+
+    it('reports other capture errors as a failed call, not a refused microphone', async () => {
+      const env = await started({ getUserMedia: () => Promise.reject(new DOMException('in use', 'NotReadableError')) });
+
+      await env.session.dial(PARTNER_ID);
+      expect(env.session.getSnapshot()).toMatchObject({ state: AppState.ERROR, error: msg('error.callFailed') });
+    });
+
+    it('ignores a capture error from an attempt that was already hung up', async () => {
+      let refuse!: (e: Error) => void;
+      const env = await started({ getUserMedia: () => new Promise((_, reject) => { refuse = reject; }) });
+
+      const dialing = env.session.dial(PARTNER_ID);
+      env.session.hangup();
+      refuse(new DOMException('denied', 'NotAllowedError'));
+      await dialing;
+      expect(env.session.getSnapshot().state).not.toBe(AppState.ERROR);
+      expect(env.records.map(r => r.outcome)).not.toContain('failed');
+    });
+
+    it('can leave ERROR for IDLE', async () => {
+      const env = await started({ getUserMedia: () => Promise.reject(new Error('denied')) });
+      await env.session.dial(PARTNER_ID);
+
+      env.session.dismiss();
+      expect(env.session.getSnapshot()).toMatchObject({ state: AppState.IDLE, error: null });
+    });
+  });
+});
@@ -0,0 +1,1627 @@
+import { PERSONAS } from '../constants.ts';
+import { AppState, CallKind, CallOutcome, CallRecord, ChatMessage, FacingMode, InputDevices, Persona } from '../types.ts';
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+import { BlockList } from './blockList.ts';
+import { StatsSampler } from './callStats.ts';
+import { CallRecovery, REDIAL_INTERVAL } from './callRecovery.ts';
+import { CaptionManager, CaptionProvider } from './captions.ts';
+import { CallRecorder } from './recording.ts';
+import { ChatManager } from './chat.ts';
+import { FileTransferManager } from './fileTransfer.ts';
+import { GroupCall } from './groupCall.ts';
+import { DeviceIdentity } from './identity.ts';
+import { IncomingRouter, RoutingState } from './incomingCalls.ts';
+import { createInviteId, isInviteId } from './invites.ts';
+import { MatchFound, MatchmakerLike } from './matchmaking.ts';
+import { CallAlertsLike } from './pushAlerts.ts';
+import { ALERT_TIMEOUT } from './pushProtocol.ts';
+import { KnownKeys, PeerVerifier, VerificationResult, verifyChannel } from './peerVerification.ts';
+import { createMessageId, MessageOf, ProtocolChannel, ProtocolIssue, ProtocolMessage } from './protocol.ts';
+import { attachRenegotiation, sendTrackOn, transceiverOf } from './renegotiation.ts';
+import { RoomDirectoryLike } from './rooms.ts';
+import { DataConnectionLike, DisplayMediaProvider, MediaConnectionLike, MediaProvider, PeerFactory, PeerLike } from './transport.ts';
+import { VoiceAgentCall, VoiceAgentProvider } from './voiceAgent.ts';
+import { VoiceNoteRecorder } from './voiceNotes.ts';
+
+export const MATCH_TIMEOUT = 30;
+export const ENDED_LINGER = 2000;
+// المدة التي ننتظر فيها الشريك بعد المطابقة قبل العودة للقائمة
+export const PARTNER_TIMEOUT = 8000;
+const MAX_PEER_RETRY_DELAY = 30000;
+/** Outgoing video bitrate while the connection is poor, in bits per second. */
+const POOR_VIDEO_BITRATE = 250_000;
+
+// الانتقالات المسموحة بين حالات المكالمة
+const TRANSITIONS: Record<AppState, AppState[]> = {
+  [AppState.IDLE]: [AppState.MATCHING, AppState.RINGING, AppState.ERROR],
+  [AppState.MATCHING]: [AppState.CONNECTED, AppState.IDLE, AppState.ENDED, AppState.ERROR],
+  [AppState.RINGING]: [AppState.CONNECTED, AppState.IDLE, AppState.ENDED, AppState.ERROR],
+  [AppState.CONNECTED]: [AppState.RECONNECTING, AppState.ENDED, AppState.ERROR],
+  [AppState.RECONNECTING]: [AppState.CONNECTED, AppState.ENDED, AppState.ERROR],
+  [AppState.ENDED]: [AppState.IDLE, AppState.MATCHING, AppState.RINGING, AppState.ERROR],
+  [AppState.ERROR]: [AppState.IDLE, AppState.MATCHING, AppState.RINGING],
+};
+
+export const canTransition = (from: AppState, to: AppState) => from === to || TRANSITIONS[from].includes(to);
+
+export interface CallSnapshot {
+  state: AppState;
+  myPeerId: string;
+  callKind: CallKind | null;
+  remotePeerId: string | null;
+  incomingCallerId: string | null;
+  selectedLang: string | null;
+  /** Random matching may pair us with someone who speaks another language. */
+  crossLanguage: boolean;
+  /** Interest tags we asked the matchmaker to prefer, and those the partner shares. */
+  interests: string[];
+  sharedInterests: string[];
+  partnerLang: string | null;
+  statusMsg: Message | null;
+  error: Message | null;
+  matchTimer: number;
+  elapsedTime: number;
+  // الكاميرا المحلية والكاميرا لدى الطرف الآخر
+  isVideoActive: boolean;
+  remoteVideoActive: boolean;
+  isSharingScreen: boolean;
+  remoteSharingScreen: boolean;
+  // الكتم والانتظار لدينا ولدى الطرف الآخر
+  isMuted: boolean;
+  isOnHold: boolean;
+  remoteMuted: boolean;
+  remoteHeld: boolean;
+  facingMode: FacingMode;
+  inputDevices: InputDevices;
+  /** The AI persona being talked to instead of a person. */
+  persona: Persona | null;
+  /** Offered after random matching found nobody, when a voice agent is available. */
+  personaOffer: Persona | null;
+  /** Set once the call has more than two people; the participants live in CallSession.group. */
+  groupId: string | null;
+  /** The named room we are in, if the group is one. */
+  roomCode: string | null;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  /** Somebody calling during this call; they hear it ring until it is answered or refused. */
+  waitingCallerId: string | null;
+  /** The call put on hold to answer the current one. */
+  heldPeerId: string | null;
+  /** The one-time invite ID that rings here, until its first caller's call ends. */
+  inviteId: string | null;
+}
+
+export interface CallSessionDeps {
+  /** This device's key; its peer ID is the one registered with the broker. */
+  identity: Promise<DeviceIdentity>;
+  createPeer: PeerFactory;
+  getUserMedia: MediaProvider;
+  // غير متاح في معظم متصفحات الهاتف
+  getDisplayMedia?: DisplayMediaProvider;
+  matchmaker: MatchmakerLike;
+  // بديل المطابقة العشوائية حين لا يوجد أحد
+  voiceAgent?: VoiceAgentProvider;
+  captions?: CaptionProvider;
+  rooms?: RoomDirectoryLike;
+  // المعرفات المحظورة على هذا الجهاز
+  blockList?: BlockList;
+  // يوقظ جهاز من نتصل به حين يكون التطبيق لديه مغلقاً
+  callAlerts?: CallAlertsLike;
+}
+
+interface CallSessionEvents {
+  change: (snapshot: CallSnapshot) => void;
+  notice: (text: Message) => void;
+  issue: (issue: ProtocolIssue) => void;
+  record: (record: CallRecord) => void;
+}
+
+type Renegotiation = { pc: RTCPeerConnection; channel: ProtocolChannel; stop: () => void };
+
+/** A second call: ringing behind the current one, whose media arrives after its data channel. */
+interface WaitingCall {
+  peerId: string;
+  channel: ProtocolChannel;
+  call: MediaConnectionLike | null;
+  // null في مكالمات الدعوة لمرة واحدة
+  verification: Promise<VerificationResult> | null;
+  startedAt: number;
+  offs: (() => void)[];
+}
+
+/** What the snapshot shows about a call, kept aside while it is on hold. */
+type HeldFields = Pick<CallSnapshot,
+  'callKind' | 'remotePeerId' | 'selectedLang' | 'crossLanguage' | 'interests' | 'sharedInterests' | 'partnerLang'
+  | 'elapsedTime' | 'remoteVideoActive' | 'remoteMuted' | 'remoteHeld' | 'remoteStream'>;
+
+interface HeldCall extends Omit<WaitingCall, 'call'> {
+  call: MediaConnectionLike;
+  polite: boolean;
+  renegotiation: Renegotiation | null;
+  fields: HeldFields;
+  messages: ChatMessage[];
+  heldAt: number;
+}
+
+/** Fields that belong to a single call and are reset whenever it ends. */
+const callFields = (): Omit<CallSnapshot, 'state' | 'myPeerId' | 'error' | 'facingMode' | 'inputDevices' | 'inviteId'> => ({
+  callKind: null,
+  remotePeerId: null,
+  incomingCallerId: null,
+  selectedLang: null,
+  crossLanguage: false,
+  interests: [],
+  sharedInterests: [],
+  partnerLang: null,
+  statusMsg: null,
+  matchTimer: MATCH_TIMEOUT,
+  elapsedTime: 0,
+  isVideoActive: false,
+  remoteVideoActive: false,
+  isSharingScreen: false,
+  remoteSharingScreen: false,
+  isMuted: false,
+  isOnHold: false,
+  remoteMuted: false,
+  remoteHeld: false,
+  persona: null,
+  personaOffer: null,
+  groupId: null,
+  roomCode: null,
+  localStream: null,
+  remoteStream: null,
+  waitingCallerId: null,
+  heldPeerId: null,
+});
+
+const heldFields = (s: CallSnapshot): HeldFields => ({
+  callKind: s.callKind, remotePeerId: s.remotePeerId, selectedLang: s.selectedLang, crossLanguage: s.crossLanguage,
+  interests: s.interests, sharedInterests: s.sharedInterests, partnerLang: s.partnerLang, elapsedTime: s.elapsedTime,
+  remoteVideoActive: s.remoteVideoActive, remoteMuted: s.remoteMuted, remoteHeld: s.remoteHeld, remoteStream: s.remoteStream,
+});
+
+/**
+ * Owns the whole call lifecycle: the device Peer, random matching, dialing,
+ * incoming calls and the data channel. It holds no framework state; the UI
+ * subscribes to immutable snapshots (compatible with useSyncExternalStore).
+ */
+export class CallSession extends Emitter<CallSessionEvents> {
+  private peer: PeerLike | null = null;
+  private call: MediaConnectionLike | null = null;
+  private incomingCall: MediaConnectionLike | null = null;
+  // الشريك قد يتصل قبل وصول رسالة المطابقة إلينا من الخادم
+  private earlyArrivals = new Map<string, { conn?: DataConnectionLike; call?: MediaConnectionLike }>();
+  private channel: ProtocolChannel | null = null;
+  private agent: VoiceAgentCall | null = null;
+  // دعوة جماعية وصلت قبل الرد على المكالمة
+  private pendingGroup: MessageOf<'GROUP'> | null = null;
+  // من ردّ على المكالمة يتنازل عند تزامن عرضين لإعادة التفاوض
+  private polite = false;
+  // أثناء مشاركة الشاشة يُرسل مسارها بدل الكاميرا
+  private screenTrack: MediaStreamTrack | null = null;
+  private renegotiation: Renegotiation | null = null;
+  // انتظار المكالمات: متصل ثانٍ يرن أثناء المكالمة، ومكالمة معلّقة للرد عليه
+  private waiting: WaitingCall | null = null;
+  private held: HeldCall | null = null;
+  // معرف مؤقت يرن هنا؛ يخص أول من يتصل به ويُغلق بانتهاء مكالمته
+  private invite: { peer: PeerLike; callerId: string | null } | null = null;
+  private timeouts = new Set<ReturnType<typeof setTimeout>>();
+  private intervals: { match?: ReturnType<typeof setInterval>; session?: ReturnType<typeof setInterval> } = {};
+  private endedTimer: ReturnType<typeof setTimeout> | null = null;
+  private peerRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private peerRetries = 0;
+  // جهاز أيقظناه بإشعار ولم يتصل بعد؛ إن لم يُرد نرسل له إشعار مكالمة فائتة
+  private alert: { peerId: string; callId: string; redialing: boolean } | null = null;
+  // مكالمة قبِلها المستخدم من الإشعار قبل أن تصل إلينا
+  private expected: { peerId: string; until: number } | null = null;
+  // يتغير مع كل محاولة جديدة حتى تتجاهل الاستدعاءات المتأخرة المحاولات القديمة
+  private attempt = 0;
+  // بداية المكالمة الحالية لسجل المكالمات
+  private startedAt: number | null = null;
+  private snapshot: CallSnapshot;
+  readonly files = new FileTransferManager();
+  readonly chat = new ChatManager();
+  readonly stats = new StatsSampler();
+  readonly recorder = new CallRecorder();
+  readonly voiceNotes = new VoiceNoteRecorder(() => this.snapshot.localStream, (note, name) => this.files.send(note, name));
+  readonly captions: CaptionManager;
+  readonly group: GroupCall;
+  readonly verification: PeerVerifier;
+  private readonly knownKeys = new KnownKeys();
+  private readonly incoming = new IncomingRouter(() => this.routingState());
+  private readonly recovery = new CallRecovery({
+    suspend: () => this.suspend(),
+    expire: () => {
+      this.record('failed');
+      this.finish(AppState.ENDED, false);
+    },
+    release: () => this.releaseConnections(false),
+    redial: () => this.redial(),
+  });
+  // الجيل الحالي من start/destroy، فالهوية تُحمَّل قبل إنشاء الـ Peer
+  private generation = 0;
+  private starting: number | null = null;
+
+  constructor(private readonly deps: CallSessionDeps) {
+    super();
+    this.captions = new CaptionManager(deps.captions ?? null);
+    this.verification = new PeerVerifier(deps.identity, this.knownKeys);
+    this.verification.on('notice', text => this.emit('notice', text));
+    this.group = new GroupCall({
+      peer: () => this.peer,
+      localStream: () => this.snapshot.localStream,
+      mediaState: () => ({ muted: this.snapshot.isMuted, video: this.snapshot.isVideoActive }),
+      verify: async channel => (await verifyChannel(channel, await deps.identity, this.knownKeys).result).status,
+      chat: this.chat,
+    });
+    this.group.on('left', (peerId, joined) => this.handleParticipantLeft(peerId, joined));
+    this.group.on('notice', text => this.emit('notice', text));
+    this.group.on('issue', issue => this.emit('issue', issue));
+    this.incoming.on('notice', text => this.emit('notice', text));
+    this.snapshot = {
+      state: AppState.IDLE, myPeerId: '...', error: null, facingMode: 'user',
+      inputDevices: { audioinput: null, videoinput: null }, inviteId: null, ...callFields(),
+    };
+    deps.matchmaker.on('queued', position => {
+      if (this.isMatching) this.update({ statusMsg: msg('status.queued', { position }) });
+    });
+    deps.matchmaker.on('matched', match => this.handleMatch(match));
+    this.files.on('offered', transfer => this.chat.addTransfer(transfer));
+    this.voiceNotes.on('notice', text => this.emit('notice', text));
+    this.stats.on('poor', poor => this.adaptVideo(poor));
+    deps.matchmaker.on('unavailable', () => {
+      if (this.isMatching) this.fail(msg('error.matchmakerUnavailable'));
+    });
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get state() {
+    return this.snapshot.state;
+  }
+
+  private get inCall() {
+    return this.state === AppState.CONNECTED || this.state === AppState.RECONNECTING;
+  }
+
+  private get isMatching() {
+    return this.state === AppState.MATCHING && this.snapshot.callKind === 'random';
+  }
+
+  /** True when nothing is in progress and a new call may start. */
+  get isFree() {
+    return this.state === AppState.IDLE || this.state === AppState.ENDED || this.state === AppState.ERROR;
+  }
+
+  start() {
+    if (this.peer || this.starting === this.generation) return;
+    const generation = this.generation;
+    this.starting = generation;
+    this.deps.identity.then(
+      identity => {
+        if (generation !== this.generation || this.peer) return;
+        this.starting = null;
+        this.connect(identity.peerId);
+      },
+      e => {
+        console.warn('[session] could not load the device key', e);
+        if (generation === this.generation) this.transition(AppState.ERROR, { error: msg('error.cryptoUnsupported') });
+      },
+    );
+  }
+
+  private connect(peerId: string) {
+    const peer = this.deps.createPeer(peerId);
+    this.peer = peer;
+    peer.on('open', id => {
+      this.peerRetries = 0;
+      this.update({ myPeerId: id });
+    });
+    peer.on('disconnected', () => this.reconnectPeer());
+    peer.on('connection', conn => this.handleIncomingConnection(conn));
+    peer.on('call', call => this.handleIncomingCall(call));
+    peer.on('error', err => {
+      // أثناء الاستعادة قد لا يكون الطرف الآخر قد عاد للخادم بعد، والمحاولة التالية تتكفل بذلك
+      if (err.type !== 'peer-unavailable' || this.state === AppState.RECONNECTING) return;
+      // الشريك الذي اختاره الخادم غادر قبل أن نتصل به
+      if (this.isMatching) this.requeue();
+      else if (this.snapshot.callKind === 'outgoing' && this.state === AppState.MATCHING) this.handleUnreachable();
+    });
+  }
+
+  destroy() {
+    this.generation++;
+    this.starting = null;
+    this.teardown(false);
+    this.revokeInvite();
+    this.clearEndedTimer();
+    if (this.peerRetryTimer) clearTimeout(this.peerRetryTimer);
+    this.peerRetryTimer = null;
+    this.peer?.destroy();
+    this.peer = null;
+    this.snapshot = { ...this.snapshot, state: AppState.IDLE };
+  }
+
+  /** The network is back: skip what is left of the backoff and reach the broker now. */
+  resumeSignalling() {
+    if (this.peerRetryTimer) clearTimeout(this.peerRetryTimer);
+    this.peerRetryTimer = null;
+    this.peerRetries = 0;
+    this.reconnectPeers();
+  }
+
+  /**
+   * Joins random matching for the given language; `crossLanguage` also accepts
+   * partners speaking others, and partners sharing one of `interests` are preferred.
+   */
+  startRandom(lang: string, crossLanguage = false, interests: string[] = []) {
+    if (!this.peer || !this.isFree) return;
+    this.clearEndedTimer();
+    this.transition(AppState.MATCHING, this.clearCall());
+    this.attempt++;
+    this.captions.setLanguage(lang);
+    this.update({ callKind: 'random', selectedLang: lang, crossLanguage, interests, matchTimer: MATCH_TIMEOUT, statusMsg: msg('status.joiningQueue'), error: null });
+    this.intervals.match = setInterval(() => {
+      const next = this.snapshot.matchTimer - 1;
+      if (next <= 0) this.expireMatching();
+      else this.update({ matchTimer: next });
+    }, 1000);
+    this.joinQueue();
+  }
+
+  /** Leaves the random partner, or the ended call with one, and searches again with the same settings. */
+  next() {
+    const { callKind, selectedLang, crossLanguage, interests, persona, groupId } = this.snapshot;
+    if (callKind !== 'random' || !selectedLang || persona || groupId) return;
+    if (!this.isFree) this.hangup();
+    this.startRandom(selectedLang, crossLanguage, interests);
+  }
+
+  /** Talks with the offered persona instead of a person. */
+  async talkToPersona() {
+    const persona = this.snapshot.personaOffer;
+    const provider = this.deps.voiceAgent;
+    if (!persona || !provider || !this.isFree) return;
+    this.clearEndedTimer();
+    this.transition(AppState.MATCHING, { ...this.clearCall(), persona, statusMsg: msg('status.preparingPersona', { name: persona.name }), error: null });
+    const attempt = ++this.attempt;
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return;
+      const agent = new VoiceAgentCall(provider, persona);
+      this.agent = agent;
+      agent.on('ended', () => {
+        if (this.agent === agent) this.finish(AppState.ENDED, false);
+      });
+      await agent.start(stream);
+      if (attempt !== this.attempt) return;
+      this.transition(AppState.CONNECTED, { remoteStream: agent.stream, statusMsg: null });
+      this.enableTracks();
+      this.startSessionTimer();
+    } catch (e) {
+      if (attempt === this.attempt) this.fail(msg('error.personaFailed'));
+    }
+  }
+
+  /** Places a direct call to a known peer ID. */
+  async dial(peerId: string) {
+    const target = peerId.trim();
+    if (!target || !this.peer || !this.isFree) return;
+    this.clearEndedTimer();
+    this.transition(AppState.MATCHING, this.clearCall());
+    const attempt = ++this.attempt;
+    this.startedAt = Date.now();
+    this.update({ callKind: 'outgoing', remotePeerId: target, statusMsg: msg('status.calling', { peerId: target }), error: null });
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return;
+      this.attachChannel(this.peer.connect(target, { reliable: true }));
+      this.setupCall(this.peer.call(target, stream), false);
+    } catch (e) {
+      this.failToStart(e, attempt);
+    }
+  }
+
+  /**
+   * Answers the call from `peerId` as soon as it rings, for "Answer" pressed
+   * on a notification before the app had reconnected to the broker.
+   */
+  expectCall(peerId: string) {
+    if (this.incomingCall?.peer === peerId) {
+      this.accept();
+      return;
+    }
+    this.expected = { peerId, until: Date.now() + ALERT_TIMEOUT };
+  }
+
+  /**
+   * Opens a one-time invite ID that rings here like the permanent one. It
+   * belongs to the first person who calls it and closes once their call ends.
+   */
+  createInvite() {
+    if (!this.peer) return null;
+    this.revokeInvite();
+    const id = createInviteId();
+    const peer = this.deps.createPeer(id);
+    const invite = { peer, callerId: null as string | null };
+    this.invite = invite;
+    const claims = (connection: DataConnectionLike | MediaConnectionLike) => {
+      if (this.invite !== invite) return false;
+      invite.callerId ??= connection.peer;
+      return invite.callerId === connection.peer;
+    };
+    peer.on('connection', conn => {
+      if (claims(conn)) this.handleIncomingConnection(conn);
+      else conn.close();
+    });
+    peer.on('call', call => {
+      if (claims(call)) this.handleIncomingCall(call);
+      else call.close();
+    });
+    peer.on('disconnected', () => {
+      if (this.invite === invite) this.reconnectPeer();
+    });
+    peer.on('error', err => {
+      // انقطاع الشبكة يُستعاد كما في المعرف الدائم، وما سواه يعني أن المعرف لم يُسجَّل
+      if (['peer-unavailable', 'network', 'disconnected'].includes(err.type) || this.invite !== invite) return;
+      console.warn('[invite] alias failed', err.type);
+      this.revokeInvite();
+      this.emit('notice', msg('notice.inviteFailed'));
+    });
+    this.update({ inviteId: id });
+    return id;
+  }
+
+  /** Closes the one-time invite; `linger` leaves the last call's goodbye time to reach the other side. */
+  revokeInvite(linger = 0) {
+    const invite = this.invite;
+    this.invite = null;
+    if (invite && linger) setTimeout(() => invite.peer.destroy(), linger);
+    else invite?.peer.destroy();
+    if (this.snapshot.inviteId) this.update({ inviteId: null });
+  }
+
+  // التحقق من المفتاح يكشف المعرف الدائم، فمكالمات الدعوة لمرة واحدة تجري دونه
+  private isAnonymous(peerId: string | null) {
+    return !!peerId && (isInviteId(peerId) || this.invite?.callerId === peerId);
+  }
+
+  /** Invites another person into the current call, which becomes a group call. */
+  addParticipant(peerId: string) {
+    const target = peerId.trim();
+    if (this.state !== AppState.CONNECTED || this.snapshot.persona || this.held || !target || target === this.snapshot.myPeerId) return;
+    if (this.isAnonymous(this.snapshot.remotePeerId)) return;
+    if (target === this.snapshot.remotePeerId || this.group.has(target)) return;
+    if (this.group.isFull) {
+      this.emit('notice', msg('notice.groupFull'));
+      return;
+    }
+    if (!this.snapshot.groupId) {
+      const id = createMessageId();
+      this.channel?.send('GROUP', { id, members: [] });
+      this.enterGroup(id);
+    }
+    this.group.connectTo(target, true);
+  }
+
+  /** Joins a named room and dials everybody already in it. */
+  async joinRoom(code: string) {
+    const room = code.trim().toLowerCase();
+    const rooms = this.deps.rooms;
+    if (!room || !rooms || !this.peer || !this.isFree) return;
+    this.clearEndedTimer();
+    this.transition(AppState.MATCHING, { ...this.clearCall(), roomCode: room, statusMsg: msg('status.joiningRoom', { room }), error: null });
+    const attempt = ++this.attempt;
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return;
+      const members = await rooms.join(room, this.snapshot.myPeerId);
+      if (attempt !== this.attempt) return;
+      this.group.start(`room:${room}`);
+      this.transition(AppState.CONNECTED, { groupId: `room:${room}`, statusMsg: null });
+      this.enableTracks();
+      this.startSessionTimer();
+      members.forEach(peerId => this.group.connectTo(peerId));
+    } catch (e) {
+      if (attempt !== this.attempt) return;
+      this.fail((e as Error).message === 'ROOM_FULL' ? msg('error.roomFull') : msg('error.roomUnavailable'));
+    }
+  }
+
+  async accept() {
+    const call = this.incomingCall;
+    if (!call) return;
+    const attempt = this.attempt;
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return;
+      call.answer(stream);
+      this.incomingCall = null;
+      this.update({ incomingCallerId: null, statusMsg: msg('status.connecting') });
+      this.setupCall(call, true);
+    } catch (e) {
+      this.emit('notice', msg('notice.enableMic'));
+    }
+  }
+
+  reject() {
+    if (!this.incomingCall) return;
+    // نأخذ القناة قبل الإنهاء كي لا تُغلق قبل أن يصل الرفض
+    const channel = this.channel;
+    this.channel = null;
+    if (channel) this.refuse(channel, 'REJECTED');
+    this.record('rejected');
+    this.finish(AppState.IDLE, false);
+  }
+
+  /** Refuses the call waiting behind the current one. */
+  rejectWaiting() {
+    this.dropWaiting('rejected', 'REJECTED');
+  }
+
+  /** Puts the current call on hold and answers the one waiting. */
+  holdAndAnswer() {
+    const waiting = this.waiting;
+    const stream = this.snapshot.localStream;
+    if (!waiting?.call || !stream || this.state !== AppState.CONNECTED || this.held) return;
+    this.waiting = null;
+    waiting.offs.forEach(off => off());
+    this.held = this.park();
+    this.startedAt = waiting.startedAt;
+    this.update({
+      callKind: 'incoming', remotePeerId: waiting.peerId, selectedLang: null, crossLanguage: false, interests: [], sharedInterests: [],
+      partnerLang: null, elapsedTime: 0, remoteVideoActive: false, remoteMuted: false, remoteHeld: false, remoteStream: null,
+      isOnHold: false, waitingCallerId: null, heldPeerId: this.held.peerId, statusMsg: msg('status.connecting'),
+    });
+    this.enableTracks();
+    this.adoptChannel(waiting.channel, waiting.verification);
+    waiting.call.answer(stream);
+    this.setupCall(waiting.call, true);
+  }
+
+  /** Ends the current call and answers the one waiting. */
+  endAndAnswer() {
+    if (!this.waiting?.call || this.held) return;
+    // إنهاء المكالمة يجعل المنتظرة ترن كأي مكالمة واردة
+    this.hangup();
+    this.accept();
+  }
+
+  /** Puts the current call on hold and goes back to the held one. */
+  swap() {
+    const held = this.held;
+    if (!held || this.state !== AppState.CONNECTED) return;
+    this.held = this.park();
+    this.resume(held);
+    this.update({ isOnHold: false, heldPeerId: this.held.peerId });
+    this.enableTracks();
+    this.announceMediaState();
+  }
+
+  /** Ends the call, or refuses it while ringing, and refuses this person from now on. */
+  blockAndHangUp() {
+    const { remotePeerId, persona, groupId } = this.snapshot;
+    if (!remotePeerId || persona || groupId) return;
+    this.deps.blockList?.add(remotePeerId);
+    if (this.incomingCall) this.reject();
+    else this.hangup();
+  }
+
+  /**
+   * Leaves a random partner and looks for someone else. The partner is kept
+   * out of future matches on this device; nothing is sent to a server.
+   */
+  reportAndSkip() {
+    const { remotePeerId, callKind, persona, groupId } = this.snapshot;
+    if (!remotePeerId || callKind !== 'random' || persona || groupId) return;
+    this.deps.blockList?.add(remotePeerId, 'reported');
+    this.next();
+  }
+
+  /** Hangs up an active call or cancels matching/dialing. */
+  hangup() {
+    this.record('cancelled');
+    this.finish(this.inCall ? AppState.ENDED : AppState.IDLE, true);
+  }
+
+  /** Keeps the ENDED screen up until it is dismissed. */
+  pinEnded() {
+    if (this.state === AppState.ENDED) this.clearEndedTimer();
+  }
+
+  /** Leaves the ERROR or ENDED screen. */
+  dismiss() {
+    if (this.state !== AppState.ERROR && this.state !== AppState.ENDED) return;
+    this.clearEndedTimer();
+    this.transition(AppState.IDLE, { error: null, ...this.clearCall() });
+  }
+
+  /** Turns the camera on or off on the existing connection. */
+  async toggleVideo() {
+    const stream = this.snapshot.localStream;
+    if (!this.inCall || !stream) return;
+    if (this.snapshot.isVideoActive) {
+      stream.getVideoTracks().forEach(t => { t.stop(); stream.removeTrack(t); });
+      // نرسل إطارات فارغة بدل تجميد آخر صورة لدى الطرف الآخر
+      if (!this.screenTrack) await this.sendTrack('video', null);
+      this.channel?.send('VIDEO_SIGNAL', { enabled: false });
+      this.group.broadcast('VIDEO_SIGNAL', { enabled: false });
+      this.update({ isVideoActive: false });
+      return;
+    }
+    try {
+      if (!(await this.switchTrack('video'))) return;
+      this.channel?.send('VIDEO_SIGNAL', { enabled: true });
+      this.group.broadcast('VIDEO_SIGNAL', { enabled: true });
+      this.update({ isVideoActive: true });
+    } catch (e) {
+      this.emit('notice', msg('notice.cameraFailed'));
+    }
+  }
+
+  toggleMute() {
+    if (!this.inCall) return;
+    this.update({ isMuted: !this.snapshot.isMuted });
+    this.applyMediaState();
+  }
+
+  /** Puts the other person on hold: media stops in both directions until resumed. */
+  toggleHold() {
+    if (!this.inCall || this.snapshot.groupId) return;
+    this.update({ isOnHold: !this.snapshot.isOnHold });
+    this.applyMediaState();
+  }
+
+  get canShareScreen() {
+    return !!this.deps.getDisplayMedia;
+  }
+
+  /** Sends the shared screen instead of the camera, or goes back to the camera. */
+  async toggleScreenShare() {
+    if (this.screenTrack) {
+      await this.stopScreenShare();
+      return;
+    }
+    if (!this.inCall || this.snapshot.groupId || !this.deps.getDisplayMedia) return;
+    const attempt = this.attempt;
+    try {
+      const display = await this.deps.getDisplayMedia({ video: true, audio: false });
+      const [track] = display.getVideoTracks();
+      if (attempt !== this.attempt || !track) {
+        display.getTracks().forEach(t => t.stop());
+        return;
+      }
+      track.contentHint = 'detail';
+      // زر "إيقاف المشاركة" في المتصفح نفسه
+      track.addEventListener('ended', () => {
+        if (this.screenTrack === track) this.stopScreenShare();
+      });
+      this.screenTrack = track;
+      this.enableTracks();
+      await this.sendTrack('video', track);
+      this.channel?.send('SCREEN_SHARE', { active: true });
+      this.update({ isSharingScreen: true });
+    } catch (e) {
+      // إغلاق نافذة الاختيار دون مشاركة ليس خطأ
+      if ((e as Error).name !== 'NotAllowedError') this.emit('notice', msg('notice.screenShareFailed'));
+    }
+  }
+
+  /** Switches between the front and back camera. */
+  async flipCamera() {
+    const facingMode = this.snapshot.facingMode === 'user' ? 'environment' : 'user';
+    // اختيار جهاز محدد يتجاوز facingMode
+    this.update({ facingMode, inputDevices: { ...this.snapshot.inputDevices, videoinput: null } });
+    if (!this.inCall || !this.snapshot.isVideoActive) return;
+    try {
+      await this.switchTrack('video');
+    } catch (e) {
+      this.emit('notice', msg('notice.flipFailed'));
+    }
+  }
+
+  /** Picks the microphone or camera to use; a running call switches over immediately. */
+  async selectDevice(kind: keyof InputDevices, deviceId: string | null) {
+    this.update({ inputDevices: { ...this.snapshot.inputDevices, [kind]: deviceId } });
+    const media = kind === 'audioinput' ? 'audio' : 'video';
+    if (!this.inCall || (media === 'video' && !this.snapshot.isVideoActive)) return;
+    try {
+      await this.switchTrack(media);
+    } catch (e) {
+      this.emit('notice', msg('notice.deviceFailed'));
+    }
+  }
+
+  /** A connection from somebody in our group call, rather than a new call. */
+  private isGroupMember(connection: DataConnectionLike | MediaConnectionLike) {
+    return this.inCall && !!this.snapshot.groupId && connection.metadata?.group === this.snapshot.groupId;
+  }
+
+  private routingState(): RoutingState {
+    const waiting = this.waiting;
+    return {
+      free: this.isFree,
+      matching: this.isMatching,
+      partnerId: this.snapshot.remotePeerId,
+      inCall: this.inCall && !this.snapshot.groupId && !this.snapshot.persona,
+      recovering: this.recovery.recovering,
+      canWait: this.canWait(),
+      waitingId: waiting && !waiting.call ? waiting.peerId : null,
+      isBlocked: peerId => !!this.deps.blockList?.has(peerId),
+      isGroupMember: connection => this.isGroupMember(connection),
+    };
+  }
+
+  private handleIncomingConnection(conn: DataConnectionLike) {
+    const route = this.incoming.routeConnection(conn);
+    switch (route) {
+      case 'group':
+        this.group.acceptConnection(conn);
+        break;
+      case 'early':
+        this.earlyArrivals.set(conn.peer, { ...this.earlyArrivals.get(conn.peer), conn });
+        break;
+      case 'waiting':
+        this.addWaiting(conn);
+        break;
+      case 'resume':
+        this.recovery.redialed();
+        this.attachChannel(conn);
+        break;
+      case 'call':
+        this.attachChannel(conn);
+        break;
+      case 'close':
+        conn.close();
+        break;
+      default:
+        this.refuse(conn, route);
+    }
+  }
+
+  private handleIncomingCall(call: MediaConnectionLike) {
+    switch (this.incoming.routeCall(call)) {
+      case 'group':
+        this.group.acceptCall(call);
+        break;
+      case 'early':
+        this.earlyArrivals.set(call.peer, { ...this.earlyArrivals.get(call.peer), call });
+        break;
+      case 'partner':
+        this.answerPartner(call);
+        break;
+      case 'resume':
+        this.recovery.redialed();
+        this.answerRedial(call);
+        break;
+      case 'waiting':
+        this.ringBehind(call);
+        break;
+      case 'ring': {
+        this.ring(call);
+        const expected = this.expected;
+        this.expected = null;
+        if (expected?.peerId === call.peer && Date.now() < expected.until) this.accept();
+        break;
+      }
+      case 'close':
+        call.close();
+        break;
+    }
+  }
+
+  /** The other side redials after the call dropped. */
+  private answerRedial(call: MediaConnectionLike) {
+    const stream = this.snapshot.localStream;
+    if (!stream) {
+      call.close();
+      return;
+    }
+    this.releaseCall();
+    call.answer(stream);
+    this.setupCall(call, true);
+  }
+
+  /** The media of the call waiting behind this one arrived: it rings now. */
+  private ringBehind(call: MediaConnectionLike) {
+    const waiting = this.waiting!;
+    waiting.call = call;
+    call.on('close', () => {
+      if (this.waiting === waiting) this.dropWaiting('missed');
+    });
+    this.update({ waitingCallerId: call.peer });
+  }
+
+  /** Shows an incoming call; one that waited behind another call keeps the time it first rang. */
+  private ring(call: MediaConnectionLike, startedAt = Date.now()) {
+    this.clearEndedTimer();
+    this.attempt++;
+    this.startedAt = startedAt;
+    this.incomingCall = call;
+    this.transition(AppState.RINGING, { ...this.clearCall(), callKind: 'incoming', remotePeerId: call.peer, incomingCallerId: call.peer, error: null });
+    call.on('close', () => {
+      if (this.incomingCall !== call) return;
+      this.record('missed');
+      this.finish(AppState.IDLE, false);
+    });
+  }
+
+  private attachChannel(conn: DataConnectionLike) {
+    this.adoptChannel(new ProtocolChannel(conn));
+  }
+
+  /** Makes `channel` the call's data channel; a waiting call brings the verification it already started. */
+  private adoptChannel(channel: ProtocolChannel, verification?: Promise<VerificationResult> | null) {
+    const previous = this.channel;
+    this.channel = channel;
+    previous?.close();
+    this.attachServices(channel);
+    if (this.isAnonymous(channel.peer)) this.verification.reset();
+    else if (verification) this.verification.follow(channel.peer, verification);
+    else this.verification.attach(channel);
+    this.bindRenegotiation();
+    // القناة قد تنتقل إلى المكالمة الجماعية، فتتولاها هي بعدها
+    channel.on('issue', issue => {
+      if (this.channel === channel) this.emit('issue', issue);
+    });
+    channel.on('message', message => {
+      if (this.channel === channel) this.handleMessage(message);
+    });
+    channel.on('close', () => {
+      if (this.channel === channel) this.handleConnectionLost();
+    });
+    // وصلنا إلى جهازه، وهو يسجل المكالمة الفائتة بنفسه إن لم يرد
+    channel.on('ready', () => {
+      if (this.channel === channel) this.alert = null;
+    });
+  }
+
+  // الدردشة والملفات والترجمة والتسجيل تتبع المكالمة الظاهرة وحدها
+  private attachServices(channel: ProtocolChannel) {
+    this.files.attach(channel);
+    this.chat.attach(channel);
+    this.captions.attach(channel, () => this.snapshot.localStream);
+    this.recorder.attach(channel, () => ({
+      local: this.snapshot.localStream,
+      remote: this.snapshot.remoteStream,
+      video: this.snapshot.isVideoActive,
+    }));
+  }
+
+  private handleMessage(message: ProtocolMessage) {
+    switch (message.type) {
+      case 'REJECTED':
+        this.record('rejected');
+        this.fail(msg('error.rejected'));
+        break;
+      case 'BUSY':
+        this.record('busy');
+        this.fail(msg('error.busy'));
+        break;
+      case 'DISCONNECT':
+        this.handleRemoteHangup();
+        break;
+      case 'GROUP':
+        this.handleGroup(message);
+        break;
+      case 'VIDEO_SIGNAL':
+        this.update({ remoteVideoActive: message.enabled !== false });
+        break;
+      case 'SCREEN_SHARE':
+        this.update({ remoteSharingScreen: message.active });
+        break;
+      case 'MEDIA_STATE':
+        this.update({ remoteMuted: message.muted, remoteHeld: message.held });
+        break;
+    }
+  }
+
+  /** The other side made this a group call, or invited us into one before we answered. */
+  private handleGroup(message: MessageOf<'GROUP'>) {
+    const group = { ...message, members: message.members.filter((m): m is string => typeof m === 'string') };
+    if (this.state === AppState.CONNECTED) this.enterGroup(group.id, group.members);
+    else this.pendingGroup = group;
+  }
+
+  /** Hands the one-to-one call over to the group and dials the members we are not connected to yet. */
+  private enterGroup(id: string, members: string[] = []) {
+    if (this.snapshot.groupId !== id) {
+      this.dropWaiting('missed', 'BUSY');
+      const { call, channel } = this;
+      this.call = null;
+      this.channel = null;
+      // التسجيل والترجمة والملفات ومشاركة الشاشة والانتظار خاصة بالمكالمة الثنائية
+      this.voiceNotes.cancel();
+      this.files.detach();
+      this.captions.detach();
+      this.recorder.detach();
+      this.stats.detach();
+      this.verification.detach();
+      this.renegotiation?.stop();
+      this.renegotiation = null;
+      const wasSharing = !!this.screenTrack;
+      this.screenTrack?.stop();
+      this.screenTrack = null;
+      this.update({ isOnHold: false, remoteHeld: false, isSharingScreen: false, remoteSharingScreen: false });
+      this.enableTracks();
+      const { remoteStream, remoteMuted, remoteVideoActive } = this.snapshot;
+      this.group.start(id);
+      const verification = this.verification.getSnapshot().status ?? 'pending';
+      if (call && channel) this.group.adopt(call, channel, this.polite, { stream: remoteStream, muted: remoteMuted, videoActive: remoteVideoActive, verification });
+      this.update({ groupId: id, remoteStream: null, remoteMuted: false, remoteVideoActive: false });
+      if (wasSharing) {
+        const [camera] = this.snapshot.localStream?.getVideoTracks() ?? [];
+        this.sendTrack('video', this.snapshot.isVideoActive && camera ? camera : null);
+      }
+    }
+    members.forEach(peerId => this.group.connectTo(peerId));
+  }
+
+  private handleParticipantLeft(peerId: string, joined: boolean) {
+    if (!this.snapshot.groupId || !this.inCall) return;
+    if (joined) this.emit('notice', msg('notice.participantLeft', { peerId }));
+    // المكالمة الجماعية تنتهي بمغادرة آخر عضو، أما الغرفة فتبقى مفتوحة لمن ينضم
+    if (this.group.size || this.snapshot.roomCode) return;
+    this.record('completed');
+    this.finish(AppState.ENDED, false);
+  }
+
+  private handleRemoteHangup() {
+    this.record(this.snapshot.callKind === 'incoming' ? 'missed' : 'failed');
+    switch (this.state) {
+      case AppState.CONNECTED:
+      case AppState.RECONNECTING:
+        this.finish(AppState.ENDED, false);
+        break;
+      case AppState.MATCHING:
+      case AppState.RINGING:
+        this.finish(AppState.IDLE, false);
+        break;
+    }
+  }
+
+  /** A second caller may wait during a one-to-one call with a person while no other call waits or is on hold. */
+  private canWait() {
+    const { groupId, persona } = this.snapshot;
+    return this.state === AppState.CONNECTED && !groupId && !persona && !this.held && !this.waiting;
+  }
+
+  private addWaiting(conn: DataConnectionLike) {
+    const channel = new ProtocolChannel(conn);
+    const waiting: WaitingCall = {
+      peerId: conn.peer, channel, call: null, startedAt: Date.now(),
+      verification: this.isAnonymous(conn.peer) ? null : this.deps.identity.then(identity => verifyChannel(channel, identity, this.knownKeys).result),
+      offs: [],
+    };
+    const gone = () => {
+      if (this.waiting === waiting) this.dropWaiting('missed');
+    };
+    waiting.offs = [channel.onMessage('DISCONNECT', gone), channel.on('close', gone)];
+    this.waiting = waiting;
+  }
+
+  /** Lets go of the waiting call, telling the caller why when `reply` is given; a call that never rang is not logged. */
+  private dropWaiting(outcome: 'missed' | 'rejected', reply?: 'REJECTED' | 'BUSY') {
+    const waiting = this.waiting;
+    if (!waiting) return;
+    this.waiting = null;
+    waiting.offs.forEach(off => off());
+    if (reply) this.refuse(waiting.channel, reply);
+    else waiting.channel.close();
+    waiting.call?.close();
+    if (waiting.call) this.emit('record', { peerId: waiting.peerId, kind: 'incoming', outcome, startedAt: waiting.startedAt, duration: 0 });
+    if (this.snapshot.waitingCallerId) this.update({ waitingCallerId: null });
+  }
+
+  /** The call ended while another one waited: that one now rings like any incoming call. */
+  private ringWaiting(waiting: WaitingCall) {
+    waiting.offs.forEach(off => off());
+    this.ring(waiting.call!, waiting.startedAt);
+    this.adoptChannel(waiting.channel, waiting.verification);
+  }
+
+  /**
+   * Takes the current call out of the foreground without closing it: nothing
+   * is sent to it any more, the other side is told it is on hold, and its
+   * chat and verification are set aside until `resume`.
+   */
+  private park(): HeldCall {
+    const call = this.call!;
+    const channel = this.channel!;
+    const pc = call.peerConnection;
+    const { localStream, isMuted: muted } = this.snapshot;
+    channel.send('MEDIA_STATE', { muted, held: true });
+    if (this.screenTrack) {
+      this.screenTrack.stop();
+      this.screenTrack = null;
+      channel.send('SCREEN_SHARE', { active: false });
+    }
+    sendTrackOn(pc, 'audio', null, localStream);
+    sendTrackOn(pc, 'video', null, localStream);
+    this.voiceNotes.cancel();
+    this.files.detach();
+    this.captions.detach();
+    this.recorder.detach();
+    this.stats.detach();
+    const held: HeldCall = {
+      peerId: call.peer, call, channel, polite: this.polite, renegotiation: this.renegotiation,
+      startedAt: this.startedAt ?? Date.now(), heldAt: Date.now(), fields: heldFields(this.snapshot), messages: this.chat.stash(),
+      verification: this.verification.handOff() ?? (this.isAnonymous(call.peer) ? null : this.deps.identity.then(identity => verifyChannel(channel, identity, this.knownKeys).result)),
+      offs: [],
+    };
+    this.call = null;
+    this.channel = null;
+    this.renegotiation = null;
+    this.startedAt = null;
+    this.update({ isSharingScreen: false, remoteSharingScreen: false });
+    // المكالمة المعلّقة تبقى تسمع ما يقوله الطرف الآخر عن حالته
+    const ended = () => {
+      if (this.held !== held) return;
+      this.emit('notice', msg('notice.heldEnded', { peerId: held.peerId }));
+      this.endHeld(false);
+    };
+    held.offs = [
+      channel.onMessage('DISCONNECT', ended),
+      channel.on('close', ended),
+      channel.onMessage('MEDIA_STATE', m => { held.fields = { ...held.fields, remoteMuted: m.muted, remoteHeld: m.held }; }),
+      channel.onMessage('VIDEO_SIGNAL', m => { held.fields = { ...held.fields, remoteVideoActive: m.enabled !== false }; }),
+    ];
+    call.on('close', ended);
+    return held;
+  }
+
+  /** Brings a held call back to the foreground; the caller decides whether it stays on hold. */
+  private resume(held: HeldCall) {
+    held.offs.forEach(off => off());
+    this.call = held.call;
+    this.channel = held.channel;
+    this.polite = held.polite;
+    this.renegotiation = held.renegotiation;
+    this.startedAt = held.startedAt;
+    this.attachServices(held.channel);
+    this.chat.restore(held.messages);
+    if (held.verification) this.verification.follow(held.peerId, held.verification);
+    const pc = held.call.peerConnection;
+    if (pc) this.stats.attach(pc);
+    const elapsedTime = held.fields.elapsedTime + Math.round((Date.now() - held.heldAt) / 1000);
+    this.update({ ...held.fields, elapsedTime, heldPeerId: null, statusMsg: null });
+    const { localStream, isVideoActive } = this.snapshot;
+    const [audio] = localStream?.getAudioTracks() ?? [];
+    const [camera] = localStream?.getVideoTracks() ?? [];
+    sendTrackOn(pc, 'audio', audio ?? null, localStream);
+    sendTrackOn(pc, 'video', isVideoActive && camera ? camera : null, localStream);
+    this.startSessionTimer();
+  }
+
+  /** Closes the held call: we hang it up when `notifyRemote`, otherwise the other side already did. */
+  private endHeld(notifyRemote: boolean) {
+    const held = this.held;
+    if (!held) return;
+    this.held = null;
+    held.offs.forEach(off => off());
+    held.renegotiation?.stop();
+    if (notifyRemote) {
+      held.channel.closeAfter('DISCONNECT').then(() => held.call.close());
+    } else {
+      held.channel.close();
+      held.call.close();
+    }
+    const { callKind, elapsedTime } = held.fields;
+    this.emit('record', {
+      peerId: held.peerId, kind: callKind ?? 'incoming', outcome: 'completed', startedAt: held.startedAt,
+      duration: elapsedTime + Math.round((Date.now() - held.heldAt) / 1000), transcript: this.chat.transcript(held.messages),
+    });
+    if (this.invite && this.invite.callerId === held.peerId) this.revokeInvite(PARTNER_TIMEOUT);
+    if (this.snapshot.heldPeerId) this.update({ heldPeerId: null });
+  }
+
+  private setupCall(call: MediaConnectionLike, polite: boolean) {
+    this.call = call;
+    this.polite = polite;
+    // اتصال جديد لمكالمة انقطعت يكمل عيناتها
+    const continued = this.recovery.recovering;
+    // يتكرر الحدث مع كل مسار جديد يصل بعد إعادة التفاوض
+    call.on('stream', remoteStream => {
+      if (this.call !== call) return;
+      const recovered = this.recovery.recovered();
+      this.transition(AppState.CONNECTED, { remoteStream, remotePeerId: call.peer, statusMsg: null });
+      if (recovered) this.announceMediaState();
+      this.bindRenegotiation();
+      this.enableTracks();
+      if (call.peerConnection) this.stats.attach(call.peerConnection, continued);
+      this.startSessionTimer();
+      const group = this.pendingGroup;
+      this.pendingGroup = null;
+      if (group) this.enterGroup(group.id, group.members);
+    });
+    const onEnd = () => {
+      if (this.call === call) this.handleConnectionLost();
+    };
+    call.on('close', onEnd);
+    call.on('error', onEnd);
+    const pc = call.peerConnection;
+    pc?.addEventListener('iceconnectionstatechange', () => {
+      if (this.call === call) this.handleIceState(pc);
+    });
+  }
+
+  private startSessionTimer() {
+    if (this.intervals.match) clearInterval(this.intervals.match);
+    if (!this.intervals.session) {
+      this.intervals.session = setInterval(() => this.update({ elapsedTime: this.snapshot.elapsedTime + 1 }), 1000);
+    }
+  }
+
+  /** The media or data connection closed without a DISCONNECT: recover if we were in a call. */
+  private handleConnectionLost() {
+    if (!this.inCall) {
+      this.handleRemoteHangup();
+      return;
+    }
+    this.recovery.connectionLost(this.polite);
+  }
+
+  private handleIceState(pc: RTCPeerConnection) {
+    switch (pc.iceConnectionState) {
+      case 'disconnected':
+        if (this.inCall) this.recovery.iceDisconnected(pc, this.polite, () => this.call?.peerConnection === pc);
+        break;
+      case 'connected':
+      case 'completed':
+        if (this.recovery.recovered()) {
+          this.transition(AppState.CONNECTED, { statusMsg: null });
+          this.announceMediaState();
+        }
+        break;
+    }
+  }
+
+  /** Shows the dropped call as reconnecting; the timer and chat carry on meanwhile. */
+  private suspend() {
+    // مشاركة الشاشة لا تنتقل إلى الاتصال الجديد
+    if (this.screenTrack) {
+      this.screenTrack.stop();
+      this.screenTrack = null;
+    }
+    this.transition(AppState.RECONNECTING, {
+      statusMsg: msg('status.reconnecting'), isSharingScreen: false, remoteSharingScreen: false,
+    });
+  }
+
+  /** Dials the dropped partner again, marking both connections as a resume of the call. */
+  private redial() {
+    const target = this.snapshot.remotePeerId;
+    const stream = this.snapshot.localStream;
+    if (!target || !stream || !this.peer || this.peer.disconnected) return;
+    this.releaseConnections(false);
+    this.attachChannel(this.peer.connect(target, { reliable: true, metadata: { resume: true } }));
+    this.setupCall(this.peer.call(target, stream, { metadata: { resume: true } }), false);
+  }
+
+  /**
+   * The person we dial is not connected to the broker. If the push relay can
+   * reach one of their devices, we keep dialling until the app opens, they
+   * decline from the notification, or ALERT_TIMEOUT passes.
+   */
+  private async handleUnreachable() {
+    const alerts = this.deps.callAlerts;
+    const target = this.snapshot.remotePeerId;
+    const attempt = this.attempt;
+    // كل محاولة اتصال قبل فتح التطبيق تنتهي بالخطأ نفسه، فنعيد المحاولة بعد قليل
+    if (this.alert) {
+      this.scheduleRedial(attempt);
+      return;
+    }
+    // المعرف المؤقت لا يملك اشتراكاً في الإشعارات
+    if (!alerts || !target || isInviteId(target)) {
+      this.fail(msg('error.peerOffline'));
+      return;
+    }
+    const alert = { peerId: target, callId: createMessageId(), redialing: false };
+    this.alert = alert;
+    const delivered = await alerts.ring(target, alert.callId);
+    if (attempt !== this.attempt) return;
+    if (!delivered) {
+      this.alert = null;
+      this.fail(msg('error.peerOffline'));
+      return;
+    }
+    this.update({ statusMsg: msg('status.alerting', { peerId: target }) });
+    this.later(() => {
+      if (this.alert === alert) this.fail(msg('error.noAnswer'));
+    }, ALERT_TIMEOUT);
+    this.scheduleRedial(attempt);
+  }
+
+  // الاتصال والقناة يفشلان معاً، فلا نجدول إلا محاولة واحدة في كل مرة
+  private scheduleRedial(attempt: number) {
+    const alert = this.alert;
+    if (!alert || alert.redialing) return;
+    alert.redialing = true;
+    this.later(() => {
+      alert.redialing = false;
+      this.redialAlerted(attempt);
+    }, REDIAL_INTERVAL);
+  }
+
+  private async redialAlerted(attempt: number) {
+    const alert = this.alert;
+    const stream = this.snapshot.localStream;
+    if (attempt !== this.attempt || !alert || !stream || !this.peer) return;
+    if ((await this.deps.callAlerts?.status(alert.callId)) === 'declined') {
+      if (attempt !== this.attempt) return;
+      this.alert = null;
+      this.record('rejected');
+      this.fail(msg('error.rejected'));
+      return;
+    }
+    if (attempt !== this.attempt) return;
+    if (this.peer.disconnected) {
+      this.scheduleRedial(attempt);
+      return;
+    }
+    this.releaseConnections(false);
+    this.attachChannel(this.peer.connect(alert.peerId, { reliable: true }));
+    this.setupCall(this.peer.call(alert.peerId, stream), false);
+  }
+
+  /** Re-sends camera, mute and hold state over a fresh data channel. */
+  private announceMediaState() {
+    const { isVideoActive, isMuted: muted, isOnHold: held } = this.snapshot;
+    this.channel?.send('VIDEO_SIGNAL', { enabled: isVideoActive });
+    this.channel?.send('MEDIA_STATE', { muted, held });
+  }
+
+  /** Reconnects to the signalling server with exponential backoff. */
+  private reconnectPeer() {
+    if (this.peerRetryTimer) return;
+    const delay = Math.min(1000 * 2 ** this.peerRetries, MAX_PEER_RETRY_DELAY);
+    this.peerRetries++;
+    this.peerRetryTimer = setTimeout(() => {
+      this.peerRetryTimer = null;
+      this.reconnectPeers();
+    }, delay);
+  }
+
+  // المعرف المؤقت للدعوة ينقطع عن الخادم مع المعرف الدائم
+  private reconnectPeers() {
+    [this.peer, this.invite?.peer].forEach(peer => {
+      if (peer && peer.disconnected && !peer.destroyed) peer.reconnect();
+    });
+  }
+
+  private async handleMatch({ partnerId, partnerLang, role, interests }: MatchFound) {
+    if (!this.isMatching || !this.peer) return;
+    // خادم لا يعرف قائمة الحظر قد يقرننا بمن حظرناه
+    if (this.deps.blockList?.has(partnerId)) {
+      this.requeue();
+      return;
+    }
+    const attempt = this.attempt;
+    this.startedAt = Date.now();
+    this.update({ remotePeerId: partnerId, partnerLang, sharedInterests: interests, statusMsg: msg('status.matched') });
+    // شريك بلغة أخرى: نطلب الترجمة الفورية تلقائياً إن وُجد مزوّد لها
+    if (this.captions.available) this.captions.setEnabled(partnerLang !== this.snapshot.selectedLang);
+    const early = this.earlyArrivals.get(partnerId);
+    this.earlyArrivals.delete(partnerId);
+    this.earlyArrivals.forEach(({ conn, call }) => { conn?.close(); call?.close(); });
+    this.earlyArrivals.clear();
+    if (early?.conn) this.attachChannel(early.conn);
+    if (early?.call) this.answerPartner(early.call);
+    this.later(() => {
+      if (attempt === this.attempt && this.isMatching && !this.snapshot.remoteStream) this.requeue();
+    }, PARTNER_TIMEOUT);
+    // المستقبِل ينتظر مكالمة الشريك في handleIncomingCall
+    if (role !== 'caller') return;
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return;
+      this.attachChannel(this.peer.connect(partnerId, { reliable: true }));
+      this.setupCall(this.peer.call(partnerId, stream), false);
+    } catch (e) {
+      this.failToStart(e, attempt);
+    }
+  }
+
+  private async answerPartner(call: MediaConnectionLike) {
+    const attempt = this.attempt;
+    try {
+      const stream = await this.acquireMedia({ audio: this.constraintsFor('audio') }, attempt);
+      if (!stream) return call.close();
+      call.answer(stream);
+      this.setupCall(call, true);
+    } catch (e) {
+      call.close();
+      this.failToStart(e, attempt);
+    }
+  }
+
+  /** Drops a partner that never showed up and waits in the queue again. */
+  private requeue() {
+    this.releaseConnections(false);
+    this.attempt++;
+    this.startedAt = null;
+    this.snapshot.localStream?.getTracks().forEach(t => t.stop());
+    this.update({ remotePeerId: null, partnerLang: null, sharedInterests: [], localStream: null, statusMsg: msg('status.searchingAgain') });
+    this.joinQueue();
+  }
+
+  private joinQueue() {
+    const { myPeerId, selectedLang, crossLanguage, interests } = this.snapshot;
+    if (selectedLang) this.deps.matchmaker.join(myPeerId, selectedLang, { crossLanguage, interests, avoid: this.deps.blockList?.ids() ?? [] });
+  }
+
+  /** Answers a connection we will not take with a single message, then closes it. */
+  private refuse(conn: DataConnectionLike | ProtocolChannel, type: 'REJECTED' | 'BUSY' | 'DISCONNECT') {
+    (conn instanceof ProtocolChannel ? conn : new ProtocolChannel(conn)).closeAfter(type);
+  }
+
+  /** Returns null when the attempt was abandoned while waiting for permission. */
+  private async acquireMedia(constraints: MediaStreamConstraints, attempt: number) {
+    const stream = await this.deps.getUserMedia(constraints);
+    if (attempt !== this.attempt) {
+      stream.getTracks().forEach(t => t.stop());
+      return null;
+    }
+    this.update({ localStream: stream });
+    return stream;
+  }
+
+  private constraintsFor(media: 'audio' | 'video'): MediaTrackConstraints {
+    const deviceId = this.snapshot.inputDevices[media === 'audio' ? 'audioinput' : 'videoinput'];
+    if (deviceId) return { deviceId: { exact: deviceId } };
+    return media === 'video' ? { facingMode: this.snapshot.facingMode } : {};
+  }
+
+  /**
+   * Captures a new track of the given kind and puts it in place of the old one,
+   * both in the local stream and on the connection. Returns false when the call
+   * ended while waiting for the device.
+   */
+  private async switchTrack(media: 'audio' | 'video') {
+    const stream = this.snapshot.localStream;
+    if (!stream) return false;
+    const attempt = this.attempt;
+    const old = media === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+    // بعض الهواتف لا تفتح كاميرتين معاً
+    if (media === 'video') old.forEach(t => t.stop());
+    const captured = await this.deps.getUserMedia({ [media]: this.constraintsFor(media) });
+    const [track] = media === 'audio' ? captured.getAudioTracks() : captured.getVideoTracks();
+    if (attempt !== this.attempt || !track) {
+      captured.getTracks().forEach(t => t.stop());
+      return false;
+    }
+    // الكاميرا الجديدة تنتظر انتهاء مشاركة الشاشة
+    if (media === 'audio' || !this.screenTrack) await this.sendTrack(media, track);
+    old.forEach(t => { t.stop(); stream.removeTrack(t); });
+    stream.addTrack(track);
+    if (media === 'audio') this.agent?.setMicrophone(stream);
+    this.enableTracks();
+    this.update({ localStream: stream });
+    return true;
+  }
+
+  /** Halves outgoing video resolution and caps its bitrate while the connection is poor. */
+  private async adaptVideo(poor: boolean) {
+    const sender = transceiverOf(this.call?.peerConnection, 'video')?.sender;
+    if (!sender?.track) return;
+    const params = sender.getParameters();
+    const [encoding] = params.encodings ?? [];
+    if (!encoding) return;
+    encoding.scaleResolutionDownBy = poor ? 2 : 1;
+    if (poor) encoding.maxBitrate = POOR_VIDEO_BITRATE;
+    else delete encoding.maxBitrate;
+    try {
+      await sender.setParameters(params);
+    } catch (e) {
+      console.warn('[media] could not adapt video', e);
+    }
+  }
+
+  /** Applies mute and hold to the tracks and tells the other side. */
+  private applyMediaState() {
+    this.enableTracks();
+    const { isMuted: muted, isOnHold: held } = this.snapshot;
+    this.channel?.send('MEDIA_STATE', { muted, held });
+    this.group.broadcast('MEDIA_STATE', { muted, held });
+  }
+
+  // المسارات المعطلة تُرسل صمتاً أو إطارات سوداء دون إعادة تفاوض
+  private enableTracks() {
+    const { localStream, remoteStream, isMuted, isOnHold } = this.snapshot;
+    localStream?.getAudioTracks().forEach(t => { t.enabled = !isMuted && !isOnHold; });
+    localStream?.getVideoTracks().forEach(t => { t.enabled = !isOnHold; });
+    if (this.screenTrack) this.screenTrack.enabled = !isOnHold;
+    remoteStream?.getTracks().forEach(t => { t.enabled = !isOnHold; });
+  }
+
+  /** Puts a track on the call's sender of that kind, or on every link of a group call. */
+  private async sendTrack(media: 'audio' | 'video', track: MediaStreamTrack | null) {
+    const stream = this.snapshot.localStream;
+    if (this.snapshot.groupId) await this.group.sendTrack(media, track, stream);
+    else await sendTrackOn(this.call?.peerConnection, media, track, stream);
+  }
+
+  private async stopScreenShare() {
+    const track = this.screenTrack;
+    if (!track) return;
+    this.screenTrack = null;
+    track.stop();
+    const [camera] = this.snapshot.localStream?.getVideoTracks() ?? [];
+    await this.sendTrack('video', this.snapshot.isVideoActive && camera ? camera : null);
+    this.channel?.send('SCREEN_SHARE', { active: false });
+    this.update({ isSharingScreen: false });
+  }
+
+  /** Starts renegotiating over the data channel once both the channel and the media connection exist. */
+  private bindRenegotiation() {
+    const pc = this.call?.peerConnection;
+    const channel = this.channel;
+    if (!pc || !channel || (this.renegotiation?.pc === pc && this.renegotiation.channel === channel)) return;
+    this.renegotiation?.stop();
+    this.renegotiation = { pc, channel, stop: attachRenegotiation(pc, channel, this.polite) };
+  }
+
+  /** Snapshot fields for a fresh call; also drops the previous call's chat and files. */
+  private clearCall() {
+    this.files.reset();
+    this.chat.reset();
+    this.captions.reset();
+    this.recorder.reset();
+    this.verification.reset();
+    return callFields();
+  }
+
+  /** Reports the call that is ending to the history log, at most once per call. */
+  private record(outcome: CallOutcome) {
+    const { remotePeerId, callKind, elapsedTime } = this.snapshot;
+    const startedAt = this.startedAt;
+    this.startedAt = null;
+    if (!startedAt || !remotePeerId || !callKind) return;
+    this.emit('record', {
+      peerId: remotePeerId,
+      kind: callKind,
+      outcome: this.inCall ? 'completed' : outcome,
+      startedAt,
+      duration: elapsedTime,
+      transcript: this.chat.transcript(),
+    });
+  }
+
+  private clearEndedTimer() {
+    if (this.endedTimer) clearTimeout(this.endedTimer);
+    this.endedTimer = null;
+  }
+
+  private later(fn: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timeouts.delete(timer);
+      fn();
+    }, ms);
+    this.timeouts.add(timer);
+    return timer;
+  }
+
+  /** Nobody was found in time; a persona is offered when there is a voice agent to play it. */
+  private expireMatching() {
+    this.fail(msg('error.nobodyFound'));
+    if (this.deps.voiceAgent) this.update({ personaOffer: PERSONAS[Math.floor(Math.random() * PERSONAS.length)] });
+  }
+
+  private fail(error: Message) {
+    this.record('failed');
+    this.teardown(true);
+    this.transition(AppState.ERROR, { ...this.clearCall(), error });
+  }
+
+  // محاولة أُلغيت أثناء طلب الصلاحية لا تُفشل ما بعدها، ورفض الصلاحية وحده يعني الميكروفون
+  private failToStart(e: unknown, attempt: number) {
+    if (attempt !== this.attempt) return;
+    const denied = e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError');
+    this.fail(msg(denied ? 'error.micRequired' : 'error.callFailed'));
+  }
+
+  private finish(next: AppState.IDLE | AppState.ENDED, notifyRemote: boolean) {
+    // المكالمة المعلّقة تعود إلى الواجهة معلّقة حتى يستأنفها المستخدم، والمنتظرة ترن
+    const held = next === AppState.ENDED ? this.held : null;
+    const waiting = next === AppState.ENDED && this.waiting?.call ? this.waiting : null;
+    if (held) this.held = null;
+    if (waiting) this.waiting = null;
+    this.teardown(notifyRemote, !!held);
+    if (held) {
+      const { localStream, isMuted, isVideoActive } = this.snapshot;
+      this.transition(AppState.CONNECTED, { ...this.clearCall(), localStream, isMuted, isVideoActive, isOnHold: true });
+      this.resume(held);
+      this.enableTracks();
+      this.announceMediaState();
+      return;
+    }
+    if (next === AppState.IDLE) {
+      this.transition(AppState.IDLE, this.clearCall());
+      return;
+    }
+    // نبقي مدة المكالمة ظاهرة قليلاً قبل العودة للرئيسية
+    this.transition(AppState.ENDED, { localStream: null, remoteStream: null, incomingCallerId: null });
+    this.endedTimer = setTimeout(() => {
+      this.endedTimer = null;
+      if (this.state === AppState.ENDED) this.transition(AppState.IDLE, this.clearCall());
+    }, ENDED_LINGER);
+    if (waiting) this.ringWaiting(waiting);
+  }
+
+  /** Releases every resource of the current call without touching the snapshot state; `keepMedia` is for a held call taking over. */
+  private teardown(notifyRemote: boolean, keepMedia = false) {
+    this.attempt++;
+    this.recovery.stop();
+    this.timeouts.forEach(t => clearTimeout(t));
+    this.timeouts.clear();
+    Object.values(this.intervals).forEach(t => clearInterval(t));
+    this.intervals = {};
+    if (this.alert) this.deps.callAlerts?.missed(this.alert.peerId, this.alert.callId);
+    this.alert = null;
+    if (this.snapshot.callKind === 'random') this.deps.matchmaker.cancel();
+    if (this.invite && this.invite.callerId === this.snapshot.remotePeerId) this.revokeInvite(PARTNER_TIMEOUT);
+    this.voiceNotes.cancel();
+    this.releaseConnections(notifyRemote);
+    this.dropWaiting('missed', 'BUSY');
+    this.endHeld(true);
+    this.group.leave(notifyRemote);
+    if (this.snapshot.roomCode) this.deps.rooms?.leave();
+    this.pendingGroup = null;
+    this.agent?.stop();
+    this.agent = null;
+    if (!keepMedia) this.snapshot.localStream?.getTracks().forEach(t => t.stop());
+    this.screenTrack?.stop();
+    this.screenTrack = null;
+  }
+
+  private releaseConnections(notifyRemote: boolean) {
+    const channel = this.channel;
+    this.channel = null;
+    this.files.detach();
+    this.chat.detach();
+    this.captions.detach();
+    this.recorder.detach();
+    this.stats.detach();
+    this.verification.detach();
+    this.renegotiation?.stop();
+    this.renegotiation = null;
+    const call = this.call;
+    this.call = null;
+    // الوسائط تبقى حتى يصل DISCONNECT، وإلا ظن الطرف الآخر أن الشبكة انقطعت وانتظر عودتها
+    if (channel && notifyRemote) {
+      channel.closeAfter('DISCONNECT').then(() => call?.close());
+    } else {
+      channel?.close();
+      call?.close();
+    }
+    const incomingCall = this.incomingCall;
+    this.incomingCall = null;
+    incomingCall?.close();
+    this.earlyArrivals.forEach(({ conn, call }) => { conn?.close(); call?.close(); });
+    this.earlyArrivals.clear();
+  }
+
+  private releaseCall() {
+    const call = this.call;
+    this.call = null;
+    call?.close();
+  }
+
+  private transition(next: AppState, patch: Partial<CallSnapshot> = {}) {
+    if (!canTransition(this.state, next)) {
+      console.warn(`[session] ignored transition ${this.state} -> ${next}`);
+      return false;
+    }
+    this.update({ ...patch, state: next });
+    return true;
+  }
+
+  private update(patch: Partial<CallSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change', this.snapshot);
+  }
+}
@@ -0,0 +1,84 @@
+import type { CallSession } from './callSession.ts';
+
+/** A short tone repeated while a call is in some state. */
+interface TonePattern {
+  frequency: number;
+  gain: number;
+  /** Length of one beep, in seconds. */
+  duration: number;
+  /** Start of each beep within one round, in seconds. */
+  offsets: number[];
+  /** Time between rounds, in ms. */
+  every: number;
+}
+
+const RING: TonePattern = { frequency: 440, gain: 0.1, duration: 1.5, offsets: [0], every: 2000 };
+// نغمة الانتظار تُسمع لمن وُضع على الانتظار
+const HOLD: TonePattern = { frequency: 620, gain: 0.05, duration: 0.3, offsets: [0, 0.4], every: 4000 };
+// مكالمة ثانية أثناء المكالمة: نقرة خافتة بدل الرنين حتى لا تغطي على الحديث
+const WAITING: TonePattern = { frequency: 880, gain: 0.04, duration: 0.2, offsets: [0], every: 3000 };
+
+type SessionState = Pick<CallSession, 'getSnapshot' | 'subscribe'>;
+
+/**
+ * The app's AudioContext and the tones played on it: ringing for an incoming
+ * call, the hold tone while the other side has put us on hold, and a soft beep
+ * while a second call waits. Level meters share the same context.
+ */
+export class CallSounds {
+  private ctx: AudioContext | null = null;
+  private loops = new Map<TonePattern, ReturnType<typeof setInterval>>();
+
+  /**
+   * The shared AudioContext, created or resumed on the spot. Call it from a
+   * tap or click first: browsers keep audio suspended until the user interacts.
+   */
+  context() {
+    this.ctx ??= new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 44100 });
+    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
+    return this.ctx;
+  }
+
+  /** Plays whatever tone the session's state calls for until the returned function is called. */
+  follow(session: SessionState) {
+    const sync = () => {
+      const { incomingCallerId, remoteHeld, waitingCallerId } = session.getSnapshot();
+      this.loop(RING, !!incomingCallerId);
+      this.loop(HOLD, remoteHeld);
+      this.loop(WAITING, !!waitingCallerId);
+    };
+    sync();
+    const off = session.subscribe(sync);
+    return () => {
+      off();
+      [RING, HOLD, WAITING].forEach(pattern => this.loop(pattern, false));
+    };
+  }
+
+  private loop(pattern: TonePattern, on: boolean) {
+    const timer = this.loops.get(pattern);
+    if (on && !timer) {
+      this.play(pattern);
+      this.loops.set(pattern, setInterval(() => this.play(pattern), pattern.every));
+    } else if (!on && timer) {
+      clearInterval(timer);
+      this.loops.delete(pattern);
+    }
+  }
+
+  private play({ frequency, gain: level, duration, offsets }: TonePattern) {
+    const ctx = this.context();
+    offsets.forEach(offset => {
+      const start = ctx.currentTime + offset;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(level, start);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + duration);
+    });
+  }
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { qualityOf, StatsSampler, summarizeStats } from './callStats.ts';
+
+/** A getStats() report from plain stat objects, keyed by their ids. */
+const report = (...stats: { id: string; [field: string]: unknown }[]) => new Map<string, any>(stats.map(s => [s.id, s]));
+
+const candidates = (local: string, remote: string) => [
+  { id: 'L', type: 'local-candidate', candidateType: local },
+  { id: 'R', type: 'remote-candidate', candidateType: remote },
+];
+
+const selectedPair = (patch: object = {}) => [
+  { id: 'T', type: 'transport', selectedCandidatePairId: 'P' },
+  { id: 'P', type: 'candidate-pair', localCandidateId: 'L', remoteCandidateId: 'R', currentRoundTripTime: 0.12, ...patch },
+];
+
+const inbound = (patch: object = {}) => ({ id: 'IA', type: 'inbound-rtp', kind: 'audio', bytesReceived: 0, packetsReceived: 0, packetsLost: 0, ...patch });
+const outbound = (patch: object = {}) => ({ id: 'OA', type: 'outbound-rtp', kind: 'audio', bytesSent: 0, ...patch });
+
+describe('summarizeStats', () => {
+  it('reads the route and round trip from the selected candidate pair', () => {
+    const { stats } = summarizeStats(report(...selectedPair(), ...candidates('host', 'srflx')), null, 0);
+
+    expect(stats).toMatchObject({ route: 'direct', localCandidate: 'host', remoteCandidate: 'srflx', rtt: 120 });
+  });
+
+  it('reports a relay when either candidate goes through TURN', () => {
+    expect(summarizeStats(report(...selectedPair(), ...candidates('relay', 'host')), null, 0).stats.route).toBe('relay');
+    expect(summarizeStats(report(...selectedPair(), ...candidates('srflx', 'relay')), null, 0).stats.route).toBe('relay');
+  });
+
+  it('falls back to the nominated pair when no transport names one', () => {
+    const pair = { id: 'P', type: 'candidate-pair', nominated: true, state: 'succeeded', localCandidateId: 'L', remoteCandidateId: 'R' };
+    const stray = { id: 'Q', type: 'candidate-pair', nominated: false, state: 'failed', localCandidateId: 'X', remoteCandidateId: 'Y' };
+
+    const { stats } = summarizeStats(report(stray, pair, ...candidates('relay', 'host')), null, 0);
+    expect(stats).toMatchObject({ route: 'relay', localCandidate: 'relay', remoteCandidate: 'host' });
+  });
+
+  it('takes the round trip from RTCP when there is no pair, and leaves the route unknown', () => {
+    const { stats } = summarizeStats(report({ id: 'RI', type: 'remote-inbound-rtp', roundTripTime: 0.25 }), null, 0);
+
+    expect(stats).toMatchObject({ route: 'unknown', localCandidate: null, remoteCandidate: null, rtt: 250 });
+  });
+
+  it('reads audio jitter in milliseconds and the codecs in use', () => {
+    const { stats } = summarizeStats(report(
+      inbound({ jitter: 0.015, codecId: 'CA' }),
+      { id: 'OV', type: 'outbound-rtp', kind: 'video', bytesSent: 0, codecId: 'CV' },
+      { id: 'CA', type: 'codec', mimeType: 'audio/opus' },
+      { id: 'CV', type: 'codec', mimeType: 'video/VP8' },
+    ), null, 0);
+
+    expect(stats).toMatchObject({ jitter: 15, audioCodec: 'opus', videoCodec: 'VP8' });
+  });
+
+  it('reports no rates for the first sample and only the interval since the previous one after', () => {
+    const first = summarizeStats(report(inbound({ bytesReceived: 10_000, packetsReceived: 100, packetsLost: 5 }), outbound({ bytesSent: 20_000 })), null, 1000);
+    expect(first.stats).toMatchObject({ bitrateIn: 0, bitrateOut: 0, packetLoss: 0 });
+    expect(first.counters).toEqual({ at: 1000, bytesIn: 10_000, bytesOut: 20_000, packetsIn: 100, packetsLost: 5 });
+
+    // ثانيتان: 50 كيلوبايت واردة و25 صادرة، و90 حزمة وصلت و10 ضاعت
+    const second = summarizeStats(report(inbound({ bytesReceived: 60_000, packetsReceived: 190, packetsLost: 15 }), outbound({ bytesSent: 45_000 })), first.counters, 3000);
+    expect(second.stats).toMatchObject({ bitrateIn: 200, bitrateOut: 100, packetLoss: 0.1 });
+  });
+
+  it('never reports negative rates when counters go backwards', () => {
+    const previous = { at: 0, bytesIn: 50_000, bytesOut: 50_000, packetsIn: 500, packetsLost: 50 };
+    const { stats } = summarizeStats(report(inbound({ bytesReceived: 1000, packetsReceived: 10 }), outbound({ bytesSent: 1000 })), previous, 2000);
+
+    expect(stats).toMatchObject({ bitrateIn: 0, bitrateOut: 0, packetLoss: 0 });
+  });
+
+  it('grades quality by the worst of round trip, jitter and loss', () => {
+    expect(qualityOf({ rtt: 100, jitter: 10, packetLoss: 0 })).toBe(4);
+    expect(qualityOf({ rtt: 600, jitter: 10, packetLoss: 0 })).toBe(2);
+    expect(qualityOf({ rtt: 100, jitter: 10, packetLoss: 0.5 })).toBe(0);
+    expect(qualityOf({ rtt: null, jitter: null, packetLoss: 0 })).toBe(4);
+    expect(summarizeStats(report(...selectedPair({ currentRoundTripTime: 0.9 })), null, 0).stats.quality).toBe(1);
+  });
+});
+
+describe('StatsSampler', () => {
+  const fakePc = () => ({ getStats: async () => report(...selectedPair(), ...candidates('host', 'host')) }) as unknown as RTCPeerConnection;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the samples of a call that continues on a new connection, and drops them for a new call', async () => {
+    const sampler = new StatsSampler();
+
+    sampler.attach(fakePc());
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sampler.getSnapshot().samples).toHaveLength(2);
+
+    sampler.detach();
+    sampler.attach(fakePc(), true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sampler.getSnapshot().samples).toHaveLength(3);
+
+    sampler.attach(fakePc());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sampler.getSnapshot().samples).toHaveLength(1);
+    sampler.detach();
+  });
+
+  it('keeps the last samples after the call ends, for the diagnostic report', async () => {
+    const sampler = new StatsSampler();
+
+    sampler.attach(fakePc());
+    await vi.advanceTimersByTimeAsync(0);
+    sampler.detach();
+    expect(sampler.getSnapshot().samples).toHaveLength(1);
+    expect(sampler.report({ 'Call type': 'random' })).toContain('Route: direct (host -> host)');
+  });
+});
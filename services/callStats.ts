@@ -0,0 +1,231 @@
+import { Emitter } from './emitter.ts';
+
+const SAMPLE_INTERVAL = 2000;
+const MAX_SAMPLES = 300;
+/** Consecutive poor samples before the call counts as poor (and as many good ones to recover). */
+const POOR_STREAK = 3;
+
+export type CallRoute = 'direct' | 'relay' | 'unknown';
+
+export interface CallStats {
+  at: number;
+  /** Milliseconds; null until the first round trip has been measured. */
+  rtt: number | null;
+  jitter: number | null;
+  /** Share of incoming packets lost since the previous sample, 0..1. */
+  packetLoss: number;
+  /** Kilobits per second since the previous sample. */
+  bitrateIn: number;
+  bitrateOut: number;
+  audioCodec: string | null;
+  videoCodec: string | null;
+  route: CallRoute;
+  localCandidate: string | null;
+  remoteCandidate: string | null;
+  /** 0 (unusable) to 4 (excellent), for the signal bars. */
+  quality: number;
+}
+
+/** Running counters needed to turn cumulative stats into per-interval rates. */
+export interface StatsCounters {
+  at: number;
+  bytesIn: number;
+  bytesOut: number;
+  packetsIn: number;
+  packetsLost: number;
+}
+
+// كل حد يُنقص عموداً واحداً من المؤشر
+const LIMITS = [
+  { rtt: 300, jitter: 30, loss: 0.02 },
+  { rtt: 500, jitter: 50, loss: 0.05 },
+  { rtt: 800, jitter: 80, loss: 0.1 },
+  { rtt: 1500, jitter: 150, loss: 0.2 },
+];
+
+export const qualityOf = ({ rtt, jitter, packetLoss }: Pick<CallStats, 'rtt' | 'jitter' | 'packetLoss'>) =>
+  4 - LIMITS.filter(l => (rtt ?? 0) > l.rtt || (jitter ?? 0) > l.jitter || packetLoss > l.loss).length;
+
+const codecName = (report: Map<string, any>, codecId?: string) => {
+  const mime: string | undefined = codecId ? report.get(codecId)?.mimeType : undefined;
+  return mime ? mime.split('/')[1] : null;
+};
+
+/**
+ * Turns one getStats() report into a CallStats sample. `previous` holds the
+ * counters of the last sample, so rates cover only the time in between.
+ */
+export const summarizeStats = (report: Map<string, any>, previous: StatsCounters | null, now: number) => {
+  const counters: StatsCounters = { at: now, bytesIn: 0, bytesOut: 0, packetsIn: 0, packetsLost: 0 };
+  let pair: RTCIceCandidatePairStats | null = null;
+  let rtt: number | null = null;
+  let jitter: number | null = null;
+  let audioCodec: string | null = null;
+  let videoCodec: string | null = null;
+
+  report.forEach(stat => {
+    switch (stat.type) {
+      case 'transport':
+        if (stat.selectedCandidatePairId) pair = report.get(stat.selectedCandidatePairId) ?? pair;
+        break;
+      case 'candidate-pair':
+        if (!pair && stat.nominated && stat.state === 'succeeded') pair = stat;
+        break;
+      case 'inbound-rtp':
+        counters.bytesIn += stat.bytesReceived ?? 0;
+        counters.packetsIn += stat.packetsReceived ?? 0;
+        counters.packetsLost += Math.max(0, stat.packetsLost ?? 0);
+        if (stat.kind === 'audio') {
+          if (typeof stat.jitter === 'number') jitter = stat.jitter * 1000;
+          audioCodec = codecName(report, stat.codecId) ?? audioCodec;
+        } else if (stat.kind === 'video') {
+          videoCodec = codecName(report, stat.codecId) ?? videoCodec;
+        }
+        break;
+      case 'outbound-rtp':
+        counters.bytesOut += stat.bytesSent ?? 0;
+        if (stat.kind === 'audio') audioCodec ??= codecName(report, stat.codecId);
+        if (stat.kind === 'video') videoCodec ??= codecName(report, stat.codecId);
+        break;
+      case 'remote-inbound-rtp':
+        if (typeof stat.roundTripTime === 'number') rtt ??= stat.roundTripTime * 1000;
+        break;
+    }
+  });
+
+  if (typeof pair?.currentRoundTripTime === 'number') rtt = pair.currentRoundTripTime * 1000;
+  const localCandidate: string | null = (pair && report.get(pair.localCandidateId)?.candidateType) ?? null;
+  const remoteCandidate: string | null = (pair && report.get(pair.remoteCandidateId)?.candidateType) ?? null;
+  const route: CallRoute = !pair ? 'unknown' : localCandidate === 'relay' || remoteCandidate === 'relay' ? 'relay' : 'direct';
+
+  const seconds = previous ? (now - previous.at) / 1000 : 0;
+  const rate = (bytes: number, before: number) => (seconds > 0 ? Math.max(0, ((bytes - before) * 8) / 1000 / seconds) : 0);
+  const lost = previous ? Math.max(0, counters.packetsLost - previous.packetsLost) : 0;
+  const received = previous ? Math.max(0, counters.packetsIn - previous.packetsIn) : 0;
+  const packetLoss = lost + received > 0 ? lost / (lost + received) : 0;
+
+  const stats: CallStats = {
+    at: now,
+    rtt,
+    jitter,
+    packetLoss,
+    bitrateIn: rate(counters.bytesIn, previous?.bytesIn ?? 0),
+    bitrateOut: rate(counters.bytesOut, previous?.bytesOut ?? 0),
+    audioCodec,
+    videoCodec,
+    route,
+    localCandidate,
+    remoteCandidate,
+    quality: qualityOf({ rtt, jitter, packetLoss }),
+  };
+  return { stats, counters };
+};
+
+export interface StatsSnapshot {
+  current: CallStats | null;
+  samples: CallStats[];
+  /** True while quality has stayed at one bar or less for a few samples. */
+  poor: boolean;
+}
+
+interface StatsEvents {
+  change: () => void;
+  poor: (poor: boolean) => void;
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+const fixed = (value: number | null, unit: string) => (value === null ? 'n/a' : `${Math.round(value)} ${unit}`);
+
+/**
+ * Samples getStats() on the call's RTCPeerConnection. The samples of the last
+ * call are kept after it ends, so the diagnostic report can still be copied.
+ */
+export class StatsSampler extends Emitter<StatsEvents> {
+  private pc: RTCPeerConnection | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private counters: StatsCounters | null = null;
+  private streak = 0;
+  private snapshot: StatsSnapshot = { current: null, samples: [], poor: false };
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /**
+   * Starts sampling `pc`. The previous call's samples are dropped, unless
+   * `continued`: the same call on a fresh connection after it dropped.
+   */
+  attach(pc: RTCPeerConnection, continued = false) {
+    if (this.pc === pc) return;
+    this.detach();
+    this.pc = pc;
+    // العدادات تبدأ من الصفر مع كل اتصال جديد
+    this.counters = null;
+    if (!continued) {
+      this.streak = 0;
+      this.publish({ current: null, samples: [], poor: false });
+    }
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL);
+    this.sample();
+  }
+
+  detach() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.pc = null;
+  }
+
+  /** Plain-text summary for bug reports; `context` lines go at the top. */
+  report(context: Record<string, string> = {}) {
+    const { samples, current } = this.snapshot;
+    const rtts = samples.map(s => s.rtt).filter((v): v is number => v !== null);
+    const jitters = samples.map(s => s.jitter).filter((v): v is number => v !== null);
+    const losses = samples.slice(1).map(s => s.packetLoss * 100);
+    const poorSamples = samples.filter(s => s.quality <= 1).length;
+    const lines = [
+      'AnyOne call diagnostics',
+      `Generated: ${new Date().toISOString()}`,
+      ...Object.entries(context).map(([key, value]) => `${key}: ${value}`),
+      `User agent: ${typeof navigator !== 'undefined' ? navigator.userAgent : 'n/a'}`,
+      '',
+      `Route: ${current?.route ?? 'unknown'} (${current?.localCandidate ?? '?'} -> ${current?.remoteCandidate ?? '?'})`,
+      `Codecs: audio ${current?.audioCodec ?? 'n/a'}, video ${current?.videoCodec ?? 'n/a'}`,
+      `Samples: ${samples.length} every ${SAMPLE_INTERVAL / 1000}s, ${poorSamples} poor`,
+      `RTT: avg ${fixed(average(rtts), 'ms')}, max ${fixed(rtts.length ? Math.max(...rtts) : null, 'ms')}`,
+      `Jitter: avg ${fixed(average(jitters), 'ms')}, max ${fixed(jitters.length ? Math.max(...jitters) : null, 'ms')}`,
+      `Packet loss: avg ${fixed(average(losses), '%')}, max ${fixed(losses.length ? Math.max(...losses) : null, '%')}`,
+      `Bitrate in/out: avg ${fixed(average(samples.map(s => s.bitrateIn)), 'kbps')} / ${fixed(average(samples.map(s => s.bitrateOut)), 'kbps')}`,
+    ];
+    return lines.join('\n');
+  }
+
+  private async sample() {
+    const pc = this.pc;
+    if (!pc) return;
+    try {
+      const report = await pc.getStats();
+      if (this.pc !== pc) return;
+      const { stats, counters } = summarizeStats(report as unknown as Map<string, any>, this.counters, Date.now());
+      this.counters = counters;
+      this.track(stats);
+    } catch (e) {
+      console.warn('[stats] getStats failed', e);
+    }
+  }
+
+  private track(stats: CallStats) {
+    const { poor } = this.snapshot;
+    // نعدّ العينات المتتالية في الاتجاه المعاكس للحالة الحالية
+    this.streak = (stats.quality <= 1) !== poor ? this.streak + 1 : 0;
+    const flipped = this.streak >= POOR_STREAK;
+    if (flipped) this.streak = 0;
+    const samples = [...this.snapshot.samples, stats].slice(-MAX_SAMPLES);
+    this.publish({ current: stats, samples, poor: flipped ? !poor : poor });
+    if (flipped) this.emit('poor', !poor);
+  }
+
+  private publish(snapshot: StatsSnapshot) {
+    this.snapshot = snapshot;
+    this.emit('change');
+  }
+}
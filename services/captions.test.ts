@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CaptionManager } from './captions.ts';
+import { Emitter } from './emitter.ts';
+import { ProtocolChannel } from './protocol.ts';
+import { StubCaptionProvider } from './stubCaptions.ts';
+import { DataConnectionLike } from './transport.ts';
+
+type AnyEvents = Record<string, (...args: any[]) => void>;
+
+const WORD_INTERVAL = 400;
+
+/** One end of an in-memory data connection; what it sends arrives at `other` a moment later. */
+class LinkedConnection extends Emitter<AnyEvents> implements DataConnectionLike {
+  open = false;
+  other: LinkedConnection | null = null;
+
+  constructor(readonly peer: string) {
+    super();
+  }
+
+  send(data: any) {
+    const other = this.other;
+    queueMicrotask(() => {
+      if (this.open && other?.open) other.emit('data', data);
+    });
+  }
+
+  close() {
+    if (!this.open) return;
+    this.open = false;
+    this.emit('close');
+    this.other?.close();
+  }
+
+  connect() {
+    this.open = true;
+    this.emit('open');
+  }
+}
+
+/** A ProtocolChannel on each side of one connection, handshake done. */
+const channelPair = async () => {
+  const a = new LinkedConnection('b');
+  const b = new LinkedConnection('a');
+  a.other = b;
+  b.other = a;
+  const channels = [new ProtocolChannel(a), new ProtocolChannel(b)] as const;
+  a.connect();
+  b.connect();
+  await vi.advanceTimersByTimeAsync(0);
+  return channels;
+};
+
+const microphone = () => ({ getAudioTracks: () => [{ enabled: true, readyState: 'live' }] }) as unknown as MediaStream;
+
+/** Two sides of a call, each speaking its own language and listening to its own microphone. */
+const setup = async (langs = ['en', 'en']) => {
+  const [me, them] = langs.map(lang => {
+    const captions = new CaptionManager(new StubCaptionProvider());
+    captions.setLanguage(lang);
+    return captions;
+  });
+  const connect = async () => {
+    const [mine, theirs] = await channelPair();
+    me.attach(mine, microphone);
+    them.attach(theirs, microphone);
+    await vi.advanceTimersByTimeAsync(0);
+    return [mine, theirs] as const;
+  };
+  return { me, them, connect };
+};
+
+/** Lets the stub speak its first phrase, five words long, and the messages arrive. */
+const firstPhrase = () => vi.advanceTimersByTimeAsync(WORD_INTERVAL * 5);
+
+describe('CaptionManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('transcribes our microphone only once the other side turns captions on', async () => {
+    const { me, them, connect } = await setup();
+    await connect();
+
+    await firstPhrase();
+    expect(me.getSnapshot().sharing).toBe(false);
+    expect(them.getSnapshot().lines).toEqual([]);
+
+    them.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(me.getSnapshot().sharing).toBe(true);
+    expect(them.getSnapshot().sharing).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(WORD_INTERVAL * 2);
+    expect(them.getSnapshot().interim).toBe('Hello, nice');
+
+    await vi.advanceTimersByTimeAsync(WORD_INTERVAL * 3);
+    expect(them.getSnapshot()).toMatchObject({
+      interim: null,
+      lines: [{ speaker: 'them', text: 'Hello, nice to meet you', original: 'Hello, nice to meet you', lang: 'en' }],
+    });
+    expect(me.getSnapshot().lines).toMatchObject([{ speaker: 'me', text: 'Hello, nice to meet you' }]);
+  });
+
+  it('translates finished utterances into the language of the one reading them', async () => {
+    const { them, connect } = await setup(['ar', 'es']);
+    await connect();
+
+    them.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(0);
+    await firstPhrase();
+    expect(them.getSnapshot().lines).toMatchObject([{ text: 'Hola, encantado de conocerte', original: 'مرحباً، سعيد بلقائك', lang: 'ar' }]);
+    expect(them.transcript()).toContain('Them: Hola, encantado de conocerte (ar: مرحباً، سعيد بلقائك)');
+  });
+
+  it('stops transcribing when the other side turns captions off', async () => {
+    const { me, them, connect } = await setup();
+    await connect();
+    them.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    them.setEnabled(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(me.getSnapshot().sharing).toBe(false);
+    await firstPhrase();
+    expect(them.getSnapshot()).toMatchObject({ interim: null, lines: [] });
+  });
+
+  it('asks for captions again on the channel that replaces a dropped one', async () => {
+    const { me, them, connect } = await setup();
+    const [mine] = await connect();
+    them.setEnabled(true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    mine.close();
+    me.detach();
+    them.detach();
+    expect(me.getSnapshot().sharing).toBe(false);
+
+    await connect();
+    expect(me.getSnapshot().sharing).toBe(true);
+    await firstPhrase();
+    expect(them.getSnapshot().lines).toHaveLength(1);
+  });
+});
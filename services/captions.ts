@@ -0,0 +1,157 @@
+import { Emitter } from './emitter.ts';
+import { MessageOf, ProtocolChannel } from './protocol.ts';
+
+/** Speech recognition and translation behind live captions. */
+export interface CaptionProvider {
+  /**
+   * Recognizes speech on `stream` in `lang`. `onSpeech` gets the text of the
+   * current utterance as it grows, then once more with `final` set. Returns a
+   * function that stops listening.
+   */
+  listen(stream: MediaStream, lang: string, onSpeech: (text: string, final: boolean) => void): () => void;
+  translate(text: string, from: string, to: string): Promise<string>;
+}
+
+export interface Caption {
+  id: string;
+  speaker: 'me' | 'them';
+  /** In the viewer's language once translated. */
+  text: string;
+  original: string;
+  lang: string;
+  at: number;
+}
+
+export interface CaptionSnapshot {
+  /** We asked the other side to send what they say. */
+  enabled: boolean;
+  /** The other side asked for ours, so our microphone is being transcribed. */
+  sharing: boolean;
+  /** The utterance the other person is still speaking, untranslated. */
+  interim: string | null;
+  lines: Caption[];
+}
+
+/**
+ * Live captions for the current call. Each side transcribes its own
+ * microphone, but only while the other side has asked for captions, and sends
+ * the text over the data channel; the receiver translates finished
+ * utterances into its own language.
+ */
+export class CaptionManager extends Emitter<{ change: () => void }> {
+  private channel: ProtocolChannel | null = null;
+  private microphone: () => MediaStream | null = () => null;
+  private unsubscribe: (() => void)[] = [];
+  private stopListening: (() => void) | null = null;
+  private utterance = 0;
+  private lang = 'en';
+  private snapshot: CaptionSnapshot = { enabled: false, sharing: false, interim: null, lines: [] };
+
+  constructor(private readonly provider: CaptionProvider | null) {
+    super();
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get available() {
+    return !!this.provider;
+  }
+
+  /** The language we speak and want captions in. */
+  setLanguage(lang: string) {
+    this.lang = lang;
+  }
+
+  /** `microphone` is read when the other side asks for captions, since media may start after the channel. */
+  attach(channel: ProtocolChannel, microphone: () => MediaStream | null) {
+    this.detach();
+    this.channel = channel;
+    this.microphone = microphone;
+    this.unsubscribe = [
+      channel.onMessage('CAPTIONS', m => this.setSharing(m.active)),
+      channel.onMessage('CAPTION', m => this.handleCaption(m)),
+    ];
+    // بعد إعادة الاتصال نطلب الترجمة من جديد إن كانت مفعّلة
+    if (this.snapshot.enabled) channel.send('CAPTIONS', { active: true });
+  }
+
+  detach() {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
+    this.channel = null;
+    this.setSharing(false);
+  }
+
+  /** Clears the captions of the previous call and turns them off. */
+  reset() {
+    this.update({ enabled: false, interim: null, lines: [] });
+  }
+
+  setEnabled(enabled: boolean) {
+    if (!this.provider || enabled === this.snapshot.enabled) return;
+    this.channel?.send('CAPTIONS', { active: enabled });
+    this.update({ enabled, interim: enabled ? this.snapshot.interim : null });
+  }
+
+  /** Plain-text transcript of both sides, for saving. */
+  transcript() {
+    return this.snapshot.lines
+      .map(line => {
+        const time = new Date(line.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+        const translated = line.text !== line.original ? ` (${line.lang}: ${line.original})` : '';
+        return `[${time}] ${line.speaker === 'me' ? 'Me' : 'Them'}: ${line.text}${translated}`;
+      })
+      .join('\n');
+  }
+
+  private setSharing(sharing: boolean) {
+    if (sharing === this.snapshot.sharing) return;
+    this.stopListening?.();
+    this.stopListening = null;
+    const stream = sharing ? this.microphone() : null;
+    if (stream && this.provider) {
+      const lang = this.lang;
+      this.stopListening = this.provider.listen(stream, lang, (text, final) => this.handleSpeech(text, lang, final));
+    }
+    this.update({ sharing: !!this.stopListening });
+  }
+
+  private handleSpeech(text: string, lang: string, final: boolean) {
+    const utterance = this.utterance;
+    if (final) {
+      this.utterance++;
+      this.append({ id: `me-${utterance}`, speaker: 'me', text, original: text, lang, at: Date.now() });
+    }
+    this.channel?.send('CAPTION', { utterance, text, lang, final });
+  }
+
+  private async handleCaption({ utterance, text, lang, final }: MessageOf<'CAPTION'>) {
+    if (!this.snapshot.enabled || !this.provider) return;
+    if (!final) {
+      this.update({ interim: text });
+      return;
+    }
+    const target = this.lang;
+    const id = `them-${utterance}-${Date.now()}`;
+    this.update({ interim: null });
+    this.append({ id, speaker: 'them', text, original: text, lang, at: Date.now() });
+    if (lang === target) return;
+    try {
+      const translated = await this.provider.translate(text, lang, target);
+      this.update({ lines: this.snapshot.lines.map(line => (line.id === id ? { ...line, text: translated } : line)) });
+    } catch (e) {
+      console.warn('[captions] translation failed', e);
+    }
+  }
+
+  private append(line: Caption) {
+    this.update({ lines: [...this.snapshot.lines, line] });
+  }
+
+  private update(patch: Partial<CaptionSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change');
+  }
+}
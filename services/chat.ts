@@ -0,0 +1,178 @@
+import { ChatMessage, FileTransfer, MessageStatus } from '../types.ts';
+import { Emitter } from './emitter.ts';
+import { MessageOf, ProtocolChannel } from './protocol.ts';
+
+/** How long a TYPING signal stays visible without a follow-up. */
+const TYPING_TTL = 4000;
+/** Minimum gap between two outgoing TYPING signals. */
+const TYPING_THROTTLE = 2000;
+
+export interface ChatSnapshot {
+  messages: ChatMessage[];
+  remoteTyping: boolean;
+  unread: number;
+  keepTranscript: boolean;
+}
+
+interface ChatEvents {
+  change: () => void;
+}
+
+const STATUS_ORDER: MessageStatus[] = ['sent', 'delivered', 'read'];
+
+/**
+ * Chat for the current call. Delivery receipts come from the protocol's ACK of
+ * each CHAT message; read receipts are sent while the chat panel is visible.
+ * A group call has one channel per participant and every message goes to all.
+ */
+export class ChatManager extends Emitter<ChatEvents> {
+  private channels = new Map<ProtocolChannel, () => void>();
+  // معرفات نسخ الرسالة المرسلة على القنوات الأخرى ← معرف الرسالة المحلي
+  private refs = new Map<string, string>();
+  private visible = false;
+  private lastTypingSent = 0;
+  private typingTimer: ReturnType<typeof setTimeout> | null = null;
+  private snapshot: ChatSnapshot = { messages: [], remoteTyping: false, unread: 0, keepTranscript: false };
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /** Chats over this channel only. */
+  attach(channel: ProtocolChannel) {
+    this.detach();
+    this.add(channel);
+  }
+
+  /** Adds a group participant's channel. */
+  add(channel: ProtocolChannel) {
+    if (this.channels.has(channel)) return;
+    const offs = [
+      channel.onMessage('CHAT', m => this.handleChat(m, channel)),
+      channel.onMessage('CHAT_READ', m => this.advance(m.refs.filter((ref): ref is string => typeof ref === 'string'), 'read')),
+      channel.onMessage('TYPING', m => this.setRemoteTyping(m.active)),
+      channel.on('ack', ref => this.advance([ref], 'delivered')),
+    ];
+    this.channels.set(channel, () => offs.forEach(off => off()));
+  }
+
+  remove(channel: ProtocolChannel) {
+    this.channels.get(channel)?.();
+    this.channels.delete(channel);
+  }
+
+  detach() {
+    this.channels.forEach(off => off());
+    this.channels.clear();
+    this.setRemoteTyping(false);
+  }
+
+  /** Clears the conversation; the transcript preference is kept. */
+  reset() {
+    this.lastTypingSent = 0;
+    this.refs.clear();
+    this.update({ messages: [], remoteTyping: false });
+  }
+
+  /** Sets the conversation aside while its call is on hold; `restore` brings it back with the call. */
+  stash() {
+    const { messages } = this.snapshot;
+    this.detach();
+    this.reset();
+    return messages;
+  }
+
+  restore(messages: ChatMessage[]) {
+    this.update({ messages });
+  }
+
+  send(text: string) {
+    if (!text.trim() || !this.channels.size) return;
+    const sentAt = Date.now();
+    const [id, ...copies] = [...this.channels.keys()].map(channel => channel.send('CHAT', { text, sentAt }));
+    copies.forEach(copy => this.refs.set(copy, id));
+    this.lastTypingSent = 0;
+    this.append({ id, sender: 'me', text, sentAt, status: 'sent' });
+  }
+
+  addTransfer(transfer: FileTransfer) {
+    const mine = transfer.direction === 'send';
+    this.append({
+      id: transfer.id, sender: mine ? 'me' : 'them', text: transfer.name, sentAt: Date.now(),
+      status: mine ? undefined : 'delivered', transferId: transfer.id,
+    });
+    if (!mine && this.visible) this.markRead();
+  }
+
+  /** Called by the UI while the chat panel is open, so incoming messages count as read. */
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    if (visible) this.markRead();
+  }
+
+  notifyTyping() {
+    const now = Date.now();
+    if (!this.channels.size || now - this.lastTypingSent < TYPING_THROTTLE) return;
+    this.lastTypingSent = now;
+    this.channels.forEach((_, channel) => channel.send('TYPING', { active: true }));
+  }
+
+  setKeepTranscript(keepTranscript: boolean) {
+    this.update({ keepTranscript });
+  }
+
+  /** The conversation to store with the call record, if the user asked to keep it; a held call passes its own. */
+  transcript(messages = this.snapshot.messages): ChatMessage[] | undefined {
+    const { keepTranscript } = this.snapshot;
+    return keepTranscript && messages.length ? messages.map(({ transferId, ...m }) => (transferId ? { ...m, text: `📎 ${m.text}` } : m)) : undefined;
+  }
+
+  private handleChat(m: MessageOf<'CHAT'>, channel: ProtocolChannel) {
+    this.setRemoteTyping(false);
+    if (this.snapshot.messages.some(existing => existing.id === m.id)) return;
+    this.append({ id: m.id, sender: 'them', text: m.text, sentAt: m.sentAt, status: 'delivered', from: channel.peer });
+    if (this.visible) this.markRead();
+  }
+
+  private markRead() {
+    const unread = this.snapshot.messages.filter(m => m.sender === 'them' && m.status !== 'read');
+    if (!unread.length) return;
+    // عروض الملفات لها إيصالاتها الخاصة، لا نرسل لها إشعار قراءة، وكل مشارك يتلقى إيصالات رسائله فقط
+    this.channels.forEach((_, channel) => {
+      const refs = unread.filter(m => !m.transferId && m.from === channel.peer).map(m => m.id);
+      if (refs.length) channel.send('CHAT_READ', { refs });
+    });
+    const ids = new Set(unread.map(m => m.id));
+    this.update({ messages: this.snapshot.messages.map(m => (ids.has(m.id) ? { ...m, status: 'read' } : m)) });
+  }
+
+  // الحالة تتقدم فقط: مرسلة ← مستلمة ← مقروءة
+  private advance(refs: string[], status: MessageStatus) {
+    const ids = new Set(refs.map(ref => this.refs.get(ref) ?? ref));
+    let changed = false;
+    const messages = this.snapshot.messages.map(m => {
+      if (m.sender !== 'me' || !ids.has(m.id) || !m.status) return m;
+      if (STATUS_ORDER.indexOf(status) <= STATUS_ORDER.indexOf(m.status)) return m;
+      changed = true;
+      return { ...m, status };
+    });
+    if (changed) this.update({ messages });
+  }
+
+  private setRemoteTyping(active: boolean) {
+    if (this.typingTimer) clearTimeout(this.typingTimer);
+    this.typingTimer = active ? setTimeout(() => this.setRemoteTyping(false), TYPING_TTL) : null;
+    if (this.snapshot.remoteTyping !== active) this.update({ remoteTyping: active });
+  }
+
+  private append(message: ChatMessage) {
+    this.update({ messages: [...this.snapshot.messages, message] });
+  }
+
+  private update(patch: Partial<ChatSnapshot>) {
+    const next = { ...this.snapshot, ...patch };
+    next.unread = next.messages.filter(m => m.sender === 'them' && m.status !== 'read').length;
+    this.snapshot = next;
+    this.emit('change');
+  }
+}
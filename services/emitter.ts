@@ -0,0 +1,28 @@
+type Listener = (...args: any[]) => void;
+
+/**
+ * Minimal typed event emitter shared by the framework-independent services.
+ * `on` returns an unsubscribe function so React effects can clean up easily.
+ */
+export class Emitter<Events extends { [K in keyof Events]: Listener }> {
+  private listeners: { [K in keyof Events]?: Set<Events[K]> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Events[K]): () => void {
+    const set = this.listeners[event] ?? new Set<Events[K]>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+    this.listeners[event]?.forEach(listener => listener(...args));
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Emitter } from './emitter.ts';
+import { CHUNK_SIZE, FileTransferManager, MAX_CHUNK_SIZE, MAX_FILE_SIZE, MIN_CHUNK_SIZE, sha256Hex } from './fileTransfer.ts';
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, ProtocolChannel } from './protocol.ts';
+import { DataConnectionLike } from './transport.ts';
+
+type AnyEvents = Record<string, (...args: any[]) => void>;
+
+/** The data connection, driven from the sender's side. */
+class FakeConnection extends Emitter<AnyEvents> implements DataConnectionLike {
+  readonly peer = 'sender';
+  open = true;
+  sent: any[] = [];
+
+  send(data: any) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.open = false;
+    this.emit('close');
+  }
+
+  receive(type: string, payload: object = {}) {
+    this.emit('data', { ...payload, type, v: PROTOCOL_VERSION, id: `${type}-${Math.random()}` });
+  }
+
+  sentOfType(type: string) {
+    return this.sent.filter(m => m.type === type);
+  }
+}
+
+const setup = () => {
+  const conn = new FakeConnection();
+  const channel = new ProtocolChannel(conn);
+  conn.receive('HELLO', { version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION });
+  const files = new FileTransferManager();
+  files.attach(channel);
+  return { conn, files };
+};
+
+const offer = (patch: object = {}) => ({
+  transferId: 't1', name: 'notes.txt', mime: 'text/plain', size: 3, chunkSize: CHUNK_SIZE, checksum: 'unused', ...patch,
+});
+
+describe('FileTransferManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the user to accept a well-formed offer', () => {
+    const { conn, files } = setup();
+
+    conn.receive('FILE_OFFER', offer());
+    expect(files.get('t1')).toMatchObject({ direction: 'receive', status: 'offered', size: 3 });
+    expect(conn.sentOfType('FILE_DECLINE')).toEqual([]);
+  });
+
+  it.each([
+    ['a fractional chunk size', { chunkSize: 1024.5 }],
+    ['a zero chunk size', { chunkSize: 0 }],
+    ['a chunk size below the bound', { chunkSize: MIN_CHUNK_SIZE - 1 }],
+    ['a chunk size above the bound', { chunkSize: MAX_CHUNK_SIZE + 1 }],
+    ['a negative size', { size: -1 }],
+    ['a fractional size', { size: 10.5 }],
+    ['a size over the limit', { size: MAX_FILE_SIZE + 1 }],
+  ])('declines an offer with %s', (_, patch) => {
+    const { conn, files } = setup();
+
+    conn.receive('FILE_OFFER', offer(patch));
+    expect(files.get('t1')?.status).toBe('declined');
+    expect(conn.sentOfType('FILE_DECLINE')).toMatchObject([{ transferId: 't1' }]);
+  });
+
+  it('reassembles and verifies the chunks of an accepted file', async () => {
+    const { conn, files } = setup();
+    const bytes = new Uint8Array(MIN_CHUNK_SIZE + 10).map((_, i) => i % 251);
+
+    conn.receive('FILE_OFFER', offer({ size: bytes.byteLength, chunkSize: MIN_CHUNK_SIZE, checksum: await sha256Hex(bytes.buffer) }));
+    files.accept('t1');
+    conn.receive('FILE_CHUNK', { transferId: 't1', index: 0, data: bytes.slice(0, MIN_CHUNK_SIZE).buffer });
+    conn.receive('FILE_CHUNK', { transferId: 't1', index: 1, data: bytes.slice(MIN_CHUNK_SIZE).buffer });
+    await vi.waitFor(() => expect(files.get('t1')?.status).toBe('done'));
+    expect(conn.sentOfType('FILE_RESULT')).toMatchObject([{ transferId: 't1', ok: true }]);
+  });
+
+  it('fails the transfer when a chunk is larger than the offer announced', () => {
+    const { conn, files } = setup();
+
+    conn.receive('FILE_OFFER', offer({ size: MIN_CHUNK_SIZE * 2, chunkSize: MIN_CHUNK_SIZE }));
+    files.accept('t1');
+    conn.receive('FILE_CHUNK', { transferId: 't1', index: 0, data: new ArrayBuffer(MIN_CHUNK_SIZE + 1) });
+    expect(files.get('t1')).toMatchObject({ status: 'failed', transferred: 0 });
+    expect(conn.sentOfType('FILE_RESULT')).toMatchObject([{ transferId: 't1', ok: false }]);
+  });
+
+  it('ignores chunks with an index that is not a whole chunk number', () => {
+    const { conn, files } = setup();
+
+    conn.receive('FILE_OFFER', offer({ size: MIN_CHUNK_SIZE * 2, chunkSize: MIN_CHUNK_SIZE }));
+    files.accept('t1');
+    conn.receive('FILE_CHUNK', { transferId: 't1', index: 0.5, data: new ArrayBuffer(MIN_CHUNK_SIZE) });
+    conn.receive('FILE_CHUNK', { transferId: 't1', index: 2, data: new ArrayBuffer(MIN_CHUNK_SIZE) });
+    expect(files.get('t1')).toMatchObject({ status: 'transferring', transferred: 0 });
+  });
+});
@@ -0,0 +1,251 @@
+import { FileTransfer, TransferStatus } from '../types.ts';
+import { Emitter } from './emitter.ts';
+import { createMessageId, MessageOf, ProtocolChannel } from './protocol.ts';
+
+export const MAX_FILE_SIZE = 25 * 1024 * 1024;
+// أقل بقليل من حد التقطيع الداخلي في PeerJS حتى لا تُقطّع القطعة مرة أخرى
+export const CHUNK_SIZE = 16000;
+/** Chunk sizes an offer may announce; anything else is declined. */
+export const MIN_CHUNK_SIZE = 1024;
+export const MAX_CHUNK_SIZE = 64 * 1024;
+/** Chunks the sender may have in flight before the receiver reports progress. */
+const WINDOW = 32;
+const PROGRESS_EVERY = 8;
+
+export class FileTransferError extends Error {}
+
+export const sha256Hex = async (data: ArrayBuffer) => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// قد تصل القطعة عرضاً (view) على جزء من مخزن أكبر، فننسخ ذلك الجزء وحده
+const toArrayBuffer = (data: ArrayBuffer | ArrayBufferView): ArrayBuffer =>
+  data instanceof ArrayBuffer
+    ? data
+    : new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer;
+
+interface Outgoing {
+  buffer: ArrayBuffer;
+  totalChunks: number;
+  nextIndex: number;
+  acked: number;
+}
+
+interface Incoming {
+  chunks: ArrayBuffer[];
+  chunkSize: number;
+  totalChunks: number;
+  received: number;
+  checksum: string;
+}
+
+// الحجم وحجم القطعة يحددان عدد القطع المحجوزة، فلا نقبل إلا أعداداً صحيحة في حدود معروفة
+const isAcceptableOffer = ({ size, chunkSize }: MessageOf<'FILE_OFFER'>) =>
+  Number.isInteger(size) && size >= 0 && size <= MAX_FILE_SIZE
+  && Number.isInteger(chunkSize) && chunkSize >= MIN_CHUNK_SIZE && chunkSize <= MAX_CHUNK_SIZE;
+
+interface FileTransferEvents {
+  change: () => void;
+  offered: (transfer: FileTransfer) => void;
+}
+
+const ACTIVE: TransferStatus[] = ['offered', 'transferring', 'verifying'];
+
+/**
+ * Chunked file transfer over the call's ProtocolChannel. The receiver has to
+ * accept an offer first; the sender then keeps at most WINDOW chunks ahead of
+ * the receiver's FILE_PROGRESS reports, and the receiver checks the SHA-256
+ * of the reassembled file before declaring it done.
+ */
+export class FileTransferManager extends Emitter<FileTransferEvents> {
+  private channel: ProtocolChannel | null = null;
+  private unsubscribe: (() => void)[] = [];
+  private transfers = new Map<string, FileTransfer>();
+  private outgoing = new Map<string, Outgoing>();
+  private incoming = new Map<string, Incoming>();
+  private snapshot: FileTransfer[] = [];
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get(id: string) {
+    return this.transfers.get(id);
+  }
+
+  attach(channel: ProtocolChannel) {
+    this.detach();
+    this.channel = channel;
+    this.unsubscribe = [
+      channel.onMessage('FILE_OFFER', m => this.handleOffer(m)),
+      channel.onMessage('FILE_ACCEPT', m => this.handleAccept(m.transferId)),
+      channel.onMessage('FILE_DECLINE', m => this.finish(m.transferId, 'declined')),
+      channel.onMessage('FILE_CANCEL', m => this.finish(m.transferId, 'cancelled')),
+      channel.onMessage('FILE_CHUNK', m => this.handleChunk(m)),
+      channel.onMessage('FILE_PROGRESS', m => this.handleProgress(m)),
+      channel.onMessage('FILE_RESULT', m => this.finish(m.transferId, m.ok ? 'done' : 'failed')),
+    ];
+  }
+
+  /** Stops listening; transfers that were still running are marked cancelled. */
+  detach() {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
+    this.channel = null;
+    this.transfers.forEach((t, id) => {
+      if (ACTIVE.includes(t.status)) this.finish(id, 'cancelled');
+    });
+  }
+
+  /** Forgets every transfer and releases their object URLs. */
+  reset() {
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.transfers.forEach(t => t.url && URL.revokeObjectURL(t.url));
+    this.transfers.clear();
+    this.publish();
+  }
+
+  async send(file: Blob, name: string) {
+    if (!this.channel) throw new FileTransferError('no active call');
+    if (file.size > MAX_FILE_SIZE) {
+      throw new FileTransferError(`file is larger than ${Math.round(MAX_FILE_SIZE / 1024 / 1024)} MB`);
+    }
+    const buffer = await file.arrayBuffer();
+    const checksum = await sha256Hex(buffer);
+    const id = createMessageId();
+    const mime = file.type || 'application/octet-stream';
+    const transfer: FileTransfer = {
+      id, direction: 'send', name, mime, size: file.size, transferred: 0, status: 'offered',
+      url: URL.createObjectURL(file),
+    };
+    this.outgoing.set(id, { buffer, totalChunks: Math.ceil(buffer.byteLength / CHUNK_SIZE), nextIndex: 0, acked: 0 });
+    this.transfers.set(id, transfer);
+    this.channel.send('FILE_OFFER', { transferId: id, name, mime, size: file.size, chunkSize: CHUNK_SIZE, checksum });
+    this.publish();
+    this.emit('offered', transfer);
+    return id;
+  }
+
+  accept(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || transfer.direction !== 'receive' || transfer.status !== 'offered') return;
+    this.channel?.send('FILE_ACCEPT', { transferId: id });
+    this.patch(id, { status: 'transferring' });
+    // الملف الفارغ لا قطع له، فيُتحقق منه فوراً
+    const inc = this.incoming.get(id);
+    if (inc && inc.totalChunks === 0) this.verify(id, inc);
+  }
+
+  decline(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || transfer.status !== 'offered') return;
+    this.channel?.send('FILE_DECLINE', { transferId: id });
+    this.finish(id, 'declined');
+  }
+
+  /** Either side may cancel; the call itself is unaffected. */
+  cancel(id: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || !ACTIVE.includes(transfer.status)) return;
+    this.channel?.send('FILE_CANCEL', { transferId: id });
+    this.finish(id, 'cancelled');
+  }
+
+  private handleOffer(m: MessageOf<'FILE_OFFER'>) {
+    if (this.transfers.has(m.transferId)) return;
+    const transfer: FileTransfer = {
+      id: m.transferId, direction: 'receive', name: m.name, mime: m.mime, size: m.size, transferred: 0, status: 'offered',
+    };
+    this.transfers.set(m.transferId, transfer);
+    if (!isAcceptableOffer(m)) {
+      this.channel?.send('FILE_DECLINE', { transferId: m.transferId });
+      this.finish(m.transferId, 'declined');
+    } else {
+      const totalChunks = Math.ceil(m.size / m.chunkSize);
+      this.incoming.set(m.transferId, { chunks: new Array(totalChunks), chunkSize: m.chunkSize, totalChunks, received: 0, checksum: m.checksum });
+      this.publish();
+    }
+    this.emit('offered', this.transfers.get(m.transferId)!);
+  }
+
+  private handleAccept(id: string) {
+    if (this.transfers.get(id)?.status !== 'offered' || !this.outgoing.has(id)) return;
+    this.patch(id, { status: 'transferring' });
+    this.pump(id);
+  }
+
+  private pump(id: string) {
+    const out = this.outgoing.get(id);
+    if (!out || !this.channel || this.transfers.get(id)?.status !== 'transferring') return;
+    while (out.nextIndex < out.totalChunks && out.nextIndex - out.acked < WINDOW) {
+      const start = out.nextIndex * CHUNK_SIZE;
+      const data = out.buffer.slice(start, start + CHUNK_SIZE);
+      this.channel.send('FILE_CHUNK', { transferId: id, index: out.nextIndex, data });
+      out.nextIndex++;
+    }
+  }
+
+  private handleProgress(m: MessageOf<'FILE_PROGRESS'>) {
+    const out = this.outgoing.get(m.transferId);
+    if (!out) return;
+    out.acked = Math.max(out.acked, m.received);
+    this.patch(m.transferId, { transferred: Math.min(out.acked * CHUNK_SIZE, out.buffer.byteLength) });
+    this.pump(m.transferId);
+  }
+
+  private handleChunk(m: MessageOf<'FILE_CHUNK'>) {
+    const inc = this.incoming.get(m.transferId);
+    const transfer = this.transfers.get(m.transferId);
+    if (!inc || transfer?.status !== 'transferring') return;
+    if (!Number.isInteger(m.index) || m.index < 0 || m.index >= inc.totalChunks || inc.chunks[m.index]) return;
+    const data = toArrayBuffer(m.data as ArrayBuffer | ArrayBufferView);
+    // قطعة أكبر مما أُعلن لا تأتي من مرسل سليم، فنوقف النقل بدل تجميعها
+    if (data.byteLength > inc.chunkSize) {
+      this.channel?.send('FILE_RESULT', { transferId: m.transferId, ok: false });
+      this.finish(m.transferId, 'failed');
+      return;
+    }
+    inc.chunks[m.index] = data;
+    inc.received++;
+    this.patch(m.transferId, { transferred: Math.min(transfer.transferred + data.byteLength, transfer.size) });
+    const complete = inc.received === inc.totalChunks;
+    if (complete || inc.received % PROGRESS_EVERY === 0) {
+      this.channel?.send('FILE_PROGRESS', { transferId: m.transferId, received: inc.received });
+    }
+    if (complete) this.verify(m.transferId, inc);
+  }
+
+  private async verify(id: string, inc: Incoming) {
+    this.patch(id, { status: 'verifying' });
+    const transfer = this.transfers.get(id)!;
+    const blob = new Blob(inc.chunks, { type: transfer.mime });
+    const ok = blob.size === transfer.size && (await sha256Hex(await blob.arrayBuffer())) === inc.checksum;
+    this.incoming.delete(id);
+    if (this.transfers.get(id)?.status !== 'verifying') return;
+    this.channel?.send('FILE_RESULT', { transferId: id, ok });
+    if (ok) this.patch(id, { url: URL.createObjectURL(blob) });
+    this.finish(id, ok ? 'done' : 'failed');
+  }
+
+  private finish(id: string, status: TransferStatus) {
+    const transfer = this.transfers.get(id);
+    if (!transfer || !ACTIVE.includes(transfer.status)) return;
+    this.outgoing.delete(id);
+    this.incoming.delete(id);
+    this.patch(id, status === 'done' ? { status, transferred: transfer.size } : { status });
+  }
+
+  private patch(id: string, patch: Partial<FileTransfer>) {
+    const transfer = this.transfers.get(id);
+    if (!transfer) return;
+    this.transfers.set(id, { ...transfer, ...patch });
+    this.publish();
+  }
+
+  private publish() {
+    this.snapshot = [...this.transfers.values()];
+    this.emit('change');
+  }
+}
@@ -0,0 +1,280 @@
+import { ChatManager } from './chat.ts';
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+import { MAX_ROOM_SIZE } from './matchmakingProtocol.ts';
+import { MessageType, PayloadArgs, ProtocolChannel, ProtocolIssue, ProtocolMessage } from './protocol.ts';
+import { VerificationStatus } from './peerVerification.ts';
+import { attachRenegotiation, sendTrackOn } from './renegotiation.ts';
+import { DataConnectionLike, MediaConnectionLike, PeerLike } from './transport.ts';
+
+/** The most people in a group call, ourselves included. */
+export const MAX_GROUP_SIZE = MAX_ROOM_SIZE;
+/** How long an invited person has to answer. */
+export const INVITE_TIMEOUT = 30000;
+
+export interface Participant {
+  peerId: string;
+  stream: MediaStream | null;
+  muted: boolean;
+  videoActive: boolean;
+  verification: VerificationStatus;
+}
+
+/** What a member needs to know about our side when a link opens. */
+export interface LocalMediaState {
+  muted: boolean;
+  video: boolean;
+}
+
+export interface GroupCallDeps {
+  peer: () => PeerLike | null;
+  localStream: () => MediaStream | null;
+  mediaState: () => LocalMediaState;
+  /** Runs the identity check on a new link. */
+  verify: (channel: ProtocolChannel) => Promise<VerificationStatus>;
+  chat: ChatManager;
+}
+
+interface GroupCallEvents {
+  change: () => void;
+  /** A participant left or their link broke for good; `joined` is false when they never connected. */
+  left: (peerId: string, joined: boolean) => void;
+  notice: (text: Message) => void;
+  issue: (issue: ProtocolIssue) => void;
+}
+
+interface Link {
+  peerId: string;
+  call: MediaConnectionLike | null;
+  channel: ProtocolChannel | null;
+  // من ردّ على الاتصال يتنازل عند تزامن عرضين
+  polite: boolean;
+  renegotiation: { pc: RTCPeerConnection; stop: () => void } | null;
+  offs: (() => void)[];
+  inviteTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * A mesh call: one media connection and one data channel to every other
+ * participant. The call goes on when somebody leaves; an ad-hoc group ends
+ * with its last member, a room stays open for whoever joins next.
+ */
+export class GroupCall extends Emitter<GroupCallEvents> {
+  private links = new Map<string, Link>();
+  private groupId: string | null = null;
+  private participants: Participant[] = [];
+
+  constructor(private readonly deps: GroupCallDeps) {
+    super();
+  }
+
+  getSnapshot = () => this.participants;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get id() {
+    return this.groupId;
+  }
+
+  /** Other participants, connected or still being dialled. */
+  get size() {
+    return this.links.size;
+  }
+
+  get isFull() {
+    return this.links.size + 1 >= MAX_GROUP_SIZE;
+  }
+
+  has(peerId: string) {
+    return this.links.has(peerId);
+  }
+
+  start(id: string) {
+    this.leave(false);
+    this.groupId = id;
+  }
+
+  /** Takes over the connections of what was a one-to-one call. */
+  adopt(call: MediaConnectionLike, channel: ProtocolChannel, polite: boolean, state: Omit<Participant, 'peerId'>) {
+    const link = this.link(call.peer, polite);
+    this.patch(link.peerId, state);
+    this.setChannel(link, channel, false);
+    this.setCall(link, call);
+  }
+
+  /**
+   * Dials a member. With `invite` the person is not in the group yet: they are
+   * told who else is in it, and dropped if they do not answer in time.
+   */
+  connectTo(peerId: string, invite = false) {
+    const peer = this.deps.peer();
+    const stream = this.deps.localStream();
+    if (!this.groupId || !peer || !stream || this.links.has(peerId) || peerId === peer.id) return;
+    if (this.isFull) {
+      this.emit('notice', msg('notice.groupFull'));
+      return;
+    }
+    const metadata = { group: this.groupId };
+    const link = this.link(peerId, false);
+    this.setChannel(link, new ProtocolChannel(peer.connect(peerId, { reliable: true, metadata })), true);
+    this.setCall(link, peer.call(peerId, stream, { metadata }));
+    if (!invite) return;
+    link.channel!.send('GROUP', { id: this.groupId, members: [...this.links.keys()].filter(id => id !== peerId) });
+    link.inviteTimer = setTimeout(() => {
+      link.inviteTimer = null;
+      if (this.links.get(peerId) !== link || this.streamOf(peerId)) return;
+      this.drop(peerId);
+      this.emit('notice', msg('notice.noAnswer', { peerId }));
+    }, INVITE_TIMEOUT);
+  }
+
+  /** A member's media connection; the caller belongs to this group (checked by the caller of this method). */
+  acceptCall(call: MediaConnectionLike) {
+    const stream = this.deps.localStream();
+    if (!stream || (!this.links.has(call.peer) && this.isFull)) {
+      call.close();
+      return;
+    }
+    const link = this.links.get(call.peer) ?? this.link(call.peer, true);
+    call.answer(stream);
+    this.setCall(link, call);
+  }
+
+  /** A member's data connection. */
+  acceptConnection(conn: DataConnectionLike) {
+    if (!this.links.has(conn.peer) && this.isFull) {
+      conn.close();
+      return;
+    }
+    const link = this.links.get(conn.peer) ?? this.link(conn.peer, true);
+    this.setChannel(link, new ProtocolChannel(conn), true);
+  }
+
+  /** Sends a message to every participant. */
+  broadcast<T extends MessageType>(type: T, ...payload: PayloadArgs<T>) {
+    this.links.forEach(link => link.channel?.send(type, ...payload));
+  }
+
+  /** Puts a track on every media connection, e.g. when the camera is turned on. */
+  async sendTrack(media: 'audio' | 'video', track: MediaStreamTrack | null, stream: MediaStream | null) {
+    await Promise.all([...this.links.values()].map(link => sendTrackOn(link.call?.peerConnection ?? undefined, media, track, stream)));
+  }
+
+  /** Leaves the group, telling everybody when `notify` is set. */
+  leave(notify: boolean) {
+    [...this.links.keys()].forEach(peerId => this.drop(peerId, notify, false));
+    this.groupId = null;
+  }
+
+  private link(peerId: string, polite: boolean) {
+    const link: Link = { peerId, call: null, channel: null, polite, renegotiation: null, offs: [], inviteTimer: null };
+    this.links.set(peerId, link);
+    this.publish([...this.participants, { peerId, stream: null, muted: false, videoActive: false, verification: 'pending' }]);
+    return link;
+  }
+
+  private setCall(link: Link, call: MediaConnectionLike) {
+    if (link.call && link.call !== call) link.call.close();
+    link.call = call;
+    // يتكرر الحدث مع كل مسار جديد يصل بعد إعادة التفاوض
+    call.on('stream', stream => {
+      if (link.call !== call) return;
+      this.patch(link.peerId, { stream });
+      this.bindRenegotiation(link);
+    });
+    const onEnd = () => {
+      if (link.call === call) this.drop(link.peerId);
+    };
+    call.on('close', onEnd);
+    call.on('error', onEnd);
+    this.bindRenegotiation(link);
+  }
+
+  private setChannel(link: Link, channel: ProtocolChannel, fresh: boolean) {
+    link.channel = channel;
+    this.deps.chat.add(channel);
+    link.offs.push(
+      channel.on('message', message => this.handleMessage(link, message)),
+      channel.on('issue', issue => this.emit('issue', issue)),
+      channel.on('close', () => {
+        if (link.channel === channel) this.drop(link.peerId);
+      }),
+    );
+    // قناة جديدة، لا قناة مكالمة ثنائية تم التحقق منها: نتحقق من الهوية ونعلن حالتنا
+    if (fresh) {
+      this.deps.verify(channel).then(verification => {
+        if (this.links.get(link.peerId) !== link) return;
+        this.patch(link.peerId, { verification });
+        if (verification === 'key-changed' || verification === 'failed') this.emit('notice', msg('notice.participantUnverified', { peerId: link.peerId }));
+      });
+      const { muted, video } = this.deps.mediaState();
+      channel.send('MEDIA_STATE', { muted, held: false });
+      if (video) channel.send('VIDEO_SIGNAL', { enabled: true });
+    }
+    this.bindRenegotiation(link);
+  }
+
+  private handleMessage(link: Link, message: ProtocolMessage) {
+    if (this.links.get(link.peerId) !== link) return;
+    switch (message.type) {
+      case 'DISCONNECT':
+        this.drop(link.peerId);
+        break;
+      case 'REJECTED':
+        this.drop(link.peerId);
+        this.emit('notice', msg('notice.participantDeclined', { peerId: link.peerId }));
+        break;
+      case 'BUSY':
+        this.drop(link.peerId);
+        this.emit('notice', msg('notice.participantBusy', { peerId: link.peerId }));
+        break;
+      case 'MEDIA_STATE':
+        this.patch(link.peerId, { muted: message.muted });
+        break;
+      case 'VIDEO_SIGNAL':
+        this.patch(link.peerId, { videoActive: message.enabled !== false });
+        break;
+    }
+  }
+
+  private bindRenegotiation(link: Link) {
+    const pc = link.call?.peerConnection;
+    const channel = link.channel;
+    if (!pc || !channel || link.renegotiation?.pc === pc) return;
+    link.renegotiation?.stop();
+    link.renegotiation = { pc, stop: attachRenegotiation(pc, channel, link.polite) };
+  }
+
+  private drop(peerId: string, notify = false, announce = true) {
+    const link = this.links.get(peerId);
+    if (!link) return;
+    this.links.delete(peerId);
+    if (link.inviteTimer) clearTimeout(link.inviteTimer);
+    link.offs.forEach(off => off());
+    link.renegotiation?.stop();
+    const { channel, call } = link;
+    if (channel) this.deps.chat.remove(channel);
+    if (channel && notify) {
+      channel.closeAfter('DISCONNECT').then(() => call?.close());
+    } else {
+      channel?.close();
+      call?.close();
+    }
+    const joined = !!this.streamOf(peerId);
+    this.publish(this.participants.filter(p => p.peerId !== peerId));
+    if (announce) this.emit('left', peerId, joined);
+  }
+
+  private streamOf(peerId: string) {
+    return this.participants.find(p => p.peerId === peerId)?.stream ?? null;
+  }
+
+  private patch(peerId: string, patch: Partial<Participant>) {
+    this.publish(this.participants.map(p => (p.peerId === peerId ? { ...p, ...patch } : p)));
+  }
+
+  private publish(participants: Participant[]) {
+    this.participants = participants;
+    this.emit('change');
+  }
+}
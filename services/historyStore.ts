@@ -0,0 +1,127 @@
+import { CallRecord, Contact } from '../types.ts';
+import { Emitter } from './emitter.ts';
+
+const DB_NAME = 'anyone';
+const DB_VERSION = 1;
+const CALLS = 'calls';
+const CONTACTS = 'contacts';
+const MAX_CALLS = 500;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(CALLS)) {
+      db.createObjectStore(CALLS, { keyPath: 'id', autoIncrement: true }).createIndex('startedAt', 'startedAt');
+    }
+    if (!db.objectStoreNames.contains(CONTACTS)) {
+      db.createObjectStore(CONTACTS, { keyPath: 'peerId' });
+    }
+  };
+  return promisify(request);
+};
+
+interface HistoryStoreEvents {
+  change: () => void;
+}
+
+/**
+ * Call log and contacts kept on this device only (IndexedDB). Nothing here is
+ * ever sent to the other party or to a server.
+ */
+export class HistoryStore extends Emitter<HistoryStoreEvents> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private async tx(stores: string | string[], mode: IDBTransactionMode) {
+    this.db ??= openDatabase();
+    return (await this.db).transaction(stores, mode);
+  }
+
+  async addCall(record: CallRecord) {
+    const tx = await this.tx(CALLS, 'readwrite');
+    const store = tx.objectStore(CALLS);
+    const { id, ...entry } = record;
+    await promisify(store.add(entry));
+    // نحتفظ بآخر المكالمات فقط
+    const count = await promisify(store.count());
+    if (count > MAX_CALLS) {
+      const cursorRequest = store.index('startedAt').openCursor();
+      let excess = count - MAX_CALLS;
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || excess-- <= 0) return resolve();
+          cursor.delete();
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+    }
+    this.emit('change');
+  }
+
+  /** Newest first, optionally filtered by ID or contact nickname. */
+  async listCalls(query = ''): Promise<CallRecord[]> {
+    const [calls, contacts] = await Promise.all([
+      this.tx(CALLS, 'readonly').then(tx => promisify<CallRecord[]>(tx.objectStore(CALLS).getAll())),
+      this.listContacts(),
+    ]);
+    const needle = query.trim().toLowerCase();
+    const names = new Map(contacts.map(c => [c.peerId, c.nickname.toLowerCase()]));
+    return calls
+      .filter(c => !needle || c.peerId.includes(needle) || names.get(c.peerId)?.includes(needle))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async clearCalls() {
+    const tx = await this.tx(CALLS, 'readwrite');
+    await promisify(tx.objectStore(CALLS).clear());
+    this.emit('change');
+  }
+
+  /** Favourites first, then alphabetical. */
+  async listContacts(query = ''): Promise<Contact[]> {
+    const tx = await this.tx(CONTACTS, 'readonly');
+    const contacts = await promisify<Contact[]>(tx.objectStore(CONTACTS).getAll());
+    const needle = query.trim().toLowerCase();
+    return contacts
+      .filter(c => !needle || c.peerId.includes(needle) || c.nickname.toLowerCase().includes(needle))
+      .sort((a, b) => Number(b.favourite) - Number(a.favourite) || a.nickname.localeCompare(b.nickname));
+  }
+
+  async getContact(peerId: string): Promise<Contact | undefined> {
+    const tx = await this.tx(CONTACTS, 'readonly');
+    return promisify<Contact | undefined>(tx.objectStore(CONTACTS).get(peerId));
+  }
+
+  async saveContact(contact: Omit<Contact, 'createdAt'> & { createdAt?: number }) {
+    const existing = await this.getContact(contact.peerId);
+    const tx = await this.tx(CONTACTS, 'readwrite');
+    await promisify(tx.objectStore(CONTACTS).put({ ...contact, createdAt: existing?.createdAt ?? contact.createdAt ?? Date.now() }));
+    this.emit('change');
+  }
+
+  async removeContact(peerId: string) {
+    const tx = await this.tx(CONTACTS, 'readwrite');
+    await promisify(tx.objectStore(CONTACTS).delete(peerId));
+    this.emit('change');
+  }
+
+  /** Everything stored, as pretty-printed JSON for the user to download. */
+  async exportAll() {
+    const [calls, contacts] = await Promise.all([this.listCalls(), this.listContacts()]);
+    return JSON.stringify({ exportedAt: new Date().toISOString(), calls, contacts }, null, 2);
+  }
+
+  async clearAll() {
+    const tx = await this.tx([CALLS, CONTACTS], 'readwrite');
+    await Promise.all([promisify(tx.objectStore(CALLS).clear()), promisify(tx.objectStore(CONTACTS).clear())]);
+    this.emit('change');
+  }
+}
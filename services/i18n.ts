@@ -0,0 +1,94 @@
+import { Emitter } from './emitter.ts';
+import { LOCALES, Locale, LocaleInfo, MessageKey, translate } from '../locales/index.ts';
+
+const STORAGE_KEY = 'anyone_ui_language';
+const DEFAULT_LOCALE: Locale = 'ar';
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Text that a service wants shown, kept as a key so it is translated when
+ * rendered and follows the language picker even after it was raised.
+ */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const msg = (key: MessageKey, params?: MessageParams): Message => ({ key, params });
+
+export interface Translator {
+  locale: Locale;
+  dir: LocaleInfo['dir'];
+  t: (text: MessageKey | Message, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** m:ss, in the locale's digits. */
+  formatDuration: (seconds: number) => string;
+  formatDate: (timestamp: number, options: Intl.DateTimeFormatOptions) => string;
+}
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(info => info.code === value);
+
+const initialLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {}
+  const browser = typeof navigator !== 'undefined' ? navigator.language?.split('-')[0] : undefined;
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+const createTranslator = (locale: Locale): Translator => {
+  const dir = LOCALES.find(info => info.code === locale)!.dir;
+  const numbers = new Intl.NumberFormat(locale);
+  const twoDigits = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2 });
+
+  return {
+    locale,
+    dir,
+    t: (text, params) => {
+      const { key, params: own } = typeof text === 'string' ? { key: text, params: undefined } : text;
+      return translate(locale, key, params ?? own);
+    },
+    formatNumber: (value, options) => (options ? new Intl.NumberFormat(locale, options) : numbers).format(value),
+    formatDuration: (seconds) => `${numbers.format(Math.floor(seconds / 60))}:${twoDigits.format(seconds % 60)}`,
+    formatDate: (timestamp, options) => new Date(timestamp).toLocaleString(locale, options),
+  };
+};
+
+/**
+ * Current interface language. Separate from the language used for random
+ * matching: someone can read the app in English and still be matched with
+ * Arabic speakers.
+ */
+export class I18n extends Emitter<{ change: () => void }> {
+  private translator: Translator;
+
+  constructor(locale: Locale = initialLocale()) {
+    super();
+    this.translator = createTranslator(locale);
+    this.applyToDocument();
+  }
+
+  getSnapshot = () => this.translator;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  setLocale(locale: Locale) {
+    if (locale === this.translator.locale) return;
+    this.translator = createTranslator(locale);
+    try {
+      localStorage.setItem(STORAGE_KEY, locale);
+    } catch {}
+    this.applyToDocument();
+    this.emit('change');
+  }
+
+  private applyToDocument() {
+    if (typeof document === 'undefined') return;
+    document.documentElement.lang = this.translator.locale;
+    document.documentElement.dir = this.translator.dir;
+  }
+}
+
+export const i18n = new I18n();
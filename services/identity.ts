@@ -0,0 +1,113 @@
+import { decode, encode } from './audioService.ts';
+
+const DB_NAME = 'anyone_identity';
+const DB_VERSION = 1;
+const KEYS = 'keys';
+const DEVICE_KEY = 'device';
+/** Digits in a peer ID derived from a public key. */
+export const DERIVED_ID_LENGTH = 12;
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+// 64 رمزاً سهلة التمييز عند قراءتها بصوت عالٍ
+const EMOJI = [
+  '🐶', '🐱', '🦁', '🐴', '🦄', '🐷', '🐘', '🐰', '🐼', '🐔', '🐧', '🐢', '🐟', '🐙', '🦋', '🌷',
+  '🌳', '🌵', '🍄', '🌍', '🌙', '☁️', '🔥', '🍌', '🍎', '🍓', '🌽', '🍕', '🎂', '❤️', '😀', '🤖',
+  '🏠', '🚗', '🚲', '⛵', '✈️', '🚀', '⏰', '☂️', '🎈', '🎁', '🔑', '🔨', '📌', '✏️', '📚', '🎸',
+  '🎺', '🏆', '⚽', '🎲', '🧩', '👓', '🎩', '👑', '💡', '📷', '🔔', '⚓', '🧲', '🌈', '⭐', '🍀',
+];
+
+interface StoredIdentity {
+  peerId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+export interface SafetyNumber {
+  /** Six groups of five digits. */
+  digits: string;
+  emoji: string;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(KEYS)) request.result.createObjectStore(KEYS);
+  };
+  return promisify(request);
+};
+
+const sha256 = async (text: string) => new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+/** Reads `count` bytes from `offset` as an unsigned big-endian number (at most 6 bytes). */
+const readNumber = (bytes: Uint8Array, offset: number, count: number) =>
+  bytes.slice(offset, offset + count).reduce((n, byte) => n * 256 + byte, 0);
+
+/**
+ * The peer ID a public key stands for: a number taken from the key's SHA-256
+ * fingerprint. At about 40 bits another key with the same ID can be found by
+ * brute force, so a match only rules out casual impostors; the key itself is
+ * still pinned on first use.
+ */
+export const peerIdFor = async (publicKey: string) => {
+  const hash = await sha256(publicKey);
+  return (readNumber(hash, 0, 6) % 10 ** DERIVED_ID_LENGTH).toString().padStart(DERIVED_ID_LENGTH, '0');
+};
+
+/** IDs from before keys existed are 8 digits and have no key to match, only the pinned one. */
+export const isDerivedId = (peerId: string) => peerId.length === DERIVED_ID_LENGTH && /^\d+$/.test(peerId);
+
+/**
+ * The same short code on both phones when, and only when, each side holds the
+ * key the other one sees. Independent of who called whom.
+ */
+export const safetyNumberOf = async (keyA: string, keyB: string): Promise<SafetyNumber> => {
+  const hash = await sha256([keyA, keyB].sort().join('|'));
+  const groups = Array.from({ length: 6 }, (_, i) => (readNumber(hash, i * 4, 4) % 100000).toString().padStart(5, '0'));
+  const emoji = Array.from({ length: 6 }, (_, i) => EMOJI[hash[24 + i] % EMOJI.length]);
+  return { digits: groups.join(' '), emoji: emoji.join(' ') };
+};
+
+export const verifySignature = async (publicKey: string, signature: string, data: string) => {
+  try {
+    const key = await crypto.subtle.importKey('spki', decode(publicKey), KEY_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_ALGORITHM, key, decode(signature), new TextEncoder().encode(data));
+  } catch (e) {
+    // مفتاح أو توقيع مشوّه
+    return false;
+  }
+};
+
+/**
+ * This device's signing key. The private key is generated non-extractable and
+ * kept in IndexedDB, so scripts can use it but never read it out. New devices
+ * get a peer ID derived from the public key; a device that already had a
+ * random ID keeps it so that saved contacts still reach it.
+ */
+export class DeviceIdentity {
+  private constructor(readonly peerId: string, readonly publicKey: string, private readonly privateKey: CryptoKey) {}
+
+  static async load(legacyId: string | null) {
+    const db = await openDatabase();
+    const stored = await promisify<StoredIdentity | undefined>(db.transaction(KEYS, 'readonly').objectStore(KEYS).get(DEVICE_KEY));
+    if (stored) return new DeviceIdentity(stored.peerId, stored.publicKey, stored.privateKey);
+    const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+    const publicKey = encode(new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey)));
+    const peerId = legacyId ?? (await peerIdFor(publicKey));
+    const identity: StoredIdentity = { peerId, publicKey, privateKey: pair.privateKey };
+    await promisify(db.transaction(KEYS, 'readwrite').objectStore(KEYS).put(identity, DEVICE_KEY));
+    return new DeviceIdentity(peerId, publicKey, pair.privateKey);
+  }
+
+  async sign(data: string) {
+    const signature = await crypto.subtle.sign(SIGN_ALGORITHM, this.privateKey, new TextEncoder().encode(data));
+    return encode(new Uint8Array(signature));
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { msg } from './i18n.ts';
+import { INCOMING_CALL_LIMIT, INCOMING_CALL_WINDOW, IncomingRouter, RoutingState } from './incomingCalls.ts';
+import { DataConnectionLike, MediaConnectionLike } from './transport.ts';
+
+const PARTNER = 'partner';
+const STRANGER = 'stranger';
+
+const idle: RoutingState = {
+  free: true, matching: false, partnerId: null, inCall: false, recovering: false, canWait: false, waitingId: null,
+  isBlocked: () => false, isGroupMember: () => false,
+};
+
+const inCallWith = (partnerId: string, patch: Partial<RoutingState> = {}): RoutingState => ({
+  ...idle, free: false, partnerId, inCall: true, canWait: true, ...patch,
+});
+
+// الموجّه لا يقرأ من الاتصال سوى المعرف والبيانات الوصفية
+const conn = (peer: string, metadata?: any) => ({ peer, metadata }) as DataConnectionLike;
+const call = (peer: string, metadata?: any) => ({ peer, metadata }) as MediaConnectionLike;
+
+const setup = (initial: RoutingState = idle) => {
+  let state = initial;
+  let now = 0;
+  const router = new IncomingRouter(() => state, () => now);
+  const notices: unknown[] = [];
+  router.on('notice', text => notices.push(text));
+  return {
+    router,
+    notices,
+    set: (next: RoutingState) => { state = next; },
+    advance: (ms: number) => { now += ms; },
+  };
+};
+
+describe('IncomingRouter', () => {
+  it('lets a new call ring while nothing is in progress', () => {
+    const { router } = setup();
+
+    expect(router.routeConnection(conn(STRANGER))).toBe('call');
+    expect(router.routeCall(call(STRANGER))).toBe('ring');
+  });
+
+  it('refuses blocked callers, except a matched partner who is just dropped', () => {
+    const blocked = { ...idle, isBlocked: (peerId: string) => peerId === STRANGER };
+    const { router, set } = setup(blocked);
+
+    expect(router.routeConnection(conn(STRANGER))).toBe('REJECTED');
+    expect(router.routeCall(call(STRANGER))).toBe('close');
+
+    set({ ...blocked, free: false, matching: true, partnerId: STRANGER });
+    expect(router.routeConnection(conn(STRANGER))).toBe('close');
+  });
+
+  it('hands group members to the group call', () => {
+    const { router } = setup(inCallWith(PARTNER, { isGroupMember: c => c.metadata?.group === 'g1' }));
+
+    expect(router.routeConnection(conn(STRANGER, { group: 'g1' }))).toBe('group');
+    expect(router.routeCall(call(STRANGER, { group: 'g1' }))).toBe('group');
+  });
+
+  it('keeps a partner that arrives before the match is announced', () => {
+    const { router, set } = setup({ ...idle, free: false, matching: true });
+
+    expect(router.routeConnection(conn(PARTNER))).toBe('early');
+    expect(router.routeCall(call(PARTNER))).toBe('early');
+
+    set({ ...idle, free: false, matching: true, partnerId: PARTNER });
+    expect(router.routeConnection(conn(PARTNER))).toBe('call');
+    expect(router.routeCall(call(PARTNER))).toBe('partner');
+  });
+
+  it('takes a redial from the partner while the call recovers', () => {
+    const { router } = setup(inCallWith(PARTNER, { recovering: true }));
+
+    expect(router.routeConnection(conn(PARTNER, { resume: true }))).toBe('resume');
+    expect(router.routeCall(call(PARTNER, { resume: true }))).toBe('resume');
+  });
+
+  it('takes a redial from the partner that arrives before the drop is noticed', () => {
+    const { router } = setup(inCallWith(PARTNER));
+
+    expect(router.routeConnection(conn(PARTNER, { resume: true }))).toBe('resume');
+    expect(router.routeCall(call(PARTNER, { resume: true }))).toBe('resume');
+    expect(router.routeConnection(conn(STRANGER, { resume: true }))).toBe('DISCONNECT');
+  });
+
+  it('tells somebody resuming a call that is over that it ended', () => {
+    const { router } = setup();
+
+    expect(router.routeConnection(conn(PARTNER, { resume: true }))).toBe('DISCONNECT');
+    expect(router.routeCall(call(PARTNER, { resume: true }))).toBe('close');
+  });
+
+  it('lets a second caller wait behind the call, and rings when their media arrives', () => {
+    const { router, set } = setup(inCallWith(PARTNER));
+
+    expect(router.routeConnection(conn(STRANGER))).toBe('waiting');
+    set(inCallWith(PARTNER, { canWait: false, waitingId: STRANGER }));
+    expect(router.routeCall(call(STRANGER))).toBe('waiting');
+  });
+
+  it('answers busy when nobody more may wait', () => {
+    const { router } = setup(inCallWith(PARTNER, { canWait: false, waitingId: 'someone-else' }));
+
+    expect(router.routeConnection(conn(STRANGER))).toBe('BUSY');
+    expect(router.routeCall(call(STRANGER))).toBe('close');
+  });
+
+  it('refuses an ID that calls too often within the window, with one notice', () => {
+    const { router, notices, advance } = setup();
+
+    for (let i = 0; i < INCOMING_CALL_LIMIT; i++) expect(router.routeConnection(conn(STRANGER))).toBe('call');
+    expect(router.routeConnection(conn(STRANGER))).toBe('BUSY');
+    expect(router.routeCall(call(STRANGER))).toBe('close');
+    expect(router.routeConnection(conn(STRANGER))).toBe('BUSY');
+    expect(notices).toEqual([msg('notice.repeatedCalls', { peerId: STRANGER })]);
+    expect(router.routeConnection(conn('another'))).toBe('call');
+
+    advance(INCOMING_CALL_WINDOW);
+    expect(router.routeConnection(conn(STRANGER))).toBe('call');
+  });
+
+  it('does not count the channels of the current call against the limit', () => {
+    const { router } = setup(inCallWith(PARTNER, { recovering: true }));
+
+    for (let i = 0; i < INCOMING_CALL_LIMIT + 2; i++) {
+      expect(router.routeConnection(conn(PARTNER, { resume: true }))).toBe('resume');
+    }
+  });
+});
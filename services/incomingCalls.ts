@@ -0,0 +1,108 @@
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+import { RateLimiter } from './rateLimit.ts';
+import { DataConnectionLike, MediaConnectionLike } from './transport.ts';
+
+/** Calls one ID may place to us within INCOMING_CALL_WINDOW before the rest are refused. */
+export const INCOMING_CALL_LIMIT = 3;
+export const INCOMING_CALL_WINDOW = 60000;
+
+type Connection = DataConnectionLike | MediaConnectionLike;
+
+/** What the session is doing, as far as a new connection is concerned. */
+export interface RoutingState {
+  /** Nothing is in progress and a new call may ring. */
+  free: boolean;
+  /** Random matching is running, whether or not a partner was named yet. */
+  matching: boolean;
+  /** The person the current call, or the current match, is with. */
+  partnerId: string | null;
+  /** A one-to-one call with `partnerId` is up or being brought back. */
+  inCall: boolean;
+  /** The call with `partnerId` dropped and is being brought back. */
+  recovering: boolean;
+  /** A second caller may wait behind the current call. */
+  canWait: boolean;
+  /** The caller waiting behind the current call whose media has not arrived yet. */
+  waitingId: string | null;
+  isBlocked: (peerId: string) => boolean;
+  /** The connection belongs to the group call we are in. */
+  isGroupMember: (connection: Connection) => boolean;
+}
+
+/**
+ * Where an incoming data connection goes. The upper-case routes refuse it
+ * with that message; `close` drops it without a word.
+ */
+export type ConnectionRoute = 'group' | 'early' | 'resume' | 'waiting' | 'call' | 'close' | 'REJECTED' | 'BUSY' | 'DISCONNECT';
+
+/**
+ * Where an incoming media connection goes; `partner` is the matched partner
+ * calling us. For both kinds, `resume` is the partner redialling the current
+ * call, which may arrive before we noticed that it dropped.
+ */
+export type CallRoute = 'group' | 'early' | 'partner' | 'resume' | 'waiting' | 'ring' | 'close';
+
+interface IncomingRouterEvents {
+  notice: (text: Message) => void;
+}
+
+/**
+ * Decides what happens to each connection another device opens to us: a
+ * group member, the matched partner arriving early, a redial after a drop,
+ * a second caller, a new call, or somebody to turn away. Every call places a
+ * data connection and a media connection; both are routed the same way, and
+ * the data connection is what counts against INCOMING_CALL_LIMIT.
+ */
+export class IncomingRouter extends Emitter<IncomingRouterEvents> {
+  private readonly attempts: RateLimiter;
+
+  constructor(private readonly state: () => RoutingState, now: () => number = Date.now) {
+    super();
+    this.attempts = new RateLimiter(INCOMING_CALL_LIMIT, INCOMING_CALL_WINDOW, now);
+  }
+
+  routeConnection(conn: DataConnectionLike): ConnectionRoute {
+    const state = this.state();
+    // المحظور لا يدخل حتى بادعاء أنه عضو في المجموعة
+    if (state.isBlocked(conn.peer)) {
+      // شريك المطابقة يعود للقائمة بعد مهلته، ومن سواه يرى رفضاً عادياً
+      return state.matching ? 'close' : 'REJECTED';
+    }
+    if (state.isGroupMember(conn)) return 'group';
+    // المكالمة انتهت لدينا، نخبر الطرف الذي يحاول استعادتها
+    if (conn.metadata?.resume) return this.isResuming(state, conn.peer) ? 'resume' : 'DISCONNECT';
+    // الشريك قد يتصل قبل وصول رسالة المطابقة إلينا من الخادم
+    if (state.matching && !state.partnerId) return 'early';
+    if (state.free || conn.peer !== state.partnerId) {
+      const attempts = this.attempts.hit(conn.peer);
+      if (attempts > INCOMING_CALL_LIMIT) {
+        if (attempts === INCOMING_CALL_LIMIT + 1) this.emit('notice', msg('notice.repeatedCalls', { peerId: conn.peer }));
+        return 'BUSY';
+      }
+    }
+    if (!state.free && conn.peer !== state.partnerId) return state.canWait ? 'waiting' : 'BUSY';
+    return 'call';
+  }
+
+  routeCall(call: MediaConnectionLike): CallRoute {
+    const state = this.state();
+    if (state.isBlocked(call.peer)) return 'close';
+    if (state.isGroupMember(call)) return 'group';
+    if (call.metadata?.resume) return this.isResuming(state, call.peer) ? 'resume' : 'close';
+    if (state.matching && !state.partnerId) return 'early';
+    if (state.matching && call.peer === state.partnerId) return 'partner';
+    // الطرف الآخر يعيد الاتصال بعد انقطاع الشبكة
+    if (state.recovering && call.peer === state.partnerId) return 'resume';
+    // المكالمة الثانية ترن حين تصل وسائطها، كما ترن الأولى
+    if (state.waitingId === call.peer) return 'waiting';
+    // المتصل عرف بالانشغال عبر قناة البيانات، فلا داعي للرد على المكالمة
+    if (!state.free || this.attempts.isLimited(call.peer)) return 'close';
+    return 'ring';
+  }
+
+  // الطرف الآخر قد يلاحظ الانقطاع قبلنا، فتصل إعادة اتصاله والمكالمة عندنا ما زالت قائمة
+  private isResuming(state: RoutingState, peerId: string) {
+    return (state.inCall || state.recovering) && peerId === state.partnerId;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Invite links (`/?call=<id>`) and one-time invite IDs. A one-time ID is a
+ * second, temporary Peer that rings on this device, so whoever gets it can
+ * call without learning the permanent ID.
+ */
+
+/** Marks a one-time invite ID; permanent IDs are digits only. */
+export const INVITE_PREFIX = 'inv-';
+const INVITE_LENGTH = 10;
+const ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+// ما يقبله خادم PeerJS معرفاً
+const PEER_ID = /^[A-Za-z0-9][\w-]{0,63}$/;
+
+export const isInviteId = (peerId: string) => peerId.startsWith(INVITE_PREFIX);
+
+export const createInviteId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_LENGTH));
+  return INVITE_PREFIX + Array.from(bytes, byte => ALPHABET[byte % ALPHABET.length]).join('');
+};
+
+export const inviteLink = (peerId: string, origin = location.origin) => `${origin}/?call=${encodeURIComponent(peerId)}`;
+
+/** The ID in an invite link, as scanned or pasted; a bare ID is accepted too. Null when it is neither. */
+export const parseInvite = (text: string): string | null => {
+  const value = text.trim();
+  let id = value;
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      id = new URL(value).searchParams.get('call') ?? '';
+    } catch {
+      return null;
+    }
+  }
+  return PEER_ID.test(id) ? id : null;
+};
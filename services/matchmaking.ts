@@ -0,0 +1,138 @@
+import { Emitter } from './emitter.ts';
+import { MatchClientMessage, MatchPreferences, MatchRole, parseServerMessage } from './matchmakingProtocol.ts';
+
+export interface MatchFound {
+  matchId: string;
+  partnerId: string;
+  partnerLang: string;
+  role: MatchRole;
+  /** Interests both sides picked. */
+  interests: string[];
+}
+
+interface MatchmakingEvents {
+  queued: (position: number) => void;
+  matched: (match: MatchFound) => void;
+  unavailable: () => void;
+}
+
+/** What CallSession needs from a matchmaker; tests can substitute a fake. */
+export interface MatchmakerLike {
+  join(peerId: string, lang: string, preferences?: MatchPreferences): void;
+  cancel(): void;
+  on<K extends keyof MatchmakingEvents>(event: K, listener: MatchmakingEvents[K]): () => void;
+}
+
+export type SocketFactory = (url: string) => WebSocket;
+
+const MAX_RECONNECTS = 5;
+
+/**
+ * Browser client for server/matchmaker.ts. Holds a socket only while the user
+ * is waiting, and resumes its queue ticket if the socket drops meanwhile.
+ */
+export class MatchmakingClient extends Emitter<MatchmakingEvents> implements MatchmakerLike {
+  private socket: WebSocket | null = null;
+  private wanted: ({ peerId: string; lang: string } & MatchPreferences) | null = null;
+  private ticket: string | null = null;
+  private reconnects = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly url: string, private readonly createSocket: SocketFactory = (url) => new WebSocket(url)) {
+    super();
+  }
+
+  join(peerId: string, lang: string, preferences: MatchPreferences = {}) {
+    this.wanted = { peerId, lang, ...preferences };
+    this.ticket = null;
+    this.reconnects = 0;
+    if (this.socket?.readyState === WebSocket.OPEN) this.sendJoin();
+    else if (!this.socket) this.connect();
+  }
+
+  cancel() {
+    if (!this.wanted) return;
+    this.wanted = null;
+    this.ticket = null;
+    this.send({ type: 'cancel' });
+    this.close();
+  }
+
+  private connect() {
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.reconnects = 0;
+      if (this.ticket) this.send({ type: 'resume', ticket: this.ticket });
+      else this.sendJoin();
+    };
+    socket.onmessage = (event) => this.handleFrame(event.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleFrame(data: unknown) {
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(String(data));
+    } catch (e) {}
+    const message = parseServerMessage(raw);
+    if (!message || !this.wanted) return;
+    switch (message.type) {
+      case 'queued':
+        this.ticket = message.ticket;
+        this.emit('queued', message.position);
+        break;
+      case 'matched':
+        this.wanted = null;
+        this.ticket = null;
+        this.close();
+        this.emit('matched', { matchId: message.matchId, partnerId: message.partnerId, partnerLang: message.partnerLang, role: message.role, interests: message.interests });
+        break;
+      case 'error':
+        // انتهت صلاحية التذكرة أثناء الانقطاع، ننضم من جديد
+        if (message.code === 'UNKNOWN_TICKET') {
+          this.ticket = null;
+          this.sendJoin();
+        } else {
+          console.warn(`[matchmaking] ${message.message}`);
+        }
+        break;
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.wanted) return;
+    if (this.reconnects >= MAX_RECONNECTS) {
+      this.wanted = null;
+      this.ticket = null;
+      this.emit('unavailable');
+      return;
+    }
+    const delay = Math.min(500 * 2 ** this.reconnects, 5000);
+    this.reconnects++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.wanted) this.connect();
+    }, delay);
+  }
+
+  private sendJoin() {
+    if (this.wanted) this.send({ type: 'join', ...this.wanted });
+  }
+
+  private send(message: MatchClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private close() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
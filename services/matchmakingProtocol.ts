@@ -0,0 +1,107 @@
+/**
+ * Messages exchanged with the matchmaking server (server/matchmaker.ts).
+ * Shared by the browser client and the server so both sides agree on shapes.
+ */
+export type MatchRole = 'caller' | 'answerer';
+
+/** The most people in one room, and in any group call. */
+export const MAX_ROOM_SIZE = 6;
+/** Cap on the IDs a client may ask never to be matched with. */
+export const MAX_AVOID = 500;
+export const MAX_INTERESTS = 5;
+export const MAX_INTEREST_LENGTH = 24;
+
+/** Optional wishes sent along with a join. */
+export interface MatchPreferences {
+  /** Also accept a partner who speaks another language. */
+  crossLanguage?: boolean;
+  /** IDs blocked on this device. */
+  avoid?: string[];
+  /** Tags preferred in a partner; anyone is accepted once the server stops waiting for them. */
+  interests?: string[];
+}
+
+export type MatchClientMessage =
+  | ({ type: 'join'; peerId: string; lang: string } & MatchPreferences)
+  | { type: 'resume'; ticket: string }
+  | { type: 'cancel' }
+  | { type: 'room-join'; code: string; peerId: string }
+  | { type: 'room-leave' };
+
+export type MatchServerMessage =
+  | { type: 'queued'; ticket: string; position: number }
+  // interests: the tags both sides picked
+  | { type: 'matched'; matchId: string; partnerId: string; partnerLang: string; role: MatchRole; interests: string[] }
+  | { type: 'cancelled' }
+  // members: peer IDs already in the room, for the newcomer to dial
+  | { type: 'room-joined'; code: string; members: string[] }
+  | { type: 'error'; code: MatchErrorCode; message: string };
+
+export type MatchErrorCode = 'BAD_REQUEST' | 'UNKNOWN_TICKET' | 'ROOM_FULL';
+
+const ERROR_CODES: MatchErrorCode[] = ['BAD_REQUEST', 'UNKNOWN_TICKET', 'ROOM_FULL'];
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+/** Lower-cases, trims and de-duplicates tags, dropping any beyond the limits. */
+export const normalizeInterests = (tags: unknown): string[] => {
+  if (!Array.isArray(tags)) return [];
+  const clean = tags.filter(isString).map(tag => tag.trim().toLowerCase().slice(0, MAX_INTEREST_LENGTH)).filter(Boolean);
+  return [...new Set(clean)].slice(0, MAX_INTERESTS);
+};
+
+/** Validates an untrusted frame received by the server. */
+export const parseClientMessage = (raw: unknown): MatchClientMessage | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  switch (data.type) {
+    case 'join':
+      return isString(data.peerId) && isString(data.lang)
+        ? {
+            type: 'join', peerId: data.peerId, lang: data.lang, crossLanguage: data.crossLanguage === true,
+            avoid: Array.isArray(data.avoid) ? data.avoid.filter(isString).slice(0, MAX_AVOID) : [],
+            interests: normalizeInterests(data.interests),
+          }
+        : null;
+    case 'resume':
+      return isString(data.ticket) ? { type: 'resume', ticket: data.ticket } : null;
+    case 'cancel':
+      return { type: 'cancel' };
+    case 'room-join':
+      return isString(data.code) && isString(data.peerId) ? { type: 'room-join', code: data.code, peerId: data.peerId } : null;
+    case 'room-leave':
+      return { type: 'room-leave' };
+    default:
+      return null;
+  }
+};
+
+/** Validates an untrusted frame received by the browser client. */
+export const parseServerMessage = (raw: unknown): MatchServerMessage | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  switch (data.type) {
+    case 'queued':
+      return isString(data.ticket) && typeof data.position === 'number' ? { type: 'queued', ticket: data.ticket, position: data.position } : null;
+    case 'matched':
+      return isString(data.matchId) && isString(data.partnerId) && isString(data.partnerLang) && (data.role === 'caller' || data.role === 'answerer')
+        ? {
+            type: 'matched', matchId: data.matchId, partnerId: data.partnerId, partnerLang: data.partnerLang, role: data.role,
+            // خوادم أقدم لا ترسل الاهتمامات
+            interests: normalizeInterests(data.interests),
+          }
+        : null;
+    case 'cancelled':
+      return { type: 'cancelled' };
+    case 'room-joined':
+      return isString(data.code) && Array.isArray(data.members) && data.members.every(isString)
+        ? { type: 'room-joined', code: data.code, members: data.members }
+        : null;
+    case 'error':
+      return ERROR_CODES.includes(data.code as MatchErrorCode) && typeof data.message === 'string'
+        ? { type: 'error', code: data.code as MatchErrorCode, message: data.message }
+        : null;
+    default:
+      return null;
+  }
+};
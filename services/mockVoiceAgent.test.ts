@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { INPUT_SAMPLE_RATE } from '../constants.ts';
+import { createPcmBlob, decode } from './audioService.ts';
+import { MockVoiceAgentProvider, synthesizeBabble } from './mockVoiceAgent.ts';
+import { VoiceAgentConnection } from './voiceAgent.ts';
+
+const BLOCK_MS = 100;
+const BLOCK = (INPUT_SAMPLE_RATE * BLOCK_MS) / 1000;
+
+const speech = () => createPcmBlob(Float32Array.from({ length: BLOCK }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 200 * i) / INPUT_SAMPLE_RATE)));
+const silence = () => createPcmBlob(new Float32Array(BLOCK));
+
+const persona = { name: 'Sam', instruction: 'Be kind.', voice: 'Puck' };
+
+const connect = async () => {
+  const audio: string[] = [];
+  const events: string[] = [];
+  const connection = await new MockVoiceAgentProvider().connect(persona, {
+    onAudio: data => audio.push(data),
+    onInterrupted: () => events.push('interrupted'),
+    onClose: () => events.push('closed'),
+  });
+  /** Samples the agent has sent so far. */
+  const heard = () => audio.reduce((sum, chunk) => sum + decode(chunk).byteLength / 2, 0);
+  return { connection, audio, events, heard };
+};
+
+/** The user talks for `speakMs`, then stays quiet for `quietMs`, in real-time blocks. */
+const talk = async (connection: VoiceAgentConnection, speakMs: number, quietMs = 0) => {
+  for (let t = 0; t < speakMs; t += BLOCK_MS) {
+    connection.sendAudio(speech());
+    await vi.advanceTimersByTimeAsync(BLOCK_MS);
+  }
+  for (let t = 0; t < quietMs; t += BLOCK_MS) {
+    connection.sendAudio(silence());
+    await vi.advanceTimersByTimeAsync(BLOCK_MS);
+  }
+};
+
+describe('MockVoiceAgentProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('greets the user shortly after connecting, in real-time chunks', async () => {
+    const { audio, heard } = await connect();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(audio).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(audio.length).toBeGreaterThan(0);
+    expect(heard()).toBeLessThan(synthesizeBabble(0, 4).length);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(heard()).toBe(synthesizeBabble(0, 4).length);
+  });
+
+  it('answers once the user pauses, not while they talk', async () => {
+    const { connection, heard } = await connect();
+    await vi.advanceTimersByTimeAsync(2000);
+    const greeting = heard();
+
+    await talk(connection, 800);
+    expect(heard()).toBe(greeting);
+
+    await talk(connection, 0, 600);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(heard()).toBe(greeting + synthesizeBabble(0, 6).length);
+  });
+
+  it('stops talking when the user interrupts, and answers after they pause', async () => {
+    const { connection, events, heard } = await connect();
+    await vi.advanceTimersByTimeAsync(800);
+
+    await talk(connection, 300);
+    expect(events).toEqual(['interrupted']);
+    const cut = heard();
+    expect(cut).toBeLessThan(synthesizeBabble(0, 4).length);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(heard()).toBe(cut);
+
+    await talk(connection, 0, 600);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(heard()).toBe(cut + synthesizeBabble(0, 6).length);
+  });
+
+  it('goes quiet and reports the close once closed', async () => {
+    const { connection, events, audio } = await connect();
+
+    connection.close();
+    connection.close();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(events).toEqual(['closed']);
+    expect(audio).toEqual([]);
+  });
+});
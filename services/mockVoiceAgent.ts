@@ -0,0 +1,107 @@
+import { AUDIO_SAMPLE_RATE, INPUT_SAMPLE_RATE } from '../constants.ts';
+import { Persona } from '../types.ts';
+import { decode, encode } from './audioService.ts';
+import { levelOf, VoiceActivityDetector } from './audioLevels.ts';
+import { PcmBlob, VoiceAgentCallbacks, VoiceAgentConnection, VoiceAgentProvider } from './voiceAgent.ts';
+
+const CHUNK_MS = 100;
+const GREETING_DELAY = 600;
+const SYLLABLE_MS = 180;
+
+// نغمة ثابتة لكل صوت حتى يبدو كل شخص مختلفاً في كل مرة
+const basePitch = (voice: string) => 110 + ([...voice].reduce((sum, c) => sum + c.charCodeAt(0), 0) % 8) * 15;
+
+/**
+ * Speech-like babble: a run of syllables, each a short pitched tone with an
+ * attack and decay. Returns 16-bit PCM at AUDIO_SAMPLE_RATE.
+ */
+export const synthesizeBabble = (pitch: number, syllables: number) => {
+  const perSyllable = Math.round((AUDIO_SAMPLE_RATE * SYLLABLE_MS) / 1000);
+  const pcm = new Int16Array(perSyllable * syllables);
+  for (let s = 0; s < syllables; s++) {
+    // لحن بسيط يصعد وينزل كالجملة المنطوقة
+    const freq = pitch * (1 + 0.15 * Math.sin(s * 1.7));
+    for (let i = 0; i < perSyllable; i++) {
+      const t = i / AUDIO_SAMPLE_RATE;
+      const envelope = Math.min(1, i / (perSyllable * 0.1)) * Math.max(0, 1 - i / perSyllable);
+      const sample = Math.sin(2 * Math.PI * freq * t) + 0.3 * Math.sin(4 * Math.PI * freq * t);
+      pcm[s * perSyllable + i] = Math.round(sample * envelope * 0.25 * 32767);
+    }
+  }
+  return pcm;
+};
+
+class MockConnection implements VoiceAgentConnection {
+  private readonly vad = new VoiceActivityDetector();
+  private readonly pitch: number;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private replies = 0;
+  // الزمن محسوب من عدد العينات المستلمة، فالسلوك لا يعتمد على الساعة
+  private heardMs = 0;
+  private userSpeaking = false;
+  private closed = false;
+
+  constructor(persona: Persona, private readonly callbacks: VoiceAgentCallbacks) {
+    this.pitch = basePitch(persona.voice);
+    this.later(() => this.reply(), GREETING_DELAY);
+  }
+
+  sendAudio(blob: PcmBlob) {
+    if (this.closed) return;
+    const bytes = decode(blob.data);
+    const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+    const samples = Float32Array.from(int16, v => v / 32768);
+    this.heardMs += (samples.length / INPUT_SAMPLE_RATE) * 1000;
+    const speaking = this.vad.update(levelOf(samples), this.heardMs);
+    if (speaking && !this.userSpeaking) {
+      // المستخدم قاطع الرد الجاري
+      this.clearTimers();
+      this.callbacks.onInterrupted();
+    } else if (!speaking && this.userSpeaking) {
+      this.reply();
+    }
+    this.userSpeaking = speaking;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearTimers();
+    this.callbacks.onClose();
+  }
+
+  /** Streams a reply in real-time chunks, like a live model would. */
+  private reply() {
+    const pcm = synthesizeBabble(this.pitch, 4 + (this.replies++ % 4) * 2);
+    const chunk = (AUDIO_SAMPLE_RATE * CHUNK_MS) / 1000;
+    for (let offset = 0, i = 0; offset < pcm.length; offset += chunk, i++) {
+      const part = pcm.slice(offset, offset + chunk);
+      this.later(() => this.callbacks.onAudio(encode(new Uint8Array(part.buffer))), i * CHUNK_MS);
+    }
+  }
+
+  private later(fn: () => void, ms: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private clearTimers() {
+    this.timers.forEach(t => clearTimeout(t));
+    this.timers.clear();
+  }
+}
+
+/**
+ * Offline stand-in for a live voice model, for development and tests. It
+ * greets the user, answers with synthesized babble whenever they pause, and
+ * stops talking when interrupted, exercising the whole capture and playback
+ * pipeline without network access or an API key.
+ */
+export class MockVoiceAgentProvider implements VoiceAgentProvider {
+  async connect(persona: Persona, callbacks: VoiceAgentCallbacks): Promise<VoiceAgentConnection> {
+    return new MockConnection(persona, callbacks);
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildDefaults, loadNetworkSettings, saveNetworkSettings } from './networkSettings.ts';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+const selfHosted = { host: 'peer.example.com', port: 443, path: '/', secure: true };
+const turn = { urls: ['turn:turn.example.com:3478'], username: 'user', credential: 'secret' };
+
+describe('loadNetworkSettings', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('location', { protocol: 'https:' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the build defaults when nothing was saved', () => {
+    expect(loadNetworkSettings()).toEqual(buildDefaults());
+  });
+
+  it('reads back what was saved', () => {
+    saveNetworkSettings({ peerServer: selfHosted, iceServers: [turn] });
+
+    expect(loadNetworkSettings()).toEqual({ peerServer: selfHosted, iceServers: [turn] });
+  });
+
+  it('falls back to the defaults for the fields that do not have the expected shape', () => {
+    localStorage.setItem('anyone_network', JSON.stringify({ peerServer: selfHosted, iceServers: { urls: 'stun:x' } }));
+    expect(loadNetworkSettings()).toEqual({ peerServer: selfHosted, iceServers: buildDefaults().iceServers });
+
+    localStorage.setItem('anyone_network', JSON.stringify({ peerServer: { host: 'x', port: '443' }, iceServers: [{ urls: [1] }] }));
+    expect(loadNetworkSettings()).toEqual(buildDefaults());
+  });
+
+  it('ignores saved settings that are not an object or not JSON', () => {
+    localStorage.setItem('anyone_network', '[1, 2]');
+    expect(loadNetworkSettings()).toEqual(buildDefaults());
+
+    localStorage.setItem('anyone_network', '{');
+    expect(loadNetworkSettings()).toEqual(buildDefaults());
+  });
+});
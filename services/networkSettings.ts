@@ -0,0 +1,151 @@
+import { Message, msg } from './i18n.ts';
+
+const STORAGE_KEY = 'anyone_network';
+const GATHER_TIMEOUT = 8000;
+
+export interface PeerServerSettings {
+  host: string;
+  port: number;
+  path: string;
+  secure: boolean;
+}
+
+export interface NetworkSettings {
+  /** null means the public PeerJS cloud server. */
+  peerServer: PeerServerSettings | null;
+  iceServers: RTCIceServer[];
+}
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isPeerServer = (value: unknown): value is PeerServerSettings =>
+  isRecord(value) && typeof value.host === 'string' && typeof value.port === 'number'
+  && typeof value.path === 'string' && typeof value.secure === 'boolean';
+
+const isIceServers = (value: unknown): value is RTCIceServer[] =>
+  Array.isArray(value) && value.every(server => isRecord(server)
+    && (typeof server.urls === 'string' || (Array.isArray(server.urls) && server.urls.every(url => typeof url === 'string')))
+    && ['username', 'credential'].every(field => server[field] === undefined || typeof server[field] === 'string'));
+
+const parseIceServers = (json: string | undefined): RTCIceServer[] | null => {
+  if (!json) return null;
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return isIceServers(parsed) ? parsed : null;
+  } catch {
+    console.warn('[network] ICE_SERVERS is not valid JSON, using the default STUN server');
+    return null;
+  }
+};
+
+/** Settings baked in at build time from PEER_HOST, PEER_PORT, PEER_PATH, PEER_SECURE and ICE_SERVERS. */
+export const buildDefaults = (): NetworkSettings => {
+  const host = process.env.PEER_HOST;
+  const secure = process.env.PEER_SECURE ? process.env.PEER_SECURE === 'true' : location.protocol === 'https:';
+  return {
+    peerServer: host ? {
+      host,
+      port: Number(process.env.PEER_PORT) || (secure ? 443 : 80),
+      path: process.env.PEER_PATH || '/',
+      secure,
+    } : null,
+    iceServers: parseIceServers(process.env.ICE_SERVERS) ?? DEFAULT_ICE_SERVERS,
+  };
+};
+
+/** Saved in-app settings if there are any, otherwise the build defaults. */
+export const loadNetworkSettings = (): NetworkSettings => {
+  const defaults = buildDefaults();
+  let saved: unknown = null;
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+  } catch {
+    // إعدادات تالفة، نرجع إلى الافتراضية
+  }
+  if (!isRecord(saved)) return defaults;
+  // كل حقل يُتحقق منه وحده، فحقل تالف لا يُسقط الآخر
+  const { peerServer, iceServers } = saved;
+  return {
+    peerServer: isPeerServer(peerServer) ? peerServer : peerServer === null ? null : defaults.peerServer,
+    iceServers: isIceServers(iceServers) ? iceServers : defaults.iceServers,
+  };
+};
+
+export const saveNetworkSettings = (settings: NetworkSettings) => localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+export const resetNetworkSettings = () => localStorage.removeItem(STORAGE_KEY);
+
+/** Problems that would stop the settings from working, one message per problem. */
+export const validateNetworkSettings = ({ peerServer, iceServers }: NetworkSettings) => {
+  const problems: Message[] = [];
+  if (peerServer) {
+    if (!peerServer.host.trim()) problems.push(msg('network.problem.hostEmpty'));
+    if (!Number.isInteger(peerServer.port) || peerServer.port < 1 || peerServer.port > 65535) problems.push(msg('network.problem.port'));
+    if (!peerServer.path.startsWith('/')) problems.push(msg('network.problem.path'));
+  }
+  iceServers.forEach((server, i) => {
+    const urls = ([] as string[]).concat(server.urls);
+    if (!urls.length || urls.some(url => !/^(stun|turns?):/.test(url))) problems.push(msg('network.problem.url', { index: i + 1 }));
+    if (urls.some(url => url.startsWith('turn')) && (!server.username || !server.credential)) problems.push(msg('network.problem.turnCredentials', { index: i + 1 }));
+  });
+  return problems;
+};
+
+/** Options for the PeerJS constructor. */
+export const peerOptions = ({ peerServer, iceServers }: NetworkSettings) => ({
+  ...(peerServer ?? {}),
+  config: { iceServers },
+  debug: 1,
+});
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface ConnectivityReport {
+  found: Record<CandidateType, boolean>;
+  candidates: { type: CandidateType; protocol: string; address: string }[];
+  /** True when gathering was cut short by the timeout rather than finishing. */
+  timedOut: boolean;
+}
+
+const candidateType = (candidate: RTCIceCandidate): CandidateType | null =>
+  (candidate.type as CandidateType | null) ?? (candidate.candidate.match(/ typ (\w+)/)?.[1] as CandidateType | undefined) ?? null;
+
+/**
+ * Gathers ICE candidates on a throwaway RTCPeerConnection. srflx candidates
+ * mean a STUN server answered, relay candidates mean a TURN server accepted
+ * the credentials; without relay, peers behind symmetric NAT cannot connect.
+ */
+export const testConnectivity = async (iceServers: RTCIceServer[], timeout = GATHER_TIMEOUT): Promise<ConnectivityReport> => {
+  const pc = new RTCPeerConnection({ iceServers });
+  const report: ConnectivityReport = {
+    found: { host: false, srflx: false, prflx: false, relay: false },
+    candidates: [],
+    timedOut: false,
+  };
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => { report.timedOut = true; resolve(); }, timeout);
+      pc.onicecandidate = ({ candidate }) => {
+        if (!candidate) {
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+        const type = candidateType(candidate);
+        if (!type) return;
+        report.found[type] = true;
+        report.candidates.push({ type, protocol: candidate.protocol ?? '?', address: candidate.address ?? '?' });
+      };
+      // قناة بيانات تكفي لبدء جمع المرشحين دون طلب الميكروفون
+      pc.createDataChannel('probe');
+      pc.createOffer()
+        .then(offer => pc.setLocalDescription(offer))
+        .catch(err => { clearTimeout(timer); reject(err); });
+    });
+  } finally {
+    pc.close();
+  }
+  return report;
+};
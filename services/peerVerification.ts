@@ -0,0 +1,192 @@
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+import { DeviceIdentity, isDerivedId, peerIdFor, SafetyNumber, safetyNumberOf, verifySignature } from './identity.ts';
+import { createMessageId, ProtocolChannel } from './protocol.ts';
+
+const KNOWN_KEYS_KEY = 'anyone_known_keys';
+/** How long the other side has to prove its identity. */
+export const VERIFY_TIMEOUT = 10000;
+
+/**
+ * - verified: they hold the key we saw for this ID before
+ * - unpinned: an ID seen for the first time; its key is remembered from now on
+ * - key-changed: an ID we know came with a different key
+ * - failed: no valid proof
+ */
+export type VerificationStatus = 'pending' | 'verified' | 'unpinned' | 'key-changed' | 'failed';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  /** The key they proved they hold, if any. */
+  publicKey: string | null;
+}
+
+interface KnownKey {
+  key: string;
+  /** Both people compared the safety number. */
+  confirmed: boolean;
+}
+
+/** Public keys of peers we have talked to, pinned on first use (localStorage). */
+export class KnownKeys {
+  private read(): Record<string, KnownKey> {
+    try {
+      return JSON.parse(localStorage.getItem(KNOWN_KEYS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  get(peerId: string): KnownKey | null {
+    return this.read()[peerId] ?? null;
+  }
+
+  pin(peerId: string, key: string, confirmed = false) {
+    localStorage.setItem(KNOWN_KEYS_KEY, JSON.stringify({ ...this.read(), [peerId]: { key, confirmed } }));
+  }
+}
+
+// يربط التوقيع بالتحدي وبالطرفين حتى لا يُعاد استخدامه في اتصال آخر
+const challengeText = (nonce: string, verifierId: string, proverId: string) => `anyone-identity:1|${nonce}|${verifierId}|${proverId}`;
+
+/**
+ * Runs the challenge-response over a freshly opened channel: each side sends
+ * its public key with a random nonce and signs the other side's nonce. The
+ * outcome is checked against the peer ID and the pinned key.
+ * Returns the pending result and a function that stops listening.
+ */
+export const verifyChannel = (channel: ProtocolChannel, identity: DeviceIdentity, known: KnownKeys) => {
+  const nonce = createMessageId();
+  let theirKey: string | null = null;
+  let settle: (result: VerificationResult) => void = () => {};
+  const result = new Promise<VerificationResult>(resolve => { settle = resolve; });
+  const timer = setTimeout(() => settle({ status: 'failed', publicKey: null }), VERIFY_TIMEOUT);
+  const offs = [
+    channel.onMessage('IDENTITY', async m => {
+      theirKey = m.key;
+      const signature = await identity.sign(challengeText(m.nonce, channel.peer, identity.peerId));
+      channel.send('IDENTITY_PROOF', { signature });
+    }),
+    channel.onMessage('IDENTITY_PROOF', async m => {
+      const key = theirKey;
+      const valid = !!key && (await verifySignature(key, m.signature, challengeText(nonce, identity.peerId, channel.peer)));
+      clearTimeout(timer);
+      settle(valid ? await checkKey(channel.peer, key!, known) : { status: 'failed', publicKey: null });
+    }),
+  ];
+  channel.send('IDENTITY', { key: identity.publicKey, nonce });
+  const stop = () => {
+    clearTimeout(timer);
+    offs.forEach(off => off());
+  };
+  result.then(stop);
+  return { result, stop };
+};
+
+const checkKey = async (peerId: string, key: string, known: KnownKeys): Promise<VerificationResult> => {
+  // المعرف المشتق قصير ويمكن البحث عن مفتاح آخر يطابقه، فالمطابقة شرط لا تكفي وحدها
+  if (isDerivedId(peerId) && (await peerIdFor(key)) !== peerId) return { status: 'failed', publicKey: null };
+  const pinned = known.get(peerId);
+  if (!pinned) {
+    known.pin(peerId, key);
+    return { status: 'unpinned', publicKey: key };
+  }
+  return { status: pinned.key === key ? 'verified' : 'key-changed', publicKey: key };
+};
+
+export interface VerificationSnapshot {
+  status: VerificationStatus | null;
+  peerId: string | null;
+  safetyNumber: SafetyNumber | null;
+  /** The safety number was compared and marked as matching. */
+  confirmed: boolean;
+}
+
+const EMPTY: VerificationSnapshot = { status: null, peerId: null, safetyNumber: null, confirmed: false };
+
+/** Identity check of the other person in a one-to-one call. */
+export class PeerVerifier extends Emitter<{ change: () => void; notice: (text: Message) => void }> {
+  private stop: (() => void) | null = null;
+  private key: string | null = null;
+  // الفحص الجاري أو الأخير لهذا الشخص
+  private result: Promise<VerificationResult> | null = null;
+  private announced = new WeakSet<Promise<VerificationResult>>();
+  private snapshot: VerificationSnapshot = EMPTY;
+
+  constructor(private readonly identity: Promise<DeviceIdentity>, private readonly known = new KnownKeys()) {
+    super();
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /** Verifies whoever is on the other end of `channel`; runs again for every new channel of the call. */
+  async attach(channel: ProtocolChannel) {
+    this.detach();
+    let stopped = false;
+    this.stop = () => { stopped = true; };
+    const identity = await this.identity;
+    if (stopped) return;
+    const check = verifyChannel(channel, identity, this.known);
+    await this.follow(channel.peer, check.result, check.stop);
+  }
+
+  /** Shows a check that ran elsewhere: on a call that was waiting, or one coming back from hold. */
+  async follow(peerId: string, result: Promise<VerificationResult>, stop: () => void = () => {}) {
+    this.detach();
+    this.stop = stop;
+    this.result = result;
+    // بعد إعادة الاتصال تبقى النتيجة السابقة ظاهرة حتى تصل الجديدة
+    if (this.snapshot.peerId !== peerId) this.update({ ...EMPTY, status: 'pending', peerId });
+    const { status, publicKey } = await result;
+    if (this.stop !== stop) return;
+    this.stop = null;
+    this.key = publicKey;
+    const identity = await this.identity;
+    const safetyNumber = publicKey ? await safetyNumberOf(identity.publicKey, publicKey) : null;
+    const confirmed = status === 'verified' && !!this.known.get(peerId)?.confirmed;
+    if (this.result !== result) return;
+    this.update({ status, peerId, safetyNumber, confirmed });
+    // العودة من الانتظار لا تكرر التنبيه نفسه
+    if (this.announced.has(result)) return;
+    this.announced.add(result);
+    if (status === 'key-changed') this.emit('notice', msg('notice.keyChanged'));
+    else if (status === 'failed') this.emit('notice', msg('notice.verifyFailed'));
+  }
+
+  /** Lets the check finish without us, e.g. when the call goes on hold; `follow` picks it up again. */
+  handOff() {
+    const result = this.result;
+    this.stop = null;
+    this.result = null;
+    this.key = null;
+    this.update(EMPTY);
+    return result;
+  }
+
+  detach() {
+    this.stop?.();
+    this.stop = null;
+  }
+
+  reset() {
+    this.detach();
+    this.key = null;
+    this.result = null;
+    this.update(EMPTY);
+  }
+
+  /** Both people read the same safety number: remembers this key as checked. */
+  confirm() {
+    const { peerId, status } = this.snapshot;
+    if (!peerId || !this.key || (status !== 'verified' && status !== 'unpinned' && status !== 'key-changed')) return;
+    this.known.pin(peerId, this.key, true);
+    this.update({ status: 'verified', confirmed: true });
+  }
+
+  private update(patch: Partial<VerificationSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change');
+  }
+}
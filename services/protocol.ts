@@ -0,0 +1,391 @@
+import { Emitter } from './emitter.ts';
+import type { DataConnectionLike } from './transport.ts';
+
+/**
+ * Data-channel protocol spoken between two AnyOne clients.
+ *
+ * Every message is an envelope `{ v, id, type, ...payload }`. Both sides send
+ * HELLO as soon as the DataConnection opens; nothing else goes out until the
+ * remote HELLO has been checked against our supported version range.
+ * Control messages are acknowledged with ACK and retried until they are.
+ */
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Plain form of an RTCSessionDescription, as carried by RENEGOTIATE. */
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export type ProtocolPayload =
+  | { type: 'HELLO'; version: number; minVersion: number }
+  | { type: 'ACK'; ref: string }
+  | { type: 'ERROR'; code: ProtocolErrorCode; ref?: string; detail?: string }
+  | { type: 'REJECTED' }
+  // المستقبِل في مكالمة أخرى
+  | { type: 'BUSY' }
+  // إثبات الهوية: المفتاح العام مع تحدٍّ عشوائي، ثم توقيع تحدي الطرف الآخر
+  | { type: 'IDENTITY'; key: string; nonce: string }
+  | { type: 'IDENTITY_PROOF'; signature: string }
+  | { type: 'DISCONNECT' }
+  // المكالمة صارت جماعية، ومن يصله يتصل ببقية الأعضاء
+  | { type: 'GROUP'; id: string; members: string[] }
+  // enabled is missing in messages from clients that could only turn the camera on
+  | { type: 'VIDEO_SIGNAL'; enabled?: boolean }
+  | { type: 'RENEGOTIATE'; description: SessionDescription }
+  | { type: 'SCREEN_SHARE'; active: boolean }
+  | { type: 'MEDIA_STATE'; muted: boolean; held: boolean }
+  | { type: 'CHAT'; text: string; sentAt: number }
+  | { type: 'CHAT_READ'; refs: string[] }
+  | { type: 'TYPING'; active: boolean }
+  // يطلب من الطرف الآخر إرسال نص كلامه أو التوقف عنه
+  | { type: 'CAPTIONS'; active: boolean }
+  | { type: 'CAPTION'; utterance: number; text: string; lang: string; final: boolean }
+  | { type: 'RECORD_REQUEST' }
+  | { type: 'RECORD_RESPONSE'; accepted: boolean }
+  // إيقاف التسجيل من أي طرف، وبه يُسحب الإذن
+  | { type: 'RECORD_STOP' }
+  | { type: 'FILE_OFFER'; transferId: string; name: string; mime: string; size: number; chunkSize: number; checksum: string }
+  | { type: 'FILE_ACCEPT'; transferId: string }
+  | { type: 'FILE_DECLINE'; transferId: string }
+  | { type: 'FILE_CHUNK'; transferId: string; index: number; data: ArrayBuffer }
+  | { type: 'FILE_PROGRESS'; transferId: string; received: number }
+  | { type: 'FILE_CANCEL'; transferId: string }
+  | { type: 'FILE_RESULT'; transferId: string; ok: boolean };
+
+export type MessageType = ProtocolPayload['type'];
+export type PayloadOf<T extends MessageType> = Omit<Extract<ProtocolPayload, { type: T }>, 'type'>;
+export type ProtocolMessage = ProtocolPayload & { v: number; id: string };
+export type MessageOf<T extends MessageType> = Extract<ProtocolMessage, { type: T }>;
+
+export type ProtocolErrorCode = 'UNKNOWN_TYPE' | 'MALFORMED' | 'UNSUPPORTED_VERSION';
+
+export interface ProtocolIssue {
+  kind: 'malformed' | 'unknown-type' | 'version-mismatch' | 'handshake-timeout' | 'ack-timeout' | 'send-failed' | 'remote-error';
+  detail: string;
+  ref?: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'binary';
+type FieldSpec = FieldType | `${FieldType}?`;
+
+// مخطط الحقول لكل نوع رسالة - يُستخدم للتحقق من البيانات الواردة
+const SCHEMAS: { [T in MessageType]: { [K in keyof PayloadOf<T>]-?: FieldSpec } } = {
+  HELLO: { version: 'number', minVersion: 'number' },
+  ACK: { ref: 'string' },
+  ERROR: { code: 'string', ref: 'string?', detail: 'string?' },
+  REJECTED: {},
+  BUSY: {},
+  IDENTITY: { key: 'string', nonce: 'string' },
+  IDENTITY_PROOF: { signature: 'string' },
+  DISCONNECT: {},
+  GROUP: { id: 'string', members: 'array' },
+  VIDEO_SIGNAL: { enabled: 'boolean?' },
+  RENEGOTIATE: { description: 'object' },
+  SCREEN_SHARE: { active: 'boolean' },
+  MEDIA_STATE: { muted: 'boolean', held: 'boolean' },
+  CHAT: { text: 'string', sentAt: 'number' },
+  CHAT_READ: { refs: 'array' },
+  TYPING: { active: 'boolean' },
+  CAPTIONS: { active: 'boolean' },
+  CAPTION: { utterance: 'number', text: 'string', lang: 'string', final: 'boolean' },
+  RECORD_REQUEST: {},
+  RECORD_RESPONSE: { accepted: 'boolean' },
+  RECORD_STOP: {},
+  FILE_OFFER: { transferId: 'string', name: 'string', mime: 'string', size: 'number', chunkSize: 'number', checksum: 'string' },
+  FILE_ACCEPT: { transferId: 'string' },
+  FILE_DECLINE: { transferId: 'string' },
+  FILE_CHUNK: { transferId: 'string', index: 'number', data: 'binary' },
+  FILE_PROGRESS: { transferId: 'string', received: 'number' },
+  FILE_CANCEL: { transferId: 'string' },
+  FILE_RESULT: { transferId: 'string', ok: 'boolean' },
+};
+
+/**
+ * Messages that change call state; the receiver must ACK them. CHAT is
+ * included so that its ACK doubles as the "delivered" receipt.
+ */
+const CONTROL_TYPES = new Set<MessageType>([
+  'REJECTED', 'BUSY', 'IDENTITY', 'IDENTITY_PROOF', 'DISCONNECT', 'GROUP', 'VIDEO_SIGNAL', 'SCREEN_SHARE', 'MEDIA_STATE', 'CHAT', 'CAPTIONS',
+  'RECORD_REQUEST', 'RECORD_RESPONSE', 'RECORD_STOP',
+  'FILE_OFFER', 'FILE_ACCEPT', 'FILE_DECLINE', 'FILE_CANCEL', 'FILE_RESULT',
+]);
+
+export const isControlType = (type: MessageType) => CONTROL_TYPES.has(type);
+
+// تكفي لتغطية إعادات الإرسال، فهي تصل خلال ثوانٍ من الأصل
+const SEEN_CONTROL_LIMIT = 256;
+
+const matchesField = (value: unknown, spec: FieldSpec): boolean => {
+  const optional = spec.endsWith('?');
+  if (value === undefined) return optional;
+  switch (spec.replace('?', '') as FieldType) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'binary': return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+  }
+};
+
+export type ParseResult =
+  | { ok: true; message: ProtocolMessage }
+  | { ok: false; issue: ProtocolIssue; id?: string };
+
+/** Validates an untrusted payload received from the data channel. */
+export const parseMessage = (raw: unknown): ParseResult => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, issue: { kind: 'malformed', detail: `expected an object, got ${typeof raw}` } };
+  }
+  const data = raw as Record<string, unknown>;
+  const id = typeof data.id === 'string' ? data.id : undefined;
+  if (!id || typeof data.v !== 'number' || typeof data.type !== 'string') {
+    return { ok: false, id, issue: { kind: 'malformed', detail: 'missing envelope fields', ref: id } };
+  }
+  const schema = (SCHEMAS as Record<string, Record<string, FieldSpec>>)[data.type];
+  if (!schema) {
+    return { ok: false, id, issue: { kind: 'unknown-type', detail: `unknown message type "${data.type}"`, ref: id } };
+  }
+  for (const [field, spec] of Object.entries(schema)) {
+    if (!matchesField(data[field], spec)) {
+      return { ok: false, id, issue: { kind: 'malformed', detail: `${data.type}.${field} should be ${spec}`, ref: id } };
+    }
+  }
+  return { ok: true, message: data as unknown as ProtocolMessage };
+};
+
+let messageCounter = 0;
+export const createMessageId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${(messageCounter++).toString(36)}`;
+
+export interface ProtocolChannelOptions {
+  ackTimeout?: number;
+  maxRetries?: number;
+  handshakeTimeout?: number;
+}
+
+interface ProtocolChannelEvents {
+  ready: (remoteVersion: number) => void;
+  message: (message: ProtocolMessage) => void;
+  ack: (ref: string) => void;
+  issue: (issue: ProtocolIssue) => void;
+  close: () => void;
+}
+
+interface PendingAck {
+  message: ProtocolMessage;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export type PayloadArgs<T extends MessageType> = {} extends PayloadOf<T> ? [payload?: PayloadOf<T>] : [payload: PayloadOf<T>];
+
+/**
+ * Wraps a DataConnection with the versioned protocol: handshake,
+ * validation of everything received, and ACK/retry for control messages.
+ */
+export class ProtocolChannel extends Emitter<ProtocolChannelEvents> {
+  readonly peer: string;
+  private remoteVersion: number | null = null;
+  private outbox: ProtocolMessage[] = [];
+  private pending = new Map<string, PendingAck>();
+  private seenControlIds = new Set<string>();
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private readonly options: Required<ProtocolChannelOptions>;
+
+  constructor(private readonly conn: DataConnectionLike, options: ProtocolChannelOptions = {}) {
+    super();
+    this.peer = conn.peer;
+    this.options = { ackTimeout: 3000, maxRetries: 2, handshakeTimeout: 5000, ...options };
+    conn.on('open', () => this.handleOpen());
+    conn.on('data', data => this.handleData(data));
+    conn.on('close', () => this.handleClose());
+    if (conn.open) this.handleOpen();
+  }
+
+  get isReady() {
+    return this.remoteVersion !== null && !this.closed;
+  }
+
+  /** Negotiated version, i.e. the highest version both sides speak. */
+  get version() {
+    return this.remoteVersion === null ? null : Math.min(PROTOCOL_VERSION, this.remoteVersion);
+  }
+
+  send<T extends MessageType>(type: T, ...[payload]: PayloadArgs<T>): string {
+    const message = { ...payload, type, v: PROTOCOL_VERSION, id: createMessageId() } as ProtocolMessage;
+    if (this.isReady) this.transmit(message);
+    else this.outbox.push(message);
+    return message.id;
+  }
+
+  onMessage<T extends MessageType>(type: T, handler: (message: MessageOf<T>) => void): () => void {
+    return this.on('message', message => {
+      if (message.type === type) handler(message as MessageOf<T>);
+    });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.dispose();
+    this.conn.close();
+  }
+
+  /**
+   * Sends a last control message and closes once the other side acknowledges
+   * it, closes first, or the retries run out. Resolves when the channel is closed.
+   */
+  closeAfter(type: 'REJECTED' | 'BUSY' | 'DISCONNECT'): Promise<void> {
+    return new Promise(resolve => {
+      if (this.closed) {
+        resolve();
+        return;
+      }
+      const id = this.send(type);
+      const done = () => {
+        clearTimeout(timer);
+        offAck();
+        offClose();
+        this.close();
+        resolve();
+      };
+      // الإغلاق فور الإرسال قد يُسقط الرسالة قبل أن تغادر
+      const timer = setTimeout(done, this.options.ackTimeout * (this.options.maxRetries + 1));
+      const offAck = this.on('ack', ref => {
+        if (ref === id) done();
+      });
+      const offClose = this.on('close', done);
+    });
+  }
+
+  private handleOpen() {
+    if (this.closed || this.handshakeTimer) return;
+    this.conn.send({ type: 'HELLO', v: PROTOCOL_VERSION, id: createMessageId(), version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION });
+    this.handshakeTimer = setTimeout(() => {
+      if (this.remoteVersion !== null) return;
+      this.emit('issue', { kind: 'handshake-timeout', detail: `no HELLO from ${this.peer}` });
+    }, this.options.handshakeTimeout);
+  }
+
+  private handleData(raw: unknown) {
+    if (this.closed) return;
+    const result = parseMessage(raw);
+    if (result.ok === false) {
+      this.emit('issue', result.issue);
+      // لا نرد على رسالة خطأ تالفة حتى لا ندخل في حلقة
+      if ((raw as { type?: unknown } | null)?.type === 'ERROR') return;
+      const code: ProtocolErrorCode = result.issue.kind === 'unknown-type' ? 'UNKNOWN_TYPE' : 'MALFORMED';
+      this.transmit({ type: 'ERROR', v: PROTOCOL_VERSION, id: createMessageId(), code, ref: result.id, detail: result.issue.detail });
+      return;
+    }
+
+    const message = result.message;
+    if (message.type === 'HELLO') return this.handleHello(message);
+    if (this.remoteVersion === null) {
+      this.emit('issue', { kind: 'malformed', detail: `${message.type} received before HELLO`, ref: message.id });
+      return;
+    }
+
+    switch (message.type) {
+      case 'ACK': {
+        const entry = this.pending.get(message.ref);
+        if (entry) {
+          clearTimeout(entry.timer);
+          this.pending.delete(message.ref);
+          this.emit('ack', message.ref);
+        }
+        return;
+      }
+      case 'ERROR':
+        this.emit('issue', { kind: 'remote-error', detail: `${message.code}${message.detail ? `: ${message.detail}` : ''}`, ref: message.ref });
+        return;
+    }
+
+    if (isControlType(message.type)) {
+      this.transmit({ type: 'ACK', v: PROTOCOL_VERSION, id: createMessageId(), ref: message.id });
+      // إعادة الإرسال قد توصل نفس الرسالة مرتين
+      if (this.seenControlIds.has(message.id)) return;
+      this.seenControlIds.add(message.id);
+      if (this.seenControlIds.size > SEEN_CONTROL_LIMIT) {
+        this.seenControlIds.delete(this.seenControlIds.values().next().value!);
+      }
+    }
+    this.emit('message', message);
+  }
+
+  private handleHello(message: MessageOf<'HELLO'>) {
+    if (this.handshakeTimer) clearTimeout(this.handshakeTimer);
+    const compatible = message.version >= MIN_PROTOCOL_VERSION && PROTOCOL_VERSION >= message.minVersion;
+    if (!compatible) {
+      const detail = `remote speaks v${message.minVersion}-v${message.version}, we speak v${MIN_PROTOCOL_VERSION}-v${PROTOCOL_VERSION}`;
+      this.transmit({ type: 'ERROR', v: PROTOCOL_VERSION, id: createMessageId(), code: 'UNSUPPORTED_VERSION', ref: message.id, detail });
+      this.emit('issue', { kind: 'version-mismatch', detail, ref: message.id });
+      this.close();
+      return;
+    }
+    const firstHello = this.remoteVersion === null;
+    this.remoteVersion = message.version;
+    if (!firstHello) return;
+    const queued = this.outbox;
+    this.outbox = [];
+    queued.forEach(m => this.transmit(m));
+    this.emit('ready', message.version);
+  }
+
+  private transmit(message: ProtocolMessage) {
+    if (this.closed) return;
+    try {
+      this.conn.send(message);
+    } catch (e) {
+      this.emit('issue', { kind: 'send-failed', detail: `${message.type} could not be sent: ${String(e)}`, ref: message.id });
+      return;
+    }
+    if (isControlType(message.type) && !this.pending.has(message.id)) {
+      this.trackAck(message, 0);
+    }
+  }
+
+  private trackAck(message: ProtocolMessage, attempts: number) {
+    const timer = setTimeout(() => {
+      if (!this.pending.has(message.id) || this.closed) return;
+      if (attempts >= this.options.maxRetries) {
+        this.pending.delete(message.id);
+        this.emit('issue', { kind: 'ack-timeout', detail: `${message.type} was never acknowledged`, ref: message.id });
+        return;
+      }
+      // القناة قد تُغلق تحتنا قبل أن يصلنا حدث الإغلاق
+      if (!this.conn.open) {
+        this.pending.delete(message.id);
+        return;
+      }
+      try {
+        this.conn.send(message);
+      } catch (e) {
+        this.pending.delete(message.id);
+        this.emit('issue', { kind: 'send-failed', detail: `${message.type} could not be sent: ${String(e)}`, ref: message.id });
+        return;
+      }
+      this.trackAck(message, attempts + 1);
+    }, this.options.ackTimeout);
+    this.pending.set(message.id, { message, attempts, timer });
+  }
+
+  private handleClose() {
+    if (this.closed) return;
+    this.dispose();
+    this.emit('close');
+  }
+
+  private dispose() {
+    this.closed = true;
+    if (this.handshakeTimer) clearTimeout(this.handshakeTimer);
+    this.pending.forEach(entry => clearTimeout(entry.timer));
+    this.pending.clear();
+    this.outbox = [];
+  }
+}
@@ -0,0 +1,149 @@
+import type { Locale } from '../locales/index.ts';
+import { decode } from './audioService.ts';
+import { BlockList } from './blockList.ts';
+import { Emitter } from './emitter.ts';
+import { DeviceIdentity } from './identity.ts';
+import { CallAlertStatus, PushRelayRequest, PushRelayRequestType, SignedFields, signingText } from './pushProtocol.ts';
+
+/** What CallSession needs to wake a device whose app is closed; tests can substitute a fake. */
+export interface CallAlertsLike {
+  /** Resolves true when the relay reached at least one of the callee's devices. */
+  ring(to: string, callId: string): Promise<boolean>;
+  /** The caller gave up before the callee's app answered. */
+  missed(to: string, callId: string): void;
+  status(callId: string): Promise<CallAlertStatus>;
+}
+
+export interface PushAlertsSnapshot {
+  /** The browser can receive Web Push at all. */
+  supported: boolean;
+  /** This device is subscribed and will ring while the app is closed. */
+  enabled: boolean;
+}
+
+type UnsignedRequest = { [T in PushRelayRequestType]: Omit<Extract<PushRelayRequest, { type: T }>, keyof SignedFields> }[PushRelayRequestType];
+
+const STORAGE_KEY = 'anyone_call_alerts';
+
+// مفتاح VAPID يصل بترميز base64url
+const decodeKey = (key: string) => decode(key.replace(/-/g, '+').replace(/_/g, '/'));
+
+const sameKey = (a: ArrayBuffer | null, b: Uint8Array) => !!a && a.byteLength === b.length && new Uint8Array(a).every((byte, i) => byte === b[i]);
+
+/**
+ * Client of server/pushRelay.ts. Subscribes this device so that calls ring
+ * even when the app is closed, and lets an outgoing call wake the other
+ * person's device when they are not connected.
+ */
+export class PushAlerts extends Emitter<{ change: () => void }> implements CallAlertsLike {
+  private snapshot: PushAlertsSnapshot = {
+    supported: typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof window !== 'undefined' && 'PushManager' in window && 'Notification' in window,
+    enabled: false,
+  };
+  private started = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly identity: Promise<DeviceIdentity>,
+    private readonly blockList: BlockList,
+    private readonly locale: () => Locale,
+  ) {
+    super();
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /** Picks up an earlier subscription, and keeps the relay's copy of the block list current. */
+  start() {
+    if (this.started || !this.snapshot.supported) return;
+    this.started = true;
+    this.blockList.on('change', () => this.refresh());
+    if (localStorage.getItem(STORAGE_KEY) === '1' && Notification.permission === 'granted') this.update({ enabled: true });
+  }
+
+  /** Rejects with 'DENIED' when notifications are blocked and 'UNAVAILABLE' when the relay cannot be reached. */
+  async enable() {
+    if (!this.snapshot.supported) throw new Error('UNAVAILABLE');
+    if ((await Notification.requestPermission()) !== 'granted') throw new Error('DENIED');
+    try {
+      await this.register();
+    } catch (e) {
+      console.warn('[push] could not subscribe', e);
+      throw new Error('UNAVAILABLE');
+    }
+    localStorage.setItem(STORAGE_KEY, '1');
+    this.update({ enabled: true });
+  }
+
+  async disable() {
+    localStorage.removeItem(STORAGE_KEY);
+    this.update({ enabled: false });
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (!subscription) return;
+    await this.post({ type: 'unsubscribe', endpoint: subscription.endpoint }).catch(() => undefined);
+    await subscription.unsubscribe();
+  }
+
+  /** Sends the subscription again: at startup, since push services rotate them, and after the interface language changed. */
+  refresh() {
+    if (!this.snapshot.enabled) return;
+    this.register().catch(e => console.warn('[push] could not renew the subscription', e));
+  }
+
+  async ring(to: string, callId: string) {
+    try {
+      return (await this.post({ type: 'ring', to, callId })).status === 202;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  missed(to: string, callId: string) {
+    this.post({ type: 'missed', to, callId }).catch(e => console.warn('[push] could not report the missed call', e));
+  }
+
+  async status(callId: string): Promise<CallAlertStatus> {
+    try {
+      const response = await fetch(`${this.url}/calls/${encodeURIComponent(callId)}`);
+      return (await response.json()).status ?? 'unknown';
+    } catch (e) {
+      return 'unknown';
+    }
+  }
+
+  private async register() {
+    const registration = await navigator.serviceWorker.ready;
+    const { key } = await (await fetch(`${this.url}/vapid-public-key`)).json();
+    const applicationServerKey = decodeKey(key);
+    let subscription = await registration.pushManager.getSubscription();
+    // اشتراك قديم بمفتاح خادم آخر لن تصله إشعاراتنا
+    if (subscription && !sameKey(subscription.options.applicationServerKey, applicationServerKey)) {
+      await subscription.unsubscribe();
+      subscription = null;
+    }
+    subscription ??= await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+    const { endpoint, keys } = subscription.toJSON();
+    const response = await this.post({
+      type: 'subscribe',
+      subscription: { endpoint: endpoint!, keys: { p256dh: keys!.p256dh, auth: keys!.auth } },
+      locale: this.locale(),
+      blocked: this.blockList.ids(),
+    });
+    if (!response.ok) throw new Error(`relay answered ${response.status}`);
+  }
+
+  private async post(request: UnsignedRequest) {
+    const identity = await this.identity;
+    const unsigned = { ...request, peerId: identity.peerId, publicKey: identity.publicKey, signedAt: Date.now(), signature: '' } as PushRelayRequest;
+    const signed = { ...unsigned, signature: await identity.sign(signingText(unsigned)) };
+    return fetch(`${this.url}/`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(signed) });
+  }
+
+  private update(patch: Partial<PushAlertsSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change');
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Requests sent to the push relay (server/pushRelay.ts) and the payloads it
+ * pushes to the service worker. Shared by the browser client and the server.
+ * Every request that names a peer ID is signed with that ID's device key.
+ */
+import { Locale, LOCALES } from '../locales/index.ts';
+import { MAX_AVOID } from './matchmakingProtocol.ts';
+
+/** How long a woken device has to open the app and take the call. */
+export const ALERT_TIMEOUT = 45000;
+/** Signed requests older than this are refused, so a captured one cannot be replayed later. */
+export const MAX_SIGNATURE_AGE = 5 * 60 * 1000;
+
+export interface SignedFields {
+  peerId: string;
+  /** SPKI of the device key, base64. */
+  publicKey: string;
+  signedAt: number;
+  signature: string;
+}
+
+export interface SubscriptionKeys {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export type PushRelayRequest =
+  // blocked: IDs that may not wake this device, sent again whenever the block list changes
+  | ({ type: 'subscribe'; subscription: SubscriptionKeys; locale: Locale; blocked: string[] } & SignedFields)
+  | ({ type: 'unsubscribe'; endpoint: string } & SignedFields)
+  // callId: chosen by the caller, also used to decline and to report the call missed
+  | ({ type: 'ring'; to: string; callId: string } & SignedFields)
+  | ({ type: 'missed'; to: string; callId: string } & SignedFields);
+
+export type PushRelayRequestType = PushRelayRequest['type'];
+
+/** Text the service worker shows; the relay translates it into the language the device subscribed with. */
+export type PushPayload =
+  | { type: 'call'; from: string; callId: string; expiresAt: number; title: string; body: string; answer: string; reject: string; missedTitle: string; missedBody: string; declineUrl: string }
+  | { type: 'missed'; from: string; callId: string; title: string; body: string };
+
+export type CallAlertStatus = 'ringing' | 'declined' | 'unknown';
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+/** What a request's signature covers; the subject ties it to one subscription or one call. */
+export const signingText = (request: PushRelayRequest) => {
+  const subject =
+    request.type === 'subscribe' ? request.subscription.endpoint
+    : request.type === 'unsubscribe' ? request.endpoint
+    : `${request.to}|${request.callId}`;
+  return `anyone-push:1|${request.type}|${request.peerId}|${request.signedAt}|${subject}`;
+};
+
+const parseSubscription = (raw: unknown): SubscriptionKeys | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { endpoint, keys } = raw as Record<string, any>;
+  if (!isString(endpoint) || !/^https:\/\//.test(endpoint) || typeof keys !== 'object' || keys === null) return null;
+  return isString(keys.p256dh) && isString(keys.auth) ? { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } } : null;
+};
+
+/** Validates an untrusted request body received by the relay; the signature is checked separately. */
+export const parseRelayRequest = (raw: unknown): PushRelayRequest | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const data = raw as Record<string, unknown>;
+  if (!isString(data.peerId) || !isString(data.publicKey) || typeof data.signedAt !== 'number' || !isString(data.signature)) return null;
+  const signed: SignedFields = { peerId: data.peerId, publicKey: data.publicKey, signedAt: data.signedAt, signature: data.signature };
+  switch (data.type) {
+    case 'subscribe': {
+      const subscription = parseSubscription(data.subscription);
+      const locale = LOCALES.find(info => info.code === data.locale)?.code ?? 'en';
+      const blocked = Array.isArray(data.blocked) ? data.blocked.filter(isString).slice(0, MAX_AVOID) : [];
+      return subscription ? { type: 'subscribe', subscription, locale, blocked, ...signed } : null;
+    }
+    case 'unsubscribe':
+      return isString(data.endpoint) ? { type: 'unsubscribe', endpoint: data.endpoint, ...signed } : null;
+    case 'ring':
+    case 'missed':
+      return isString(data.to) && isString(data.callId) && data.to !== data.peerId
+        ? { type: data.type, to: data.to, callId: data.callId, ...signed }
+        : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,27 @@
+/** Counts attempts per key in a sliding window. */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number, private readonly now: () => number = Date.now) {}
+
+  /** Records an attempt and returns how many `key` made within the window, this one included. */
+  hit(key: string) {
+    const recent = this.recent(key);
+    recent.push(this.now());
+    this.hits.set(key, recent);
+    return recent.length;
+  }
+
+  /** True once `key` has gone over the limit within the window. */
+  isLimited(key: string) {
+    return this.recent(key).length > this.limit;
+  }
+
+  private recent(key: string) {
+    const since = this.now() - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter(at => at > since);
+    if (recent.length) this.hits.set(key, recent);
+    else this.hits.delete(key);
+    return recent;
+  }
+}
@@ -0,0 +1,234 @@
+import { AUDIO_SAMPLE_RATE } from '../constants.ts';
+import { createWavBlob, floatTo16BitPcm } from './audioService.ts';
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+import { ProtocolChannel } from './protocol.ts';
+
+const CAPTURE_BUFFER = 4096;
+/** How long a request waits for an answer before it is withdrawn. */
+export const REQUEST_TIMEOUT = 30_000;
+
+export type RecordingState = 'idle' | 'requesting' | 'asked' | 'recording';
+
+export interface Recording {
+  webm: Blob;
+  /** Only for audio-only recordings. */
+  wav: Blob | null;
+  startedAt: number;
+  duration: number;
+}
+
+export interface RecordingSnapshot {
+  state: RecordingState;
+  /** Who holds the recording while state is 'recording'. */
+  recordedBy: 'me' | 'them' | null;
+  startedAt: number | null;
+  /** The last finished recording of this call. */
+  result: Recording | null;
+}
+
+/** What is being recorded, read when the other side consents. */
+export interface RecordingSources {
+  local: MediaStream | null;
+  remote: MediaStream | null;
+  /** Adds the local camera to the recording. */
+  video: boolean;
+}
+
+interface RecorderEvents {
+  change: () => void;
+  notice: (text: Message) => void;
+}
+
+interface Capture {
+  ctx: AudioContext;
+  sources: MediaStreamAudioSourceNode[];
+  processor: ScriptProcessorNode | null;
+  recorder: MediaRecorder;
+  pcm: Int16Array[];
+}
+
+const IDLE: Omit<RecordingSnapshot, 'result'> = { state: 'idle', recordedBy: null, startedAt: null };
+
+/**
+ * Call recording that needs both people's consent. The side that asks keeps
+ * the file: local and remote audio are mixed on its own AudioContext and
+ * captured with MediaRecorder, plus a WAV copy for audio-only calls. Either
+ * side can stop at any time, which ends the capture on the spot.
+ */
+export class CallRecorder extends Emitter<RecorderEvents> {
+  private channel: ProtocolChannel | null = null;
+  private sources: () => RecordingSources = () => ({ local: null, remote: null, video: false });
+  private unsubscribe: (() => void)[] = [];
+  // يُنشأ عند نقرة الطلب، فالمتصفح لا يسمح بتشغيله لاحقاً دون تفاعل
+  private ctx: AudioContext | null = null;
+  private capture: Capture | null = null;
+  private requestTimer: ReturnType<typeof setTimeout> | null = null;
+  private snapshot: RecordingSnapshot = { ...IDLE, result: null };
+
+  getSnapshot = () => this.snapshot;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get supported() {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  attach(channel: ProtocolChannel, sources: () => RecordingSources) {
+    this.detach();
+    this.channel = channel;
+    this.sources = sources;
+    this.unsubscribe = [
+      channel.onMessage('RECORD_REQUEST', () => this.handleRequest()),
+      channel.onMessage('RECORD_RESPONSE', m => this.handleResponse(m.accepted)),
+      channel.onMessage('RECORD_STOP', () => this.handleStop()),
+    ];
+  }
+
+  /** The call is gone: any recording ends and is kept for download. */
+  detach() {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
+    this.channel = null;
+    this.finish();
+  }
+
+  /** Drops the previous call's recording. */
+  reset() {
+    this.finish(true);
+    this.update({ result: null });
+  }
+
+  /** Asks the other side for permission to record. */
+  request() {
+    if (!this.channel || !this.supported || this.snapshot.state !== 'idle') return;
+    this.ctx = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+    this.channel.send('RECORD_REQUEST');
+    this.update({ state: 'requesting' });
+    // بلا رد نسحب الطلب حتى لا يبقى معلقاً، ونخبر الطرف الآخر ليُخفي سؤاله
+    this.requestTimer = setTimeout(() => {
+      this.requestTimer = null;
+      if (this.snapshot.state !== 'requesting') return;
+      this.stop();
+      this.emit('notice', msg('notice.recordingUnanswered'));
+    }, REQUEST_TIMEOUT);
+  }
+
+  /** Answers the other side's request. */
+  respond(accepted: boolean) {
+    if (this.snapshot.state !== 'asked') return;
+    this.channel?.send('RECORD_RESPONSE', { accepted });
+    this.update(accepted ? { state: 'recording', recordedBy: 'them', startedAt: Date.now() } : IDLE);
+  }
+
+  /** Stops or cancels recording on both sides; also how consent is revoked. */
+  stop() {
+    if (this.snapshot.state === 'idle') return;
+    this.channel?.send('RECORD_STOP');
+    this.finish();
+  }
+
+  private handleRequest() {
+    // طلب أثناء تسجيل قائم يُرفض
+    if (this.snapshot.state !== 'idle') {
+      this.channel?.send('RECORD_RESPONSE', { accepted: false });
+      return;
+    }
+    this.update({ state: 'asked' });
+  }
+
+  private handleResponse(accepted: boolean) {
+    if (this.snapshot.state !== 'requesting') return;
+    if (this.requestTimer) clearTimeout(this.requestTimer);
+    this.requestTimer = null;
+    if (!accepted) {
+      this.finish();
+      this.emit('notice', msg('notice.recordingDeclined'));
+      return;
+    }
+    try {
+      this.begin();
+    } catch (e) {
+      console.warn('[recording] could not start', e);
+      this.stop();
+      this.emit('notice', msg('notice.recordingFailed'));
+    }
+  }
+
+  private handleStop() {
+    if (this.snapshot.state === 'idle') return;
+    const wasRecording = this.snapshot.state === 'recording';
+    this.finish();
+    if (wasRecording) this.emit('notice', msg('notice.recordingStopped'));
+  }
+
+  private begin() {
+    const ctx = this.ctx!;
+    const { local, remote, video } = this.sources();
+    const destination = ctx.createMediaStreamDestination();
+    const sources = [local, remote]
+      .filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0)
+      .map(s => ctx.createMediaStreamSource(s));
+    sources.forEach(s => s.connect(destination));
+    const camera = video ? local?.getVideoTracks()[0] : undefined;
+    const stream = new MediaStream([...destination.stream.getAudioTracks(), ...(camera ? [camera] : [])]);
+    const recorder = new MediaRecorder(stream, { mimeType: this.mimeType(!!camera) });
+    const chunks: Blob[] = [];
+    const pcm: Int16Array[] = [];
+    let processor: ScriptProcessorNode | null = null;
+    // نسخة WAV للمكالمات الصوتية فقط، من نفس المزيج
+    if (!camera) {
+      processor = ctx.createScriptProcessor(CAPTURE_BUFFER, 1, 1);
+      processor.onaudioprocess = e => pcm.push(floatTo16BitPcm(e.inputBuffer.getChannelData(0)));
+      sources.forEach(s => s.connect(processor!));
+      processor.connect(ctx.destination);
+    }
+    const startedAt = Date.now();
+    recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+    recorder.onstop = () => {
+      this.update({
+        result: {
+          webm: new Blob(chunks, { type: recorder.mimeType || 'video/webm' }),
+          wav: camera ? null : createWavBlob(pcm, ctx.sampleRate),
+          startedAt,
+          duration: Math.round((Date.now() - startedAt) / 1000),
+        },
+      });
+      ctx.close().catch(() => {});
+    };
+    recorder.start(1000);
+    this.capture = { ctx, sources, processor, recorder, pcm };
+    this.ctx = null;
+    this.update({ state: 'recording', recordedBy: 'me', startedAt });
+  }
+
+  private mimeType(video: boolean) {
+    const candidates = video ? ['video/webm;codecs=vp8,opus', 'video/webm'] : ['audio/webm;codecs=opus', 'audio/webm'];
+    return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+  }
+
+  /**
+   * Ends any capture immediately and returns to idle. The file is assembled
+   * once MediaRecorder stops, unless `discard` is set.
+   */
+  private finish(discard = false) {
+    if (this.requestTimer) clearTimeout(this.requestTimer);
+    this.requestTimer = null;
+    const capture = this.capture;
+    this.capture = null;
+    if (capture) {
+      capture.processor?.disconnect();
+      capture.sources.forEach(s => s.disconnect());
+      if (discard) capture.recorder.onstop = () => { capture.ctx.close().catch(() => {}); };
+      if (capture.recorder.state !== 'inactive') capture.recorder.stop();
+    }
+    this.ctx?.close().catch(() => {});
+    this.ctx = null;
+    if (this.snapshot.state !== 'idle') this.update(IDLE);
+  }
+
+  private update(patch: Partial<RecordingSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.emit('change');
+  }
+}
@@ -0,0 +1,76 @@
+import { ProtocolChannel, SessionDescription } from './protocol.ts';
+
+const isDescription = (value: any): value is SessionDescription =>
+  (value?.type === 'offer' || value?.type === 'answer') && typeof value.sdp === 'string';
+
+/**
+ * PeerJS negotiates a MediaConnection only once, so tracks added later (a
+ * camera turned on mid-call) are renegotiated over the call's ProtocolChannel.
+ * Uses the "perfect negotiation" pattern: when both sides offer at the same
+ * time, the polite side (the one that answered the call) gives way.
+ * Returns a function that stops listening.
+ */
+export const attachRenegotiation = (pc: RTCPeerConnection, channel: ProtocolChannel, polite: boolean) => {
+  let makingOffer = false;
+
+  const sendLocalDescription = () => {
+    const { type, sdp } = pc.localDescription!;
+    channel.send('RENEGOTIATE', { description: { type: type as SessionDescription['type'], sdp } });
+  };
+
+  const onNegotiationNeeded = async () => {
+    // التفاوض الأول تتولاه PeerJS
+    if (!pc.remoteDescription || pc.signalingState !== 'stable') return;
+    try {
+      makingOffer = true;
+      await pc.setLocalDescription();
+      sendLocalDescription();
+    } catch (e) {
+      console.warn('[media] could not create offer', e);
+    } finally {
+      makingOffer = false;
+    }
+  };
+
+  const offMessage = channel.onMessage('RENEGOTIATE', async ({ description }) => {
+    if (!isDescription(description)) return;
+    const collision = description.type === 'offer' && (makingOffer || pc.signalingState !== 'stable');
+    if (collision && !polite) return;
+    try {
+      await pc.setRemoteDescription(description);
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        sendLocalDescription();
+      }
+    } catch (e) {
+      console.warn('[media] renegotiation failed', e);
+    }
+  });
+
+  pc.addEventListener('negotiationneeded', onNegotiationNeeded);
+  return () => {
+    pc.removeEventListener('negotiationneeded', onNegotiationNeeded);
+    offMessage();
+  };
+};
+
+/** The live transceiver carrying `kind`, whichever side added it. */
+export const transceiverOf = (pc: RTCPeerConnection | undefined, kind: 'audio' | 'video') =>
+  pc?.getTransceivers().find(t => t.currentDirection !== 'stopped' && t.receiver.track.kind === kind);
+
+/** Puts a track on the connection's sender of that kind, adding one when there is none yet. */
+export const sendTrackOn = async (
+  pc: RTCPeerConnection | undefined,
+  kind: 'audio' | 'video',
+  track: MediaStreamTrack | null,
+  stream: MediaStream | null,
+) => {
+  const transceiver = transceiverOf(pc, kind);
+  if (transceiver) {
+    await transceiver.sender.replaceTrack(track);
+    // المجيب يستقبل الفيديو فقط إلى أن يشغّل كاميرته، فنعيد التفاوض
+    if (track && transceiver.direction === 'recvonly') transceiver.direction = 'sendrecv';
+  } else if (track && stream) {
+    pc?.addTrack(track, stream);
+  }
+};
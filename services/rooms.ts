@@ -0,0 +1,116 @@
+import { MatchClientMessage, parseServerMessage } from './matchmakingProtocol.ts';
+import { SocketFactory } from './matchmaking.ts';
+
+/** What CallSession needs to join named rooms; tests can substitute a fake. */
+export interface RoomDirectoryLike {
+  /** Resolves with the peer IDs already in the room; rejects with 'ROOM_FULL' or when the server is unreachable. */
+  join(code: string, peerId: string): Promise<string[]>;
+  leave(): void;
+}
+
+const JOIN_TIMEOUT = 10000;
+const MAX_RECONNECTS = 5;
+
+/**
+ * Keeps our entry in a named room on server/matchmaker.ts for as long as we
+ * are in it, so that people joining later find us. If the socket drops while
+ * in the room, it reconnects and registers again.
+ */
+export class RoomClient implements RoomDirectoryLike {
+  private socket: WebSocket | null = null;
+  private room: { code: string; peerId: string } | null = null;
+  private pending: { resolve: (members: string[]) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> } | null = null;
+  private reconnects = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly url: string, private readonly createSocket: SocketFactory = (url) => new WebSocket(url)) {}
+
+  join(code: string, peerId: string) {
+    this.leave();
+    this.room = { code, peerId };
+    this.reconnects = 0;
+    return new Promise<string[]>((resolve, reject) => {
+      const timer = setTimeout(() => this.settle(new Error('UNAVAILABLE')), JOIN_TIMEOUT);
+      this.pending = { resolve, reject, timer };
+      this.connect();
+    });
+  }
+
+  leave() {
+    if (!this.room) return;
+    this.send({ type: 'room-leave' });
+    this.room = null;
+    this.settle(new Error('CANCELLED'));
+    this.close();
+  }
+
+  private connect() {
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.reconnects = 0;
+      if (this.room) this.send({ type: 'room-join', ...this.room });
+    };
+    socket.onmessage = (event) => this.handleFrame(event.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private handleFrame(data: unknown) {
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(String(data));
+    } catch (e) {}
+    const message = parseServerMessage(raw);
+    if (!message || !this.room) return;
+    if (message.type === 'room-joined') {
+      this.settle(message.members);
+    } else if (message.type === 'error') {
+      console.warn(`[rooms] ${message.message}`);
+      if (message.code !== 'ROOM_FULL') return;
+      this.room = null;
+      this.settle(new Error('ROOM_FULL'));
+      this.close();
+    }
+  }
+
+  /** Settles the join in progress, if any; later registrations after a reconnect settle nothing. */
+  private settle(result: string[] | Error) {
+    const pending = this.pending;
+    if (!pending) return;
+    this.pending = null;
+    clearTimeout(pending.timer);
+    if (result instanceof Error) pending.reject(result);
+    else pending.resolve(result);
+  }
+
+  private scheduleReconnect() {
+    if (!this.room) return;
+    if (this.reconnects >= MAX_RECONNECTS) {
+      // المكالمة مستمرة، لكن لن يجدنا من ينضم لاحقاً
+      this.settle(new Error('UNAVAILABLE'));
+      return;
+    }
+    const delay = Math.min(500 * 2 ** this.reconnects, 5000);
+    this.reconnects++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.room) this.connect();
+    }, delay);
+  }
+
+  private send(message: MatchClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private close() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
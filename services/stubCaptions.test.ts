@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StubCaptionProvider } from './stubCaptions.ts';
+
+const WORD_INTERVAL = 400;
+
+const microphone = (track = { enabled: true, readyState: 'live' }) => ({
+  track,
+  stream: { getAudioTracks: () => [track] } as unknown as MediaStream,
+});
+
+const listen = (stream: MediaStream, lang = 'en') => {
+  const heard: [string, boolean][] = [];
+  const stop = new StubCaptionProvider().listen(stream, lang, (text, final) => heard.push([text, final]));
+  return { heard, stop };
+};
+
+describe('StubCaptionProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('speaks a phrase word by word and finishes it, then pauses before the next', () => {
+    const { heard, stop } = listen(microphone().stream);
+
+    vi.advanceTimersByTime(WORD_INTERVAL * 5);
+    expect(heard).toEqual([
+      ['Hello,', false],
+      ['Hello, nice', false],
+      ['Hello, nice to', false],
+      ['Hello, nice to meet', false],
+      ['Hello, nice to meet you', true],
+    ]);
+
+    vi.advanceTimersByTime(WORD_INTERVAL * 5);
+    expect(heard).toHaveLength(5);
+    vi.advanceTimersByTime(WORD_INTERVAL);
+    expect(heard[5]).toEqual(['Where', false]);
+    stop();
+  });
+
+  it('hears nothing while the microphone is muted or ended, and nothing once stopped', () => {
+    const { track, stream } = microphone();
+    const { heard, stop } = listen(stream, 'fr');
+
+    track.enabled = false;
+    vi.advanceTimersByTime(WORD_INTERVAL * 3);
+    expect(heard).toEqual([]);
+
+    track.enabled = true;
+    vi.advanceTimersByTime(WORD_INTERVAL);
+    expect(heard).toEqual([['Bonjour,', false]]);
+
+    track.readyState = 'ended';
+    vi.advanceTimersByTime(WORD_INTERVAL);
+    track.readyState = 'live';
+    stop();
+    vi.advanceTimersByTime(WORD_INTERVAL * 3);
+    expect(heard).toHaveLength(1);
+  });
+
+  it('translates its own phrases, and tags any other text with the target language', async () => {
+    const provider = new StubCaptionProvider();
+
+    expect(await provider.translate('Where are you calling from?', 'en', 'es')).toBe('¿Desde dónde llamas?');
+    expect(await provider.translate('مرحباً، سعيد بلقائك', 'ar', 'en')).toBe('Hello, nice to meet you');
+    expect(await provider.translate('Good morning', 'en', 'pt')).toBe('[pt] Good morning');
+    expect(await provider.translate('Hello, nice to meet you', 'en', 'de')).toBe('[de] Hello, nice to meet you');
+  });
+});
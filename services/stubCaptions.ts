@@ -0,0 +1,55 @@
+import { CaptionProvider } from './captions.ts';
+
+const WORD_INTERVAL = 400;
+/** Word ticks of silence between two utterances. */
+const PAUSE_TICKS = 5;
+
+// نفس الجمل بالترتيب نفسه في كل لغة، فالترجمة مجرد بحث بالموضع
+const PHRASES: Record<string, string[]> = {
+  en: ['Hello, nice to meet you', 'Where are you calling from?', 'I love meeting people from other countries', 'What do you do for fun?', 'That sounds really interesting'],
+  ar: ['مرحباً، سعيد بلقائك', 'من أين تتصل؟', 'أحب التعرف على أناس من بلدان أخرى', 'ماذا تفعل للتسلية؟', 'هذا يبدو مثيراً للاهتمام حقاً'],
+  fr: ['Bonjour, enchanté', "D'où appelles-tu ?", "J'adore rencontrer des gens d'autres pays", "Qu'est-ce que tu fais pour t'amuser ?", 'Ça a l’air vraiment intéressant'],
+  es: ['Hola, encantado de conocerte', '¿Desde dónde llamas?', 'Me encanta conocer gente de otros países', '¿Qué haces para divertirte?', 'Eso suena muy interesante'],
+  pt: ['Olá, prazer em conhecer você', 'De onde você está ligando?', 'Adoro conhecer pessoas de outros países', 'O que você faz para se divertir?', 'Isso parece muito interessante'],
+};
+
+const phrasesFor = (lang: string) => PHRASES[lang] ?? PHRASES.en;
+
+/**
+ * Deterministic offline captions for development and tests. "Recognition"
+ * speaks a fixed list of phrases word by word while the microphone is live
+ * and unmuted; translation maps between the same phrases in each language and
+ * tags anything else with the target language.
+ */
+export class StubCaptionProvider implements CaptionProvider {
+  listen(stream: MediaStream, lang: string, onSpeech: (text: string, final: boolean) => void) {
+    const phrases = phrasesFor(lang);
+    let phrase = 0;
+    let word = 0;
+    let pause = 0;
+    const timer = setInterval(() => {
+      if (!stream.getAudioTracks().some(t => t.enabled && t.readyState === 'live')) return;
+      if (pause > 0) {
+        pause--;
+        return;
+      }
+      const words = phrases[phrase % phrases.length].split(' ');
+      word++;
+      if (word < words.length) {
+        onSpeech(words.slice(0, word).join(' '), false);
+        return;
+      }
+      onSpeech(words.join(' '), true);
+      phrase++;
+      word = 0;
+      pause = PAUSE_TICKS;
+    }, WORD_INTERVAL);
+    return () => clearInterval(timer);
+  }
+
+  async translate(text: string, from: string, to: string) {
+    const index = phrasesFor(from).indexOf(text);
+    if (index !== -1 && PHRASES[to]) return PHRASES[to][index];
+    return `[${to}] ${text}`;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * The subset of PeerJS the call services depend on. PeerJS objects satisfy
+ * these interfaces structurally, so production code passes real `Peer`
+ * instances while tests can drive the services with hand-written fakes.
+ */
+export interface DataConnectionLike {
+  readonly peer: string;
+  readonly open: boolean;
+  readonly metadata?: any;
+  send(data: any): void | Promise<void>;
+  close(): void;
+  on(event: 'open' | 'close', listener: () => void): unknown;
+  on(event: 'data', listener: (data: unknown) => void): unknown;
+  on(event: 'error', listener: (error: any) => void): unknown;
+}
+
+export interface MediaConnectionLike {
+  readonly peer: string;
+  readonly open: boolean;
+  readonly metadata?: any;
+  // PeerJS creates it on call() / answer(); used for mid-call track changes
+  readonly peerConnection?: RTCPeerConnection | null;
+  answer(stream?: MediaStream): void;
+  close(): void;
+  on(event: 'close', listener: () => void): unknown;
+  on(event: 'stream', listener: (stream: MediaStream) => void): unknown;
+  on(event: 'error', listener: (error: any) => void): unknown;
+}
+
+export interface PeerErrorLike {
+  type: string;
+  message?: string;
+}
+
+export interface PeerLike {
+  readonly id: string;
+  readonly disconnected: boolean;
+  readonly destroyed: boolean;
+  /** Reconnects to the signalling server after a `disconnected` event, keeping the same ID. */
+  reconnect(): void;
+  connect(peer: string, options?: { reliable?: boolean; metadata?: any }): DataConnectionLike;
+  call(peer: string, stream: MediaStream, options?: { metadata?: any }): MediaConnectionLike;
+  destroy(): void;
+  on(event: 'open' | 'disconnected', listener: (id: string) => void): unknown;
+  on(event: 'connection', listener: (conn: DataConnectionLike) => void): unknown;
+  on(event: 'call', listener: (call: MediaConnectionLike) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  on(event: 'error', listener: (error: PeerErrorLike) => void): unknown;
+}
+
+export type PeerFactory = (id: string) => PeerLike;
+
+export type MediaProvider = (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+
+export type DisplayMediaProvider = (options: DisplayMediaStreamOptions) => Promise<MediaStream>;
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUDIO_SAMPLE_RATE, INPUT_SAMPLE_RATE } from '../constants.ts';
+import { MockVoiceAgentProvider } from './mockVoiceAgent.ts';
+import { VoiceAgentCall, VoiceAgentConnection, VoiceAgentProvider } from './voiceAgent.ts';
+
+const BLOCK_MS = 100;
+const BLOCK = (INPUT_SAMPLE_RATE * BLOCK_MS) / 1000;
+
+class FakeBuffer {
+  private readonly data: Float32Array;
+
+  constructor(readonly length: number, readonly sampleRate: number) {
+    this.data = new Float32Array(length);
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData() {
+    return this.data;
+  }
+}
+
+class FakeBufferSource {
+  buffer: FakeBuffer | null = null;
+  startedAt: number | null = null;
+  stopped = false;
+  onended: (() => void) | null = null;
+  connect() {}
+
+  start(at: number) {
+    this.startedAt = at;
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+}
+
+type Processor = { onaudioprocess: ((e: { inputBuffer: { getChannelData: () => Float32Array } }) => void) | null };
+
+/** Just enough of an AudioContext to capture the microphone and schedule playback. */
+class FakeAudioContext {
+  static created: FakeAudioContext[] = [];
+  readonly destination = {};
+  currentTime = 0;
+  closed = false;
+  processor: Processor | null = null;
+  sources: FakeBufferSource[] = [];
+
+  constructor(readonly options: { sampleRate: number }) {
+    FakeAudioContext.created.push(this);
+  }
+
+  async resume() {}
+
+  async close() {
+    this.closed = true;
+  }
+
+  createMediaStreamDestination() {
+    return { stream: {} };
+  }
+
+  createMediaStreamSource() {
+    return { connect() {}, disconnect() {} };
+  }
+
+  createScriptProcessor() {
+    this.processor = { onaudioprocess: null };
+    return Object.assign(this.processor, { connect() {}, disconnect() {} });
+  }
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return new FakeBuffer(length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+const persona = { name: 'Sam', instruction: 'Be kind.', voice: 'Puck' };
+const mic = {} as MediaStream;
+
+const speech = () => Float32Array.from({ length: BLOCK }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 200 * i) / INPUT_SAMPLE_RATE));
+const silence = () => new Float32Array(BLOCK);
+
+const start = async (provider: VoiceAgentProvider = new MockVoiceAgentProvider()) => {
+  const call = new VoiceAgentCall(provider, persona);
+  const [input, output] = FakeAudioContext.created;
+  await call.start(mic);
+  /** The microphone hears `block`, and the clock moves on by one block. */
+  const hear = async (block: Float32Array) => {
+    input.processor!.onaudioprocess!({ inputBuffer: { getChannelData: () => block } });
+    await vi.advanceTimersByTimeAsync(BLOCK_MS);
+  };
+  const talk = async (speakMs: number, quietMs = 0) => {
+    for (let t = 0; t < speakMs; t += BLOCK_MS) await hear(speech());
+    for (let t = 0; t < quietMs; t += BLOCK_MS) await hear(silence());
+  };
+  return { call, input, output, talk };
+};
+
+describe('VoiceAgentCall', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeAudioContext.created = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('captures at the input rate and plays the agent at the output rate', async () => {
+    const { input, output } = await start();
+
+    expect(input.options.sampleRate).toBe(INPUT_SAMPLE_RATE);
+    expect(output.options.sampleRate).toBe(AUDIO_SAMPLE_RATE);
+  });
+
+  it('schedules the greeting chunks back to back', async () => {
+    const { output } = await start();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(output.sources.length).toBeGreaterThan(1);
+    let next = 0;
+    output.sources.forEach(source => {
+      expect(source.startedAt).toBeCloseTo(next, 6);
+      next += source.buffer!.duration;
+    });
+  });
+
+  it('streams the microphone to the agent, which answers when the user pauses', async () => {
+    const { output, talk } = await start();
+    await vi.advanceTimersByTimeAsync(2000);
+    const greeting = output.sources.length;
+
+    await talk(800);
+    expect(output.sources).toHaveLength(greeting);
+
+    await talk(0, 600);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(output.sources.length).toBeGreaterThan(greeting);
+  });
+
+  it('drops the queued voice when the user talks over the agent', async () => {
+    const { output, talk } = await start();
+    await vi.advanceTimersByTimeAsync(800);
+    const played = output.sources.length;
+    expect(played).toBeGreaterThan(0);
+
+    await talk(300);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(output.sources).toHaveLength(played);
+    expect(output.sources.every(source => source.stopped)).toBe(true);
+
+    // الرد التالي يبدأ من الآن لا بعد نهاية الرد المقطوع
+    output.currentTime = 5;
+    await talk(0, 600);
+    expect(output.sources[played].startedAt).toBe(5);
+  });
+
+  it('ends when the provider closes, and not again when stopped', async () => {
+    let close: (reason?: string) => void = () => {};
+    const provider: VoiceAgentProvider = {
+      connect: async (_, callbacks) => {
+        close = callbacks.onClose;
+        return { sendAudio() {}, close() {} };
+      },
+    };
+    const { call, input, output } = await start(provider);
+    const ended: (string | undefined)[] = [];
+    call.on('ended', reason => ended.push(reason));
+
+    close('quota');
+    call.stop();
+    expect(ended).toEqual(['quota']);
+    expect(input.closed && output.closed).toBe(true);
+  });
+
+  it('closes a connection that opens after the call was stopped', async () => {
+    let connection: VoiceAgentConnection | null = null;
+    const closeConnection = vi.fn();
+    const provider: VoiceAgentProvider = {
+      connect: async () => (connection = { sendAudio() {}, close: closeConnection }),
+    };
+    const call = new VoiceAgentCall(provider, persona);
+
+    const starting = call.start(mic);
+    call.stop();
+    await starting;
+    expect(connection).not.toBeNull();
+    expect(closeConnection).toHaveBeenCalledOnce();
+    expect(FakeAudioContext.created[0].processor).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { AUDIO_SAMPLE_RATE, INPUT_SAMPLE_RATE } from '../constants.ts';
+import { Persona } from '../types.ts';
+import { createPcmBlob, decode, decodePcmData } from './audioService.ts';
+import { Emitter } from './emitter.ts';
+
+/** Base64 16-bit PCM, as made by createPcmBlob. */
+export interface PcmBlob {
+  data: string;
+  mimeType: string;
+}
+
+export interface VoiceAgentCallbacks {
+  /** A chunk of the agent's voice: base64 16-bit mono PCM at AUDIO_SAMPLE_RATE. */
+  onAudio: (data: string) => void;
+  /** The user talked over the agent; audio that is still queued should be dropped. */
+  onInterrupted: () => void;
+  onClose: (reason?: string) => void;
+}
+
+export interface VoiceAgentConnection {
+  /** Microphone audio, 16-bit mono PCM at INPUT_SAMPLE_RATE. */
+  sendAudio(blob: PcmBlob): void;
+  close(): void;
+}
+
+/**
+ * A streaming speech-to-speech model that talks in the voice and manner of a
+ * persona: `persona.instruction` is the system prompt to send the model and
+ * `persona.voice` the voice to speak in.
+ */
+export interface VoiceAgentProvider {
+  connect(persona: Persona, callbacks: VoiceAgentCallbacks): Promise<VoiceAgentConnection>;
+}
+
+const CAPTURE_BUFFER = 4096;
+
+/**
+ * One conversation with a voice agent: streams the microphone to the provider
+ * and schedules the agent's audio back to back on a MediaStream, so the UI can
+ * play and meter it like the remote stream of a real call.
+ */
+export class VoiceAgentCall extends Emitter<{ ended: (reason?: string) => void }> {
+  private readonly input = new AudioContext({ sampleRate: INPUT_SAMPLE_RATE });
+  private readonly output = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+  private readonly destination = this.output.createMediaStreamDestination();
+  private connection: VoiceAgentConnection | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private playing = new Set<AudioBufferSourceNode>();
+  // موعد بدء المقطع التالي حتى تتصل المقاطع دون فجوات
+  private nextStart = 0;
+  private stopped = false;
+
+  constructor(private readonly provider: VoiceAgentProvider, readonly persona: Persona) {
+    super();
+    // المتصفح قد يبدأ السياق معلّقاً إن لم يُنشأ مباشرة بعد نقرة
+    this.output.resume().catch(() => {});
+  }
+
+  /** The agent's voice. */
+  get stream() {
+    return this.destination.stream;
+  }
+
+  /** Connects to the provider and starts sending the microphone. */
+  async start(mic: MediaStream) {
+    const connection = await this.provider.connect(this.persona, {
+      onAudio: data => this.play(data),
+      onInterrupted: () => this.interrupt(),
+      onClose: reason => this.end(reason),
+    });
+    if (this.stopped) {
+      connection.close();
+      return;
+    }
+    this.connection = connection;
+    this.processor = this.input.createScriptProcessor(CAPTURE_BUFFER, 1, 1);
+    this.processor.onaudioprocess = e => this.connection?.sendAudio(createPcmBlob(e.inputBuffer.getChannelData(0)));
+    // المعالج لا يعمل في بعض المتصفحات ما لم يتصل بالمخرج، ومخرجه صامت
+    this.processor.connect(this.input.destination);
+    this.setMicrophone(mic);
+  }
+
+  /** Captures from another microphone stream, e.g. after the input device changed. */
+  setMicrophone(mic: MediaStream) {
+    if (!this.processor) return;
+    this.source?.disconnect();
+    this.source = this.input.createMediaStreamSource(mic);
+    this.source.connect(this.processor);
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.interrupt();
+    this.processor?.disconnect();
+    this.source?.disconnect();
+    this.connection?.close();
+    this.connection = null;
+    this.input.close().catch(() => {});
+    this.output.close().catch(() => {});
+  }
+
+  private async play(data: string) {
+    if (this.stopped) return;
+    const buffer = await decodePcmData(decode(data), this.output, AUDIO_SAMPLE_RATE, 1);
+    if (this.stopped) return;
+    const node = this.output.createBufferSource();
+    node.buffer = buffer;
+    node.connect(this.destination);
+    this.nextStart = Math.max(this.nextStart, this.output.currentTime);
+    node.start(this.nextStart);
+    this.nextStart += buffer.duration;
+    this.playing.add(node);
+    node.onended = () => this.playing.delete(node);
+  }
+
+  private interrupt() {
+    this.playing.forEach(node => {
+      try { node.stop(); } catch { /* لم يبدأ بعد */ }
+    });
+    this.playing.clear();
+    this.nextStart = 0;
+  }
+
+  private end(reason?: string) {
+    if (this.stopped) return;
+    this.stop();
+    this.emit('ended', reason);
+  }
+}
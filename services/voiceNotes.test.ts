@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VoiceNoteRecorder } from './voiceNotes.ts';
+
+class FakeMediaRecorder {
+  static last: FakeMediaRecorder | null = null;
+  state: RecordingState = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(readonly stream: MediaStream) {
+    FakeMediaRecorder.last = this;
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['note']) });
+    this.onstop?.();
+  }
+}
+
+const microphone = () => ({ getAudioTracks: () => [{ kind: 'audio' }] }) as unknown as MediaStream;
+
+describe('VoiceNoteRecorder', () => {
+  beforeEach(() => {
+    FakeMediaRecorder.last = null;
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('MediaStream', class { constructor(readonly tracks: unknown[]) {} });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('records on the first toggle and sends the note on the second', async () => {
+    const send = vi.fn(async () => {});
+    const notes = new VoiceNoteRecorder(microphone, send);
+    const changes = vi.fn();
+    notes.subscribe(changes);
+
+    notes.toggle();
+    expect(notes.getSnapshot()).toBe(true);
+    notes.toggle();
+
+    expect(notes.getSnapshot()).toBe(false);
+    expect(changes).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenCalledOnce();
+    const [note, name] = send.mock.calls[0] as unknown as [Blob, string];
+    expect(note.type).toBe('audio/webm');
+    expect(name).toMatch(/^voice-note-\d{6}\.webm$/);
+  });
+
+  it('drops the note on cancel without sending it', () => {
+    const send = vi.fn(async () => {});
+    const notes = new VoiceNoteRecorder(microphone, send);
+
+    notes.toggle();
+    notes.cancel();
+
+    expect(notes.getSnapshot()).toBe(false);
+    expect(FakeMediaRecorder.last?.state).toBe('inactive');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('says so when there is no microphone to record from', () => {
+    const notes = new VoiceNoteRecorder(() => null, vi.fn());
+    const notice = vi.fn();
+    notes.on('notice', notice);
+
+    notes.toggle();
+
+    expect(notes.getSnapshot()).toBe(false);
+    expect(notice).toHaveBeenCalledWith(expect.objectContaining({ key: 'notice.recordingUnavailable' }));
+  });
+
+  it('reports a note that could not be sent', async () => {
+    const notes = new VoiceNoteRecorder(microphone, () => Promise.reject(new Error('closed')));
+    const notice = vi.fn();
+    notes.on('notice', notice);
+
+    notes.toggle();
+    notes.toggle();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(notice).toHaveBeenCalledWith(expect.objectContaining({ key: 'notice.fileFailed' }));
+  });
+});
@@ -0,0 +1,63 @@
+import { Emitter } from './emitter.ts';
+import { Message, msg } from './i18n.ts';
+
+interface VoiceNoteEvents {
+  change: () => void;
+  notice: (text: Message) => void;
+}
+
+/**
+ * Voice messages recorded from the call's own microphone and sent as a file
+ * when recording stops. The snapshot is whether a note is being recorded.
+ */
+export class VoiceNoteRecorder extends Emitter<VoiceNoteEvents> {
+  private recorder: MediaRecorder | null = null;
+
+  constructor(
+    private readonly microphone: () => MediaStream | null,
+    private readonly send: (note: Blob, name: string) => Promise<unknown>,
+  ) {
+    super();
+  }
+
+  getSnapshot = () => !!this.recorder;
+
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  /** Starts a note, or stops the one being recorded and sends it. */
+  toggle() {
+    if (this.recorder) {
+      this.recorder.stop();
+      return;
+    }
+    const tracks = this.microphone()?.getAudioTracks() ?? [];
+    if (!tracks.length || typeof MediaRecorder === 'undefined') {
+      this.emit('notice', msg('notice.recordingUnavailable'));
+      return;
+    }
+    const recorder = new MediaRecorder(new MediaStream(tracks));
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => chunks.push(e.data);
+    recorder.onstop = () => {
+      this.recorder = null;
+      this.emit('change');
+      const note = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+      if (!note.size) return;
+      this.send(note, `voice-note-${new Date().toISOString().slice(11, 19).replace(/:/g, '')}.webm`)
+        .catch((e: Error) => this.emit('notice', msg('notice.fileFailed', { reason: e.message })));
+    };
+    this.recorder = recorder;
+    recorder.start();
+    this.emit('change');
+  }
+
+  /** Drops the note being recorded without sending it, e.g. because the call ended. */
+  cancel() {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    this.emit('change');
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Keeps the screen from dimming while the app is open, where the browser
+ * supports it. Returns a function that lets it dim again.
+ */
+export const keepScreenOn = () => {
+  let sentinel: WakeLockSentinel | null = null;
+  let released = false;
+  if ('wakeLock' in navigator) {
+    navigator.wakeLock.request('screen').then(
+      lock => {
+        if (released) lock.release().catch(() => {});
+        else sentinel = lock;
+      },
+      // البطارية المنخفضة أو تبويب في الخلفية
+      () => {},
+    );
+  }
+  return () => {
+    released = true;
+    sentinel?.release().catch(() => {});
+    sentinel = null;
+  };
+};
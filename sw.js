@@ -1,16 +1,103 @@
+// البناء يستبدل هذين السطرين بنسخة البناء وقائمة ملفاته (انظر vite.config.ts)
+const VERSION = 'dev';
+const BUILD_ASSETS = [];
 
-const CACHE_NAME = 'anyone-v2';
+const PRECACHE = `anyone-shell-${VERSION}`;
+const RUNTIME = `anyone-runtime-${VERSION}`;
+
+// هيكل التطبيق يعمل دون اتصال، والملفات المجزّأة تأتي من البناء
+const SHELL = ['/', '/index.html', '/icons/icon-192.png', '/icons/icon-512.png', ...BUILD_ASSETS];
+
+// مكتبات ومصادر خارجية تُحفظ عند أول استخدام لتعمل الواجهة دون اتصال
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
 
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  // لا skipWaiting هنا: الإصدار الجديد ينتظر موافقة المستخدم حتى لا تنقطع مكالمة جارية
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(SHELL)));
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('anyone-') && name !== PRECACHE && name !== RUNTIME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
 self.addEventListener('fetch', (event) => {
-  event.respondWith(fetch(event.request));
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // التنقل: الشبكة أولاً حتى يصل أحدث index.html، ثم الهيكل المحفوظ
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('/index.html', { cacheName: PRECACHE }))
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.open(RUNTIME).then((cache) =>
+        cache.match(request).then((cached) => {
+          const network = fetch(request)
+            .then((response) => {
+              if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+              return response;
+            })
+            .catch(() => cached);
+          return cached || network;
+        })
+      )
+    );
+  }
+});
+
+// تنبيه من خادم الإشعارات (server/pushRelay.ts) حين يكون التطبيق مغلقاً؛ النصوص تصل مترجمة
+self.addEventListener('push', (event) => {
+  let data = null;
+  try {
+    data = event.data?.json();
+  } catch (e) {}
+  if (!data?.from) return;
+
+  const icon = '/icons/icon-192.png';
+  const tag = 'call-' + data.from;
+  // إشعار مكالمة وصل بعد انتهاء رنينها يُعرض مكالمة فائتة
+  if (data.type === 'call' && Date.now() < data.expiresAt) {
+    event.waitUntil(self.registration.showNotification(data.title, {
+      body: data.body,
+      icon,
+      tag,
+      renotify: true,
+      requireInteraction: true,
+      actions: [
+        { action: 'answer', title: data.answer },
+        { action: 'reject', title: data.reject }
+      ],
+      data: { from: data.from, declineUrl: data.declineUrl }
+    }));
+  } else if (data.type === 'call' || data.type === 'missed') {
+    const title = data.type === 'call' ? data.missedTitle : data.title;
+    const body = data.type === 'call' ? data.missedBody : data.body;
+    event.waitUntil(self.registration.showNotification(title, { body, icon, tag, renotify: true, data: { from: data.from } }));
+  }
 });
 
 // التعامل مع الأزرار داخل الإشعار
@@ -18,6 +105,13 @@ self.addEventListener('notificationclick', (event) => {
   event.notification.close();
   
   const action = event.action;
+  const { from, declineUrl } = event.notification.data || {};
+
+  // الرفض من إشعار الخادم يصل للمتصل دون فتح التطبيق
+  if (action === 'reject' && declineUrl) {
+    event.waitUntil(fetch(declineUrl, { method: 'POST' }).catch(() => {}));
+    return;
+  }
   
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
@@ -26,17 +120,18 @@ self.addEventListener('notificationclick', (event) => {
         if (client.url.includes('/') && 'focus' in client) {
           client.focus();
           if (action === 'answer') {
-            client.postMessage({ type: 'ACTION_ANSWER' });
+            client.postMessage({ type: 'ACTION_ANSWER', from });
           } else if (action === 'reject') {
-            client.postMessage({ type: 'ACTION_REJECT' });
+            client.postMessage({ type: 'ACTION_REJECT', from });
           }
           return;
         }
       }
       // إذا لم يكن مفتوحاً، نفتحه مع بارامتر خاص
-      if (clients.openWindow) {
+      if (clients.openWindow && action !== 'reject') {
         let url = '/';
         if (action === 'answer') url += '?action=answer';
+        if (action === 'answer' && from) url += '&from=' + encodeURIComponent(from);
         return clients.openWindow(url);
       }
     })
@@ -1,11 +1,68 @@
-
 export enum AppState {
   IDLE = 'IDLE',
   MATCHING = 'MATCHING',
+  RINGING = 'RINGING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
+  ENDED = 'ENDED',
   ERROR = 'ERROR'
 }
 
+export type CallKind = 'random' | 'outgoing' | 'incoming';
+
+export type CallOutcome = 'completed' | 'missed' | 'rejected' | 'busy' | 'cancelled' | 'failed';
+
+export interface CallRecord {
+  id?: number;
+  peerId: string;
+  kind: CallKind;
+  outcome: CallOutcome;
+  startedAt: number;
+  duration: number;
+  transcript?: ChatMessage[];
+}
+
+export interface Contact {
+  peerId: string;
+  nickname: string;
+  favourite: boolean;
+  createdAt: number;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+export interface ChatMessage {
+  id: string;
+  sender: 'me' | 'them';
+  text: string;
+  sentAt: number;
+  status?: MessageStatus;
+  transferId?: string;
+  /** Peer ID of the sender of a received message, which tells group participants apart. */
+  from?: string;
+}
+
+export type TransferStatus = 'offered' | 'transferring' | 'verifying' | 'done' | 'declined' | 'cancelled' | 'failed';
+
+export interface FileTransfer {
+  id: string;
+  direction: 'send' | 'receive';
+  name: string;
+  mime: string;
+  size: number;
+  transferred: number;
+  status: TransferStatus;
+  url?: string;
+}
+
+export type FacingMode = 'user' | 'environment';
+
+/** Chosen microphone and camera; null means the browser default. */
+export interface InputDevices {
+  audioinput: string | null;
+  videoinput: string | null;
+}
+
 export interface Persona {
   name: string;
   instruction: string;
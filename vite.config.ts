@@ -1,7 +1,34 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits sw.js with this build's files to precache and a version derived from
+ * them, so every deploy gets a fresh cache and the old one is dropped on activate.
+ * In dev the file is served as written, with an empty asset list.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'anyone-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const assets = Object.keys(bundle).filter(file => file !== 'index.html').map(file => `/${file}`).sort();
+    const html = bundle['index.html'];
+    const template = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+    const version = createHash('sha256')
+      .update(assets.join('\n'))
+      .update(html?.type === 'asset' ? html.source : '')
+      .update(template)
+      .digest('hex')
+      .slice(0, 12);
+    const source = template
+      .replace("const VERSION = 'dev';", `const VERSION = '${version}';`)
+      .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`);
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +36,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MATCHMAKER_URL': JSON.stringify(env.MATCHMAKER_URL),
+        'process.env.PUSH_RELAY_URL': JSON.stringify(env.PUSH_RELAY_URL),
+        'process.env.PEER_HOST': JSON.stringify(env.PEER_HOST),
+        'process.env.PEER_PORT': JSON.stringify(env.PEER_PORT),
+        'process.env.PEER_PATH': JSON.stringify(env.PEER_PATH),
+        'process.env.PEER_SECURE': JSON.stringify(env.PEER_SECURE),
+        'process.env.ICE_SERVERS': JSON.stringify(env.ICE_SERVERS)
       },
       resolve: {
         alias: {